@@ -3,10 +3,20 @@ import type {
   RedisAdapterOptions,
   AtomicExtensionResult,
   BatchAcquireResult,
+  CompletionMarker,
+  FairAcquireResult,
   LockInspection,
+  LockTakeover,
+  ReleaseUnsubscribe,
+  ScanLocksOptions,
+  ScanLocksResult,
+  ScannedLock,
+  TakeoverResult,
+  WaitForEdge,
 } from '../types/adapters.js';
 import type { Logger } from '../monitoring/Logger.js';
 import { DEFAULTS } from '../constants.js';
+import { parseLockOwner } from '../utils/crypto.js';
 
 // Validation limits
 const MAX_KEY_LENGTH = 512;
@@ -18,6 +28,14 @@ export const REDIS_SCRIPT_SUCCESS = 1;
 export const REDIS_SCRIPT_PARTIAL_FAILURE = 0;
 export const REDIS_SCRIPT_FAILURE = -1;
 export const REDIS_KEY_MISSING = -2;
+/** Takeover script result code of a lock taken over from a stale holder */
+export const TAKEOVER_STOLEN = 2;
+
+/**
+ * Suffix of the per-key channel that release scripts publish on
+ * Waiters subscribe to it to retry as soon as the holder lets go
+ */
+export const RELEASE_CHANNEL_SUFFIX = ':released';
 
 /**
  * Atomic extension Lua script with TTL feedback and race condition protection
@@ -63,6 +81,7 @@ export { ATOMIC_EXTEND_SCRIPT };
 
 export const DELETE_IF_MATCH_SCRIPT = `
   if redis.call("GET", KEYS[1]) == ARGV[1] then
+    redis.call("PUBLISH", KEYS[1] .. "${RELEASE_CHANNEL_SUFFIX}", ARGV[1])
     return redis.call("DEL", KEYS[1])
   else
     return 0
@@ -77,6 +96,77 @@ export const EXTEND_IF_MATCH_SCRIPT = `
   end
 `.trim();
 
+/**
+ * Batch release script, each key is released only if its value matches
+ *
+ * KEYS[1..N]: Lock keys to release
+ * ARGV[1..N]: Expected lock values (one per key)
+ *
+ * Returns: {released_1, ..., released_N}, 1 if the key was released, 0 otherwise
+ */
+export const BATCH_DELETE_IF_MATCH_SCRIPT = `
+  local released = {}
+  for i = 1, #KEYS do
+    if redis.call("GET", KEYS[i]) == ARGV[i] then
+      redis.call("PUBLISH", KEYS[i] .. "${RELEASE_CHANNEL_SUFFIX}", ARGV[i])
+      released[i] = redis.call("DEL", KEYS[i])
+    else
+      released[i] = 0
+    end
+  end
+  return released
+`.trim();
+
+/**
+ * Batch atomic extension script, same checks as ATOMIC_EXTEND_SCRIPT for every key
+ *
+ * KEYS[1..N]: Lock keys to extend
+ * ARGV[1..N]: Expected lock values (one per key)
+ * ARGV[N+1]: minimum TTL threshold (ms)
+ * ARGV[N+2]: new TTL to set (ms)
+ *
+ * Returns: {{result_code, current_ttl}, ...} in key order, codes as in ATOMIC_EXTEND_SCRIPT
+ */
+export const BATCH_ATOMIC_EXTEND_SCRIPT = `
+  local min_ttl = tonumber(ARGV[#KEYS + 1])
+  local new_ttl = tonumber(ARGV[#KEYS + 2])
+  local results = {}
+  for i = 1, #KEYS do
+    local current_ttl = redis.call("PTTL", KEYS[i])
+    if current_ttl == -2 then
+      results[i] = {-1, -2}
+    elseif current_ttl < min_ttl then
+      results[i] = {0, current_ttl}
+    elseif redis.call("GET", KEYS[i]) == ARGV[i] then
+      redis.call("PEXPIRE", KEYS[i], new_ttl)
+      results[i] = {1, current_ttl}
+    else
+      results[i] = {-1, current_ttl}
+    end
+  end
+  return results
+`.trim();
+
+/**
+ * Batch inspection script
+ *
+ * KEYS[1..N]: Lock keys to inspect
+ *
+ * Returns: {inspection_1, ..., inspection_N}, each {value, ttl} or nil if the key is missing
+ */
+export const BATCH_INSPECT_SCRIPT = `
+  local inspections = {}
+  for i = 1, #KEYS do
+    local value = redis.call("GET", KEYS[i])
+    if value then
+      inspections[i] = {value, redis.call("PTTL", KEYS[i])}
+    else
+      inspections[i] = false
+    end
+  end
+  return inspections
+`.trim();
+
 /**
  * Atomic batch lock acquisition script
  *
@@ -91,52 +181,960 @@ export const EXTEND_IF_MATCH_SCRIPT = `
  * - If Phase 2 completes, all keys are guaranteed to be set
  * - Script execution is atomic even if Redis crashes or client disconnects
  *
- * KEYS[1..N]: Lock keys to acquire
- * ARGV[1..N]: Lock values (one per key)
- * ARGV[N+1]: TTL in milliseconds
+ * KEYS[1..N]: Lock keys to acquire
+ * ARGV[1..N]: Lock values (one per key)
+ * ARGV[N+1]: TTL in milliseconds
+ *
+ * Returns: {success, count_or_index, failed_key?}
+ *   success=1: All locks acquired, count_or_index = number of locks
+ *   success=0: Acquisition failed, count_or_index = index of conflicting key
+ */
+export const BATCH_ACQUIRE_SCRIPT = `
+  -- Phase 1: Check all keys are available
+  for i = 1, #KEYS do
+    if redis.call("EXISTS", KEYS[i]) == 1 then
+      return {0, i, KEYS[i]}
+    end
+  end
+
+  -- Phase 2: All keys available, acquire atomically
+  local ttl = tonumber(ARGV[#ARGV])
+  for i = 1, #KEYS do
+    redis.call("SET", KEYS[i], ARGV[i], "PX", ttl)
+  end
+
+  return {1, #KEYS}
+`.trim();
+
+/**
+ * Suffix of the counter key holding the last fencing token issued for a lock key
+ */
+export const FENCING_KEY_SUFFIX = ':fence';
+
+/**
+ * Lock acquisition script with fencing token
+ * The counter key never expires, so tokens keep increasing across lock lifetimes
+ *
+ * KEYS[1]: lock key
+ * KEYS[2]: fencing counter key
+ * ARGV[1]: lock value
+ * ARGV[2]: TTL in milliseconds
+ *
+ * Returns: fencing token (>= 1) on success, 0 if the lock is already held
+ */
+export const FENCED_ACQUIRE_SCRIPT = `
+if redis.call("SET", KEYS[1], ARGV[1], "NX", "PX", ARGV[2]) then
+  return redis.call("INCR", KEYS[2])
+end
+return 0
+`.trim();
+
+/**
+ * Atomic batch lock acquisition script with fencing tokens
+ * Same all-or-nothing semantics as BATCH_ACQUIRE_SCRIPT
+ *
+ * KEYS[1..N]: Lock keys to acquire
+ * KEYS[N+1..2N]: Fencing counter keys (one per lock key)
+ * ARGV[1..N]: Lock values (one per key)
+ * ARGV[N+1]: TTL in milliseconds
+ *
+ * Returns: {1, N, token_1, ..., token_N} on success, {0, index, failed_key} on conflict
+ */
+export const FENCED_BATCH_ACQUIRE_SCRIPT = `
+  local n = #KEYS / 2
+
+  for i = 1, n do
+    if redis.call("EXISTS", KEYS[i]) == 1 then
+      return {0, i, KEYS[i]}
+    end
+  end
+
+  local ttl = tonumber(ARGV[#ARGV])
+  local result = {1, n}
+  for i = 1, n do
+    redis.call("SET", KEYS[i], ARGV[i], "PX", ttl)
+    result[i + 2] = redis.call("INCR", KEYS[n + i])
+  end
+
+  return result
+`.trim();
+
+/**
+ * Suffix of the key holding the hold count of a reentrant lock
+ */
+export const HOLDS_KEY_SUFFIX = ':holds';
+
+/**
+ * Reentrant lock acquisition script
+ * The lock key stores the owner identity, a companion key counts nested holds
+ *
+ * KEYS[1]: lock key
+ * KEYS[2]: hold count key
+ * ARGV[1]: owner identity
+ * ARGV[2]: TTL in milliseconds
+ *
+ * Returns: new hold count (>= 1) on success, 0 if held by another owner
+ */
+export const REENTRANT_ACQUIRE_SCRIPT = `
+local ttl = tonumber(ARGV[2])
+local current = redis.call("GET", KEYS[1])
+
+if not current then
+  redis.call("SET", KEYS[1], ARGV[1], "PX", ttl)
+  redis.call("SET", KEYS[2], 1, "PX", ttl)
+  return 1
+end
+
+if current ~= ARGV[1] then
+  return 0
+end
+
+local holds = (tonumber(redis.call("GET", KEYS[2])) or 1) + 1
+local remaining = math.max(redis.call("PTTL", KEYS[1]), ttl)
+redis.call("PEXPIRE", KEYS[1], remaining)
+redis.call("SET", KEYS[2], holds, "PX", remaining)
+return holds
+`.trim();
+
+/**
+ * Reentrant lock release script
+ * Drops one hold and deletes the lock once the last hold is released
+ *
+ * KEYS[1]: lock key
+ * KEYS[2]: hold count key
+ * ARGV[1]: owner identity
+ *
+ * Returns: remaining hold count (0 = lock deleted), -1 if not held by this owner
+ */
+export const REENTRANT_RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) ~= ARGV[1] then
+  return -1
+end
+
+local holds = (tonumber(redis.call("GET", KEYS[2])) or 1) - 1
+if holds <= 0 then
+  redis.call("DEL", KEYS[1], KEYS[2])
+  redis.call("PUBLISH", KEYS[1] .. "${RELEASE_CHANNEL_SUFFIX}", ARGV[1])
+  return 0
+end
+
+redis.call("SET", KEYS[2], holds, "PX", redis.call("PTTL", KEYS[1]))
+return holds
+`.trim();
+
+/**
+ * Reentrant lock extension script
+ * Extends the lock key and its hold count together
+ *
+ * KEYS[1]: lock key
+ * KEYS[2]: hold count key
+ * ARGV[1]: owner identity
+ * ARGV[2]: new TTL in milliseconds
+ *
+ * Returns: 1 if extended, 0 if not held by this owner
+ */
+export const REENTRANT_EXTEND_SCRIPT = `
+if redis.call("GET", KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+
+redis.call("PEXPIRE", KEYS[1], ARGV[2])
+redis.call("PEXPIRE", KEYS[2], ARGV[2])
+return 1
+`.trim();
+
+/**
+ * Lock inspection Lua script
+ * Atomically retrieves lock value and remaining TTL
+ *
+ * KEYS[1]: lock key
+ *
+ * Returns: [value, ttl] as array, or nil if key doesn't exist
+ *   value: current lock value (owner token)
+ *   ttl: remaining TTL in milliseconds (-2 if key doesn't exist, -1 if no TTL)
+ */
+export const INSPECT_SCRIPT = `
+local value = redis.call("GET", KEYS[1])
+-- If key doesn't exist, return nil (becomes null in JS)
+if not value then
+  return nil
+end
+local ttl = redis.call("PTTL", KEYS[1])
+-- Returns [value, ttl] as array
+return {value, ttl}
+`.trim();
+
+/**
+ * Lua snippet that reads the server clock in milliseconds
+ * Lease-based scripts use server time so holders on different hosts agree on expiry
+ */
+const LUA_NOW_MS = `
+local server_time = redis.call("TIME")
+local now = tonumber(server_time[1]) * 1000 + math.floor(tonumber(server_time[2]) / 1000)
+`.trim();
+
+/**
+ * Suffix of the sorted set holding read leases of a read-write lock
+ */
+export const READERS_KEY_SUFFIX = ':readers';
+
+/**
+ * Suffix of the key recording a waiting writer (writer preference)
+ */
+export const WRITER_INTENT_KEY_SUFFIX = ':writer-intent';
+
+/**
+ * Base of the companion keys of a read-write lock, hashed to the slot of the lock key
+ * A key with a hash tag keeps it, any other key becomes the tag itself, so
+ * `orders` gets `{orders}:readers` and `{tenant}:orders` gets `{tenant}:orders:readers`.
+ */
+export function hashTagBase(key: string): string {
+  // A '}' would end the wrapping tag early, keys carrying one keep their own slot rules
+  return key.includes('}') ? key : `{${key}}`;
+}
+
+/**
+ * Read lock acquisition script (shared readers)
+ *
+ * KEYS[1]: write lock key
+ * KEYS[2]: readers sorted set (member = reader token, score = lease expiry in ms)
+ * KEYS[3]: writer intent key
+ * ARGV[1]: reader token
+ * ARGV[2]: TTL in milliseconds
+ * ARGV[3]: writer preference flag ("1" = yield to waiting writers)
+ *
+ * Returns: 1=acquired, 0=write lock held, -1=writer waiting
+ */
+export const ACQUIRE_READ_SCRIPT = `
+${LUA_NOW_MS}
+local ttl = tonumber(ARGV[2])
+
+if redis.call("EXISTS", KEYS[1]) == 1 then
+  return 0
+end
+
+if ARGV[3] == "1" and redis.call("EXISTS", KEYS[3]) == 1 then
+  return -1
+end
+
+redis.call("ZREMRANGEBYSCORE", KEYS[2], "-inf", now)
+redis.call("ZADD", KEYS[2], now + ttl, ARGV[1])
+if redis.call("PTTL", KEYS[2]) < ttl then
+  redis.call("PEXPIRE", KEYS[2], ttl)
+end
+
+return 1
+`.trim();
+
+/**
+ * Write lock acquisition script (exclusive writer)
+ *
+ * KEYS[1]: write lock key
+ * KEYS[2]: readers sorted set
+ * KEYS[3]: writer intent key
+ * ARGV[1]: writer token
+ * ARGV[2]: TTL in milliseconds
+ * ARGV[3]: writer intent TTL in milliseconds (0 = no writer preference)
+ *
+ * Returns: 1=acquired, 0=held by another writer or active readers
+ */
+export const ACQUIRE_WRITE_SCRIPT = `
+${LUA_NOW_MS}
+
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  redis.call("ZREMRANGEBYSCORE", KEYS[2], "-inf", now)
+  if redis.call("ZCARD", KEYS[2]) == 0 then
+    redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2])
+    if redis.call("GET", KEYS[3]) == ARGV[1] then
+      redis.call("DEL", KEYS[3])
+    end
+    return 1
+  end
+end
+
+-- Record intent so new readers yield to this writer
+local intent_ttl = tonumber(ARGV[3])
+if intent_ttl > 0 then
+  local intent = redis.call("GET", KEYS[3])
+  if not intent or intent == ARGV[1] then
+    redis.call("SET", KEYS[3], ARGV[1], "PX", intent_ttl)
+  end
+end
+
+return 0
+`.trim();
+
+/**
+ * Write lock release script
+ * Releases the write lock and any writer intent owned by the same token
+ *
+ * KEYS[1]: write lock key
+ * KEYS[2]: writer intent key
+ * ARGV[1]: writer token
+ *
+ * Returns: 1 if the write lock was released, 0 otherwise
+ */
+export const RELEASE_WRITE_SCRIPT = `
+if redis.call("GET", KEYS[2]) == ARGV[1] then
+  redis.call("DEL", KEYS[2])
+end
+
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+
+return 0
+`.trim();
+
+/**
+ * Lease release script
+ * Removes a holder from a lease sorted set, deleting the set when it becomes empty
+ *
+ * KEYS[1]: lease sorted set
+ * ARGV[1]: holder token
+ *
+ * Returns: 1 if the lease was removed, 0 otherwise
+ */
+export const RELEASE_LEASE_SCRIPT = `
+local removed = redis.call("ZREM", KEYS[1], ARGV[1])
+if removed == 1 and redis.call("ZCARD", KEYS[1]) == 0 then
+  redis.call("DEL", KEYS[1])
+end
+return removed
+`.trim();
+
+/**
+ * Lease extension script
+ * Pushes a live holder's lease expiry forward and keeps the set TTL covering it
+ *
+ * KEYS[1]: lease sorted set
+ * ARGV[1]: holder token
+ * ARGV[2]: new TTL in milliseconds
+ *
+ * Returns: 1 if extended, 0 if the lease is missing or already expired
+ */
+export const EXTEND_LEASE_SCRIPT = `
+${LUA_NOW_MS}
+local ttl = tonumber(ARGV[2])
+
+local expiry = redis.call("ZSCORE", KEYS[1], ARGV[1])
+if not expiry or tonumber(expiry) <= now then
+  return 0
+end
+
+redis.call("ZADD", KEYS[1], "XX", now + ttl, ARGV[1])
+if redis.call("PTTL", KEYS[1]) < ttl then
+  redis.call("PEXPIRE", KEYS[1], ttl)
+end
+
+return 1
+`.trim();
+
+/**
+ * Semaphore acquisition script (up to N concurrent holders)
+ *
+ * KEYS[1]: semaphore sorted set (member = holder token, score = lease expiry in ms)
+ * ARGV[1]: holder token
+ * ARGV[2]: maximum number of holders
+ * ARGV[3]: TTL in milliseconds
+ *
+ * Returns: 1=acquired, 0=all permits taken
+ */
+export const ACQUIRE_SEMAPHORE_SCRIPT = `
+${LUA_NOW_MS}
+local ttl = tonumber(ARGV[3])
+
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now)
+if redis.call("ZCARD", KEYS[1]) >= tonumber(ARGV[2]) then
+  return 0
+end
+
+redis.call("ZADD", KEYS[1], now + ttl, ARGV[1])
+if redis.call("PTTL", KEYS[1]) < ttl then
+  redis.call("PEXPIRE", KEYS[1], ttl)
+end
+
+return 1
+`.trim();
+
+/**
+ * Live lease count script
+ *
+ * KEYS[1]: lease sorted set
+ *
+ * Returns: number of leases that have not expired
+ */
+export const COUNT_LEASES_SCRIPT = `
+${LUA_NOW_MS}
+return redis.call("ZCOUNT", KEYS[1], "(" .. now, "+inf")
+`.trim();
+
+/**
+ * Suffixes of the keys backing the waiter queue of a fair lock
+ * The queue is ordered by ticket sequence, the timeouts set tracks when each ticket goes stale
+ */
+export const QUEUE_KEY_SUFFIX = ':queue';
+export const QUEUE_TIMEOUTS_KEY_SUFFIX = ':queue-timeouts';
+export const QUEUE_SEQUENCE_KEY_SUFFIX = ':queue-seq';
+
+/**
+ * Fair (FIFO) lock acquisition script
+ * Enqueues the ticket on first call and grants the lock only to the head of the queue
+ *
+ * KEYS[1]: lock key
+ * KEYS[2]: queue sorted set (member = ticket, score = sequence number)
+ * KEYS[3]: ticket timeouts sorted set (member = ticket, score = expiry in ms)
+ * KEYS[4]: sequence counter
+ * KEYS[5]: fencing counter key
+ * ARGV[1]: ticket (also the lock value)
+ * ARGV[2]: lock TTL in milliseconds
+ * ARGV[3]: ticket TTL in milliseconds (waiters must poll within this window)
+ * ARGV[4]: fencing flag ("1" = issue a fencing token)
+ *
+ * Returns: {1, 0, fencing_token} when acquired, {0, waiters_ahead, 0} while queued
+ */
+export const FAIR_ACQUIRE_SCRIPT = `
+${LUA_NOW_MS}
+local ticket_ttl = tonumber(ARGV[3])
+
+-- Drop tickets of waiters that stopped polling
+local stale = redis.call("ZRANGEBYSCORE", KEYS[3], "-inf", now)
+for _, ticket in ipairs(stale) do
+  redis.call("ZREM", KEYS[2], ticket)
+  redis.call("ZREM", KEYS[3], ticket)
+end
+
+if not redis.call("ZSCORE", KEYS[2], ARGV[1]) then
+  redis.call("ZADD", KEYS[2], redis.call("INCR", KEYS[4]), ARGV[1])
+end
+redis.call("ZADD", KEYS[3], now + ticket_ttl, ARGV[1])
+-- The queue keys live as long as their longest ticket, a short ticket never shortens them
+for i = 2, 4 do
+  if redis.call("PTTL", KEYS[i]) < ticket_ttl then
+    redis.call("PEXPIRE", KEYS[i], ticket_ttl)
+  end
+end
+
+local head = redis.call("ZRANGE", KEYS[2], 0, 0)
+if head[1] == ARGV[1] and redis.call("EXISTS", KEYS[1]) == 0 then
+  redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2])
+  redis.call("ZREM", KEYS[2], ARGV[1])
+  redis.call("ZREM", KEYS[3], ARGV[1])
+  local token = 0
+  if ARGV[4] == "1" then
+    token = redis.call("INCR", KEYS[5])
+  end
+  return {1, 0, token}
+end
+
+return {0, redis.call("ZRANK", KEYS[2], ARGV[1]), 0}
+`.trim();
+
+/**
+ * Fair lock wait cancellation script
+ * Removes a waiter's ticket when it gives up
+ *
+ * KEYS[1]: queue sorted set
+ * KEYS[2]: ticket timeouts sorted set
+ * ARGV[1]: ticket
+ *
+ * Returns: 1 if the ticket was queued, 0 otherwise
+ */
+export const FAIR_CANCEL_SCRIPT = `
+redis.call("ZREM", KEYS[2], ARGV[1])
+return redis.call("ZREM", KEYS[1], ARGV[1])
+`.trim();
+
+/**
+ * Fair lock queue inspection script (read-only)
+ *
+ * KEYS[1]: queue sorted set
+ * KEYS[2]: ticket timeouts sorted set
+ *
+ * Returns: live tickets in queue order
+ */
+export const FAIR_QUEUE_SCRIPT = `
+${LUA_NOW_MS}
+local live = {}
+for _, ticket in ipairs(redis.call("ZRANGE", KEYS[1], 0, -1)) do
+  local expiry = redis.call("ZSCORE", KEYS[2], ticket)
+  if expiry and tonumber(expiry) > now then
+    table.insert(live, ticket)
+  end
+end
+return live
+`.trim();
+
+/**
+ * Separator between the segments of a hierarchical key path ('tenant:42:order:7')
+ */
+export const HIERARCHY_SEPARATOR = ':';
+
+/**
+ * Suffix of the sorted set holding intention leases of a hierarchical key
+ * Each holder below the key keeps a lease on every ancestor (member = holder value)
+ */
+export const INTENTS_KEY_SUFFIX = ':intents';
+
+/**
+ * Hierarchical (multi-granularity) lock acquisition script
+ * Locks each path exclusively and records intention leases on its ancestors,
+ * with the same all-or-nothing semantics as BATCH_ACQUIRE_SCRIPT
+ *
+ * KEYS, per path: lock key, intents set, then lock key and intents set of each ancestor
+ * ARGV[1]: TTL in milliseconds
+ * ARGV[2]: number of paths N
+ * ARGV[2i+1], ARGV[2i+2]: lock value and ancestor count of path i
+ *
+ * Returns: {1, N} on success, {0, index, failed_key} on conflict
+ */
+export const HIERARCHICAL_ACQUIRE_SCRIPT = `
+${LUA_NOW_MS}
+local ttl = tonumber(ARGV[1])
+local count = tonumber(ARGV[2])
+
+-- Phase 1: a path conflicts with a holder of the path itself, of an ancestor
+-- (covers the whole subtree) or below it (live intention lease on the path)
+local k = 1
+for i = 1, count do
+  local ancestors = tonumber(ARGV[2 * i + 2])
+  if redis.call("EXISTS", KEYS[k]) == 1 then
+    return {0, i, KEYS[k]}
+  end
+  redis.call("ZREMRANGEBYSCORE", KEYS[k + 1], "-inf", now)
+  if redis.call("ZCARD", KEYS[k + 1]) > 0 then
+    return {0, i, KEYS[k]}
+  end
+  for a = 1, ancestors do
+    if redis.call("EXISTS", KEYS[k + 2 * a]) == 1 then
+      return {0, i, KEYS[k]}
+    end
+  end
+  k = k + 2 + 2 * ancestors
+end
+
+-- Phase 2: lock every path and announce it on its ancestors
+k = 1
+for i = 1, count do
+  local value = ARGV[2 * i + 1]
+  local ancestors = tonumber(ARGV[2 * i + 2])
+  redis.call("SET", KEYS[k], value, "PX", ttl)
+  for a = 1, ancestors do
+    local intents = KEYS[k + 2 * a + 1]
+    redis.call("ZADD", intents, now + ttl, value)
+    if redis.call("PTTL", intents) < ttl then
+      redis.call("PEXPIRE", intents, ttl)
+    end
+  end
+  k = k + 2 + 2 * ancestors
+end
+
+return {1, count}
+`.trim();
+
+/**
+ * Hierarchical lock release script
+ * Drops the holder's intention leases, then deletes the lock if still owned
+ *
+ * KEYS[1]: lock key
+ * KEYS[2..N]: intents sets of the ancestors
+ * ARGV[1]: lock value
+ *
+ * Returns: 1 if the lock was released, 0 otherwise
+ */
+export const HIERARCHICAL_RELEASE_SCRIPT = `
+for i = 2, #KEYS do
+  redis.call("ZREM", KEYS[i], ARGV[1])
+end
+
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+
+return 0
+`.trim();
+
+/**
+ * Hierarchical lock extension script
+ * Extends the lock together with its intention leases on the ancestors
+ *
+ * KEYS[1]: lock key
+ * KEYS[2..N]: intents sets of the ancestors
+ * ARGV[1]: lock value
+ * ARGV[2]: new TTL in milliseconds
+ *
+ * Returns: 1 if extended, 0 if the lock is no longer owned
+ */
+export const HIERARCHICAL_EXTEND_SCRIPT = `
+${LUA_NOW_MS}
+local ttl = tonumber(ARGV[2])
+
+if redis.call("GET", KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+
+redis.call("PEXPIRE", KEYS[1], ttl)
+for i = 2, #KEYS do
+  redis.call("ZADD", KEYS[i], now + ttl, ARGV[1])
+  if redis.call("PTTL", KEYS[i]) < ttl then
+    redis.call("PEXPIRE", KEYS[i], ttl)
+  end
+end
+
+return 1
+`.trim();
+
+/**
+ * Suffix of the hash recording the holder's heartbeat (fields: value, at, staleAfter)
+ */
+export const HEARTBEAT_KEY_SUFFIX = ':heartbeat';
+
+/**
+ * Suffix of the list holding the takeover audit trail of a lock
+ */
+export const TAKEOVERS_KEY_SUFFIX = ':takeovers';
+
+/**
+ * Number of takeovers kept in the audit trail of a lock
+ */
+export const TAKEOVER_AUDIT_LENGTH = 100;
+
+/**
+ * Lock acquisition script with a heartbeat record
+ *
+ * KEYS[1]: lock key
+ * KEYS[2]: heartbeat hash
+ * ARGV[1]: lock value
+ * ARGV[2]: TTL in milliseconds
+ * ARGV[3]: staleness threshold in milliseconds
+ *
+ * Returns: 1 if acquired, 0 if the lock is held
+ */
+export const HEARTBEAT_ACQUIRE_SCRIPT = `
+${LUA_NOW_MS}
+if not redis.call("SET", KEYS[1], ARGV[1], "NX", "PX", ARGV[2]) then
+  return 0
+end
+
+redis.call("HSET", KEYS[2], "value", ARGV[1], "at", now, "staleAfter", ARGV[3])
+redis.call("PEXPIRE", KEYS[2], ARGV[2])
+return 1
+`.trim();
+
+/**
+ * Stale lock takeover script
+ * Acquires a free lock, or replaces a holder whose heartbeat is older than the
+ * threshold it declared. Holders without a matching heartbeat record are never
+ * replaced. Takeovers are pushed to the audit list, newest first.
+ *
+ * KEYS[1]: lock key
+ * KEYS[2]: heartbeat hash
+ * KEYS[3]: takeover audit list
+ * ARGV[1]: lock value of the new holder
+ * ARGV[2]: TTL in milliseconds
+ * ARGV[3]: staleness threshold of the new holder in milliseconds
+ * ARGV[4]: audit trail length
+ *
+ * Returns: {1} if the lock was free, {2, now, previousValue, heartbeatAge} if it was
+ *   taken over, {0} if the holder is alive
+ */
+export const TAKEOVER_SCRIPT = `
+${LUA_NOW_MS}
+local current = redis.call("GET", KEYS[1])
+local result = {1}
+
+if current then
+  local beat = redis.call("HMGET", KEYS[2], "value", "at", "staleAfter")
+  if beat[1] ~= current then
+    return {0}
+  end
+
+  local age = now - tonumber(beat[2])
+  if age <= tonumber(beat[3]) then
+    return {0}
+  end
+
+  redis.call("LPUSH", KEYS[3], cjson.encode({
+    at = now, previousValue = current, newValue = ARGV[1], heartbeatAge = age
+  }))
+  redis.call("LTRIM", KEYS[3], 0, tonumber(ARGV[4]) - 1)
+  result = {2, now, current, age}
+end
+
+redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2])
+redis.call("HSET", KEYS[2], "value", ARGV[1], "at", now, "staleAfter", ARGV[3])
+redis.call("PEXPIRE", KEYS[2], ARGV[2])
+return result
+`.trim();
+
+/**
+ * Heartbeat script, records liveness of the current holder
+ *
+ * KEYS[1]: lock key
+ * KEYS[2]: heartbeat hash
+ * ARGV[1]: lock value
+ *
+ * Returns: 1 if recorded, 0 if the lock is no longer owned
+ */
+export const HEARTBEAT_SCRIPT = `
+${LUA_NOW_MS}
+if redis.call("GET", KEYS[1]) ~= ARGV[1] or redis.call("HGET", KEYS[2], "value") ~= ARGV[1] then
+  return 0
+end
+
+redis.call("HSET", KEYS[2], "at", now)
+return 1
+`.trim();
+
+/**
+ * Extension script of locks with a heartbeat record
+ * Keeps the record alive as long as the lock, without moving the last heartbeat
+ *
+ * KEYS[1]: lock key
+ * KEYS[2]: heartbeat hash
+ * ARGV[1]: lock value
+ * ARGV[2]: new TTL in milliseconds
+ *
+ * Returns: 1 if extended, 0 if the lock is no longer owned
+ */
+export const HEARTBEAT_EXTEND_SCRIPT = `
+if redis.call("GET", KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+
+redis.call("PEXPIRE", KEYS[1], ARGV[2])
+if redis.call("HGET", KEYS[2], "value") == ARGV[1] then
+  redis.call("PEXPIRE", KEYS[2], ARGV[2])
+end
+return 1
+`.trim();
+
+/**
+ * Release script of locks with a heartbeat record
+ *
+ * KEYS[1]: lock key
+ * KEYS[2]: heartbeat hash
+ * ARGV[1]: lock value
+ *
+ * Returns: 1 if the lock was released, 0 otherwise
+ */
+export const HEARTBEAT_RELEASE_SCRIPT = `
+if redis.call("HGET", KEYS[2], "value") == ARGV[1] then
+  redis.call("DEL", KEYS[2])
+end
+
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  redis.call("PUBLISH", KEYS[1] .. "${RELEASE_CHANNEL_SUFFIX}", ARGV[1])
+  return redis.call("DEL", KEYS[1])
+end
+
+return 0
+`.trim();
+
+/**
+ * Takeover audit trail script (read-only)
+ *
+ * KEYS[1]: takeover audit list
+ *
+ * Returns: JSON-encoded takeover records, newest first
+ */
+export const TAKEOVERS_SCRIPT = `
+return redis.call("LRANGE", KEYS[1], 0, -1)
+`.trim();
+
+/**
+ * Suffix of the hash holding the completion marker of a run-once key (fields: result, completedAt)
+ */
+export const COMPLETED_KEY_SUFFIX = ':completed';
+
+/**
+ * Completion marker script, the first completion of a lock holder wins
+ *
+ * KEYS[1]: completion marker hash
+ * KEYS[2]: lock key
+ * ARGV[1]: lock value of the holder that ran the routine
+ * ARGV[2]: result payload
+ * ARGV[3]: retention in milliseconds
+ *
+ * Returns: 1 if stored, 0 if a marker exists or the lock is no longer held with the value
+ */
+export const MARK_COMPLETED_SCRIPT = `
+${LUA_NOW_MS}
+if redis.call("EXISTS", KEYS[1]) == 1 or redis.call("GET", KEYS[2]) ~= ARGV[1] then
+  return 0
+end
+
+redis.call("HSET", KEYS[1], "result", ARGV[2], "completedAt", now)
+redis.call("PEXPIRE", KEYS[1], ARGV[3])
+return 1
+`.trim();
+
+/**
+ * Completion marker read script (read-only)
+ *
+ * KEYS[1]: completion marker hash
+ *
+ * Returns: {result, completedAt}, both nil without a marker
+ */
+export const GET_COMPLETION_SCRIPT = `
+return redis.call("HMGET", KEYS[1], "result", "completedAt")
+`.trim();
+
+/**
+ * Suffixes of the wait-for graph hashes
+ * Holders map a lock key to '<expiresAt>:<participant>', waiters map a participant
+ * to '<expiresAt>:<lock key>'
+ */
+export const WAIT_FOR_HOLDERS_SUFFIX = ':holders';
+export const WAIT_FOR_WAITERS_SUFFIX = ':waiters';
+
+/**
+ * Maximum number of edges followed when searching a wait-for cycle
+ */
+export const WAIT_FOR_MAX_DEPTH = 64;
+
+/**
+ * Lua helpers of the wait-for graph scripts
+ * Edges carry their expiry, expired edges are dropped when read
+ */
+const LUA_WAIT_FOR_HELPERS = `
+${LUA_NOW_MS}
+local function edge_target(entry)
+  return entry and string.match(entry, "^%d+:(.*)$")
+end
+
+local function live_edge(hash, field)
+  local entry = redis.call("HGET", hash, field)
+  if not entry then
+    return nil
+  end
+  local expires_at = tonumber(string.match(entry, "^(%d+):"))
+  if not expires_at or expires_at <= now then
+    redis.call("HDEL", hash, field)
+    return nil
+  end
+  return edge_target(entry)
+end
+
+local function keep_alive(hash, ttl)
+  if redis.call("PTTL", hash) < ttl then
+    redis.call("PEXPIRE", hash, ttl)
+  end
+end
+`.trim();
+
+/**
+ * Wait-for graph enqueue script
+ * Walks holder and wait edges from the awaited key and records the wait edge
+ * unless the walk returns to the waiting participant.
+ *
+ * KEYS[1]: holders hash
+ * KEYS[2]: waiters hash
+ * ARGV[1]: participant
+ * ARGV[2]: lock key waited for
+ * ARGV[3]: edge TTL in milliseconds
+ * ARGV[4]: '1' if waiting for a key held by the participant itself is allowed
+ * ARGV[5]: maximum number of edges followed
  *
- * Returns: {success, count_or_index, failed_key?}
- *   success=1: All locks acquired, count_or_index = number of locks
- *   success=0: Acquisition failed, count_or_index = index of conflicting key
+ * Returns: {} if recorded, {participant1, key1, participant2, key2, ...} for a cycle
  */
-export const BATCH_ACQUIRE_SCRIPT = `
-  -- Phase 1: Check all keys are available
-  for i = 1, #KEYS do
-    if redis.call("EXISTS", KEYS[i]) == 1 then
-      return {0, i, KEYS[i]}
+export const WAIT_FOR_ENQUEUE_SCRIPT = `
+${LUA_WAIT_FOR_HELPERS}
+local cycle = {ARGV[1], ARGV[2]}
+local key = ARGV[2]
+
+for depth = 1, tonumber(ARGV[5]) do
+  local holder = live_edge(KEYS[1], key)
+  if not holder then
+    break
+  end
+  if holder == ARGV[1] then
+    if depth > 1 or ARGV[4] ~= "1" then
+      return cycle
     end
+    break
   end
 
-  -- Phase 2: All keys available, acquire atomically
-  local ttl = tonumber(ARGV[#ARGV])
-  for i = 1, #KEYS do
-    redis.call("SET", KEYS[i], ARGV[i], "PX", ttl)
+  key = live_edge(KEYS[2], holder)
+  if not key then
+    break
   end
+  table.insert(cycle, holder)
+  table.insert(cycle, key)
+end
 
-  return {1, #KEYS}
+local ttl = tonumber(ARGV[3])
+redis.call("HSET", KEYS[2], ARGV[1], (now + ttl) .. ":" .. ARGV[2])
+keep_alive(KEYS[2], ttl)
+return {}
 `.trim();
 
 /**
- * Lock inspection Lua script
- * Atomically retrieves lock value and remaining TTL
+ * Wait-for graph hold script, replaces the participant's wait edge on the key
  *
- * KEYS[1]: lock key
+ * KEYS[1]: holders hash
+ * KEYS[2]: waiters hash
+ * ARGV[1]: participant
+ * ARGV[2]: lock key
+ * ARGV[3]: edge TTL in milliseconds
  *
- * Returns: [value, ttl] as array, or nil if key doesn't exist
- *   value: current lock value (owner token)
- *   ttl: remaining TTL in milliseconds (-2 if key doesn't exist, -1 if no TTL)
+ * Returns: 1
  */
-export const INSPECT_SCRIPT = `
-local value = redis.call("GET", KEYS[1])
--- If key doesn't exist, return nil (becomes null in JS)
-if not value then
-  return nil
+export const WAIT_FOR_HOLD_SCRIPT = `
+${LUA_WAIT_FOR_HELPERS}
+local ttl = tonumber(ARGV[3])
+redis.call("HSET", KEYS[1], ARGV[2], (now + ttl) .. ":" .. ARGV[1])
+keep_alive(KEYS[1], ttl)
+
+if edge_target(redis.call("HGET", KEYS[2], ARGV[1])) == ARGV[2] then
+  redis.call("HDEL", KEYS[2], ARGV[1])
 end
-local ttl = redis.call("PTTL", KEYS[1])
--- Returns [value, ttl] as array
-return {value, ttl}
+return 1
+`.trim();
+
+/**
+ * Wait-for graph removal script, drops the participant's edges on the key
+ *
+ * KEYS[1]: holders hash
+ * KEYS[2]: waiters hash
+ * ARGV[1]: participant
+ * ARGV[2]: lock key
+ *
+ * Returns: 1
+ */
+export const WAIT_FOR_REMOVE_SCRIPT = `
+local function edge_target(entry)
+  return entry and string.match(entry, "^%d+:(.*)$")
+end
+
+if edge_target(redis.call("HGET", KEYS[1], ARGV[2])) == ARGV[1] then
+  redis.call("HDEL", KEYS[1], ARGV[2])
+end
+if edge_target(redis.call("HGET", KEYS[2], ARGV[1])) == ARGV[2] then
+  redis.call("HDEL", KEYS[2], ARGV[1])
+end
+return 1
 `.trim();
 
+/**
+ * Suffixes of the helper keys stored next to lock keys, skipped by lock scans
+ */
+export const AUXILIARY_KEY_SUFFIXES: readonly string[] = [
+  FENCING_KEY_SUFFIX,
+  HOLDS_KEY_SUFFIX,
+  READERS_KEY_SUFFIX,
+  WRITER_INTENT_KEY_SUFFIX,
+  QUEUE_KEY_SUFFIX,
+  QUEUE_TIMEOUTS_KEY_SUFFIX,
+  QUEUE_SEQUENCE_KEY_SUFFIX,
+  INTENTS_KEY_SUFFIX,
+  HEARTBEAT_KEY_SUFFIX,
+  TAKEOVERS_KEY_SUFFIX,
+  COMPLETED_KEY_SUFFIX,
+  WAIT_FOR_HOLDERS_SUFFIX,
+  WAIT_FOR_WAITERS_SUFFIX,
+];
+
 /**
  * Script cache keys for internal use by adapters
  * @internal
@@ -145,8 +1143,40 @@ export const SCRIPT_CACHE_KEYS = {
   ATOMIC_EXTEND: 'ATOMIC_EXTEND',
   BATCH_ACQUIRE: 'BATCH_ACQUIRE',
   INSPECT: 'INSPECT',
+  FENCED_ACQUIRE: 'FENCED_ACQUIRE',
+  FENCED_BATCH_ACQUIRE: 'FENCED_BATCH_ACQUIRE',
+  REENTRANT_ACQUIRE: 'REENTRANT_ACQUIRE',
+  REENTRANT_RELEASE: 'REENTRANT_RELEASE',
+  REENTRANT_EXTEND: 'REENTRANT_EXTEND',
   DELETE_IF_MATCH: 'DELETE_IF_MATCH',
   EXTEND_IF_MATCH: 'EXTEND_IF_MATCH',
+  ACQUIRE_READ: 'ACQUIRE_READ',
+  ACQUIRE_WRITE: 'ACQUIRE_WRITE',
+  RELEASE_WRITE: 'RELEASE_WRITE',
+  RELEASE_LEASE: 'RELEASE_LEASE',
+  EXTEND_LEASE: 'EXTEND_LEASE',
+  ACQUIRE_SEMAPHORE: 'ACQUIRE_SEMAPHORE',
+  COUNT_LEASES: 'COUNT_LEASES',
+  FAIR_ACQUIRE: 'FAIR_ACQUIRE',
+  FAIR_CANCEL: 'FAIR_CANCEL',
+  FAIR_QUEUE: 'FAIR_QUEUE',
+  HIERARCHICAL_ACQUIRE: 'HIERARCHICAL_ACQUIRE',
+  HIERARCHICAL_RELEASE: 'HIERARCHICAL_RELEASE',
+  HIERARCHICAL_EXTEND: 'HIERARCHICAL_EXTEND',
+  HEARTBEAT_ACQUIRE: 'HEARTBEAT_ACQUIRE',
+  TAKEOVER: 'TAKEOVER',
+  HEARTBEAT: 'HEARTBEAT',
+  HEARTBEAT_EXTEND: 'HEARTBEAT_EXTEND',
+  HEARTBEAT_RELEASE: 'HEARTBEAT_RELEASE',
+  TAKEOVERS: 'TAKEOVERS',
+  MARK_COMPLETED: 'MARK_COMPLETED',
+  GET_COMPLETION: 'GET_COMPLETION',
+  WAIT_FOR_ENQUEUE: 'WAIT_FOR_ENQUEUE',
+  WAIT_FOR_HOLD: 'WAIT_FOR_HOLD',
+  WAIT_FOR_REMOVE: 'WAIT_FOR_REMOVE',
+  BATCH_DELETE_IF_MATCH: 'BATCH_DELETE_IF_MATCH',
+  BATCH_ATOMIC_EXTEND: 'BATCH_ATOMIC_EXTEND',
+  BATCH_INSPECT: 'BATCH_INSPECT',
 } as const;
 
 /**
@@ -156,6 +1186,12 @@ export const SCRIPT_CACHE_KEYS = {
 export abstract class BaseAdapter implements RedisAdapter {
   protected readonly options: Required<Omit<RedisAdapterOptions, 'logger'>> & { logger?: Logger };
   protected readonly scriptSHAs = new Map<string, string>();
+  /** Release listeners by channel, shared by all subscriptions of this adapter */
+  protected readonly releaseListeners = new Map<string, Set<() => void>>();
+  /** Subscribe calls by channel, awaited by every listener of the channel */
+  protected readonly releaseSubscriptions = new Map<string, Promise<void>>();
+  /** Unsubscribe calls by channel, awaited before the channel is subscribed again */
+  protected readonly releaseUnsubscriptions = new Map<string, Promise<void>>();
 
   constructor(options: RedisAdapterOptions = {}) {
     const baseOptions = {
@@ -207,6 +1243,24 @@ export abstract class BaseAdapter implements RedisAdapter {
     }
   }
 
+  /**
+   * Validates writer intent TTL (0 disables writer preference)
+   */
+  protected validateIntentTTL(intentTTL: number): void {
+    if (intentTTL !== 0) {
+      this.validateTTL(intentTTL);
+    }
+  }
+
+  /**
+   * Validates semaphore permit limit
+   */
+  protected validateLimit(limit: number): void {
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new TypeError('Semaphore limit must be a positive integer');
+    }
+  }
+
   /**
    * Adds prefix to key if configured
    */
@@ -214,6 +1268,20 @@ export abstract class BaseAdapter implements RedisAdapter {
     return this.options.keyPrefix ? `${this.options.keyPrefix}${key}` : key;
   }
 
+  /**
+   * Readers sorted set of a read-write lock, in the slot of the lock key
+   */
+  protected readersKey(prefixedKey: string): string {
+    return `${hashTagBase(prefixedKey)}${READERS_KEY_SUFFIX}`;
+  }
+
+  /**
+   * Writer intent key of a read-write lock, in the slot of the lock key
+   */
+  protected writerIntentKey(prefixedKey: string): string {
+    return `${hashTagBase(prefixedKey)}${WRITER_INTENT_KEY_SUFFIX}`;
+  }
+
   protected stripPrefix(prefixedKey: string): string {
     if (this.options.keyPrefix && prefixedKey.startsWith(this.options.keyPrefix)) {
       return prefixedKey.slice(this.options.keyPrefix.length);
@@ -272,28 +1340,329 @@ export abstract class BaseAdapter implements RedisAdapter {
     this.validateTTL(ttl);
   }
 
+  /**
+   * Validate the keys and optional values of a batch release, extension or inspection
+   */
+  protected validateBatchKeys(keys: string[], values?: string[]): void {
+    if (values && keys.length !== values.length) {
+      throw new TypeError('Keys and values arrays must have the same length');
+    }
+
+    if (keys.length === 0) {
+      throw new TypeError('At least one key is required for batch operations');
+    }
+
+    for (let i = 0; i < keys.length; i++) {
+      this.validateKey(keys[i]!);
+    }
+    for (let i = 0; i < (values?.length ?? 0); i++) {
+      this.validateValue(values![i]!);
+    }
+  }
+
+  /**
+   * Validate the parameters of a lock scan
+   * @returns The SCAN page size and cursor, with defaults applied
+   */
+  protected validateScanLocks(
+    pattern: string,
+    options: ScanLocksOptions
+  ): { count: number; cursor: string } {
+    if (!pattern || typeof pattern !== 'string') {
+      throw new TypeError('Scan pattern must be a non-empty string');
+    }
+
+    const count = options.count ?? DEFAULTS.SCAN_COUNT;
+    if (!Number.isInteger(count) || count <= 0) {
+      throw new TypeError('Scan count must be a positive integer');
+    }
+
+    return { count, cursor: options.cursor ?? '0' };
+  }
+
+  /**
+   * SCAN MATCH pattern of a lock key pattern, with glob characters of the prefix escaped
+   */
+  protected scanMatchPattern(pattern: string): string {
+    return `${this.options.keyPrefix.replace(/[*?[\]\\]/g, '\\$&')}${pattern}`;
+  }
+
+  /**
+   * Inspect the lock keys among scanned keys
+   * Helper keys and keys no lock could use are skipped, as are keys released since
+   * the scan saw them
+   *
+   * @param prefixedKeys - Keys returned by SCAN, with the key prefix
+   */
+  protected async inspectScannedKeys(prefixedKeys: string[]): Promise<ScannedLock[]> {
+    const keys = prefixedKeys
+      .map(prefixedKey => this.stripPrefix(prefixedKey))
+      .filter(
+        key =>
+          key.length > 0 &&
+          key.length <= MAX_KEY_LENGTH &&
+          !/[\r\n]/.test(key) &&
+          !AUXILIARY_KEY_SUFFIXES.some(suffix => key.endsWith(suffix))
+      );
+
+    const inspections = await Promise.all(keys.map(key => this.inspect(key)));
+
+    const locks: ScannedLock[] = [];
+    inspections.forEach((inspection, i) => {
+      if (inspection) {
+        locks.push({ key: keys[i]!, ...inspection });
+      }
+    });
+    return locks;
+  }
+
+  /**
+   * Validate hierarchical acquisition parameters
+   * Paths must not contain empty segments or overlap, a batch holding both a key and
+   * one of its descendants would conflict with itself
+   */
+  protected validateHierarchicalAcquisition(keys: string[], values: string[], ttl: number): void {
+    this.validateBatchAcquisition(keys, values, ttl);
+
+    for (const key of keys) {
+      if (key.split(HIERARCHY_SEPARATOR).some(segment => segment === '')) {
+        throw new TypeError(`Hierarchical key "${key}" must not contain empty segments`);
+      }
+    }
+
+    const paths = new Set(keys);
+    for (const key of keys) {
+      const ancestor = this.hierarchyAncestors(key).find(candidate => paths.has(candidate));
+      if (ancestor !== undefined) {
+        throw new TypeError(`Hierarchical keys "${ancestor}" and "${key}" overlap`);
+      }
+    }
+  }
+
+  /**
+   * Ancestor paths of a hierarchical key, root first ('a:b:c' -> ['a', 'a:b'])
+   */
+  protected hierarchyAncestors(key: string): string[] {
+    const segments = key.split(HIERARCHY_SEPARATOR);
+    return segments
+      .slice(1)
+      .map((_, index) => segments.slice(0, index + 1).join(HIERARCHY_SEPARATOR));
+  }
+
+  /**
+   * Build KEYS and ARGV of HIERARCHICAL_ACQUIRE_SCRIPT
+   */
+  protected hierarchicalAcquireArgs(
+    keys: string[],
+    values: string[],
+    ttl: number
+  ): { keys: string[]; args: (string | number)[] } {
+    const scriptKeys: string[] = [];
+    const args: (string | number)[] = [ttl, keys.length];
+
+    keys.forEach((key, index) => {
+      const ancestors = this.hierarchyAncestors(key);
+      for (const path of [key, ...ancestors]) {
+        const prefixedPath = this.prefixKey(path);
+        scriptKeys.push(prefixedPath, `${prefixedPath}${INTENTS_KEY_SUFFIX}`);
+      }
+      args.push(values[index]!, ancestors.length);
+    });
+
+    return { keys: scriptKeys, args };
+  }
+
+  /**
+   * Build KEYS of the hierarchical release and extension scripts
+   */
+  protected hierarchicalHolderKeys(key: string): string[] {
+    return [
+      this.prefixKey(key),
+      ...this.hierarchyAncestors(key).map(
+        ancestor => `${this.prefixKey(ancestor)}${INTENTS_KEY_SUFFIX}`
+      ),
+    ];
+  }
+
+  /**
+   * Validate heartbeat acquisition parameters
+   */
+  protected validateHeartbeatAcquisition(
+    key: string,
+    value: string,
+    ttl: number,
+    staleAfter: number
+  ): void {
+    this.validateKey(key);
+    this.validateValue(value);
+    this.validateTTL(ttl);
+    if (!Number.isInteger(staleAfter) || staleAfter <= 0) {
+      throw new TypeError('Stale-after threshold must be a positive integer');
+    }
+  }
+
+  /**
+   * Build KEYS of the heartbeat scripts (lock key, heartbeat hash)
+   */
+  protected heartbeatKeys(key: string): [string, string] {
+    const prefixedKey = this.prefixKey(key);
+    return [prefixedKey, `${prefixedKey}${HEARTBEAT_KEY_SUFFIX}`];
+  }
+
+  /**
+   * Validate completion marker parameters
+   * Retention is not capped like lock TTLs, markers may outlive any lock
+   */
+  protected validateCompletion(
+    key: string,
+    value: string,
+    result: string,
+    retention: number
+  ): void {
+    this.validateKey(key);
+    this.validateValue(value);
+    if (typeof result !== 'string') {
+      throw new TypeError('Completion result must be a string');
+    }
+    if (!Number.isInteger(retention) || retention <= 0) {
+      throw new TypeError('Retention must be a positive integer');
+    }
+  }
+
+  /**
+   * Parse the {result, completedAt} reply of the completion marker script
+   */
+  protected parseCompletion(result: [unknown, unknown] | null): CompletionMarker | null {
+    if (!result || result[0] === null || result[0] === undefined) {
+      return null;
+    }
+
+    return { result: String(result[0]), completedAt: Number(result[1]) };
+  }
+
+  /**
+   * Validate wait-for graph parameters and build KEYS of the graph scripts
+   * (holders hash, waiters hash)
+   */
+  protected waitForKeys(graph: string, participant: string, key: string): [string, string] {
+    this.validateKey(graph);
+    this.validateKey(key);
+    if (!participant || typeof participant !== 'string') {
+      throw new TypeError('Participant must be a non-empty string');
+    }
+
+    const prefixedGraph = this.prefixKey(graph);
+    return [
+      `${prefixedGraph}${WAIT_FOR_HOLDERS_SUFFIX}`,
+      `${prefixedGraph}${WAIT_FOR_WAITERS_SUFFIX}`,
+    ];
+  }
+
+  /**
+   * Parse the flat participant/key list of a wait-for cycle
+   * @returns Cycle edges, or null when the script recorded the edge
+   */
+  protected parseWaitForCycle(result: string[]): WaitForEdge[] | null {
+    if (result.length === 0) {
+      return null;
+    }
+
+    const cycle: WaitForEdge[] = [];
+    for (let i = 0; i + 1 < result.length; i += 2) {
+      cycle.push({ participant: String(result[i]), key: String(result[i + 1]) });
+    }
+    return cycle;
+  }
+
+  /**
+   * Parse takeover script result into TakeoverResult
+   *
+   * @param key - Lock key (unprefixed)
+   * @param value - Lock value of the new holder
+   * @param result - Lua script result {code, at?, previousValue?, heartbeatAge?}
+   */
+  protected parseTakeoverResult(
+    key: string,
+    value: string,
+    result: [number, number?, string?, number?]
+  ): TakeoverResult {
+    const [code, at, previousValue, heartbeatAge] = result;
+
+    if (Number(code) !== TAKEOVER_STOLEN) {
+      return { acquired: Number(code) === REDIS_SCRIPT_SUCCESS };
+    }
+
+    return {
+      acquired: true,
+      takeover: this.takeoverRecord(key, {
+        at: Number(at),
+        previousValue: String(previousValue),
+        newValue: value,
+        heartbeatAge: Number(heartbeatAge),
+      }),
+    };
+  }
+
+  /**
+   * Parse the JSON-encoded entries of a takeover audit trail
+   * Malformed entries are skipped
+   */
+  protected parseTakeoverAudit(key: string, entries: string[]): LockTakeover[] {
+    const takeovers: LockTakeover[] = [];
+
+    for (const entry of entries) {
+      try {
+        const record = JSON.parse(entry) as Record<string, unknown>;
+        takeovers.push(
+          this.takeoverRecord(key, {
+            at: Number(record['at']),
+            previousValue: String(record['previousValue']),
+            newValue: String(record['newValue']),
+            heartbeatAge: Number(record['heartbeatAge']),
+          })
+        );
+      } catch {
+        // Not written by this library
+      }
+    }
+
+    return takeovers;
+  }
+
+  private takeoverRecord(
+    key: string,
+    record: Omit<LockTakeover, 'key' | 'previousOwner'>
+  ): LockTakeover {
+    const previousOwner = parseLockOwner(record.previousValue);
+    return { key, ...record, ...(previousOwner && { previousOwner }) };
+  }
+
   /**
    * Parse batch acquisition script result into BatchAcquireResult
    * Ensures consistent handling across all adapters
    *
-   * @param result - Lua script result [resultCode, countOrIndex, failedKey?]
+   * @param result - Lua script result [resultCode, countOrIndex, failedKey?] or
+   *   [resultCode, count, ...fencingTokens] for fenced acquisition
    * @param keys - Original keys array for fallback lookup
    * @returns BatchAcquireResult object
    */
   protected parseBatchAcquireResult(
-    result: [number, number, string?],
+    result: [number, number, string?] | [number, number, ...number[]],
     keys: string[]
   ): BatchAcquireResult {
     const [resultCode, countOrIndex, failedKey] = result;
 
     if (resultCode === REDIS_SCRIPT_SUCCESS) {
+      const fencingTokens = result.slice(2).map(Number);
+
       return {
         success: true,
-        acquiredCount: countOrIndex,
+        acquiredCount: Number(countOrIndex),
+        ...(fencingTokens.length > 0 && { fencingTokens }),
       };
     } else {
       const keyThatFailed = failedKey
-        ? this.stripPrefix(failedKey)
+        ? this.stripPrefix(String(failedKey))
         : (keys[countOrIndex - 1] ?? 'unknown');
 
       return {
@@ -305,6 +1674,22 @@ export abstract class BaseAdapter implements RedisAdapter {
     }
   }
 
+  /**
+   * Parse fair acquisition script result into FairAcquireResult
+   *
+   * @param result - Lua script result [acquired, waitersAhead, fencingToken]
+   * @returns FairAcquireResult object
+   */
+  protected parseFairAcquireResult(result: [number, number, number]): FairAcquireResult {
+    const [acquired, position, fencingToken] = result.map(Number) as [number, number, number];
+
+    return {
+      acquired: acquired === REDIS_SCRIPT_SUCCESS,
+      position,
+      ...(fencingToken > 0 && { fencingToken }),
+    };
+  }
+
   /**
    * Parse inspection script result into LockInspection object
    * Ensures consistent handling of Lua array return value across all adapters
@@ -317,7 +1702,17 @@ export abstract class BaseAdapter implements RedisAdapter {
       return null;
     }
     const [value, ttl] = result;
-    return { value, ttl };
+    const owner = parseLockOwner(value);
+    return { value, ttl, ...(owner && { owner }) };
+  }
+
+  /**
+   * Parse batch inspection script result, one LockInspection or null per key
+   */
+  protected parseBatchInspectionResult(
+    result: Array<[string, number] | null>
+  ): Array<LockInspection | null> {
+    return result.map(inspection => this.parseInspectionResult(inspection || null));
   }
 
   /**
@@ -361,6 +1756,101 @@ export abstract class BaseAdapter implements RedisAdapter {
     }
   }
 
+  /**
+   * Get the release notification channel of a lock key
+   */
+  protected releaseChannel(key: string): string {
+    return `${this.prefixKey(key)}${RELEASE_CHANNEL_SUFFIX}`;
+  }
+
+  /**
+   * Register a release listener, subscribing to the channel for its first listener
+   * Adapters pass their client-specific subscribe/unsubscribe calls. Every caller waits
+   * for the channel's subscribe call, so none returns before it is acknowledged, and
+   * all of them reject when it fails. A subscribe waits for a pending unsubscribe of
+   * the channel, which could otherwise reach Redis after it.
+   */
+  protected async addReleaseListener(
+    key: string,
+    listener: () => void,
+    subscribe: (channel: string) => Promise<void>,
+    unsubscribe: (channel: string) => Promise<void>
+  ): Promise<ReleaseUnsubscribe> {
+    const channel = this.releaseChannel(key);
+    let subscription = this.releaseSubscriptions.get(channel);
+
+    for (;;) {
+      if (!subscription) {
+        const unsubscribing = this.releaseUnsubscriptions.get(channel);
+        const pending = unsubscribing
+          ? unsubscribing.catch(() => {}).then(() => subscribe(channel))
+          : subscribe(channel);
+        pending.catch(() => {
+          if (this.releaseSubscriptions.get(channel) === pending) {
+            this.releaseSubscriptions.delete(channel);
+          }
+        });
+        this.releaseSubscriptions.set(channel, pending);
+        subscription = pending;
+      }
+
+      await subscription;
+
+      // The last listener may have unsubscribed the channel while this caller waited
+      const current = this.releaseSubscriptions.get(channel);
+      if (current === subscription) {
+        break;
+      }
+      subscription = current;
+    }
+
+    let listeners = this.releaseListeners.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.releaseListeners.set(channel, listeners);
+    }
+    listeners.add(listener);
+
+    return async () => {
+      const current = this.releaseListeners.get(channel);
+      if (!current?.delete(listener) || current.size > 0) {
+        return;
+      }
+
+      this.releaseListeners.delete(channel);
+      this.releaseSubscriptions.delete(channel);
+      const unsubscribing = unsubscribe(channel).finally(() => {
+        if (this.releaseUnsubscriptions.get(channel) === unsubscribing) {
+          this.releaseUnsubscriptions.delete(channel);
+        }
+      });
+      this.releaseUnsubscriptions.set(channel, unsubscribing);
+      await unsubscribing;
+    };
+  }
+
+  /**
+   * Forget all release listeners and pending subscription calls, e.g. on disconnect
+   */
+  protected clearReleaseListeners(): void {
+    this.releaseListeners.clear();
+    this.releaseSubscriptions.clear();
+    this.releaseUnsubscriptions.clear();
+  }
+
+  /**
+   * Notify the listeners of a release channel
+   */
+  protected dispatchRelease(channel: string): void {
+    for (const listener of this.releaseListeners.get(channel) ?? []) {
+      listener();
+    }
+  }
+
+  abstract subscribeToRelease(
+    key: string,
+    listener: () => void
+  ): Promise<ReleaseUnsubscribe | null>;
   abstract setNX(key: string, value: string, ttl: number): Promise<string | null>;
   abstract get(key: string): Promise<string | null>;
   abstract del(key: string): Promise<number>;
@@ -374,6 +1864,97 @@ export abstract class BaseAdapter implements RedisAdapter {
   ): Promise<AtomicExtensionResult>;
   abstract batchSetNX(keys: string[], values: string[], ttl: number): Promise<BatchAcquireResult>;
   abstract inspect(key: string): Promise<LockInspection | null>;
+  abstract batchDelIfMatch(keys: string[], values: string[]): Promise<boolean[]>;
+  abstract batchAtomicExtend(
+    keys: string[],
+    values: string[],
+    minTTL: number,
+    newTTL: number
+  ): Promise<AtomicExtensionResult[]>;
+  abstract batchInspect(keys: string[]): Promise<Array<LockInspection | null>>;
+  abstract scanLocks(pattern: string, options?: ScanLocksOptions): Promise<ScanLocksResult>;
+  abstract setNXWithFencingToken(key: string, value: string, ttl: number): Promise<number | null>;
+  abstract batchSetNXWithFencingTokens(
+    keys: string[],
+    values: string[],
+    ttl: number
+  ): Promise<BatchAcquireResult>;
+  abstract fairAcquire(
+    key: string,
+    ticket: string,
+    ttl: number,
+    ticketTTL: number,
+    fencing: boolean
+  ): Promise<FairAcquireResult>;
+  abstract cancelFairWait(key: string, ticket: string): Promise<boolean>;
+  abstract getFairQueue(key: string): Promise<string[]>;
+  abstract reentrantAcquire(key: string, ownerId: string, ttl: number): Promise<number>;
+  abstract reentrantRelease(key: string, ownerId: string): Promise<number>;
+  abstract reentrantExtend(key: string, ownerId: string, ttl: number): Promise<boolean>;
+  abstract acquireReadLock(
+    key: string,
+    token: string,
+    ttl: number,
+    writerPreference: boolean
+  ): Promise<boolean>;
+  abstract acquireWriteLock(
+    key: string,
+    token: string,
+    ttl: number,
+    intentTTL: number
+  ): Promise<boolean>;
+  abstract releaseReadLock(key: string, token: string): Promise<boolean>;
+  abstract releaseWriteLock(key: string, token: string): Promise<boolean>;
+  abstract extendReadLock(key: string, token: string, ttl: number): Promise<boolean>;
+  abstract countReaders(key: string): Promise<number>;
+  abstract acquireSemaphore(
+    key: string,
+    token: string,
+    limit: number,
+    ttl: number
+  ): Promise<boolean>;
+  abstract releaseSemaphore(key: string, token: string): Promise<boolean>;
+  abstract extendSemaphore(key: string, token: string, ttl: number): Promise<boolean>;
+  abstract countSemaphoreHolders(key: string): Promise<number>;
+  abstract hierarchicalAcquire(
+    keys: string[],
+    values: string[],
+    ttl: number
+  ): Promise<BatchAcquireResult>;
+  abstract hierarchicalRelease(key: string, value: string): Promise<boolean>;
+  abstract hierarchicalExtend(key: string, value: string, ttl: number): Promise<boolean>;
+  abstract heartbeatAcquire(
+    key: string,
+    value: string,
+    ttl: number,
+    staleAfter: number
+  ): Promise<boolean>;
+  abstract takeoverStale(
+    key: string,
+    value: string,
+    ttl: number,
+    staleAfter: number
+  ): Promise<TakeoverResult>;
+  abstract heartbeat(key: string, value: string): Promise<boolean>;
+  abstract heartbeatExtend(key: string, value: string, ttl: number): Promise<boolean>;
+  abstract heartbeatRelease(key: string, value: string): Promise<boolean>;
+  abstract getTakeovers(key: string): Promise<LockTakeover[]>;
+  abstract markCompleted(
+    key: string,
+    value: string,
+    result: string,
+    retention: number
+  ): Promise<boolean>;
+  abstract getCompletion(key: string): Promise<CompletionMarker | null>;
+  abstract waitForEnqueue(
+    graph: string,
+    participant: string,
+    key: string,
+    ttl: number,
+    reentrant: boolean
+  ): Promise<WaitForEdge[] | null>;
+  abstract waitForHold(graph: string, participant: string, key: string, ttl: number): Promise<void>;
+  abstract waitForRemove(graph: string, participant: string, key: string): Promise<void>;
   abstract ping(): Promise<string>;
   abstract isConnected(): boolean;
   abstract disconnect(): Promise<void>;
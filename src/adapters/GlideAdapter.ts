@@ -2,7 +2,15 @@ import type {
   RedisAdapterOptions,
   AtomicExtensionResult,
   BatchAcquireResult,
+  CompletionMarker,
+  FairAcquireResult,
   LockInspection,
+  LockTakeover,
+  ReleaseUnsubscribe,
+  ScanLocksOptions,
+  ScanLocksResult,
+  TakeoverResult,
+  WaitForEdge,
 } from '../types/adapters.js';
 import {
   BaseAdapter,
@@ -11,8 +19,49 @@ import {
   EXTEND_IF_MATCH_SCRIPT,
   BATCH_ACQUIRE_SCRIPT,
   INSPECT_SCRIPT,
+  BATCH_DELETE_IF_MATCH_SCRIPT,
+  BATCH_ATOMIC_EXTEND_SCRIPT,
+  BATCH_INSPECT_SCRIPT,
   SCRIPT_CACHE_KEYS,
   REDIS_SCRIPT_SUCCESS,
+  ACQUIRE_READ_SCRIPT,
+  ACQUIRE_WRITE_SCRIPT,
+  RELEASE_WRITE_SCRIPT,
+  RELEASE_LEASE_SCRIPT,
+  EXTEND_LEASE_SCRIPT,
+  ACQUIRE_SEMAPHORE_SCRIPT,
+  COUNT_LEASES_SCRIPT,
+  FENCING_KEY_SUFFIX,
+  FENCED_ACQUIRE_SCRIPT,
+  FENCED_BATCH_ACQUIRE_SCRIPT,
+  HOLDS_KEY_SUFFIX,
+  REENTRANT_ACQUIRE_SCRIPT,
+  REENTRANT_RELEASE_SCRIPT,
+  REENTRANT_EXTEND_SCRIPT,
+  QUEUE_KEY_SUFFIX,
+  QUEUE_TIMEOUTS_KEY_SUFFIX,
+  QUEUE_SEQUENCE_KEY_SUFFIX,
+  FAIR_ACQUIRE_SCRIPT,
+  FAIR_CANCEL_SCRIPT,
+  FAIR_QUEUE_SCRIPT,
+  HIERARCHICAL_ACQUIRE_SCRIPT,
+  HIERARCHICAL_RELEASE_SCRIPT,
+  HIERARCHICAL_EXTEND_SCRIPT,
+  HEARTBEAT_ACQUIRE_SCRIPT,
+  TAKEOVER_SCRIPT,
+  HEARTBEAT_SCRIPT,
+  HEARTBEAT_EXTEND_SCRIPT,
+  HEARTBEAT_RELEASE_SCRIPT,
+  TAKEOVERS_SCRIPT,
+  TAKEOVERS_KEY_SUFFIX,
+  COMPLETED_KEY_SUFFIX,
+  MARK_COMPLETED_SCRIPT,
+  GET_COMPLETION_SCRIPT,
+  WAIT_FOR_ENQUEUE_SCRIPT,
+  WAIT_FOR_HOLD_SCRIPT,
+  WAIT_FOR_REMOVE_SCRIPT,
+  WAIT_FOR_MAX_DEPTH,
+  TAKEOVER_AUDIT_LENGTH,
 } from './BaseAdapter.js';
 
 // Redis error constants
@@ -283,6 +332,626 @@ export class GlideAdapter extends BaseAdapter {
     return this.parseInspectionResult(result);
   }
 
+  async batchDelIfMatch(keys: string[], values: string[]): Promise<boolean[]> {
+    this.validateBatchKeys(keys, values);
+
+    const prefixedKeys = keys.map(k => this.prefixKey(k));
+
+    const result = await this._executeScript<number[]>(
+      SCRIPT_CACHE_KEYS.BATCH_DELETE_IF_MATCH,
+      BATCH_DELETE_IF_MATCH_SCRIPT,
+      prefixedKeys,
+      values
+    );
+
+    return result.map(released => Number(released) === REDIS_SCRIPT_SUCCESS);
+  }
+
+  async batchAtomicExtend(
+    keys: string[],
+    values: string[],
+    minTTL: number,
+    newTTL: number
+  ): Promise<AtomicExtensionResult[]> {
+    this.validateBatchKeys(keys, values);
+    this.validateTTL(newTTL);
+
+    if (!Number.isInteger(minTTL) || minTTL <= 0) {
+      throw new TypeError('Minimum TTL must be a positive integer');
+    }
+
+    const prefixedKeys = keys.map(k => this.prefixKey(k));
+
+    const result = await this._executeScript<Array<[number, number]>>(
+      SCRIPT_CACHE_KEYS.BATCH_ATOMIC_EXTEND,
+      BATCH_ATOMIC_EXTEND_SCRIPT,
+      prefixedKeys,
+      [...values, minTTL, newTTL]
+    );
+
+    return result.map((extension, i) =>
+      this.interpretAtomicExtensionResult(prefixedKeys[i]!, minTTL, extension)
+    );
+  }
+
+  async batchInspect(keys: string[]): Promise<Array<LockInspection | null>> {
+    this.validateBatchKeys(keys);
+
+    const prefixedKeys = keys.map(k => this.prefixKey(k));
+
+    const result = await this._executeScript<Array<[string, number] | null>>(
+      SCRIPT_CACHE_KEYS.BATCH_INSPECT,
+      BATCH_INSPECT_SCRIPT,
+      prefixedKeys,
+      []
+    );
+
+    return this.parseBatchInspectionResult(result);
+  }
+
+  async scanLocks(pattern = '*', options: ScanLocksOptions = {}): Promise<ScanLocksResult> {
+    const { count, cursor } = this.validateScanLocks(pattern, options);
+
+    let result: [unknown, unknown[]];
+    try {
+      result = (await this.withTimeout(
+        this.client.customCommand([
+          'SCAN',
+          cursor,
+          'MATCH',
+          this.scanMatchPattern(pattern),
+          'COUNT',
+          count.toString(),
+          'TYPE',
+          'string',
+        ])
+      )) as [unknown, unknown[]];
+    } catch (error) {
+      throw new Error(`Failed to scan locks: ${(error as Error).message}`);
+    }
+
+    // GLIDE may return cursor and keys as buffers
+    const [nextCursor, keys] = result;
+    return {
+      cursor: String(nextCursor),
+      locks: await this.inspectScannedKeys(keys.map(key => String(key))),
+    };
+  }
+
+  async setNXWithFencingToken(key: string, value: string, ttl: number): Promise<number | null> {
+    this.validateKey(key);
+    this.validateValue(value);
+    this.validateTTL(ttl);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.FENCED_ACQUIRE,
+      FENCED_ACQUIRE_SCRIPT,
+      [prefixedKey, `${prefixedKey}${FENCING_KEY_SUFFIX}`],
+      [value, ttl]
+    );
+
+    const token = Number(result);
+    return token > 0 ? token : null;
+  }
+
+  async batchSetNXWithFencingTokens(
+    keys: string[],
+    values: string[],
+    ttl: number
+  ): Promise<BatchAcquireResult> {
+    this.validateBatchAcquisition(keys, values, ttl);
+
+    const prefixedKeys = keys.map(k => this.prefixKey(k));
+
+    const result = await this._executeScript<[number, number, ...number[]]>(
+      SCRIPT_CACHE_KEYS.FENCED_BATCH_ACQUIRE,
+      FENCED_BATCH_ACQUIRE_SCRIPT,
+      [...prefixedKeys, ...prefixedKeys.map(k => `${k}${FENCING_KEY_SUFFIX}`)],
+      [...values, ttl]
+    );
+
+    return this.parseBatchAcquireResult(result, keys);
+  }
+
+  async fairAcquire(
+    key: string,
+    ticket: string,
+    ttl: number,
+    ticketTTL: number,
+    fencing: boolean
+  ): Promise<FairAcquireResult> {
+    this.validateKey(key);
+    this.validateValue(ticket);
+    this.validateTTL(ttl);
+    this.validateTTL(ticketTTL);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<[number, number, number]>(
+      SCRIPT_CACHE_KEYS.FAIR_ACQUIRE,
+      FAIR_ACQUIRE_SCRIPT,
+      [
+        prefixedKey,
+        `${prefixedKey}${QUEUE_KEY_SUFFIX}`,
+        `${prefixedKey}${QUEUE_TIMEOUTS_KEY_SUFFIX}`,
+        `${prefixedKey}${QUEUE_SEQUENCE_KEY_SUFFIX}`,
+        `${prefixedKey}${FENCING_KEY_SUFFIX}`,
+      ],
+      [ticket, ttl, ticketTTL, fencing ? 1 : 0]
+    );
+
+    return this.parseFairAcquireResult(result);
+  }
+
+  async cancelFairWait(key: string, ticket: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(ticket);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.FAIR_CANCEL,
+      FAIR_CANCEL_SCRIPT,
+      [`${prefixedKey}${QUEUE_KEY_SUFFIX}`, `${prefixedKey}${QUEUE_TIMEOUTS_KEY_SUFFIX}`],
+      [ticket]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async getFairQueue(key: string): Promise<string[]> {
+    this.validateKey(key);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<string[] | null>(
+      SCRIPT_CACHE_KEYS.FAIR_QUEUE,
+      FAIR_QUEUE_SCRIPT,
+      [`${prefixedKey}${QUEUE_KEY_SUFFIX}`, `${prefixedKey}${QUEUE_TIMEOUTS_KEY_SUFFIX}`],
+      []
+    );
+
+    return (result ?? []).map(String);
+  }
+
+  async reentrantAcquire(key: string, ownerId: string, ttl: number): Promise<number> {
+    this.validateKey(key);
+    this.validateValue(ownerId);
+    this.validateTTL(ttl);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.REENTRANT_ACQUIRE,
+      REENTRANT_ACQUIRE_SCRIPT,
+      [prefixedKey, `${prefixedKey}${HOLDS_KEY_SUFFIX}`],
+      [ownerId, ttl]
+    );
+
+    return Number(result);
+  }
+
+  async reentrantRelease(key: string, ownerId: string): Promise<number> {
+    this.validateKey(key);
+    this.validateValue(ownerId);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.REENTRANT_RELEASE,
+      REENTRANT_RELEASE_SCRIPT,
+      [prefixedKey, `${prefixedKey}${HOLDS_KEY_SUFFIX}`],
+      [ownerId]
+    );
+
+    return Number(result);
+  }
+
+  async reentrantExtend(key: string, ownerId: string, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(ownerId);
+    this.validateTTL(ttl);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.REENTRANT_EXTEND,
+      REENTRANT_EXTEND_SCRIPT,
+      [prefixedKey, `${prefixedKey}${HOLDS_KEY_SUFFIX}`],
+      [ownerId, ttl]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async acquireReadLock(
+    key: string,
+    token: string,
+    ttl: number,
+    writerPreference: boolean
+  ): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+    this.validateTTL(ttl);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.ACQUIRE_READ,
+      ACQUIRE_READ_SCRIPT,
+      [prefixedKey, this.readersKey(prefixedKey), this.writerIntentKey(prefixedKey)],
+      [token, ttl, writerPreference ? 1 : 0]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async acquireWriteLock(
+    key: string,
+    token: string,
+    ttl: number,
+    intentTTL: number
+  ): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+    this.validateTTL(ttl);
+    this.validateIntentTTL(intentTTL);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.ACQUIRE_WRITE,
+      ACQUIRE_WRITE_SCRIPT,
+      [prefixedKey, this.readersKey(prefixedKey), this.writerIntentKey(prefixedKey)],
+      [token, ttl, intentTTL]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async releaseReadLock(key: string, token: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.RELEASE_LEASE,
+      RELEASE_LEASE_SCRIPT,
+      [this.readersKey(prefixedKey)],
+      [token]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async releaseWriteLock(key: string, token: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.RELEASE_WRITE,
+      RELEASE_WRITE_SCRIPT,
+      [prefixedKey, this.writerIntentKey(prefixedKey)],
+      [token]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async extendReadLock(key: string, token: string, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+    this.validateTTL(ttl);
+
+    const prefixedKey = this.prefixKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.EXTEND_LEASE,
+      EXTEND_LEASE_SCRIPT,
+      [this.readersKey(prefixedKey)],
+      [token, ttl]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async countReaders(key: string): Promise<number> {
+    this.validateKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.COUNT_LEASES,
+      COUNT_LEASES_SCRIPT,
+      [this.readersKey(this.prefixKey(key))],
+      []
+    );
+
+    return Number(result);
+  }
+
+  async acquireSemaphore(key: string, token: string, limit: number, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+    this.validateLimit(limit);
+    this.validateTTL(ttl);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.ACQUIRE_SEMAPHORE,
+      ACQUIRE_SEMAPHORE_SCRIPT,
+      [this.prefixKey(key)],
+      [token, limit, ttl]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async releaseSemaphore(key: string, token: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.RELEASE_LEASE,
+      RELEASE_LEASE_SCRIPT,
+      [this.prefixKey(key)],
+      [token]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async extendSemaphore(key: string, token: string, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+    this.validateTTL(ttl);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.EXTEND_LEASE,
+      EXTEND_LEASE_SCRIPT,
+      [this.prefixKey(key)],
+      [token, ttl]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async countSemaphoreHolders(key: string): Promise<number> {
+    this.validateKey(key);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.COUNT_LEASES,
+      COUNT_LEASES_SCRIPT,
+      [this.prefixKey(key)],
+      []
+    );
+
+    return Number(result);
+  }
+  async hierarchicalAcquire(
+    keys: string[],
+    values: string[],
+    ttl: number
+  ): Promise<BatchAcquireResult> {
+    this.validateHierarchicalAcquisition(keys, values, ttl);
+
+    const script = this.hierarchicalAcquireArgs(keys, values, ttl);
+
+    const result = await this._executeScript<[number, number, string?]>(
+      SCRIPT_CACHE_KEYS.HIERARCHICAL_ACQUIRE,
+      HIERARCHICAL_ACQUIRE_SCRIPT,
+      script.keys,
+      script.args
+    );
+
+    return this.parseBatchAcquireResult(result, keys);
+  }
+
+  async hierarchicalRelease(key: string, value: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(value);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.HIERARCHICAL_RELEASE,
+      HIERARCHICAL_RELEASE_SCRIPT,
+      this.hierarchicalHolderKeys(key),
+      [value]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async hierarchicalExtend(key: string, value: string, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(value);
+    this.validateTTL(ttl);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.HIERARCHICAL_EXTEND,
+      HIERARCHICAL_EXTEND_SCRIPT,
+      this.hierarchicalHolderKeys(key),
+      [value, ttl]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async heartbeatAcquire(
+    key: string,
+    value: string,
+    ttl: number,
+    staleAfter: number
+  ): Promise<boolean> {
+    this.validateHeartbeatAcquisition(key, value, ttl, staleAfter);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.HEARTBEAT_ACQUIRE,
+      HEARTBEAT_ACQUIRE_SCRIPT,
+      this.heartbeatKeys(key),
+      [value, ttl, staleAfter]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async takeoverStale(
+    key: string,
+    value: string,
+    ttl: number,
+    staleAfter: number
+  ): Promise<TakeoverResult> {
+    this.validateHeartbeatAcquisition(key, value, ttl, staleAfter);
+
+    const [prefixedKey, heartbeatKey] = this.heartbeatKeys(key);
+    const result = await this._executeScript<[number, number?, string?, number?]>(
+      SCRIPT_CACHE_KEYS.TAKEOVER,
+      TAKEOVER_SCRIPT,
+      [prefixedKey, heartbeatKey, `${prefixedKey}${TAKEOVERS_KEY_SUFFIX}`],
+      [value, ttl, staleAfter, TAKEOVER_AUDIT_LENGTH]
+    );
+
+    return this.parseTakeoverResult(key, value, result);
+  }
+
+  async heartbeat(key: string, value: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(value);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.HEARTBEAT,
+      HEARTBEAT_SCRIPT,
+      this.heartbeatKeys(key),
+      [value]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async heartbeatExtend(key: string, value: string, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(value);
+    this.validateTTL(ttl);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.HEARTBEAT_EXTEND,
+      HEARTBEAT_EXTEND_SCRIPT,
+      this.heartbeatKeys(key),
+      [value, ttl]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async heartbeatRelease(key: string, value: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(value);
+
+    const result = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.HEARTBEAT_RELEASE,
+      HEARTBEAT_RELEASE_SCRIPT,
+      this.heartbeatKeys(key),
+      [value]
+    );
+
+    return result === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async getTakeovers(key: string): Promise<LockTakeover[]> {
+    this.validateKey(key);
+
+    const result = await this._executeScript<string[] | null>(
+      SCRIPT_CACHE_KEYS.TAKEOVERS,
+      TAKEOVERS_SCRIPT,
+      [`${this.prefixKey(key)}${TAKEOVERS_KEY_SUFFIX}`],
+      []
+    );
+
+    return this.parseTakeoverAudit(key, (result ?? []).map(String));
+  }
+
+  async markCompleted(
+    key: string,
+    value: string,
+    result: string,
+    retention: number
+  ): Promise<boolean> {
+    this.validateCompletion(key, value, result, retention);
+
+    const prefixedKey = this.prefixKey(key);
+    const stored = await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.MARK_COMPLETED,
+      MARK_COMPLETED_SCRIPT,
+      [`${prefixedKey}${COMPLETED_KEY_SUFFIX}`, prefixedKey],
+      [value, result, retention]
+    );
+
+    return stored === REDIS_SCRIPT_SUCCESS;
+  }
+
+  async getCompletion(key: string): Promise<CompletionMarker | null> {
+    this.validateKey(key);
+
+    const result = await this._executeScript<[unknown, unknown] | null>(
+      SCRIPT_CACHE_KEYS.GET_COMPLETION,
+      GET_COMPLETION_SCRIPT,
+      [`${this.prefixKey(key)}${COMPLETED_KEY_SUFFIX}`],
+      []
+    );
+
+    return this.parseCompletion(result);
+  }
+
+  async waitForEnqueue(
+    graph: string,
+    participant: string,
+    key: string,
+    ttl: number,
+    reentrant: boolean
+  ): Promise<WaitForEdge[] | null> {
+    const keys = this.waitForKeys(graph, participant, key);
+    this.validateTTL(ttl);
+
+    const result = await this._executeScript<string[]>(
+      SCRIPT_CACHE_KEYS.WAIT_FOR_ENQUEUE,
+      WAIT_FOR_ENQUEUE_SCRIPT,
+      keys,
+      [participant, key, ttl, reentrant ? 1 : 0, WAIT_FOR_MAX_DEPTH]
+    );
+
+    return this.parseWaitForCycle(result ?? []);
+  }
+
+  async waitForHold(graph: string, participant: string, key: string, ttl: number): Promise<void> {
+    const keys = this.waitForKeys(graph, participant, key);
+    this.validateTTL(ttl);
+
+    await this._executeScript<number>(SCRIPT_CACHE_KEYS.WAIT_FOR_HOLD, WAIT_FOR_HOLD_SCRIPT, keys, [
+      participant,
+      key,
+      ttl,
+    ]);
+  }
+
+  async waitForRemove(graph: string, participant: string, key: string): Promise<void> {
+    await this._executeScript<number>(
+      SCRIPT_CACHE_KEYS.WAIT_FOR_REMOVE,
+      WAIT_FOR_REMOVE_SCRIPT,
+      this.waitForKeys(graph, participant, key),
+      [participant, key]
+    );
+  }
+
+  /**
+   * GLIDE clients only receive pub/sub messages for subscriptions configured when
+   * the client is created, so waiters on this adapter always fall back to polling
+   */
+  async subscribeToRelease(key: string, _listener: () => void): Promise<ReleaseUnsubscribe | null> {
+    this.validateKey(key);
+    return null;
+  }
+
   async ping(): Promise<string> {
     try {
       const result = await this.withTimeout(this.client.customCommand(['PING']));
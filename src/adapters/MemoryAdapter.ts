@@ -2,9 +2,26 @@ import type {
   RedisAdapterOptions,
   AtomicExtensionResult,
   BatchAcquireResult,
+  CompletionMarker,
+  FairAcquireResult,
   LockInspection,
+  LockTakeover,
+  ReleaseUnsubscribe,
+  ScanLocksOptions,
+  ScanLocksResult,
+  TakeoverResult,
+  WaitForEdge,
 } from '../types/adapters.js';
-import { BaseAdapter } from './BaseAdapter.js';
+import {
+  BaseAdapter,
+  COMPLETED_KEY_SUFFIX,
+  HOLDS_KEY_SUFFIX,
+  INTENTS_KEY_SUFFIX,
+  TAKEOVER_AUDIT_LENGTH,
+  TAKEOVER_STOLEN,
+  TAKEOVERS_KEY_SUFFIX,
+  WAIT_FOR_MAX_DEPTH,
+} from './BaseAdapter.js';
 
 /**
  * Internal storage entry for memory-based locks
@@ -18,6 +35,70 @@ interface MemoryLockEntry {
   readonly timeout: ReturnType<typeof setTimeout>;
 }
 
+/**
+ * Heartbeat record of a lock holder, emulating the Redis heartbeat hash
+ */
+interface MemoryHeartbeat {
+  /** Lock value of the holder */
+  readonly value: string;
+  /** Time of the last heartbeat in milliseconds */
+  readonly at: number;
+  /** Staleness threshold declared by the holder in milliseconds */
+  readonly staleAfter: number;
+  /** Absolute expiration timestamp in milliseconds */
+  readonly expiresAt: number;
+}
+
+/**
+ * Completion marker of a run-once key, emulating the Redis marker hash
+ */
+interface MemoryCompletion extends CompletionMarker {
+  /** Absolute expiration timestamp in milliseconds */
+  readonly expiresAt: number;
+}
+
+/**
+ * Wait-for graph edge, emulating a field of the Redis graph hashes
+ */
+interface MemoryWaitForEdge {
+  /** Holding participant (holder edges) or awaited lock key (wait edges) */
+  readonly target: string;
+  /** Absolute expiration timestamp in milliseconds */
+  readonly expiresAt: number;
+}
+
+/**
+ * Convert a Redis glob-style pattern (*, ?, [...] and \\ escapes) to a regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    const classEnd = char === '[' ? pattern.indexOf(']', i + 2) : -1;
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]!);
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (classEnd !== -1) {
+      source += `[${pattern.slice(i + 1, classEnd).replace(/\\/g, '\\\\')}]`;
+      i = classEnd;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Escape the regular expression metacharacters of a literal
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 /**
  * In-memory Redis adapter for testing without a real Redis instance.
  *
@@ -35,6 +116,20 @@ interface MemoryLockEntry {
  */
 export class MemoryAdapter extends BaseAdapter {
   private readonly storage = new Map<string, MemoryLockEntry>();
+  /** Lease sets (token -> absolute expiry) emulating Redis sorted sets */
+  private readonly leaseSets = new Map<string, Map<string, number>>();
+  /** Fencing counters (never expire, like the Redis counter keys) */
+  private readonly fencingCounters = new Map<string, number>();
+  /** Fair lock waiter queues (ticket -> absolute expiry, in insertion order) */
+  private readonly fairQueues = new Map<string, Map<string, number>>();
+  /** Heartbeat records by heartbeat key */
+  private readonly heartbeats = new Map<string, MemoryHeartbeat>();
+  /** Takeover audit trails (JSON-encoded records, newest first) */
+  private readonly takeoverAudits = new Map<string, string[]>();
+  /** Completion markers by marker key */
+  private readonly completions = new Map<string, MemoryCompletion>();
+  /** Wait-for graph hashes (field -> edge) */
+  private readonly waitForGraphs = new Map<string, Map<string, MemoryWaitForEdge>>();
 
   constructor(options: RedisAdapterOptions = {}) {
     super(options);
@@ -62,6 +157,14 @@ export class MemoryAdapter extends BaseAdapter {
       clearTimeout(entry.timeout);
     }
     this.storage.clear();
+    this.leaseSets.clear();
+    this.fencingCounters.clear();
+    this.fairQueues.clear();
+    this.heartbeats.clear();
+    this.takeoverAudits.clear();
+    this.completions.clear();
+    this.waitForGraphs.clear();
+    this.clearReleaseListeners();
   }
 
   /**
@@ -112,6 +215,166 @@ export class MemoryAdapter extends BaseAdapter {
     this.storage.set(prefixedKey, { value, expiresAt, timeout });
   }
 
+  /**
+   * Get live leases of a lease set, dropping expired holders (lazy expiration)
+   */
+  private getLiveLeases(prefixedSetKey: string): Map<string, number> {
+    const leases = this.leaseSets.get(prefixedSetKey) ?? new Map<string, number>();
+    const now = Date.now();
+
+    for (const [token, expiresAt] of leases) {
+      if (expiresAt <= now) {
+        leases.delete(token);
+      }
+    }
+
+    if (leases.size === 0) {
+      this.leaseSets.delete(prefixedSetKey);
+    }
+
+    return leases;
+  }
+
+  /**
+   * Remove a holder from a lease set, dropping the set when it becomes empty
+   */
+  private removeLease(prefixedSetKey: string, token: string): boolean {
+    const leases = this.getLiveLeases(prefixedSetKey);
+    const removed = leases.delete(token);
+
+    if (leases.size === 0) {
+      this.leaseSets.delete(prefixedSetKey);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Push a live holder's lease expiry forward
+   */
+  private extendLease(prefixedSetKey: string, token: string, ttl: number): boolean {
+    const leases = this.getLiveLeases(prefixedSetKey);
+    if (!leases.has(token)) {
+      return false;
+    }
+
+    leases.set(token, Date.now() + ttl);
+    return true;
+  }
+
+  /**
+   * Increment and return the fencing counter of a lock key
+   */
+  private nextFencingToken(prefixedKey: string): number {
+    const token = (this.fencingCounters.get(prefixedKey) ?? 0) + 1;
+    this.fencingCounters.set(prefixedKey, token);
+    return token;
+  }
+
+  /**
+   * Get the waiter queue of a fair lock, dropping stale tickets first
+   */
+  private getLiveQueue(prefixedKey: string): Map<string, number> {
+    const queue = this.fairQueues.get(prefixedKey) ?? new Map<string, number>();
+    const now = Date.now();
+
+    for (const [ticket, expiresAt] of queue) {
+      if (expiresAt <= now) {
+        queue.delete(ticket);
+      }
+    }
+
+    if (queue.size === 0) {
+      this.fairQueues.delete(prefixedKey);
+    }
+
+    return queue;
+  }
+
+  /**
+   * Get the heartbeat record of a holder if it has not expired (lazy expiration)
+   */
+  private getLiveHeartbeat(heartbeatKey: string): MemoryHeartbeat | null {
+    const heartbeat = this.heartbeats.get(heartbeatKey);
+    if (heartbeat && heartbeat.expiresAt <= Date.now()) {
+      this.heartbeats.delete(heartbeatKey);
+      return null;
+    }
+
+    return heartbeat ?? null;
+  }
+
+  /**
+   * Get a completion marker if it has not expired (lazy expiration)
+   */
+  private getLiveCompletion(markerKey: string): MemoryCompletion | null {
+    const completion = this.completions.get(markerKey);
+    if (completion && completion.expiresAt <= Date.now()) {
+      this.completions.delete(markerKey);
+      return null;
+    }
+
+    return completion ?? null;
+  }
+
+  /**
+   * Get the target of a wait-for graph edge if it has not expired (lazy expiration)
+   */
+  private getLiveEdge(hashKey: string, field: string): string | null {
+    const hash = this.waitForGraphs.get(hashKey);
+    const edge = hash?.get(field);
+    if (edge && edge.expiresAt <= Date.now()) {
+      hash!.delete(field);
+      return null;
+    }
+
+    return edge?.target ?? null;
+  }
+
+  private setEdge(hashKey: string, field: string, target: string, ttl: number): void {
+    let hash = this.waitForGraphs.get(hashKey);
+    if (!hash) {
+      hash = new Map();
+      this.waitForGraphs.set(hashKey, hash);
+    }
+    hash.set(field, { target, expiresAt: Date.now() + ttl });
+  }
+
+  private deleteEdgeIfTarget(hashKey: string, field: string, target: string): void {
+    const hash = this.waitForGraphs.get(hashKey);
+    if (hash?.get(field)?.target === target) {
+      hash.delete(field);
+    }
+  }
+
+  /**
+   * Delete an entry only if it holds the expected value
+   */
+  private deleteIfValueMatches(prefixedKey: string, value: string): boolean {
+    const entry = this.getValidEntry(prefixedKey);
+
+    if (!entry || entry.value !== value) {
+      return false;
+    }
+
+    return this.deleteEntry(prefixedKey);
+  }
+
+  /**
+   * Delete an entry and its expiry timer
+   */
+  private deleteEntry(prefixedKey: string): boolean {
+    const entry = this.storage.get(prefixedKey);
+
+    if (!entry) {
+      return false;
+    }
+
+    clearTimeout(entry.timeout);
+    this.storage.delete(prefixedKey);
+    return true;
+  }
+
   async setNX(key: string, value: string, ttl: number): Promise<string | null> {
     this.validateKey(key);
     this.validateValue(value);
@@ -141,16 +404,7 @@ export class MemoryAdapter extends BaseAdapter {
   async del(key: string): Promise<number> {
     this.validateKey(key);
 
-    const prefixedKey = this.prefixKey(key);
-    const entry = this.storage.get(prefixedKey);
-
-    if (!entry) {
-      return 0;
-    }
-
-    clearTimeout(entry.timeout);
-    this.storage.delete(prefixedKey);
-    return 1;
+    return this.deleteEntry(this.prefixKey(key)) ? 1 : 0;
   }
 
   async delIfMatch(key: string, value: string): Promise<boolean> {
@@ -158,15 +412,13 @@ export class MemoryAdapter extends BaseAdapter {
     this.validateValue(value);
 
     const prefixedKey = this.prefixKey(key);
-    const entry = this.getValidEntry(prefixedKey);
+    const deleted = this.deleteIfValueMatches(prefixedKey, value);
 
-    if (!entry || entry.value !== value) {
-      return false;
+    if (deleted) {
+      this.dispatchRelease(this.releaseChannel(key));
     }
 
-    clearTimeout(entry.timeout);
-    this.storage.delete(prefixedKey);
-    return true;
+    return deleted;
   }
 
   async extendIfMatch(key: string, value: string, ttl: number): Promise<boolean> {
@@ -281,6 +533,29 @@ export class MemoryAdapter extends BaseAdapter {
     };
   }
 
+  async setNXWithFencingToken(key: string, value: string, ttl: number): Promise<number | null> {
+    const result = await this.setNX(key, value, ttl);
+
+    return result === 'OK' ? this.nextFencingToken(this.prefixKey(key)) : null;
+  }
+
+  async batchSetNXWithFencingTokens(
+    keys: string[],
+    values: string[],
+    ttl: number
+  ): Promise<BatchAcquireResult> {
+    const result = await this.batchSetNX(keys, values, ttl);
+
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      ...result,
+      fencingTokens: keys.map(key => this.nextFencingToken(this.prefixKey(key))),
+    };
+  }
+
   async inspect(key: string): Promise<LockInspection | null> {
     this.validateKey(key);
 
@@ -291,8 +566,576 @@ export class MemoryAdapter extends BaseAdapter {
       return null;
     }
 
-    const ttl = entry.expiresAt - Date.now();
-    return { value: entry.value, ttl };
+    return this.parseInspectionResult([entry.value, entry.expiresAt - Date.now()]);
+  }
+
+  async batchDelIfMatch(keys: string[], values: string[]): Promise<boolean[]> {
+    this.validateBatchKeys(keys, values);
+
+    // Single-key operations run synchronously, so the batch is not interleaved
+    return Promise.all(keys.map((key, i) => this.delIfMatch(key, values[i]!)));
+  }
+
+  async batchAtomicExtend(
+    keys: string[],
+    values: string[],
+    minTTL: number,
+    newTTL: number
+  ): Promise<AtomicExtensionResult[]> {
+    this.validateBatchKeys(keys, values);
+
+    return Promise.all(keys.map((key, i) => this.atomicExtend(key, values[i]!, minTTL, newTTL)));
+  }
+
+  async batchInspect(keys: string[]): Promise<Array<LockInspection | null>> {
+    this.validateBatchKeys(keys);
+
+    return Promise.all(keys.map(key => this.inspect(key)));
+  }
+
+  async scanLocks(pattern = '*', options: ScanLocksOptions = {}): Promise<ScanLocksResult> {
+    const { count, cursor } = this.validateScanLocks(pattern, options);
+
+    // The cursor is an offset into the keys, which keep their insertion order
+    const offset = Number(cursor);
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new TypeError(`Invalid scan cursor "${cursor}"`);
+    }
+
+    const matcher = globToRegExp(this.scanMatchPattern(pattern));
+    const page = Array.from(this.storage.keys()).slice(offset, offset + count);
+    const nextCursor = page.length < count ? '0' : String(offset + count);
+
+    return {
+      cursor: nextCursor,
+      locks: await this.inspectScannedKeys(page.filter(key => matcher.test(key))),
+    };
+  }
+
+  async fairAcquire(
+    key: string,
+    ticket: string,
+    ttl: number,
+    ticketTTL: number,
+    fencing: boolean
+  ): Promise<FairAcquireResult> {
+    this.validateKey(key);
+    this.validateValue(ticket);
+    this.validateTTL(ttl);
+    this.validateTTL(ticketTTL);
+
+    const prefixedKey = this.prefixKey(key);
+    const queue = this.getLiveQueue(prefixedKey);
+
+    // Map keeps insertion order, so refreshing a ticket does not move it
+    queue.set(ticket, Date.now() + ticketTTL);
+    this.fairQueues.set(prefixedKey, queue);
+
+    const [head] = queue.keys();
+    if (head === ticket && !this.getValidEntry(prefixedKey)) {
+      this.setWithExpiry(prefixedKey, ticket, ttl);
+      queue.delete(ticket);
+      if (queue.size === 0) {
+        this.fairQueues.delete(prefixedKey);
+      }
+
+      return {
+        acquired: true,
+        position: 0,
+        ...(fencing && { fencingToken: this.nextFencingToken(prefixedKey) }),
+      };
+    }
+
+    return { acquired: false, position: [...queue.keys()].indexOf(ticket) };
+  }
+
+  async cancelFairWait(key: string, ticket: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(ticket);
+
+    const prefixedKey = this.prefixKey(key);
+    const queue = this.getLiveQueue(prefixedKey);
+    const removed = queue.delete(ticket);
+
+    if (queue.size === 0) {
+      this.fairQueues.delete(prefixedKey);
+    }
+
+    return removed;
+  }
+
+  async getFairQueue(key: string): Promise<string[]> {
+    this.validateKey(key);
+
+    return [...this.getLiveQueue(this.prefixKey(key)).keys()];
+  }
+
+  async subscribeToRelease(key: string, listener: () => void): Promise<ReleaseUnsubscribe> {
+    this.validateKey(key);
+
+    // Listeners are notified in-process, there is no channel to subscribe to
+    return this.addReleaseListener(
+      key,
+      listener,
+      async () => {},
+      async () => {}
+    );
+  }
+
+  async reentrantAcquire(key: string, ownerId: string, ttl: number): Promise<number> {
+    this.validateKey(key);
+    this.validateValue(ownerId);
+    this.validateTTL(ttl);
+
+    const prefixedKey = this.prefixKey(key);
+    const holdsKey = `${prefixedKey}${HOLDS_KEY_SUFFIX}`;
+    const entry = this.getValidEntry(prefixedKey);
+
+    if (!entry) {
+      this.setWithExpiry(prefixedKey, ownerId, ttl);
+      this.setWithExpiry(holdsKey, '1', ttl);
+      return 1;
+    }
+
+    if (entry.value !== ownerId) {
+      return 0;
+    }
+
+    const holds = (Number(this.getValidEntry(holdsKey)?.value) || 1) + 1;
+    const remaining = Math.max(entry.expiresAt - Date.now(), ttl);
+    this.setWithExpiry(prefixedKey, ownerId, remaining);
+    this.setWithExpiry(holdsKey, String(holds), remaining);
+    return holds;
+  }
+
+  async reentrantRelease(key: string, ownerId: string): Promise<number> {
+    this.validateKey(key);
+    this.validateValue(ownerId);
+
+    const prefixedKey = this.prefixKey(key);
+    const holdsKey = `${prefixedKey}${HOLDS_KEY_SUFFIX}`;
+    const entry = this.getValidEntry(prefixedKey);
+
+    if (!entry || entry.value !== ownerId) {
+      return -1;
+    }
+
+    const holds = (Number(this.getValidEntry(holdsKey)?.value) || 1) - 1;
+    if (holds <= 0) {
+      this.deleteEntry(prefixedKey);
+      this.deleteEntry(holdsKey);
+      this.dispatchRelease(this.releaseChannel(key));
+      return 0;
+    }
+
+    this.setWithExpiry(holdsKey, String(holds), entry.expiresAt - Date.now());
+    return holds;
+  }
+
+  async reentrantExtend(key: string, ownerId: string, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(ownerId);
+    this.validateTTL(ttl);
+
+    const prefixedKey = this.prefixKey(key);
+    const holdsKey = `${prefixedKey}${HOLDS_KEY_SUFFIX}`;
+    const entry = this.getValidEntry(prefixedKey);
+
+    if (!entry || entry.value !== ownerId) {
+      return false;
+    }
+
+    this.setWithExpiry(prefixedKey, ownerId, ttl);
+    this.setWithExpiry(holdsKey, this.getValidEntry(holdsKey)?.value ?? '1', ttl);
+    return true;
+  }
+
+  async acquireReadLock(
+    key: string,
+    token: string,
+    ttl: number,
+    writerPreference: boolean
+  ): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+    this.validateTTL(ttl);
+
+    const prefixedKey = this.prefixKey(key);
+
+    if (this.getValidEntry(prefixedKey)) {
+      return false;
+    }
+
+    if (writerPreference && this.getValidEntry(this.writerIntentKey(prefixedKey))) {
+      return false;
+    }
+
+    const readersKey = this.readersKey(prefixedKey);
+    const leases = this.getLiveLeases(readersKey);
+    leases.set(token, Date.now() + ttl);
+    this.leaseSets.set(readersKey, leases);
+    return true;
+  }
+
+  async acquireWriteLock(
+    key: string,
+    token: string,
+    ttl: number,
+    intentTTL: number
+  ): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+    this.validateTTL(ttl);
+    this.validateIntentTTL(intentTTL);
+
+    const prefixedKey = this.prefixKey(key);
+    const intentKey = this.writerIntentKey(prefixedKey);
+
+    if (
+      !this.getValidEntry(prefixedKey) &&
+      this.getLiveLeases(this.readersKey(prefixedKey)).size === 0
+    ) {
+      this.setWithExpiry(prefixedKey, token, ttl);
+      this.deleteIfValueMatches(intentKey, token);
+      return true;
+    }
+
+    // Record intent so new readers yield to this writer
+    if (intentTTL > 0) {
+      const intent = this.getValidEntry(intentKey);
+      if (!intent || intent.value === token) {
+        this.setWithExpiry(intentKey, token, intentTTL);
+      }
+    }
+
+    return false;
+  }
+
+  async releaseReadLock(key: string, token: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+
+    return this.removeLease(this.readersKey(this.prefixKey(key)), token);
+  }
+
+  async releaseWriteLock(key: string, token: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+
+    const prefixedKey = this.prefixKey(key);
+    this.deleteIfValueMatches(this.writerIntentKey(prefixedKey), token);
+
+    return this.deleteIfValueMatches(prefixedKey, token);
+  }
+
+  async extendReadLock(key: string, token: string, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+    this.validateTTL(ttl);
+
+    return this.extendLease(this.readersKey(this.prefixKey(key)), token, ttl);
+  }
+
+  async countReaders(key: string): Promise<number> {
+    this.validateKey(key);
+
+    return this.getLiveLeases(this.readersKey(this.prefixKey(key))).size;
+  }
+
+  async acquireSemaphore(key: string, token: string, limit: number, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+    this.validateLimit(limit);
+    this.validateTTL(ttl);
+
+    const prefixedKey = this.prefixKey(key);
+    const leases = this.getLiveLeases(prefixedKey);
+
+    if (leases.size >= limit) {
+      return false;
+    }
+
+    leases.set(token, Date.now() + ttl);
+    this.leaseSets.set(prefixedKey, leases);
+    return true;
+  }
+
+  async releaseSemaphore(key: string, token: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+
+    return this.removeLease(this.prefixKey(key), token);
+  }
+
+  async extendSemaphore(key: string, token: string, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(token);
+    this.validateTTL(ttl);
+
+    return this.extendLease(this.prefixKey(key), token, ttl);
+  }
+
+  async countSemaphoreHolders(key: string): Promise<number> {
+    this.validateKey(key);
+
+    return this.getLiveLeases(this.prefixKey(key)).size;
+  }
+  async hierarchicalAcquire(
+    keys: string[],
+    values: string[],
+    ttl: number
+  ): Promise<BatchAcquireResult> {
+    this.validateHierarchicalAcquisition(keys, values, ttl);
+
+    // Phase 1: a path conflicts with holders of itself, its ancestors or its descendants
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i]!;
+      const prefixedKey = this.prefixKey(key);
+
+      if (
+        this.getValidEntry(prefixedKey) ||
+        this.getLiveLeases(`${prefixedKey}${INTENTS_KEY_SUFFIX}`).size > 0 ||
+        this.hierarchyAncestors(key).some(ancestor => this.getValidEntry(this.prefixKey(ancestor)))
+      ) {
+        return { success: false, acquiredCount: 0, failedIndex: i + 1, failedKey: key };
+      }
+    }
+
+    // Phase 2: lock every path and record intention leases on its ancestors
+    const expiresAt = Date.now() + ttl;
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i]!;
+      this.setWithExpiry(this.prefixKey(key), values[i]!, ttl);
+
+      for (const ancestor of this.hierarchyAncestors(key)) {
+        const intentsKey = `${this.prefixKey(ancestor)}${INTENTS_KEY_SUFFIX}`;
+        const leases = this.getLiveLeases(intentsKey);
+        leases.set(values[i]!, expiresAt);
+        this.leaseSets.set(intentsKey, leases);
+      }
+    }
+
+    return { success: true, acquiredCount: keys.length };
+  }
+
+  async hierarchicalRelease(key: string, value: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(value);
+
+    for (const ancestor of this.hierarchyAncestors(key)) {
+      this.removeLease(`${this.prefixKey(ancestor)}${INTENTS_KEY_SUFFIX}`, value);
+    }
+
+    return this.deleteIfValueMatches(this.prefixKey(key), value);
+  }
+
+  async hierarchicalExtend(key: string, value: string, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(value);
+    this.validateTTL(ttl);
+
+    const prefixedKey = this.prefixKey(key);
+    if (this.getValidEntry(prefixedKey)?.value !== value) {
+      return false;
+    }
+
+    this.setWithExpiry(prefixedKey, value, ttl);
+    for (const ancestor of this.hierarchyAncestors(key)) {
+      const intentsKey = `${this.prefixKey(ancestor)}${INTENTS_KEY_SUFFIX}`;
+      const leases = this.getLiveLeases(intentsKey);
+      leases.set(value, Date.now() + ttl);
+      this.leaseSets.set(intentsKey, leases);
+    }
+
+    return true;
+  }
+
+  async heartbeatAcquire(
+    key: string,
+    value: string,
+    ttl: number,
+    staleAfter: number
+  ): Promise<boolean> {
+    this.validateHeartbeatAcquisition(key, value, ttl, staleAfter);
+
+    const [prefixedKey, heartbeatKey] = this.heartbeatKeys(key);
+    if (this.getValidEntry(prefixedKey)) {
+      return false;
+    }
+
+    const now = Date.now();
+    this.setWithExpiry(prefixedKey, value, ttl);
+    this.heartbeats.set(heartbeatKey, { value, at: now, staleAfter, expiresAt: now + ttl });
+    return true;
+  }
+
+  async takeoverStale(
+    key: string,
+    value: string,
+    ttl: number,
+    staleAfter: number
+  ): Promise<TakeoverResult> {
+    this.validateHeartbeatAcquisition(key, value, ttl, staleAfter);
+
+    const [prefixedKey, heartbeatKey] = this.heartbeatKeys(key);
+    const current = this.getValidEntry(prefixedKey);
+    const now = Date.now();
+    let result: [number, number?, string?, number?] = [1];
+
+    if (current) {
+      // Only holders with a matching heartbeat record can go stale
+      const heartbeat = this.getLiveHeartbeat(heartbeatKey);
+      if (heartbeat?.value !== current.value) {
+        return { acquired: false };
+      }
+
+      const age = now - heartbeat.at;
+      if (age <= heartbeat.staleAfter) {
+        return { acquired: false };
+      }
+
+      const auditKey = `${prefixedKey}${TAKEOVERS_KEY_SUFFIX}`;
+      const record = { at: now, previousValue: current.value, newValue: value, heartbeatAge: age };
+      const audit = [JSON.stringify(record), ...(this.takeoverAudits.get(auditKey) ?? [])];
+      this.takeoverAudits.set(auditKey, audit.slice(0, TAKEOVER_AUDIT_LENGTH));
+      result = [TAKEOVER_STOLEN, now, current.value, age];
+    }
+
+    this.setWithExpiry(prefixedKey, value, ttl);
+    this.heartbeats.set(heartbeatKey, { value, at: now, staleAfter, expiresAt: now + ttl });
+    return this.parseTakeoverResult(key, value, result);
+  }
+
+  async heartbeat(key: string, value: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(value);
+
+    const [prefixedKey, heartbeatKey] = this.heartbeatKeys(key);
+    const heartbeat = this.getLiveHeartbeat(heartbeatKey);
+    if (this.getValidEntry(prefixedKey)?.value !== value || heartbeat?.value !== value) {
+      return false;
+    }
+
+    this.heartbeats.set(heartbeatKey, { ...heartbeat, at: Date.now() });
+    return true;
+  }
+
+  async heartbeatExtend(key: string, value: string, ttl: number): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(value);
+    this.validateTTL(ttl);
+
+    const [prefixedKey, heartbeatKey] = this.heartbeatKeys(key);
+    if (this.getValidEntry(prefixedKey)?.value !== value) {
+      return false;
+    }
+
+    this.setWithExpiry(prefixedKey, value, ttl);
+    const heartbeat = this.getLiveHeartbeat(heartbeatKey);
+    if (heartbeat?.value === value) {
+      this.heartbeats.set(heartbeatKey, { ...heartbeat, expiresAt: Date.now() + ttl });
+    }
+
+    return true;
+  }
+
+  async heartbeatRelease(key: string, value: string): Promise<boolean> {
+    this.validateKey(key);
+    this.validateValue(value);
+
+    const [prefixedKey, heartbeatKey] = this.heartbeatKeys(key);
+    if (this.getLiveHeartbeat(heartbeatKey)?.value === value) {
+      this.heartbeats.delete(heartbeatKey);
+    }
+
+    const deleted = this.deleteIfValueMatches(prefixedKey, value);
+    if (deleted) {
+      this.dispatchRelease(this.releaseChannel(key));
+    }
+
+    return deleted;
+  }
+
+  async getTakeovers(key: string): Promise<LockTakeover[]> {
+    this.validateKey(key);
+
+    const audit = this.takeoverAudits.get(`${this.prefixKey(key)}${TAKEOVERS_KEY_SUFFIX}`);
+    return this.parseTakeoverAudit(key, audit ?? []);
+  }
+
+  async markCompleted(
+    key: string,
+    value: string,
+    result: string,
+    retention: number
+  ): Promise<boolean> {
+    this.validateCompletion(key, value, result, retention);
+
+    const prefixedKey = this.prefixKey(key);
+    const markerKey = `${prefixedKey}${COMPLETED_KEY_SUFFIX}`;
+    if (this.getLiveCompletion(markerKey) || this.getValidEntry(prefixedKey)?.value !== value) {
+      return false;
+    }
+
+    const now = Date.now();
+    this.completions.set(markerKey, { result, completedAt: now, expiresAt: now + retention });
+    return true;
+  }
+
+  async getCompletion(key: string): Promise<CompletionMarker | null> {
+    this.validateKey(key);
+
+    const completion = this.getLiveCompletion(`${this.prefixKey(key)}${COMPLETED_KEY_SUFFIX}`);
+    return completion && { result: completion.result, completedAt: completion.completedAt };
+  }
+
+  async waitForEnqueue(
+    graph: string,
+    participant: string,
+    key: string,
+    ttl: number,
+    reentrant: boolean
+  ): Promise<WaitForEdge[] | null> {
+    const [holdersKey, waitersKey] = this.waitForKeys(graph, participant, key);
+    this.validateTTL(ttl);
+
+    const cycle = [participant, key];
+    let current: string | null = key;
+    for (let depth = 1; depth <= WAIT_FOR_MAX_DEPTH && current !== null; depth++) {
+      const holder = this.getLiveEdge(holdersKey, current);
+      if (holder === null) {
+        break;
+      }
+      if (holder === participant) {
+        if (depth > 1 || !reentrant) {
+          return this.parseWaitForCycle(cycle);
+        }
+        break;
+      }
+
+      current = this.getLiveEdge(waitersKey, holder);
+      if (current !== null) {
+        cycle.push(holder, current);
+      }
+    }
+
+    this.setEdge(waitersKey, participant, key, ttl);
+    return null;
+  }
+
+  async waitForHold(graph: string, participant: string, key: string, ttl: number): Promise<void> {
+    const [holdersKey, waitersKey] = this.waitForKeys(graph, participant, key);
+    this.validateTTL(ttl);
+
+    this.setEdge(holdersKey, key, participant, ttl);
+    this.deleteEdgeIfTarget(waitersKey, participant, key);
+  }
+
+  async waitForRemove(graph: string, participant: string, key: string): Promise<void> {
+    const [holdersKey, waitersKey] = this.waitForKeys(graph, participant, key);
+
+    this.deleteEdgeIfTarget(holdersKey, key, participant);
+    this.deleteEdgeIfTarget(waitersKey, participant, key);
   }
 
   async ping(): Promise<string> {
@@ -4,4 +4,17 @@ export { IoredisAdapter } from './IoredisAdapter.js';
 export { GlideAdapter } from './GlideAdapter.js';
 export { MemoryAdapter } from './MemoryAdapter.js';
 
-export type { RedisAdapter, RedisAdapterOptions, LockInspection } from '../types/adapters.js';
+export type {
+  RedisAdapter,
+  RedisAdapterOptions,
+  LockInspection,
+  CompletionMarker,
+  LockOwner,
+  LockTakeover,
+  TakeoverResult,
+  WaitForEdge,
+  ReleaseUnsubscribe,
+  ScannedLock,
+  ScanLocksOptions,
+  ScanLocksResult,
+} from '../types/adapters.js';
@@ -0,0 +1,460 @@
+/**
+ * Admin commands of the redlock-universal CLI
+ * Inspects and force-releases locks through the adapters, so on-call engineers do not
+ * have to type raw DEL commands into redis-cli
+ */
+
+import { parseArgs } from 'util';
+import { setTimeout as sleep } from 'timers/promises';
+import type {
+  LockInspection,
+  LockOwner,
+  RedisAdapter,
+  RedisAdapterOptions,
+  ScannedLock,
+} from '../types/adapters.js';
+import { HIERARCHY_SEPARATOR, INTENTS_KEY_SUFFIX } from '../adapters/BaseAdapter.js';
+
+/**
+ * Connection to the Redis server the commands run against
+ */
+export interface AdminConnection {
+  readonly adapter: RedisAdapter;
+  /** Close the connection once the command is done */
+  close(): Promise<void>;
+}
+
+/**
+ * Environment the commands run in, the process streams and a real connection by default
+ */
+export interface AdminEnvironment {
+  /** Write command output */
+  readonly stdout: (text: string) => void;
+  /** Write errors and prompts */
+  readonly stderr: (text: string) => void;
+  /** Ask a yes/no question, resolving to true when confirmed */
+  readonly confirm: (question: string) => Promise<boolean>;
+  /** Connect to the server at the URL */
+  readonly connect: (url: string, options: RedisAdapterOptions) => Promise<AdminConnection>;
+  /** Stops watch when aborted */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Exit codes of the CLI
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  /** The lock was not held, not released or not extended, or the command failed */
+  FAILURE: 1,
+  USAGE: 2,
+} as const;
+
+const COMMAND_NAMES = ['list', 'inspect', 'release', 'extend', 'watch'];
+const DEFAULT_URL = 'redis://localhost:6379';
+const DEFAULT_WATCH_INTERVAL = 1_000;
+
+export const USAGE = `Usage: redlock-universal <command> [options]
+
+Commands:
+  list [prefix]            List held locks, optionally only keys starting with prefix
+  inspect <key>            Show the value, owner metadata, TTL and leases of a lock
+  release --force <key>    Release an exclusive lock whoever holds it, after confirmation
+  extend <key> <ttl>       Set the TTL of a held lock in milliseconds
+  watch <key>              Print every change of holder until interrupted
+
+Options:
+  --url <url>              Redis URL (default: $REDIS_URL or ${DEFAULT_URL})
+  --key-prefix <prefix>    Key prefix of the adapters that took the locks
+  --json                   Print JSON instead of text
+  --yes, -y                Release without asking for confirmation
+  --interval <ms>          Polling interval of watch (default: ${DEFAULT_WATCH_INTERVAL})
+  --help, -h               Show this help
+`;
+
+/**
+ * Invalid command line, reported with the usage
+ */
+class UsageError extends Error {}
+
+/**
+ * Parsed command line
+ */
+interface AdminCommand {
+  readonly name: string;
+  readonly args: string[];
+  readonly url: string;
+  readonly keyPrefix?: string;
+  readonly json: boolean;
+  readonly force: boolean;
+  readonly yes: boolean;
+  readonly interval: number;
+}
+
+/**
+ * Run the CLI
+ *
+ * @param argv - Command line arguments, without the node and script paths
+ * @param env - Streams, prompt and connection to use
+ * @returns Promise resolving to the exit code
+ */
+export async function runAdmin(argv: string[], env: AdminEnvironment): Promise<number> {
+  let command: AdminCommand | null;
+  try {
+    command = parseCommand(argv);
+  } catch (error) {
+    env.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_CODES.USAGE;
+  }
+
+  if (!command) {
+    env.stdout(USAGE);
+    return EXIT_CODES.SUCCESS;
+  }
+
+  let connection: AdminConnection | undefined;
+  try {
+    connection = await env.connect(command.url, {
+      ...(command.keyPrefix !== undefined && { keyPrefix: command.keyPrefix }),
+    });
+    return await runCommand(command, connection.adapter, env);
+  } catch (error) {
+    env.stderr(`Error: ${(error as Error).message}\n`);
+    return error instanceof UsageError ? EXIT_CODES.USAGE : EXIT_CODES.FAILURE;
+  } finally {
+    await connection?.close().catch(() => {});
+  }
+}
+
+/**
+ * Parse the command line, null when help was requested
+ */
+function parseCommand(argv: string[]): AdminCommand | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      'key-prefix': { type: 'string' },
+      json: { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      yes: { type: 'boolean', short: 'y', default: false },
+      interval: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [name, ...args] = positionals;
+  if (values.help || name === undefined) {
+    return null;
+  }
+  if (!COMMAND_NAMES.includes(name)) {
+    throw new UsageError(`Unknown command "${name}"`);
+  }
+
+  return {
+    name,
+    args,
+    url: values.url ?? process.env['REDIS_URL'] ?? DEFAULT_URL,
+    ...(values['key-prefix'] !== undefined && { keyPrefix: values['key-prefix'] }),
+    json: values.json,
+    force: values.force,
+    yes: values.yes,
+    interval:
+      values.interval === undefined
+        ? DEFAULT_WATCH_INTERVAL
+        : parsePositiveInteger(values.interval, 'Interval'),
+  };
+}
+
+/**
+ * Parse a positive integer argument
+ */
+function parsePositiveInteger(text: string, name: string): number {
+  const value = Number(text);
+  if (!/^\d+$/.test(text) || !Number.isSafeInteger(value) || value <= 0) {
+    throw new UsageError(`${name} must be a positive integer, got "${text}"`);
+  }
+  return value;
+}
+
+/**
+ * Positional arguments of a command, checked against the expected names
+ */
+function expectArgs(command: AdminCommand, names: string[], optional = 0): string[] {
+  const { args } = command;
+  if (args.length < names.length - optional || args.length > names.length) {
+    throw new UsageError(`Usage: redlock-universal ${command.name} <${names.join('> <')}>`);
+  }
+  return args;
+}
+
+async function runCommand(
+  command: AdminCommand,
+  adapter: RedisAdapter,
+  env: AdminEnvironment
+): Promise<number> {
+  switch (command.name) {
+    case 'list':
+      return listCommand(command, adapter, env);
+    case 'inspect':
+      return inspectCommand(command, adapter, env);
+    case 'release':
+      return releaseCommand(command, adapter, env);
+    case 'extend':
+      return extendCommand(command, adapter, env);
+    case 'watch':
+      return watchCommand(command, adapter, env);
+    default:
+      throw new UsageError(`Unknown command "${command.name}"`);
+  }
+}
+
+async function listCommand(
+  command: AdminCommand,
+  adapter: RedisAdapter,
+  env: AdminEnvironment
+): Promise<number> {
+  const [prefix = ''] = expectArgs(command, ['prefix'], 1);
+
+  const locks: ScannedLock[] = [];
+  let cursor = '0';
+  do {
+    const page = await adapter.scanLocks(`${escapeGlob(prefix)}*`, { cursor });
+    locks.push(...page.locks);
+    cursor = page.cursor;
+  } while (cursor !== '0');
+  locks.sort((a, b) => a.key.localeCompare(b.key));
+
+  if (command.json) {
+    env.stdout(`${JSON.stringify(locks, null, 2)}\n`);
+  } else if (locks.length === 0) {
+    env.stdout('No locks held\n');
+  } else {
+    for (const lock of locks) {
+      env.stdout(`${lock.key}  ttl=${formatTTL(lock.ttl)}  ${describeHolder(lock)}\n`);
+    }
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+async function inspectCommand(
+  command: AdminCommand,
+  adapter: RedisAdapter,
+  env: AdminEnvironment
+): Promise<number> {
+  const [key] = expectArgs(command, ['key']) as [string];
+  const [inspection, { readers, intents }] = await Promise.all([
+    adapter.inspect(key),
+    inspectLeases(adapter, key),
+  ]);
+  const held = inspection !== null || readers > 0;
+
+  if (command.json) {
+    const result = {
+      key,
+      ...inspection,
+      ...(readers > 0 && { readers }),
+      ...(intents > 0 && { intents }),
+    };
+    env.stdout(`${JSON.stringify(held || intents > 0 ? result : null, null, 2)}\n`);
+  } else if (!held) {
+    const below = intents > 0 ? `, ${intents} holders below it hold intention leases` : '';
+    env.stdout(`Lock "${key}" is not held${below}\n`);
+  } else {
+    const lines = [
+      `key:    ${key}`,
+      ...(inspection
+        ? [`value:  ${inspection.value}`, `ttl:    ${formatTTL(inspection.ttl)}`]
+        : []),
+      ...(inspection?.owner ? [`owner:  ${formatOwner(inspection.owner)}`] : []),
+      ...(readers > 0 ? [`readers: ${readers} read leases of a read-write lock`] : []),
+      ...(intents > 0 ? [`intents: ${intents} holders below this hierarchical key`] : []),
+    ];
+    env.stdout(`${lines.join('\n')}\n`);
+  }
+  return held ? EXIT_CODES.SUCCESS : EXIT_CODES.FAILURE;
+}
+
+async function releaseCommand(
+  command: AdminCommand,
+  adapter: RedisAdapter,
+  env: AdminEnvironment
+): Promise<number> {
+  const [key] = expectArgs(command, ['key']) as [string];
+  if (!command.force) {
+    throw new UsageError('release deletes the lock of another holder, pass --force to confirm');
+  }
+
+  const [inspection, readers] = await Promise.all([
+    adapter.inspect(key),
+    adapter.countReaders(key),
+  ]);
+  if (readers > 0) {
+    // Read leases are tokens of their holders, there is no single value to release
+    throw new Error(
+      `Lock "${key}" is read-locked by ${readers} readers, release --force only releases exclusive locks`
+    );
+  }
+  if (!inspection) {
+    return report(env, command, { key, released: false }, `Lock "${key}" is not held`);
+  }
+
+  const question = `Release lock "${key}" held by ${describeHolder(inspection)} (ttl ${formatTTL(inspection.ttl)})?`;
+  if (!command.yes && !(await env.confirm(question))) {
+    return report(env, command, { key, released: false }, 'Release cancelled');
+  }
+
+  // Only the holder that was confirmed is released, never one that took over meanwhile
+  const released = (await isHierarchicalHolder(adapter, key))
+    ? await adapter.hierarchicalRelease(key, inspection.value)
+    : await adapter.delIfMatch(key, inspection.value);
+  return report(
+    env,
+    command,
+    { key, released },
+    released ? `Released lock "${key}"` : `Lock "${key}" changed holder, not released`
+  );
+}
+
+async function extendCommand(
+  command: AdminCommand,
+  adapter: RedisAdapter,
+  env: AdminEnvironment
+): Promise<number> {
+  const [key, ttlText] = expectArgs(command, ['key', 'ttl']) as [string, string];
+  const ttl = parsePositiveInteger(ttlText, 'TTL');
+
+  const inspection = await adapter.inspect(key);
+  let extended = false;
+  if (inspection) {
+    extended = (await isHierarchicalHolder(adapter, key))
+      ? await adapter.hierarchicalExtend(key, inspection.value, ttl)
+      : await adapter.extendIfMatch(key, inspection.value, ttl);
+  }
+
+  return report(
+    env,
+    command,
+    { key, extended, ttl },
+    extended ? `Extended lock "${key}" to ${formatTTL(ttl)}` : `Lock "${key}" is not held`
+  );
+}
+
+async function watchCommand(
+  command: AdminCommand,
+  adapter: RedisAdapter,
+  env: AdminEnvironment
+): Promise<number> {
+  const [key] = expectArgs(command, ['key']) as [string];
+
+  let previous: LockInspection | null | undefined;
+  while (!env.signal?.aborted) {
+    const inspection = await adapter.inspect(key);
+
+    if (previous === undefined || inspection?.value !== previous?.value) {
+      const at = new Date().toISOString();
+      const event = inspection ? 'held' : 'released';
+      if (command.json) {
+        env.stdout(`${JSON.stringify({ at, key, event, ...inspection })}\n`);
+      } else if (inspection) {
+        env.stdout(
+          `${at}  ${key} held by ${describeHolder(inspection)} (ttl ${formatTTL(inspection.ttl)})\n`
+        );
+      } else {
+        env.stdout(`${at}  ${key} not held\n`);
+      }
+    }
+    previous = inspection;
+
+    await sleep(command.interval, undefined, env.signal ? { signal: env.signal } : {}).catch(
+      () => {}
+    );
+  }
+  return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Leases kept apart from the lock key
+ * Readers of a read-write lock hold leases instead of the key, and holders below a
+ * hierarchical key hold intention leases on it.
+ */
+async function inspectLeases(
+  adapter: RedisAdapter,
+  key: string
+): Promise<{ readers: number; intents: number }> {
+  const [readers, intents] = await Promise.all([
+    adapter.countReaders(key),
+    adapter.countSemaphoreHolders(`${key}${INTENTS_KEY_SUFFIX}`),
+  ]);
+  return { readers, intents };
+}
+
+/**
+ * Whether the holder of a key may be hierarchical, an ancestor then has intention leases
+ * The hierarchical scripts also update the leases on the ancestors, which a plain
+ * release or extension would leave behind.
+ */
+async function isHierarchicalHolder(adapter: RedisAdapter, key: string): Promise<boolean> {
+  const segments = key.split(HIERARCHY_SEPARATOR);
+  const ancestors = segments
+    .slice(1)
+    .map((_, index) => segments.slice(0, index + 1).join(HIERARCHY_SEPARATOR));
+  const intents = await Promise.all(
+    ancestors.map(ancestor => adapter.countSemaphoreHolders(`${ancestor}${INTENTS_KEY_SUFFIX}`))
+  );
+  return intents.some(count => count > 0);
+}
+
+/**
+ * Print the outcome of a change, exit code 1 when nothing changed
+ */
+function report(
+  env: AdminEnvironment,
+  command: AdminCommand,
+  result: {
+    readonly key: string;
+    readonly released?: boolean;
+    readonly extended?: boolean;
+    readonly ttl?: number;
+  },
+  message: string
+): number {
+  env.stdout(command.json ? `${JSON.stringify(result, null, 2)}\n` : `${message}\n`);
+  return result.released || result.extended ? EXIT_CODES.SUCCESS : EXIT_CODES.FAILURE;
+}
+
+/**
+ * Owner metadata if the lock has some, its value otherwise
+ */
+function describeHolder(inspection: LockInspection): string {
+  return inspection.owner ? formatOwner(inspection.owner) : inspection.value;
+}
+
+function formatOwner(owner: LockOwner): string {
+  const fields: Array<[string, unknown]> = [
+    ['service', owner.service],
+    ['hostname', owner.hostname],
+    ['pid', owner.pid],
+    ['jobId', owner.jobId],
+    ...Object.entries(owner.tags ?? {}),
+  ];
+  return fields
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${String(value)}`)
+    .join(' ');
+}
+
+/**
+ * Remaining TTL, -1 when the key has no expiry
+ */
+function formatTTL(ttl: number): string {
+  return ttl < 0 ? 'none' : `${ttl}ms`;
+}
+
+/**
+ * Escape the glob characters of a literal key prefix
+ */
+function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]\\]/g, '\\$&');
+}
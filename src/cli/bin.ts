@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the redlock-universal CLI
+ * Connects with ioredis, or node-redis when ioredis is not installed
+ */
+
+import { createInterface, type Interface } from 'node:readline/promises';
+import type { RedisAdapter, RedisAdapterOptions } from '../types/adapters.js';
+import { IoredisAdapter } from '../adapters/IoredisAdapter.js';
+import { NodeRedisAdapter } from '../adapters/NodeRedisAdapter.js';
+import { runAdmin, type AdminConnection } from './admin.js';
+
+/**
+ * Import an optional peer dependency, undefined when it is not installed
+ */
+async function importOptional<T>(load: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await load();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_MODULE_NOT_FOUND') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Exit code after Ctrl-C, 128 + SIGINT like a shell
+ */
+const INTERRUPTED_EXIT_CODE = 130;
+
+const controller = new AbortController();
+let prompt: Interface | undefined;
+let connection: AdminConnection | undefined;
+
+// Ctrl-C stops watch, and closing the prompt and the client ends any other command
+process.once('SIGINT', () => {
+  controller.abort();
+  prompt?.close();
+  void connection?.close().catch(() => {});
+  process.exitCode = INTERRUPTED_EXIT_CODE;
+});
+
+/**
+ * Keep the connection of an adapter for SIGINT, closing it only once
+ */
+function track(adapter: RedisAdapter): AdminConnection {
+  // SIGINT only closes a connection it knows of, one opened afterwards never starts
+  controller.signal.throwIfAborted();
+  let closing: Promise<void> | undefined;
+  connection = { adapter, close: () => (closing ??= adapter.disconnect()) };
+  return connection;
+}
+
+/**
+ * Open a client connection, reporting failures without the URL and its credentials
+ */
+async function open(connect: () => Promise<unknown>): Promise<void> {
+  try {
+    await connect();
+  } catch (error) {
+    throw new Error(`Failed to connect to Redis: ${(error as Error).message}`, { cause: error });
+  }
+}
+
+async function connect(url: string, options: RedisAdapterOptions): Promise<AdminConnection> {
+  const ioredis = await importOptional(() => import('ioredis'));
+  if (ioredis) {
+    // A CLI fails fast instead of reconnecting, errors surface through the commands
+    const client = new ioredis.Redis(url, {
+      lazyConnect: true,
+      maxRetriesPerRequest: 1,
+      retryStrategy: () => null,
+    });
+    client.on('error', () => {});
+    const tracked = track(new IoredisAdapter(client, options));
+    await open(() => client.connect());
+    return tracked;
+  }
+
+  const redis = await importOptional(() => import('redis'));
+  if (redis) {
+    const client = redis.createClient({ url, socket: { reconnectStrategy: false } });
+    client.on('error', () => {});
+    const tracked = track(new NodeRedisAdapter(client, options));
+    await open(() => client.connect());
+    return tracked;
+  }
+
+  throw new Error('Install ioredis or redis to connect');
+}
+
+async function confirm(question: string): Promise<boolean> {
+  prompt = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await prompt.question(`${question} [y/N] `, { signal: controller.signal });
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    prompt.close();
+    prompt = undefined;
+  }
+}
+
+void runAdmin(process.argv.slice(2), {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+  confirm,
+  connect,
+  signal: controller.signal,
+}).then(code => {
+  process.exitCode = controller.signal.aborted ? INTERRUPTED_EXIT_CODE : code;
+});
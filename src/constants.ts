@@ -17,9 +17,18 @@ export const DEFAULTS = {
   /** Default retry delay in milliseconds */
   RETRY_DELAY: 100,
 
+  /** Default cap of growing retry strategies in milliseconds */
+  MAX_RETRY_DELAY: 5_000,
+
+  /** Default delay between leadership campaign attempts in milliseconds */
+  LEADER_CAMPAIGN_INTERVAL: 1_000,
+
   /** Default Redis command timeout in milliseconds */
   REDIS_TIMEOUT: 5_000,
 
+  /** Default number of keys examined per SCAN call of a lock scan */
+  SCAN_COUNT: 100,
+
   /** Default clock drift factor for Redlock */
   CLOCK_DRIFT_FACTOR: 0.01,
 
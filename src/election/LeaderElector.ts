@@ -0,0 +1,338 @@
+/**
+ * Leader election on top of the lock primitives
+ * One process per role holds the leader lock, the others keep campaigning
+ */
+
+import { EventEmitter } from 'events';
+import type { RedisAdapter } from '../types/adapters.js';
+import type { LockHandle } from '../types/locks.js';
+import type { ILogger } from '../monitoring/Logger.js';
+import { SimpleLock } from '../locks/SimpleLock.js';
+import { RedLock } from '../locks/RedLock.js';
+import { executeWithAutoExtension, type ExtendedAbortSignal } from '../utils/auto-extension.js';
+import { DEFAULTS } from '../constants.js';
+
+/**
+ * Configuration for LeaderElector
+ */
+export interface LeaderElectorConfig {
+  /** Name of the role to lead */
+  readonly role: string;
+  /** Redis adapter, campaigns with a SimpleLock */
+  readonly adapter?: RedisAdapter;
+  /** Independent Redis nodes, campaigns with a RedLock */
+  readonly adapters?: RedisAdapter[];
+  /** Leader lock key (default: 'leader:<role>') */
+  readonly key?: string;
+  /** Leader lock TTL in milliseconds, auto-extended while leading (default: 30000) */
+  readonly ttl?: number;
+  /** Delay between campaign attempts in milliseconds (default: 1000) */
+  readonly campaignInterval?: number;
+  /** Issue a fencing token per term, exposed on the elected event (default: false) */
+  readonly fencing?: boolean;
+  /** Optional logger for operational visibility */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Payload of the 'elected' event
+ */
+export interface LeaderElectedEvent {
+  readonly role: string;
+  /** Handle of the leader lock for this term */
+  readonly handle: LockHandle;
+  /** Fencing token of this term (only when fencing is enabled) */
+  readonly fencingToken?: number;
+}
+
+/**
+ * Payload of the 'demoted' event
+ * - 'resigned': resign() was called
+ * - 'lost': the leader lock could not be extended, another process may lead now
+ */
+export interface LeaderDemotedEvent {
+  readonly role: string;
+  readonly reason: 'resigned' | 'lost';
+  /** Extension failure that ended the term (only when lost) */
+  readonly error?: Error;
+}
+
+/**
+ * Payload of the 'error' event, the campaign stopped on an unexpected failure
+ */
+export interface LeaderErrorEvent {
+  readonly role: string;
+  readonly error: Error;
+}
+
+/**
+ * Events emitted by LeaderElector
+ */
+export interface LeaderElectorEvents {
+  elected: (event: LeaderElectedEvent) => void;
+  demoted: (event: LeaderDemotedEvent) => void;
+  error: (event: LeaderErrorEvent) => void;
+}
+
+/**
+ * Campaigns for leadership of a named role
+ *
+ * While following, the elector retries the leader lock every campaignInterval.
+ * Once elected, the lock is held through executeWithAutoExtension; a failed
+ * extension aborts its signal, which ends the term with a 'demoted' event and
+ * sends the elector back to campaigning.
+ *
+ * @example
+ * ```typescript
+ * const elector = new LeaderElector({ adapter, role: 'scheduler' });
+ * elector.on('elected', () => scheduler.start());
+ * elector.on('demoted', () => scheduler.stop());
+ * elector.start();
+ *
+ * process.once('SIGTERM', () => elector.resign());
+ * ```
+ */
+export class LeaderElector {
+  private readonly role: string;
+  private readonly lock: SimpleLock | RedLock;
+  private readonly ttl: number;
+  private readonly campaignInterval: number;
+  private readonly logger: ILogger | undefined;
+  private readonly emitter = new EventEmitter();
+
+  private running = false;
+  private leading = false;
+  private campaign: Promise<void> | undefined;
+  /** Ends the current campaign pause or term early */
+  private interrupt: (() => void) | undefined;
+
+  constructor(config: LeaderElectorConfig) {
+    this.validateConfig(config);
+
+    this.role = config.role;
+    this.ttl = config.ttl ?? DEFAULTS.TTL;
+    this.campaignInterval = config.campaignInterval ?? DEFAULTS.LEADER_CAMPAIGN_INTERVAL;
+    this.logger = config.logger;
+
+    const lockConfig = {
+      key: config.key ?? `leader:${config.role}`,
+      ttl: this.ttl,
+      retryAttempts: 0,
+      ...(config.fencing && { fencing: true }),
+      ...(config.logger && { logger: config.logger }),
+    };
+
+    this.lock = config.adapters
+      ? new RedLock({ ...lockConfig, adapters: config.adapters })
+      : new SimpleLock({ ...lockConfig, adapter: config.adapter! });
+  }
+
+  private validateConfig(config: LeaderElectorConfig): void {
+    if (!config.role || typeof config.role !== 'string') {
+      throw new Error('Leader role must be a non-empty string');
+    }
+
+    if (!config.adapter === !config.adapters) {
+      throw new Error('Provide either adapter or adapters');
+    }
+
+    const campaignInterval = config.campaignInterval ?? DEFAULTS.LEADER_CAMPAIGN_INTERVAL;
+    if (campaignInterval < 0 || !Number.isInteger(campaignInterval)) {
+      throw new Error('Campaign interval must be a non-negative integer');
+    }
+  }
+
+  /**
+   * Start campaigning, no-op when already started
+   * A campaign that fails unexpectedly stops with an 'error' event, start() again to resume.
+   * @throws Error if the previous campaign is still stopping, await resign() first
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    if (this.campaign) {
+      throw new Error('Leader elector is still stopping, await resign() before starting again');
+    }
+
+    this.running = true;
+    const campaign = this.runCampaign()
+      .catch((error: unknown) => this.fail(error))
+      .finally(() => {
+        if (this.campaign === campaign) {
+          this.campaign = undefined;
+        }
+      });
+    this.campaign = campaign;
+  }
+
+  /**
+   * Stop campaigning and step down when leading
+   * Resolves once the leader lock is released and 'demoted' was emitted
+   */
+  async resign(): Promise<void> {
+    this.running = false;
+    this.interrupt?.();
+    await this.campaign;
+  }
+
+  /**
+   * Whether this elector currently holds leadership
+   */
+  isLeader(): boolean {
+    return this.leading;
+  }
+
+  /**
+   * Name of the role this elector campaigns for
+   */
+  getRole(): string {
+    return this.role;
+  }
+
+  on<E extends keyof LeaderElectorEvents>(event: E, listener: LeaderElectorEvents[E]): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  once<E extends keyof LeaderElectorEvents>(event: E, listener: LeaderElectorEvents[E]): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  off<E extends keyof LeaderElectorEvents>(event: E, listener: LeaderElectorEvents[E]): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  private async runCampaign(): Promise<void> {
+    while (this.running) {
+      const handle = await this.tryBecomeLeader();
+
+      if (handle) {
+        await this.lead(handle);
+      }
+
+      if (this.running) {
+        await this.pause(this.campaignInterval);
+      }
+    }
+  }
+
+  private async tryBecomeLeader(): Promise<LockHandle | null> {
+    try {
+      return await this.lock.acquire();
+    } catch (error) {
+      // Contention is the normal state of a follower, keep it out of warn-level logs
+      if (this.logger) {
+        this.logger.debug('Leader campaign attempt failed', {
+          role: this.role,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Hold leadership until resign() or a failed extension
+   */
+  private async lead(handle: LockHandle): Promise<void> {
+    let lostWith: Error | undefined;
+    let lost = false;
+
+    this.leading = true;
+    this.emit('elected', {
+      role: this.role,
+      handle,
+      ...(handle.fencingToken !== undefined && { fencingToken: handle.fencingToken }),
+    });
+
+    const baseConfig = {
+      locks: [this.lock],
+      handles: [handle],
+      ttl: this.ttl,
+      routine: (signal: ExtendedAbortSignal) =>
+        new Promise<void>(resolve => {
+          const onLost = (): void => {
+            lost = true;
+            lostWith = signal.error;
+            resolve();
+          };
+
+          if (!this.running) {
+            resolve();
+          } else if (signal.aborted) {
+            onLost();
+          } else {
+            signal.addEventListener('abort', onLost, { once: true });
+            this.interrupt = resolve;
+          }
+        }),
+    };
+
+    try {
+      await executeWithAutoExtension(
+        this.logger ? { ...baseConfig, logger: this.logger } : baseConfig
+      );
+    } finally {
+      this.interrupt = undefined;
+      this.leading = false;
+    }
+
+    if (lost && this.logger) {
+      this.logger.warn('Leadership lost', { role: this.role, error: lostWith?.message });
+    }
+
+    this.emit('demoted', {
+      role: this.role,
+      reason: lost ? 'lost' : 'resigned',
+      ...(lostWith && { error: lostWith }),
+    });
+  }
+
+  /**
+   * Stop a campaign that failed unexpectedly, it must not become an unhandled rejection
+   */
+  private fail(error: unknown): void {
+    const cause = error instanceof Error ? error : new Error(String(error));
+    this.running = false;
+
+    if (this.logger) {
+      this.logger.error('Leader campaign failed', cause, { role: this.role });
+    }
+    // An 'error' event without listeners would throw
+    if (this.emitter.listenerCount('error') > 0) {
+      this.emit('error', { role: this.role, error: cause });
+    }
+  }
+
+  private pause(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = (): void => {
+        clearTimeout(timer);
+        this.interrupt = undefined;
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      this.interrupt = done;
+    });
+  }
+
+  private emit<E extends keyof LeaderElectorEvents>(
+    event: E,
+    payload: Parameters<LeaderElectorEvents[E]>[0]
+  ): void {
+    try {
+      this.emitter.emit(event, payload);
+    } catch (error) {
+      // A throwing listener must not break the campaign loop
+      if (this.logger) {
+        this.logger.error('Leader elector listener failed', error as Error, {
+          role: this.role,
+          event,
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,8 @@
+export { LeaderElector } from './LeaderElector.js';
+export type {
+  LeaderElectorConfig,
+  LeaderElectorEvents,
+  LeaderElectedEvent,
+  LeaderDemotedEvent,
+  LeaderErrorEvent,
+} from './LeaderElector.js';
@@ -1,11 +1,30 @@
-import type { RedisAdapter } from './types/adapters.js';
-import type { Lock, SimpleLockConfig, RedLockConfig, CircuitBreakerConfig } from './types/locks.js';
+import type { LockOwner, RedisAdapter } from './types/adapters.js';
+import type {
+  Lock,
+  SimpleLockConfig,
+  RedLockConfig,
+  ReadWriteLockConfig,
+  SemaphoreConfig,
+  HierarchicalLockConfig,
+  CircuitBreakerConfig,
+  WaitMode,
+} from './types/locks.js';
 import type { ILogger } from './monitoring/Logger.js';
+import type { Tracer } from './monitoring/tracing.js';
+import type { LockEventEmitter } from './monitoring/LockEventEmitter.js';
+import type { RetryStrategy } from './utils/retry.js';
 import { SimpleLock } from './locks/SimpleLock.js';
 import { LeanSimpleLock } from './locks/LeanSimpleLock.js';
 import { RedLock } from './locks/RedLock.js';
+import { ReadWriteLock } from './locks/ReadWriteLock.js';
+import { Semaphore } from './locks/Semaphore.js';
+import { HierarchicalLock } from './locks/HierarchicalLock.js';
 import { ConfigurationError } from './types/errors.js';
 
+// Shared validation messages
+const ADAPTER_REQUIRED_MESSAGE = 'Redis adapter is required';
+const KEY_REQUIRED_MESSAGE = 'Lock key is required';
+
 /**
  * Configuration for creating a simple lock
  */
@@ -26,6 +45,28 @@ export interface CreateLockConfig {
   readonly logger?: ILogger;
   /** Circuit breaker configuration (default: enabled). Ignored in 'lean' mode. */
   readonly circuitBreaker?: boolean | CircuitBreakerConfig;
+  /** Issue a fencing token on every acquisition (default: false) */
+  readonly fencing?: boolean;
+  /** Let the same owner acquire the lock again, counting holds (default: false). Ignored in 'lean' mode. */
+  readonly reentrant?: boolean;
+  /** Owner identity for reentrant locks (default: unique per lock instance) */
+  readonly ownerId?: string;
+  /** Owner metadata stored in the lock value, returned by inspect(). Ignored in 'lean' mode. */
+  readonly owner?: LockOwner;
+  /** Grant the lock to waiters strictly in arrival order (default: false). Ignored in 'lean' mode. */
+  readonly fair?: boolean;
+  /** How to wait between attempts (default: 'polling'). Ignored in 'lean' mode. */
+  readonly waitMode?: WaitMode;
+  /** Delay policy between attempts (default: constant retryDelay) */
+  readonly retryStrategy?: RetryStrategy;
+  /** Heartbeat staleness threshold in ms that enables takeover() (default: disabled). Ignored in 'lean' mode. */
+  readonly staleAfter?: number;
+  /** Queue same-process contenders in memory behind one Redis acquisition (default: false) */
+  readonly localQueue?: boolean;
+  /** OpenTelemetry tracer for lock operation spans (default: none). Ignored in 'lean' mode. */
+  readonly tracer?: Tracer;
+  /** Emitter of the lock's events, share one to observe several locks (default: a new emitter) */
+  readonly events?: LockEventEmitter;
 }
 
 /**
@@ -40,11 +81,11 @@ export function createLock(config: CreateLockConfig): Lock {
   }
 
   if (!config.adapter) {
-    throw new ConfigurationError('Redis adapter is required');
+    throw new ConfigurationError(ADAPTER_REQUIRED_MESSAGE);
   }
 
   if (!config.key) {
-    throw new ConfigurationError('Lock key is required');
+    throw new ConfigurationError(KEY_REQUIRED_MESSAGE);
   }
 
   const simpleLockConfig: SimpleLockConfig = {
@@ -55,6 +96,17 @@ export function createLock(config: CreateLockConfig): Lock {
     ...(config.retryDelay !== undefined && { retryDelay: config.retryDelay }),
     ...(config.logger !== undefined && { logger: config.logger }),
     ...(config.circuitBreaker !== undefined && { circuitBreaker: config.circuitBreaker }),
+    ...(config.fencing !== undefined && { fencing: config.fencing }),
+    ...(config.reentrant !== undefined && { reentrant: config.reentrant }),
+    ...(config.ownerId !== undefined && { ownerId: config.ownerId }),
+    ...(config.owner !== undefined && { owner: config.owner }),
+    ...(config.fair !== undefined && { fair: config.fair }),
+    ...(config.waitMode !== undefined && { waitMode: config.waitMode }),
+    ...(config.retryStrategy !== undefined && { retryStrategy: config.retryStrategy }),
+    ...(config.staleAfter !== undefined && { staleAfter: config.staleAfter }),
+    ...(config.localQueue !== undefined && { localQueue: config.localQueue }),
+    ...(config.tracer !== undefined && { tracer: config.tracer }),
+    ...(config.events !== undefined && { events: config.events }),
   };
 
   const performance = config.performance ?? 'standard';
@@ -83,7 +135,7 @@ export function createLocks(
   options: Omit<CreateLockConfig, 'adapter' | 'key'> = {}
 ): Lock[] {
   if (!adapter) {
-    throw new ConfigurationError('Redis adapter is required');
+    throw new ConfigurationError(ADAPTER_REQUIRED_MESSAGE);
   }
 
   if (!keys || keys.length === 0) {
@@ -145,6 +197,22 @@ export interface CreateRedlockConfig {
   readonly clockDriftFactor?: number;
   /** Optional logger for structured logging (default: none) */
   readonly logger?: ILogger;
+  /** Issue a fencing token on every acquisition, the max across the quorum (default: false) */
+  readonly fencing?: boolean;
+  /** Let the same owner acquire the lock again, counting holds on every node (default: false) */
+  readonly reentrant?: boolean;
+  /** Owner identity for reentrant locks (default: unique per lock instance) */
+  readonly ownerId?: string;
+  /** Owner metadata stored in the lock value, returned by inspect() */
+  readonly owner?: LockOwner;
+  /** How to wait between attempts, pubsub subscribes on every node (default: 'polling') */
+  readonly waitMode?: WaitMode;
+  /** Delay policy between attempts (default: constant retryDelay) */
+  readonly retryStrategy?: RetryStrategy;
+  /** OpenTelemetry tracer for lock operation spans, including one per node (default: none) */
+  readonly tracer?: Tracer;
+  /** Emitter of the lock's events (default: a new emitter) */
+  readonly events?: LockEventEmitter;
 }
 
 /**
@@ -163,7 +231,7 @@ export function createRedlock(config: CreateRedlockConfig): Lock {
   }
 
   if (!config.key) {
-    throw new ConfigurationError('Lock key is required');
+    throw new ConfigurationError(KEY_REQUIRED_MESSAGE);
   }
 
   // Convert to RedLockConfig format
@@ -176,6 +244,14 @@ export function createRedlock(config: CreateRedlockConfig): Lock {
     ...(config.retryDelay !== undefined && { retryDelay: config.retryDelay }),
     ...(config.clockDriftFactor !== undefined && { clockDriftFactor: config.clockDriftFactor }),
     ...(config.logger !== undefined && { logger: config.logger }),
+    ...(config.fencing !== undefined && { fencing: config.fencing }),
+    ...(config.reentrant !== undefined && { reentrant: config.reentrant }),
+    ...(config.ownerId !== undefined && { ownerId: config.ownerId }),
+    ...(config.owner !== undefined && { owner: config.owner }),
+    ...(config.waitMode !== undefined && { waitMode: config.waitMode }),
+    ...(config.retryStrategy !== undefined && { retryStrategy: config.retryStrategy }),
+    ...(config.tracer !== undefined && { tracer: config.tracer }),
+    ...(config.events !== undefined && { events: config.events }),
   };
 
   return new RedLock(redlockConfig);
@@ -210,3 +286,164 @@ export function createRedlocks(
     })
   );
 }
+
+/**
+ * Configuration for creating a read-write lock
+ */
+export interface CreateReadWriteLockConfig {
+  /** Redis adapter instance */
+  readonly adapter: RedisAdapter;
+  /** Lock key */
+  readonly key: string;
+  /** Time-to-live in milliseconds (default: 30000) */
+  readonly ttl?: number;
+  /** Maximum retry attempts (default: 3) */
+  readonly retryAttempts?: number;
+  /** Delay between retries in milliseconds (default: 100) */
+  readonly retryDelay?: number;
+  /** Block new readers while a writer is waiting (default: true) */
+  readonly writerPreference?: boolean;
+  /** Optional logger for structured logging (default: none) */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Create a read-write lock instance (shared readers, exclusive writer)
+ *
+ * @param config - Read-write lock configuration
+ * @returns ReadWriteLock instance exposing readLock() and writeLock()
+ */
+export function createReadWriteLock(config: CreateReadWriteLockConfig): ReadWriteLock {
+  if (!config) {
+    throw new ConfigurationError('Read-write lock configuration is required');
+  }
+
+  if (!config.adapter) {
+    throw new ConfigurationError(ADAPTER_REQUIRED_MESSAGE);
+  }
+
+  if (!config.key) {
+    throw new ConfigurationError(KEY_REQUIRED_MESSAGE);
+  }
+
+  const readWriteLockConfig: ReadWriteLockConfig = {
+    adapter: config.adapter,
+    key: config.key,
+    ...(config.ttl !== undefined && { ttl: config.ttl }),
+    ...(config.retryAttempts !== undefined && { retryAttempts: config.retryAttempts }),
+    ...(config.retryDelay !== undefined && { retryDelay: config.retryDelay }),
+    ...(config.writerPreference !== undefined && { writerPreference: config.writerPreference }),
+    ...(config.logger !== undefined && { logger: config.logger }),
+  };
+
+  return new ReadWriteLock(readWriteLockConfig);
+}
+
+/**
+ * Configuration for creating a counting semaphore
+ */
+export interface CreateSemaphoreConfig {
+  /** Redis adapter instance */
+  readonly adapter: RedisAdapter;
+  /** Semaphore key */
+  readonly key: string;
+  /** Maximum number of concurrent holders */
+  readonly limit: number;
+  /** Lease time-to-live in milliseconds (default: 30000) */
+  readonly ttl?: number;
+  /** Maximum retry attempts (default: 3) */
+  readonly retryAttempts?: number;
+  /** Delay between retries in milliseconds (default: 100) */
+  readonly retryDelay?: number;
+  /** Optional logger for structured logging (default: none) */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Create a counting semaphore that admits up to `limit` concurrent holders
+ *
+ * @param config - Semaphore configuration
+ * @returns Semaphore instance (implements Lock, one handle per holder)
+ */
+export function createSemaphore(config: CreateSemaphoreConfig): Semaphore {
+  if (!config) {
+    throw new ConfigurationError('Semaphore configuration is required');
+  }
+
+  if (!config.adapter) {
+    throw new ConfigurationError(ADAPTER_REQUIRED_MESSAGE);
+  }
+
+  if (!config.key) {
+    throw new ConfigurationError(KEY_REQUIRED_MESSAGE);
+  }
+
+  if (!Number.isInteger(config.limit) || config.limit <= 0) {
+    throw new ConfigurationError('Semaphore limit must be a positive integer');
+  }
+
+  const semaphoreConfig: SemaphoreConfig = {
+    adapter: config.adapter,
+    key: config.key,
+    limit: config.limit,
+    ...(config.ttl !== undefined && { ttl: config.ttl }),
+    ...(config.retryAttempts !== undefined && { retryAttempts: config.retryAttempts }),
+    ...(config.retryDelay !== undefined && { retryDelay: config.retryDelay }),
+    ...(config.logger !== undefined && { logger: config.logger }),
+  };
+
+  return new Semaphore(semaphoreConfig);
+}
+
+/**
+ * Configuration for creating a hierarchical lock
+ */
+export interface CreateHierarchicalLockConfig {
+  /** Redis adapter instance */
+  readonly adapter: RedisAdapter;
+  /** Key path, segments separated by ':' (e.g. 'tenant:42:order:7') */
+  readonly key: string;
+  /** Lock time-to-live in milliseconds (default: 30000) */
+  readonly ttl?: number;
+  /** Maximum retry attempts (default: 3) */
+  readonly retryAttempts?: number;
+  /** Delay between retries in milliseconds (default: 100) */
+  readonly retryDelay?: number;
+  /** Owner metadata stored in the lock value, returned by inspect() */
+  readonly owner?: LockOwner;
+  /** Optional logger for structured logging (default: none) */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Create an exclusive lock on a node of a key hierarchy
+ * Conflicts with holders of the key itself, its ancestors and its descendants
+ *
+ * @param config - Hierarchical lock configuration
+ * @returns HierarchicalLock instance
+ */
+export function createHierarchicalLock(config: CreateHierarchicalLockConfig): HierarchicalLock {
+  if (!config) {
+    throw new ConfigurationError('Hierarchical lock configuration is required');
+  }
+
+  if (!config.adapter) {
+    throw new ConfigurationError(ADAPTER_REQUIRED_MESSAGE);
+  }
+
+  if (!config.key) {
+    throw new ConfigurationError(KEY_REQUIRED_MESSAGE);
+  }
+
+  const hierarchicalLockConfig: HierarchicalLockConfig = {
+    adapter: config.adapter,
+    key: config.key,
+    ...(config.ttl !== undefined && { ttl: config.ttl }),
+    ...(config.retryAttempts !== undefined && { retryAttempts: config.retryAttempts }),
+    ...(config.retryDelay !== undefined && { retryDelay: config.retryDelay }),
+    ...(config.owner !== undefined && { owner: config.owner }),
+    ...(config.logger !== undefined && { logger: config.logger }),
+  };
+
+  return new HierarchicalLock(hierarchicalLockConfig);
+}
@@ -10,16 +10,53 @@ export {
   createPrefixedLock,
   createRedlock,
   createRedlocks,
+  createReadWriteLock,
+  createSemaphore,
+  createHierarchicalLock,
+} from './factory.js';
+export type {
+  CreateLockConfig,
+  CreateRedlockConfig,
+  CreateReadWriteLockConfig,
+  CreateSemaphoreConfig,
+  CreateHierarchicalLockConfig,
 } from './factory.js';
-export type { CreateLockConfig, CreateRedlockConfig } from './factory.js';
 
-export { SimpleLock, LeanSimpleLock, RedLock } from './locks/index.js';
+export {
+  SimpleLock,
+  LeanSimpleLock,
+  RedLock,
+  ReadWriteLock,
+  Semaphore,
+  HierarchicalLock,
+} from './locks/index.js';
 export type {
   Lock,
   LockHandle,
   SimpleLockConfig,
   RedLockConfig,
+  ReadWriteLockConfig,
+  SemaphoreConfig,
+  HierarchicalLockConfig,
   CircuitBreakerConfig,
+  AcquireOptions,
+  FairQueueInspection,
+  FairQueueWaiter,
+  WaitMode,
+  TryAcquireResult,
+  TryAcquireSuccess,
+  TryAcquireFailure,
+  TryAcquireHeld,
+  TryAcquireCircuitOpen,
+  TryAcquireQuorumNotReached,
+  TryAcquireAdapterError,
+  SerializedLockHandle,
+  HandleStrategyTag,
+  UsingOptions,
+  RunOnceOptions,
+  RunOnceResult,
+  RunOnceExecuted,
+  RunOnceAlreadyCompleted,
 } from './locks/index.js';
 
 export {
@@ -29,19 +66,50 @@ export {
   GlideAdapter,
   MemoryAdapter,
 } from './adapters/index.js';
-export type { RedisAdapter, RedisAdapterOptions, LockInspection } from './adapters/index.js';
+export type {
+  RedisAdapter,
+  RedisAdapterOptions,
+  LockInspection,
+  CompletionMarker,
+  LockOwner,
+  LockTakeover,
+  TakeoverResult,
+  WaitForEdge,
+  ReleaseUnsubscribe,
+  ScannedLock,
+  ScanLocksOptions,
+  ScanLocksResult,
+} from './adapters/index.js';
 
 export { LockManager } from './manager/index.js';
-export type { LockManagerConfig, LockStats } from './manager/index.js';
+export type {
+  LockManagerConfig,
+  LockStats,
+  DeadlockDetectionConfig,
+  ListedLock,
+} from './manager/index.js';
+
+export { LeaderElector } from './election/index.js';
+export type {
+  LeaderElectorConfig,
+  LeaderElectorEvents,
+  LeaderElectedEvent,
+  LeaderDemotedEvent,
+  LeaderErrorEvent,
+} from './election/index.js';
 
 export {
   MetricsCollector,
   HealthChecker,
+  MonitoringServer,
+  LockEventEmitter,
   Logger,
   LogLevel,
   logger,
   createPinoAdapter,
   createBunyanAdapter,
+  SPAN_NAMES,
+  SPAN_ATTRIBUTES,
 } from './monitoring/index.js';
 export type {
   ILogger,
@@ -51,10 +119,21 @@ export type {
   HealthStatus,
   AdapterHealth,
   SystemHealth,
+  MonitoringServerConfig,
+  MonitoringServerAddress,
+  LockEvent,
+  LockEventType,
+  LockEventListener,
+  LockEventIteratorOptions,
   LogEntry,
   LoggerConfig,
   PinoLogger,
   BunyanLogger,
+  Tracer,
+  Span,
+  SpanOptions,
+  SpanAttributes,
+  SpanAttributeValue,
 } from './monitoring/index.js';
 
 export {
@@ -63,17 +142,31 @@ export {
   safeCompare,
   createLockValueWithMetadata,
   parseLockValue,
+  createLockValueWithOwner,
+  parseLockOwner,
   isValidLockValue,
   executeWithAutoExtension,
   executeWithSingleLockExtension,
+  serializeHandle,
+  deserializeHandle,
+} from './utils/index.js';
+export type {
+  AutoExtensionConfig,
+  ExtendedAbortSignal,
+  RetryStrategy,
+  RetryContext,
+  RetryDelayFunction,
 } from './utils/index.js';
-export type { AutoExtensionConfig, ExtendedAbortSignal } from './utils/index.js';
 
 export {
   RedlockError,
   LockAcquisitionError,
+  LockAcquisitionTimeoutError,
+  DeadlockError,
+  LockOrderViolationError,
   LockReleaseError,
   LockExtensionError,
+  RunOnceError,
   AdapterError,
   ConfigurationError,
 } from './types/errors.js';
@@ -0,0 +1,266 @@
+/**
+ * Hierarchical (multi-granularity) lock on a key path
+ * Locking a node blocks its whole subtree, and vice versa
+ */
+
+import type { LockOwner, RedisAdapter } from '../types/adapters.js';
+import type { AcquireOptions, HierarchicalLockConfig, Lock, LockHandle } from '../types/locks.js';
+import type { ILogger } from '../monitoring/Logger.js';
+import { LockAcquisitionError, LockReleaseError, LockExtensionError } from '../types/errors.js';
+import { createLockValueWithOwner, generateLockValue, generateLockId } from '../utils/crypto.js';
+import { executeWithAutoExtension, type ExtendedAbortSignal } from '../utils/auto-extension.js';
+import { AcquireDeadline, validateAcquireOptions } from '../utils/acquire-deadline.js';
+import { DEFAULTS, ERROR_MESSAGES } from '../constants.js';
+
+/**
+ * Exclusive lock on a node of a ':'-separated key hierarchy
+ *
+ * Holding 'tenant:42:order:7' leaves intention leases on 'tenant', 'tenant:42' and
+ * 'tenant:42:order', so a lock on 'tenant:42' waits until no order below it is held,
+ * and orders cannot be locked while 'tenant:42' is. Conflict checks and intention
+ * bookkeeping run in a single Lua script.
+ *
+ * @example
+ * ```typescript
+ * const tenant = new HierarchicalLock({ adapter, key: 'tenant:42' });
+ * const order = new HierarchicalLock({ adapter, key: 'tenant:42:order:7' });
+ *
+ * await order.using(async () => processOrder()); // tenant.acquire() waits meanwhile
+ * ```
+ */
+export class HierarchicalLock implements Lock {
+  private readonly adapter: RedisAdapter;
+  private readonly key: string;
+  private readonly ttl: number;
+  private readonly retryAttempts: number;
+  private readonly retryDelay: number;
+  private readonly owner: LockOwner | undefined;
+  private readonly nodeIndex: number | undefined;
+  private readonly logger: ILogger | undefined;
+
+  constructor(config: HierarchicalLockConfig) {
+    this.validateConfig(config);
+
+    this.adapter = config.adapter;
+    this.key = config.key;
+    this.ttl = config.ttl ?? DEFAULTS.TTL;
+    this.retryAttempts = config.retryAttempts ?? DEFAULTS.RETRY_ATTEMPTS;
+    this.retryDelay = config.retryDelay ?? DEFAULTS.RETRY_DELAY;
+    this.owner = config.owner;
+    this.nodeIndex = config.nodeIndex;
+    this.logger = config.logger;
+  }
+
+  /**
+   * Validate configuration parameters
+   */
+  private validateConfig(config: HierarchicalLockConfig): void {
+    if (!config.adapter) {
+      throw new Error('Redis adapter is required');
+    }
+
+    if (!config.key || typeof config.key !== 'string') {
+      throw new Error('Lock key must be a non-empty string');
+    }
+
+    if (config.key.split(':').some(segment => segment === '')) {
+      throw new Error('Hierarchical lock key must not contain empty segments');
+    }
+
+    const ttl = config.ttl ?? DEFAULTS.TTL;
+    if (ttl <= 0 || !Number.isInteger(ttl)) {
+      throw new Error('TTL must be a positive integer');
+    }
+
+    const retryAttempts = config.retryAttempts ?? DEFAULTS.RETRY_ATTEMPTS;
+    if (retryAttempts < 0 || !Number.isInteger(retryAttempts)) {
+      throw new Error('Retry attempts must be a non-negative integer');
+    }
+
+    const retryDelay = config.retryDelay ?? DEFAULTS.RETRY_DELAY;
+    if (retryDelay < 0 || !Number.isInteger(retryDelay)) {
+      throw new Error('Retry delay must be a non-negative integer');
+    }
+
+    if (config.owner !== undefined) {
+      // Throws when the metadata does not fit into a lock value
+      createLockValueWithOwner(config.owner);
+    }
+  }
+
+  /**
+   * Acquire the lock with retry logic
+   * @param options - Optional abort signal, acquisition timeout and TTL override
+   */
+  async acquire(options: AcquireOptions = {}): Promise<LockHandle> {
+    validateAcquireOptions(options);
+    options.signal?.throwIfAborted();
+
+    const deadline = new AcquireDeadline(this.key, options);
+    try {
+      return await this.acquireWithRetry(options.ttl ?? this.ttl, deadline);
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Retry loop of acquire()
+   */
+  private async acquireWithRetry(ttl: number, deadline: AcquireDeadline): Promise<LockHandle> {
+    const startTime = Date.now();
+    const value = this.owner ? createLockValueWithOwner(this.owner) : generateLockValue();
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.retryAttempts; attempt++) {
+      deadline.throwIfAborted(attempt, lastError);
+
+      try {
+        const result = await deadline.run(
+          this.adapter.hierarchicalAcquire([this.key], [value], ttl),
+          late => late.success && this.adapter.hierarchicalRelease(this.key, value)
+        );
+
+        if (result.success) {
+          return {
+            id: generateLockId(),
+            key: this.key,
+            value,
+            acquiredAt: Date.now(),
+            ttl,
+            metadata: {
+              attempts: attempt + 1,
+              acquisitionTime: Date.now() - startTime,
+              strategy: 'hierarchical',
+              ...(this.nodeIndex !== undefined && { nodeIndex: this.nodeIndex }),
+            },
+          };
+        }
+
+        lastError = new Error(
+          `Lock "${this.key}" conflicts with a holder of the key, an ancestor or a descendant`
+        );
+      } catch (error) {
+        deadline.throwIfAborted(attempt + 1, lastError);
+        lastError = error instanceof Error ? error : new Error(ERROR_MESSAGES.UNKNOWN_ERROR);
+
+        if (this.logger) {
+          this.logger.error('Hierarchical lock acquisition attempt failed', lastError, {
+            key: this.key,
+            attempt: attempt + 1,
+          });
+        }
+      }
+
+      if (attempt < this.retryAttempts) {
+        await deadline.sleep(this.retryDelay);
+      }
+    }
+
+    throw new LockAcquisitionError(
+      this.key,
+      this.retryAttempts + 1,
+      lastError || new Error(ERROR_MESSAGES.UNKNOWN_ERROR)
+    );
+  }
+
+  /**
+   * Release the lock and its intention leases on the ancestors
+   */
+  async release(handle: LockHandle): Promise<boolean> {
+    this.validateHandle(handle);
+
+    try {
+      return await this.adapter.hierarchicalRelease(handle.key, handle.value);
+    } catch (error) {
+      throw new LockReleaseError(handle.key, 'redis_error', error as Error);
+    }
+  }
+
+  /**
+   * Extend the lock together with its intention leases
+   */
+  async extend(handle: LockHandle, ttl: number): Promise<boolean> {
+    this.validateHandle(handle);
+
+    if (ttl <= 0 || !Number.isInteger(ttl)) {
+      throw new Error('TTL must be a positive integer');
+    }
+
+    try {
+      return await this.adapter.hierarchicalExtend(handle.key, handle.value, ttl);
+    } catch (error) {
+      throw new LockExtensionError(handle.key, 'redis_error', error as Error);
+    }
+  }
+
+  /**
+   * Check if the key itself is locked (holders above or below it are not reported)
+   */
+  async isLocked(key: string): Promise<boolean> {
+    try {
+      return (await this.adapter.get(key)) !== null;
+    } catch (_error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get the underlying Redis adapter
+   * adapter.atomicExtend() would leave the intention leases behind, extend through the lock
+   */
+  getAdapter(): RedisAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * Execute a routine holding the lock, with automatic extension
+   */
+  async using<T>(routine: (signal: ExtendedAbortSignal) => Promise<T>): Promise<T> {
+    const handle = await this.acquire();
+    const baseConfig = {
+      locks: [this],
+      handles: [handle],
+      ttl: this.ttl,
+      routine,
+      // Intention leases on the ancestors must be extended along with the lock
+      atomicExtension: false,
+    };
+
+    return executeWithAutoExtension(
+      this.logger ? { ...baseConfig, logger: this.logger } : baseConfig
+    );
+  }
+
+  /**
+   * Get lock configuration (for debugging)
+   */
+  getConfig(): Readonly<HierarchicalLockConfig> {
+    return Object.freeze({
+      adapter: this.adapter,
+      key: this.key,
+      ttl: this.ttl,
+      retryAttempts: this.retryAttempts,
+      retryDelay: this.retryDelay,
+      ...(this.owner !== undefined && { owner: this.owner }),
+      ...(this.logger !== undefined && { logger: this.logger }),
+    });
+  }
+
+  /**
+   * Validate lock handle
+   */
+  private validateHandle(handle: LockHandle): void {
+    if (!handle) {
+      throw new Error('Lock handle is required');
+    }
+
+    if (!handle.id || !handle.key || !handle.value) {
+      throw new Error('Invalid lock handle: missing required properties');
+    }
+
+    if (handle.key !== this.key) {
+      throw new Error(`Lock handle key "${handle.key}" does not match lock key "${this.key}"`);
+    }
+  }
+}
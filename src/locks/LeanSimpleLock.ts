@@ -3,12 +3,21 @@
  */
 
 import type { RedisAdapter } from '../types/adapters.js';
-import type { Lock, LockHandle, SimpleLockConfig } from '../types/locks.js';
+import type {
+  AcquireOptions,
+  Lock,
+  LockHandle,
+  SimpleLockConfig,
+  TryAcquireResult,
+  UsingOptions,
+} from '../types/locks.js';
 import { LockAcquisitionError, LockReleaseError, LockExtensionError } from '../types/errors.js';
-import {
-  executeWithSingleLockExtension,
-  type ExtendedAbortSignal,
-} from '../utils/auto-extension.js';
+import { executeWithAutoExtension, type ExtendedAbortSignal } from '../utils/auto-extension.js';
+import { LockEventEmitter, emitTryAcquireResult } from '../monitoring/LockEventEmitter.js';
+import { createRetrySchedule, retryWindow, type RetryStrategy } from '../utils/retry.js';
+import { localLockQueue, type LocalLockQueue } from '../utils/local-queue.js';
+import { AcquireDeadline, validateAcquireOptions } from '../utils/acquire-deadline.js';
+import { deserializeHandle } from '../utils/handle-serialization.js';
 import { DEFAULTS } from '../constants.js';
 
 // Redis response constants
@@ -28,6 +37,7 @@ LOCK_HELD_ERROR.stack = '';
  * - Minimal property storage with short names
  * - No closures or callbacks
  * - Inline value generation
+ * - Event emitter created on first access of `events`
  */
 export class LeanSimpleLock implements Lock {
   private readonly a: RedisAdapter;
@@ -35,6 +45,10 @@ export class LeanSimpleLock implements Lock {
   private readonly t: number;
   private readonly r: number;
   private readonly d: number;
+  private readonly f: boolean;
+  private readonly s: RetryStrategy | undefined;
+  private readonly q: LocalLockQueue | undefined;
+  private e: LockEventEmitter | undefined;
 
   constructor(config: SimpleLockConfig) {
     this.a = config.adapter;
@@ -42,21 +56,92 @@ export class LeanSimpleLock implements Lock {
     this.t = config.ttl ?? DEFAULTS.TTL;
     this.r = config.retryAttempts ?? DEFAULTS.RETRY_ATTEMPTS;
     this.d = config.retryDelay ?? DEFAULTS.RETRY_DELAY;
+    this.f = config.fencing ?? false;
+    this.s = config.retryStrategy;
+    this.q = config.localQueue ? localLockQueue(config.adapter) : undefined;
+    this.e = config.events;
   }
 
-  async acquire(): Promise<LockHandle> {
+  /**
+   * Acquisition, extension and release events of this lock
+   */
+  get events(): LockEventEmitter {
+    return (this.e ??= new LockEventEmitter());
+  }
+
+  async acquire(options: AcquireOptions = {}): Promise<LockHandle> {
+    validateAcquireOptions(options);
+    options.signal?.throwIfAborted();
+
+    const deadline = new AcquireDeadline(this.k, options);
+    const startTime = Date.now();
+    this.e?.emit('acquisition_started', this.k);
+    try {
+      const handle = await this.acquireQueued(options.ttl ?? this.t, deadline);
+      this.e?.emit('acquisition_success', this.k, {
+        duration: Date.now() - startTime,
+        handle,
+        metadata: { strategy: 'simple', attempts: handle.metadata?.attempts },
+      });
+      return handle;
+    } catch (error) {
+      this.e?.emit('acquisition_failed', this.k, {
+        duration: Date.now() - startTime,
+        error,
+        metadata: {
+          strategy: 'simple',
+          attempts: error instanceof LockAcquisitionError ? error.attempts : undefined,
+        },
+      });
+      throw error;
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  private async acquireQueued(ttl: number, deadline: AcquireDeadline): Promise<LockHandle> {
+    if (!this.q) {
+      return this.acquireWithRetry(ttl, deadline);
+    }
+
+    await this.q.waitForTurn(this.k, retryWindow(this.s, this.d, this.r), deadline);
+    try {
+      const handle = await this.acquireWithRetry(ttl, deadline);
+      this.q.hold(handle);
+      return handle;
+    } catch (error) {
+      this.q.leave(this.k);
+      throw error;
+    }
+  }
+
+  private async acquireWithRetry(ttl: number, deadline: AcquireDeadline): Promise<LockHandle> {
     const startTime = Date.now();
     let lastError: Error | null = null;
     let attempts = 0;
+    const nextDelay = this.s ? createRetrySchedule(this.s, this.d) : undefined;
 
     const value = `${startTime}-${Math.random().toString(36).slice(2)}-${process.pid}`;
 
     for (let attempt = 0; attempt <= this.r; attempt++) {
+      deadline.throwIfAborted(attempts, lastError);
       attempts++;
       try {
-        const result = await this.a.setNX(this.k, value, this.t);
+        const fencingToken = this.f
+          ? await deadline.run(
+              this.a.setNXWithFencingToken(this.k, value, ttl),
+              token => token !== null && this.a.delIfMatch(this.k, value)
+            )
+          : null;
+        const acquired =
+          fencingToken !== null ||
+          (!this.f &&
+            (await deadline.run(
+              this.a.setNX(this.k, value, ttl),
+              result => result === REDIS_OK_RESPONSE && this.a.delIfMatch(this.k, value)
+            )) === REDIS_OK_RESPONSE);
 
-        if (result === REDIS_OK_RESPONSE) {
+        if (acquired) {
           const acquisitionTime = Date.now() - startTime;
 
           return {
@@ -64,7 +149,8 @@ export class LeanSimpleLock implements Lock {
             key: this.k,
             value,
             acquiredAt: startTime,
-            ttl: this.t,
+            ttl,
+            ...(fencingToken !== null && { fencingToken }),
             metadata: {
               attempts,
               acquisitionTime,
@@ -75,33 +161,118 @@ export class LeanSimpleLock implements Lock {
 
         lastError = LOCK_HELD_ERROR;
       } catch (error) {
+        deadline.throwIfAborted(attempts, lastError);
         lastError = error instanceof Error ? error : LOCK_HELD_ERROR;
       }
 
       if (attempt < this.r) {
-        await new Promise(r => setTimeout(r, this.d));
+        await deadline.sleep(nextDelay ? nextDelay(attempts) : this.d);
       }
     }
 
     throw new LockAcquisitionError(this.k, this.r + 1, lastError!);
   }
 
+  async tryAcquire(options: Pick<AcquireOptions, 'ttl'> = {}): Promise<TryAcquireResult> {
+    validateAcquireOptions(options);
+    if (!this.e) {
+      return this.attemptOnce(options);
+    }
+
+    const startTime = Date.now();
+    this.e.emit('acquisition_started', this.k, { metadata: { tryAcquire: true } });
+    const result = await this.attemptOnce(options);
+    emitTryAcquireResult(this.e, result, startTime);
+    return result;
+  }
+
+  private async attemptOnce(options: Pick<AcquireOptions, 'ttl'>): Promise<TryAcquireResult> {
+    if (this.q && !this.q.tryEnter(this.k)) {
+      const holder = await this.a.inspect(this.k).catch(() => null);
+      return { acquired: false, reason: 'held', key: this.k, holder };
+    }
+
+    const startTime = Date.now();
+    const ttl = options.ttl ?? this.t;
+    const value = `${startTime}-${Math.random().toString(36).slice(2)}-${process.pid}`;
+
+    try {
+      const fencingToken = this.f ? await this.a.setNXWithFencingToken(this.k, value, ttl) : null;
+      const acquired =
+        fencingToken !== null ||
+        (!this.f && (await this.a.setNX(this.k, value, ttl)) === REDIS_OK_RESPONSE);
+
+      if (!acquired) {
+        this.q?.leave(this.k);
+        const holder = await this.a.inspect(this.k).catch(() => null);
+        return { acquired: false, reason: 'held', key: this.k, holder };
+      }
+
+      const handle: LockHandle = {
+        id: value,
+        key: this.k,
+        value,
+        acquiredAt: startTime,
+        ttl,
+        ...(fencingToken !== null && { fencingToken }),
+        metadata: {
+          attempts: 1,
+          acquisitionTime: Date.now() - startTime,
+          strategy: 'simple' as const,
+        },
+      };
+      this.q?.hold(handle);
+
+      return { acquired: true, handle };
+    } catch (error) {
+      this.q?.leave(this.k);
+      return {
+        acquired: false,
+        reason: 'adapter-error',
+        key: this.k,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
+    }
+  }
+
   async release(handle: LockHandle): Promise<boolean> {
     try {
-      return await this.a.delIfMatch(handle.key, handle.value);
+      const released = await this.a.delIfMatch(handle.key, handle.value);
+      this.e?.emit('released', handle.key, {
+        duration: Date.now() - handle.acquiredAt,
+        handle,
+        metadata: { released },
+      });
+      return released;
     } catch (error) {
       throw new LockReleaseError(
         handle.key,
         'redis_error',
         error instanceof Error ? error : undefined
       );
+    } finally {
+      localLockQueue(this.a).release(handle);
     }
   }
 
   async extend(handle: LockHandle, newTtl: number): Promise<boolean> {
+    const startTime = Date.now();
     try {
-      return await this.a.extendIfMatch(handle.key, handle.value, newTtl);
+      const extended = await this.a.extendIfMatch(handle.key, handle.value, newTtl);
+      this.e?.emit(extended ? 'extended' : 'extension_failed', handle.key, {
+        duration: Date.now() - startTime,
+        handle,
+        ...(!extended && { error: new Error(`Lock "${handle.key}" is no longer held`) }),
+        metadata: { ttl: newTtl },
+      });
+      return extended;
     } catch (error) {
+      this.e?.emit('extension_failed', handle.key, {
+        duration: Date.now() - startTime,
+        handle,
+        error,
+        metadata: { ttl: newTtl },
+      });
       throw new LockExtensionError(
         handle.key,
         'redis_error',
@@ -110,6 +281,20 @@ export class LeanSimpleLock implements Lock {
     }
   }
 
+  /**
+   * Reattach a handle acquired elsewhere after checking it still owns the lock
+   * @returns The live handle, or null when the lock expired or has another owner
+   */
+  async resume(handle: LockHandle | string): Promise<LockHandle | null> {
+    const resumed = typeof handle === 'string' ? deserializeHandle(handle) : handle;
+    if (resumed.key !== this.k || (resumed.metadata && resumed.metadata.strategy !== 'simple')) {
+      throw new Error(`Lock handle does not belong to simple lock "${this.k}"`);
+    }
+
+    const holder = await this.a.inspect(this.k);
+    return holder?.value === resumed.value ? resumed : null;
+  }
+
   async isLocked(key: string): Promise<boolean> {
     try {
       const value = await this.a.get(key);
@@ -133,10 +318,20 @@ export class LeanSimpleLock implements Lock {
    * Provides AbortSignal when extension fails
    *
    * @param routine - Function to execute while holding the lock
+   * @param options - Pass `handle` to run under a resumed handle instead of acquiring
    * @returns Result of the routine
    */
-  async using<T>(routine: (signal: ExtendedAbortSignal) => Promise<T>): Promise<T> {
-    const handle = await this.acquire();
-    return executeWithSingleLockExtension(this, handle, this.t, routine);
+  async using<T>(
+    routine: (signal: ExtendedAbortSignal) => Promise<T>,
+    options: UsingOptions = {}
+  ): Promise<T> {
+    const handle = options.handle ?? (await this.acquire());
+    return executeWithAutoExtension({
+      locks: [this],
+      handles: [handle],
+      ttl: this.t,
+      routine,
+      ...(this.e && { events: this.e }),
+    });
   }
 }
@@ -0,0 +1,366 @@
+/**
+ * Distributed read-write lock
+ * Many readers may hold the lock at once, a writer gets exclusive access
+ */
+
+import type { RedisAdapter } from '../types/adapters.js';
+import type { AcquireOptions, Lock, LockHandle, ReadWriteLockConfig } from '../types/locks.js';
+import type { ILogger } from '../monitoring/Logger.js';
+import { LockAcquisitionError, LockReleaseError, LockExtensionError } from '../types/errors.js';
+import { generateLockValue, generateLockId } from '../utils/crypto.js';
+import { executeWithAutoExtension, type ExtendedAbortSignal } from '../utils/auto-extension.js';
+import { AcquireDeadline, validateAcquireOptions } from '../utils/acquire-deadline.js';
+import { DEFAULTS, ERROR_MESSAGES } from '../constants.js';
+
+// Writer intent outlives a few retry cycles so readers keep yielding while the writer polls
+const WRITER_INTENT_RETRY_MULTIPLIER = 3;
+const MIN_WRITER_INTENT_TTL = 100;
+
+type AccessMode = 'read' | 'write';
+
+/**
+ * One side (read or write) of a ReadWriteLock
+ * Implements the full Lock contract so it works with using() and auto-extension
+ */
+class ReadWriteLockView implements Lock {
+  constructor(
+    private readonly parent: ReadWriteLock,
+    private readonly mode: AccessMode
+  ) {}
+
+  async acquire(options?: AcquireOptions): Promise<LockHandle> {
+    return this.parent.acquireMode(this.mode, options);
+  }
+
+  async release(handle: LockHandle): Promise<boolean> {
+    return this.parent.releaseMode(this.mode, handle);
+  }
+
+  async extend(handle: LockHandle, ttl: number): Promise<boolean> {
+    return this.parent.extendMode(this.mode, handle, ttl);
+  }
+
+  /**
+   * Check if the exclusive (write) side of the lock is held
+   */
+  async isLocked(key: string): Promise<boolean> {
+    return this.parent.isLocked(key);
+  }
+
+  /**
+   * Get the underlying Redis adapter
+   * Read handles are leases, so adapter.atomicExtend() does not apply to them
+   */
+  getAdapter(): RedisAdapter {
+    return this.parent.getAdapter();
+  }
+
+  async using<T>(routine: (signal: ExtendedAbortSignal) => Promise<T>): Promise<T> {
+    return this.parent.usingMode(this.mode, routine);
+  }
+}
+
+/**
+ * Read-write lock for a single Redis instance
+ *
+ * Readers hold individual leases (one per handle, each with its own expiry) stored
+ * in a sorted set next to the write lock key, so a crashed reader only drops its own lease.
+ * With writer preference enabled, a waiting writer blocks new readers until it gets in.
+ *
+ * @example
+ * ```typescript
+ * const rw = new ReadWriteLock({ adapter, key: 'config:app' });
+ * const config = await rw.readLock().using(async () => loadConfig());
+ * await rw.writeLock().using(async () => saveConfig(next));
+ * ```
+ */
+export class ReadWriteLock {
+  private readonly adapter: RedisAdapter;
+  private readonly key: string;
+  private readonly ttl: number;
+  private readonly retryAttempts: number;
+  private readonly retryDelay: number;
+  private readonly writerPreference: boolean;
+  private readonly logger: ILogger | undefined;
+  private readonly readView: ReadWriteLockView;
+  private readonly writeView: ReadWriteLockView;
+
+  constructor(config: ReadWriteLockConfig) {
+    this.validateConfig(config);
+
+    this.adapter = config.adapter;
+    this.key = config.key;
+    this.ttl = config.ttl ?? DEFAULTS.TTL;
+    this.retryAttempts = config.retryAttempts ?? DEFAULTS.RETRY_ATTEMPTS;
+    this.retryDelay = config.retryDelay ?? DEFAULTS.RETRY_DELAY;
+    this.writerPreference = config.writerPreference ?? true;
+    this.logger = config.logger;
+
+    this.readView = new ReadWriteLockView(this, 'read');
+    this.writeView = new ReadWriteLockView(this, 'write');
+  }
+
+  /**
+   * Validate configuration parameters
+   */
+  private validateConfig(config: ReadWriteLockConfig): void {
+    if (!config.adapter) {
+      throw new Error('Redis adapter is required');
+    }
+
+    if (!config.key || typeof config.key !== 'string') {
+      throw new Error('Lock key must be a non-empty string');
+    }
+
+    const ttl = config.ttl ?? DEFAULTS.TTL;
+    if (ttl <= 0 || !Number.isInteger(ttl)) {
+      throw new Error('TTL must be a positive integer');
+    }
+
+    const retryAttempts = config.retryAttempts ?? DEFAULTS.RETRY_ATTEMPTS;
+    if (retryAttempts < 0 || !Number.isInteger(retryAttempts)) {
+      throw new Error('Retry attempts must be a non-negative integer');
+    }
+
+    const retryDelay = config.retryDelay ?? DEFAULTS.RETRY_DELAY;
+    if (retryDelay < 0 || !Number.isInteger(retryDelay)) {
+      throw new Error('Retry delay must be a non-negative integer');
+    }
+  }
+
+  /**
+   * Shared (read) side of the lock
+   */
+  readLock(): Lock {
+    return this.readView;
+  }
+
+  /**
+   * Exclusive (write) side of the lock
+   */
+  writeLock(): Lock {
+    return this.writeView;
+  }
+
+  /**
+   * Acquire the lock in the given mode with retry logic
+   * @internal Use readLock().acquire() or writeLock().acquire()
+   */
+  async acquireMode(mode: AccessMode, options: AcquireOptions = {}): Promise<LockHandle> {
+    validateAcquireOptions(options);
+    options.signal?.throwIfAborted();
+
+    const token = generateLockValue();
+    const intentTTL = this.writerPreference
+      ? Math.max(this.retryDelay * WRITER_INTENT_RETRY_MULTIPLIER, MIN_WRITER_INTENT_TTL)
+      : 0;
+    const deadline = new AcquireDeadline(this.key, options);
+
+    try {
+      return await this.acquireModeWithRetry(
+        mode,
+        token,
+        options.ttl ?? this.ttl,
+        intentTTL,
+        deadline
+      );
+    } catch (error) {
+      // Give up writer intent so readers are not blocked by a writer that stopped waiting
+      if (mode === 'write' && intentTTL > 0) {
+        await this.adapter.releaseWriteLock(this.key, token).catch(() => {});
+      }
+      throw error;
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Retry loop of acquireMode()
+   */
+  private async acquireModeWithRetry(
+    mode: AccessMode,
+    token: string,
+    ttl: number,
+    intentTTL: number,
+    deadline: AcquireDeadline
+  ): Promise<LockHandle> {
+    const startTime = Date.now();
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.retryAttempts; attempt++) {
+      deadline.throwIfAborted(attempt, lastError);
+
+      try {
+        const acquired = await deadline.run(
+          mode === 'read'
+            ? this.adapter.acquireReadLock(this.key, token, ttl, this.writerPreference)
+            : this.adapter.acquireWriteLock(this.key, token, ttl, intentTTL),
+          late =>
+            late &&
+            (mode === 'read'
+              ? this.adapter.releaseReadLock(this.key, token)
+              : this.adapter.releaseWriteLock(this.key, token))
+        );
+
+        if (acquired) {
+          return {
+            id: generateLockId(),
+            key: this.key,
+            value: token,
+            acquiredAt: Date.now(),
+            ttl,
+            metadata: {
+              attempts: attempt + 1,
+              acquisitionTime: Date.now() - startTime,
+              strategy: 'read-write',
+              mode,
+            },
+          };
+        }
+
+        lastError = new Error(
+          mode === 'read'
+            ? `Lock "${this.key}" is held by a writer or a writer is waiting`
+            : `Lock "${this.key}" is held by a writer or active readers`
+        );
+      } catch (error) {
+        deadline.throwIfAborted(attempt + 1, lastError);
+        lastError = error instanceof Error ? error : new Error(ERROR_MESSAGES.UNKNOWN_ERROR);
+
+        if (this.logger) {
+          this.logger.error('Read-write lock acquisition attempt failed', lastError, {
+            key: this.key,
+            mode,
+            attempt: attempt + 1,
+          });
+        }
+      }
+
+      if (attempt < this.retryAttempts) {
+        await deadline.sleep(this.retryDelay);
+      }
+    }
+
+    throw new LockAcquisitionError(
+      this.key,
+      this.retryAttempts + 1,
+      lastError || new Error(ERROR_MESSAGES.UNKNOWN_ERROR)
+    );
+  }
+
+  /**
+   * Release a handle acquired in the given mode
+   * @internal Use readLock().release() or writeLock().release()
+   */
+  async releaseMode(mode: AccessMode, handle: LockHandle): Promise<boolean> {
+    this.validateHandle(mode, handle);
+
+    try {
+      return mode === 'read'
+        ? await this.adapter.releaseReadLock(handle.key, handle.value)
+        : await this.adapter.releaseWriteLock(handle.key, handle.value);
+    } catch (error) {
+      throw new LockReleaseError(handle.key, 'redis_error', error as Error);
+    }
+  }
+
+  /**
+   * Extend a handle acquired in the given mode
+   * @internal Use readLock().extend() or writeLock().extend()
+   */
+  async extendMode(mode: AccessMode, handle: LockHandle, ttl: number): Promise<boolean> {
+    this.validateHandle(mode, handle);
+
+    if (ttl <= 0 || !Number.isInteger(ttl)) {
+      throw new Error('TTL must be a positive integer');
+    }
+
+    try {
+      return mode === 'read'
+        ? await this.adapter.extendReadLock(handle.key, handle.value, ttl)
+        : await this.adapter.extendIfMatch(handle.key, handle.value, ttl);
+    } catch (error) {
+      throw new LockExtensionError(handle.key, 'redis_error', error as Error);
+    }
+  }
+
+  /**
+   * Execute a routine holding the lock in the given mode, with auto-extension
+   * @internal Use readLock().using() or writeLock().using()
+   */
+  async usingMode<T>(
+    mode: AccessMode,
+    routine: (signal: ExtendedAbortSignal) => Promise<T>
+  ): Promise<T> {
+    const lock = mode === 'read' ? this.readView : this.writeView;
+    const handle = await lock.acquire();
+    const baseConfig = {
+      locks: [lock],
+      handles: [handle],
+      ttl: this.ttl,
+      routine,
+      // Read leases live in a sorted set, extend them through the lock instead
+      atomicExtension: mode === 'write',
+    };
+
+    return executeWithAutoExtension(
+      this.logger ? { ...baseConfig, logger: this.logger } : baseConfig
+    );
+  }
+
+  /**
+   * Check if the exclusive (write) side of the lock is held
+   */
+  async isLocked(key: string): Promise<boolean> {
+    try {
+      const value = await this.adapter.get(key);
+      return value !== null;
+    } catch (_error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get the underlying Redis adapter (for advanced usage)
+   */
+  getAdapter(): RedisAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * Get lock configuration (for debugging)
+   */
+  getConfig(): Readonly<ReadWriteLockConfig> {
+    return Object.freeze({
+      adapter: this.adapter,
+      key: this.key,
+      ttl: this.ttl,
+      retryAttempts: this.retryAttempts,
+      retryDelay: this.retryDelay,
+      writerPreference: this.writerPreference,
+      ...(this.logger !== undefined && { logger: this.logger }),
+    });
+  }
+
+  /**
+   * Validate lock handle
+   */
+  private validateHandle(mode: AccessMode, handle: LockHandle): void {
+    if (!handle) {
+      throw new Error('Lock handle is required');
+    }
+
+    if (!handle.id || !handle.key || !handle.value) {
+      throw new Error('Invalid lock handle: missing required properties');
+    }
+
+    if (handle.key !== this.key) {
+      throw new Error(`Lock handle key "${handle.key}" does not match lock key "${this.key}"`);
+    }
+
+    if (handle.metadata?.mode && handle.metadata.mode !== mode) {
+      throw new Error(`Lock handle was acquired in ${handle.metadata.mode} mode, not ${mode} mode`);
+    }
+  }
+}
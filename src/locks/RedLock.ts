@@ -3,12 +3,37 @@
  * Implements the Redlock algorithm as specified by Redis documentation
  */
 
-import type { RedisAdapter } from '../types/adapters.js';
-import type { Lock, LockHandle, RedLockConfig } from '../types/locks.js';
+import type { LockInspection, LockOwner, RedisAdapter } from '../types/adapters.js';
+import type {
+  AcquireOptions,
+  Lock,
+  LockHandle,
+  RedLockConfig,
+  TryAcquireResult,
+  UsingOptions,
+} from '../types/locks.js';
 import type { ILogger } from '../monitoring/Logger.js';
+import {
+  recordSpanError,
+  SPAN_ATTRIBUTES,
+  SPAN_NAMES,
+  traced,
+  type SpanAttributes,
+  type Tracer,
+} from '../monitoring/tracing.js';
+import { LockEventEmitter, emitTryAcquireResult } from '../monitoring/LockEventEmitter.js';
 import { LockAcquisitionError, LockReleaseError, LockExtensionError } from '../types/errors.js';
-import { generateLockId, generateLockValue, safeCompare } from '../utils/crypto.js';
+import {
+  createLockValueWithOwner,
+  generateLockId,
+  generateLockValue,
+  safeCompare,
+} from '../utils/crypto.js';
 import { executeWithAutoExtension, type ExtendedAbortSignal } from '../utils/auto-extension.js';
+import { ReleaseWaiter } from '../utils/release-waiter.js';
+import { AcquireDeadline, validateAcquireOptions } from '../utils/acquire-deadline.js';
+import { deserializeHandle } from '../utils/handle-serialization.js';
+import { createRetrySchedule, validateRetryStrategy, type RetryStrategy } from '../utils/retry.js';
 import { DEFAULTS, ERROR_MESSAGES } from '../constants.js';
 
 // Redis response constants
@@ -18,6 +43,7 @@ const REDIS_OK_RESPONSE = 'OK';
 const DISTRIBUTED_RETRY_MULTIPLIER = 2;
 const QUORUM_DIVISOR = 2;
 const QUORUM_OFFSET = 1;
+const NODE_ID_PREFIX = 'node-';
 
 /**
  * Result of attempting to acquire a lock on a single Redis node
@@ -33,6 +59,10 @@ interface NodeLockResult {
   readonly error?: Error;
   /** Time taken for this operation in milliseconds */
   readonly operationTime: number;
+  /** Fencing token issued by this node (fencing enabled only) */
+  readonly fencingToken?: number;
+  /** Hold count on this node (reentrant locks only) */
+  readonly holdCount?: number;
 }
 
 /**
@@ -41,10 +71,26 @@ interface NodeLockResult {
  */
 export class RedLock implements Lock {
   private readonly adapters: readonly RedisAdapter[];
-  private readonly config: Required<Omit<RedLockConfig, 'logger'>> & { logger?: ILogger };
+  private readonly config: Required<
+    Omit<RedLockConfig, 'logger' | 'ownerId' | 'owner' | 'retryStrategy' | 'tracer' | 'events'>
+  > & {
+    logger?: ILogger;
+  };
+  private readonly ownerId: string | undefined;
+  private readonly owner: LockOwner | undefined;
+  private readonly retryStrategy: RetryStrategy | undefined;
+  private readonly tracer: Tracer | undefined;
+  /** Acquisition, extension and release events of this lock */
+  readonly events: LockEventEmitter;
 
   constructor(config: RedLockConfig) {
     this.adapters = config.adapters;
+    this.validateOwner(config);
+    this.owner = config.owner;
+    this.ownerId = config.reentrant ? (config.ownerId ?? this.generateValue()) : undefined;
+    this.retryStrategy = config.retryStrategy;
+    this.tracer = config.tracer;
+    this.events = config.events ?? new LockEventEmitter(config.logger);
     const baseConfig = {
       adapters: config.adapters,
       key: config.key,
@@ -53,6 +99,9 @@ export class RedLock implements Lock {
       retryAttempts: config.retryAttempts ?? DEFAULTS.RETRY_ATTEMPTS,
       retryDelay: config.retryDelay ?? DEFAULTS.RETRY_DELAY * DISTRIBUTED_RETRY_MULTIPLIER,
       clockDriftFactor: config.clockDriftFactor ?? DEFAULTS.CLOCK_DRIFT_FACTOR,
+      fencing: config.fencing ?? false,
+      reentrant: config.reentrant ?? false,
+      waitMode: config.waitMode ?? 'polling',
     };
 
     this.config = config.logger ? { ...baseConfig, logger: config.logger } : baseConfig;
@@ -93,19 +142,230 @@ export class RedLock implements Lock {
     if (this.config.clockDriftFactor < 0 || this.config.clockDriftFactor >= 1) {
       throw new Error('Clock drift factor must be between 0 and 1');
     }
+
+    if (this.retryStrategy !== undefined) {
+      validateRetryStrategy(this.retryStrategy);
+    }
+
+    if (this.config.reentrant && this.config.fencing) {
+      throw new Error('Fencing tokens are not supported for reentrant locks');
+    }
+  }
+
+  /**
+   * Validate owner metadata, before it is used to generate the reentrant owner ID
+   */
+  private validateOwner(config: RedLockConfig): void {
+    if (config.owner !== undefined && config.ownerId !== undefined) {
+      throw new Error('Owner metadata cannot be combined with an explicit owner ID');
+    }
+
+    if (config.owner !== undefined) {
+      // Throws when the metadata does not fit into a lock value
+      createLockValueWithOwner(config.owner);
+    }
+  }
+
+  /**
+   * Fresh lock value, carrying the owner metadata when configured
+   */
+  private generateValue(): string {
+    return this.owner ? createLockValueWithOwner(this.owner) : generateLockValue();
   }
 
   /**
    * Attempt to acquire the distributed lock using Redlock algorithm
+   * @param options - Optional abort signal, acquisition timeout and TTL override
    */
-  async acquire(): Promise<LockHandle> {
+  async acquire(options: AcquireOptions = {}): Promise<LockHandle> {
+    validateAcquireOptions(options);
+    options.signal?.throwIfAborted();
+
+    const ttl = options.ttl ?? this.config.ttl;
+    const attributes = { ...this.spanAttributes(), [SPAN_ATTRIBUTES.TTL]: ttl };
+
+    return traced(this.tracer, SPAN_NAMES.ACQUIRE, { attributes }, async span => {
+      const startTime = Date.now();
+      const deadline = new AcquireDeadline(this.config.key, options);
+      const waiter =
+        this.config.waitMode === 'pubsub'
+          ? new ReleaseWaiter(this.adapters, [this.config.key], this.config.logger)
+          : undefined;
+      this.events.emit('acquisition_started', this.config.key);
+
+      try {
+        const handle = await this.acquireWithRetry(ttl, startTime, waiter, deadline);
+        span?.setAttributes({
+          [SPAN_ATTRIBUTES.ACQUIRED]: true,
+          [SPAN_ATTRIBUTES.ATTEMPTS]: handle.metadata?.attempts,
+        });
+        this.events.emit('acquisition_success', this.config.key, {
+          duration: Date.now() - startTime,
+          handle,
+          metadata: {
+            strategy: 'redlock',
+            attempts: handle.metadata?.attempts,
+            nodes: handle.metadata?.nodes,
+          },
+        });
+        return handle;
+      } catch (error) {
+        const attempts = error instanceof LockAcquisitionError ? error.attempts : undefined;
+        span?.setAttributes({
+          [SPAN_ATTRIBUTES.ACQUIRED]: false,
+          [SPAN_ATTRIBUTES.ATTEMPTS]: attempts,
+        });
+        this.events.emit('acquisition_failed', this.config.key, {
+          duration: Date.now() - startTime,
+          error,
+          metadata: { strategy: 'redlock', attempts },
+        });
+        throw error;
+      } finally {
+        deadline.dispose();
+        await waiter?.close();
+      }
+    });
+  }
+
+  /**
+   * Attributes shared by the spans of this lock
+   */
+  private spanAttributes(): SpanAttributes {
+    return {
+      [SPAN_ATTRIBUTES.KEY]: this.config.key,
+      [SPAN_ATTRIBUTES.STRATEGY]: 'redlock',
+      [SPAN_ATTRIBUTES.QUORUM]: this.config.quorum,
+      [SPAN_ATTRIBUTES.NODES_TOTAL]: this.adapters.length,
+    };
+  }
+
+  /**
+   * Make a single acquisition attempt on all nodes without throwing
+   *
+   * Fails with 'held' when no node granted the lock, 'adapter-error' when every
+   * refusing node errored, and 'quorum-not-reached' otherwise.
+   *
+   * @param options - Optional TTL override
+   */
+  async tryAcquire(options: Pick<AcquireOptions, 'ttl'> = {}): Promise<TryAcquireResult> {
+    validateAcquireOptions(options);
+
     const startTime = Date.now();
+    this.events.emit('acquisition_started', this.config.key, { metadata: { tryAcquire: true } });
+    const result = await this.attemptOnce(options);
+    emitTryAcquireResult(this.events, result, startTime);
+    return result;
+  }
+
+  private async attemptOnce(options: Pick<AcquireOptions, 'ttl'>): Promise<TryAcquireResult> {
+    const startTime = Date.now();
+    const ttl = options.ttl ?? this.config.ttl;
+    const lockValue = this.ownerId ?? this.generateValue();
+    const deadline = new AcquireDeadline(this.config.key);
+    const result = await this.attemptLockAcquisition(lockValue, ttl, deadline);
+
+    if (result.success) {
+      return {
+        acquired: true,
+        handle: {
+          id: generateLockId(),
+          key: this.config.key,
+          value: lockValue,
+          acquiredAt: Date.now(),
+          ttl,
+          ...(result.fencingToken !== undefined && { fencingToken: result.fencingToken }),
+          metadata: {
+            attempts: 1,
+            acquisitionTime: Date.now() - startTime,
+            nodes: result.successfulNodes,
+            strategy: 'redlock',
+            ...(result.holdCount !== undefined && { holdCount: result.holdCount }),
+          },
+        },
+      };
+    }
+
+    await this.releasePartialLocks(result.nodeResults, lockValue);
+
+    const refusals = result.nodeResults.filter(node => !node.success);
+    const firstError = refusals.find(node => node.error)?.error;
+    if (firstError && refusals.every(node => node.error)) {
+      return { acquired: false, reason: 'adapter-error', key: this.config.key, error: firstError };
+    }
+
+    if (result.successCount > 0) {
+      return {
+        acquired: false,
+        reason: 'quorum-not-reached',
+        key: this.config.key,
+        successCount: result.successCount,
+        quorum: this.config.quorum,
+      };
+    }
+
+    return {
+      acquired: false,
+      reason: 'held',
+      key: this.config.key,
+      holder: await this.inspectHolder(),
+    };
+  }
+
+  /**
+   * Inspect the holder on the first node that reports one
+   */
+  private async inspectHolder(): Promise<LockInspection | null> {
+    const inspections = await Promise.allSettled(
+      this.adapters.map(adapter => adapter.inspect(this.config.key))
+    );
+
+    for (const inspection of inspections) {
+      if (inspection.status === 'fulfilled' && inspection.value) {
+        return inspection.value;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Retry loop of acquire(), waiting for a release notification or retryDelay between attempts
+   */
+  private async acquireWithRetry(
+    ttl: number,
+    startTime: number,
+    waiter: ReleaseWaiter | undefined,
+    deadline: AcquireDeadline
+  ): Promise<LockHandle> {
     let lastError: Error | null = null;
+    const nextDelay = createRetrySchedule(this.retryStrategy, this.config.retryDelay);
 
     for (let attempt = 0; attempt <= this.config.retryAttempts; attempt++) {
+      deadline.throwIfAborted(attempt, lastError);
+
       try {
-        const lockValue = generateLockValue();
-        const result = await this.attemptLockAcquisition(lockValue);
+        // Reentrant locks store the owner identity so the same owner can acquire again
+        const lockValue = this.ownerId ?? this.generateValue();
+        const result = await traced(
+          this.tracer,
+          SPAN_NAMES.ATTEMPT,
+          { attributes: { ...this.spanAttributes(), [SPAN_ATTRIBUTES.ATTEMPTS]: attempt + 1 } },
+          async span => {
+            const result = await this.attemptLockAcquisition(lockValue, ttl, deadline);
+            span?.setAttributes({
+              [SPAN_ATTRIBUTES.ACQUIRED]: result.success,
+              [SPAN_ATTRIBUTES.NODES_SUCCEEDED]: result.successCount,
+            });
+            return result;
+          }
+        );
+
+        // Never hand out a lock the caller gave up on, even when the quorum was reached
+        if (deadline.aborted) {
+          await this.releasePartialLocks(result.nodeResults, lockValue);
+          deadline.throwIfAborted(attempt + 1, lastError);
+        }
 
         if (result.success) {
           const acquisitionTime = Date.now() - startTime;
@@ -114,12 +374,14 @@ export class RedLock implements Lock {
             key: this.config.key,
             value: lockValue,
             acquiredAt: Date.now(),
-            ttl: this.config.ttl,
+            ttl,
+            ...(result.fencingToken !== undefined && { fencingToken: result.fencingToken }),
             metadata: {
               attempts: attempt + 1,
               acquisitionTime,
               nodes: result.successfulNodes,
               strategy: 'redlock',
+              ...(result.holdCount !== undefined && { holdCount: result.holdCount }),
             },
           };
         }
@@ -131,12 +393,23 @@ export class RedLock implements Lock {
         // Release any partial locks acquired
         await this.releasePartialLocks(result.nodeResults, lockValue);
       } catch (error) {
+        deadline.throwIfAborted(attempt + 1, lastError);
         lastError = error instanceof Error ? error : new Error(ERROR_MESSAGES.UNKNOWN_ERROR);
       }
 
       // Wait before retrying (except on last attempt)
       if (attempt < this.config.retryAttempts) {
-        await this.sleep(this.config.retryDelay);
+        const delay = nextDelay(attempt + 1);
+
+        if (this.config.logger) {
+          this.config.logger.debug('Retrying RedLock acquisition', {
+            key: this.config.key,
+            attempt: attempt + 1,
+            delay,
+          });
+        }
+
+        await (waiter ? waiter.wait(delay, deadline.signal) : deadline.sleep(delay));
       }
     }
 
@@ -149,18 +422,30 @@ export class RedLock implements Lock {
 
   /**
    * Attempt to acquire lock on all Redis nodes
+   *
+   * When aborted, nodes that are still pending count as failed and release
+   * their lock as soon as their late reply arrives.
    */
-  private async attemptLockAcquisition(lockValue: string): Promise<{
+  private async attemptLockAcquisition(
+    lockValue: string,
+    ttl: number,
+    deadline: AcquireDeadline
+  ): Promise<{
     success: boolean;
     successCount: number;
     successfulNodes: string[];
     nodeResults: NodeLockResult[];
+    fencingToken?: number;
+    holdCount?: number;
   }> {
     const startTime = Date.now();
 
     // Try to acquire lock on all nodes simultaneously
     const lockPromises = this.adapters.map((adapter, index) =>
-      this.acquireOnSingleNode(adapter, lockValue, `node-${index}`)
+      deadline.run(
+        this.acquireOnSingleNode(adapter, lockValue, ttl, `${NODE_ID_PREFIX}${index}`),
+        late => late.success && this.releaseOnNode(adapter, this.config.key, lockValue)
+      )
     );
 
     const nodeResults = await Promise.allSettled(lockPromises);
@@ -171,7 +456,7 @@ export class RedLock implements Lock {
         return {
           success: false,
           adapter: this.adapters[index]!,
-          nodeId: `node-${index}`,
+          nodeId: `${NODE_ID_PREFIX}${index}`,
           error: result.reason,
           operationTime: Date.now() - startTime,
         };
@@ -188,11 +473,11 @@ export class RedLock implements Lock {
     const totalTime = Date.now() - startTime;
 
     // Account for clock drift - reduce effective TTL
-    const driftTime = Math.floor(this.config.ttl * this.config.clockDriftFactor) + 2;
+    const driftTime = Math.floor(ttl * this.config.clockDriftFactor) + 2;
     const effectiveTime = totalTime + driftTime;
 
     // If acquisition took too long relative to TTL, it's not safe
-    if (effectiveTime >= this.config.ttl) {
+    if (effectiveTime >= ttl) {
       return {
         success: false,
         successCount,
@@ -201,11 +486,21 @@ export class RedLock implements Lock {
       };
     }
 
+    // Nodes keep independent counters, the max across the quorum is the lock's token
+    const fencingTokens = successfulResults
+      .map(r => r.fencingToken)
+      .filter((token): token is number => token !== undefined);
+    const holdCounts = successfulResults
+      .map(r => r.holdCount)
+      .filter((count): count is number => count !== undefined);
+
     return {
       success: hasQuorum,
       successCount,
       successfulNodes: successfulResults.map(r => r.nodeId),
       nodeResults: actualResults,
+      ...(fencingTokens.length > 0 && { fencingToken: Math.max(...fencingTokens) }),
+      ...(holdCounts.length > 0 && { holdCount: Math.max(...holdCounts) }),
     };
   }
 
@@ -215,12 +510,58 @@ export class RedLock implements Lock {
   private async acquireOnSingleNode(
     adapter: RedisAdapter,
     lockValue: string,
+    ttl: number,
+    nodeId: string
+  ): Promise<NodeLockResult> {
+    const attributes = { [SPAN_ATTRIBUTES.KEY]: this.config.key, [SPAN_ATTRIBUTES.NODE]: nodeId };
+
+    return traced(this.tracer, SPAN_NAMES.NODE_ACQUIRE, { attributes }, async span => {
+      const result = await this.setOnSingleNode(adapter, lockValue, ttl, nodeId);
+      span?.setAttribute(SPAN_ATTRIBUTES.ACQUIRED, result.success);
+      if (span && result.error) {
+        recordSpanError(span, result.error);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Set the lock on a single node, reporting failures in the result
+   */
+  private async setOnSingleNode(
+    adapter: RedisAdapter,
+    lockValue: string,
+    ttl: number,
     nodeId: string
   ): Promise<NodeLockResult> {
     const startTime = Date.now();
 
     try {
-      const result = await adapter.setNX(this.config.key, lockValue, this.config.ttl);
+      if (this.config.reentrant) {
+        const holdCount = await adapter.reentrantAcquire(this.config.key, lockValue, ttl);
+
+        return {
+          success: holdCount > 0,
+          adapter,
+          nodeId,
+          operationTime: Date.now() - startTime,
+          ...(holdCount > 0 && { holdCount }),
+        };
+      }
+
+      if (this.config.fencing) {
+        const fencingToken = await adapter.setNXWithFencingToken(this.config.key, lockValue, ttl);
+
+        return {
+          success: fencingToken !== null,
+          adapter,
+          nodeId,
+          operationTime: Date.now() - startTime,
+          ...(fencingToken !== null && { fencingToken }),
+        };
+      }
+
+      const result = await adapter.setNX(this.config.key, lockValue, ttl);
       const operationTime = Date.now() - startTime;
 
       return {
@@ -251,7 +592,7 @@ export class RedLock implements Lock {
     const releasePromises = nodeResults
       .filter(result => result.success)
       .map(result =>
-        result.adapter.delIfMatch(this.config.key, lockValue).catch(() => {
+        this.releaseOnNode(result.adapter, this.config.key, lockValue).catch(() => {
           // Ignore release errors for partial cleanup
         })
       );
@@ -259,32 +600,60 @@ export class RedLock implements Lock {
     await Promise.allSettled(releasePromises);
   }
 
+  /**
+   * Release the lock (or one reentrant hold) on a single node
+   */
+  private async releaseOnNode(adapter: RedisAdapter, key: string, value: string): Promise<boolean> {
+    if (this.config.reentrant) {
+      return (await adapter.reentrantRelease(key, value)) >= 0;
+    }
+
+    return adapter.delIfMatch(key, value);
+  }
+
   /**
    * Release a previously acquired distributed lock
    */
   async release(handle: LockHandle): Promise<boolean> {
     this.validateHandle(handle);
 
-    try {
-      // Try to release lock on all nodes simultaneously
-      const releasePromises = this.adapters.map(adapter =>
-        adapter.delIfMatch(handle.key, handle.value)
-      );
-
-      const results = await Promise.allSettled(releasePromises);
-      const successfulReleases = results.filter(
-        result => result.status === 'fulfilled' && result.value === true
-      ).length;
-
-      // Consider release successful if we released from at least quorum nodes
-      return successfulReleases >= this.config.quorum;
-    } catch (error) {
-      throw new LockReleaseError(
-        handle.key,
-        'redis_error',
-        error instanceof Error ? error : new Error(ERROR_MESSAGES.UNKNOWN_ERROR)
-      );
-    }
+    return traced(
+      this.tracer,
+      SPAN_NAMES.RELEASE,
+      { attributes: this.spanAttributes() },
+      async span => {
+        try {
+          // Try to release lock on all nodes simultaneously
+          const releasePromises = this.adapters.map(adapter =>
+            this.releaseOnNode(adapter, handle.key, handle.value)
+          );
+
+          const results = await Promise.allSettled(releasePromises);
+          const successfulReleases = results.filter(
+            result => result.status === 'fulfilled' && result.value === true
+          ).length;
+
+          // Consider release successful if we released from at least quorum nodes
+          const released = successfulReleases >= this.config.quorum;
+          span?.setAttributes({
+            [SPAN_ATTRIBUTES.RELEASED]: released,
+            [SPAN_ATTRIBUTES.NODES_SUCCEEDED]: successfulReleases,
+          });
+          this.events.emit('released', handle.key, {
+            duration: Date.now() - handle.acquiredAt,
+            handle,
+            metadata: { released, nodes: successfulReleases },
+          });
+          return released;
+        } catch (error) {
+          throw new LockReleaseError(
+            handle.key,
+            'redis_error',
+            error instanceof Error ? error : new Error(ERROR_MESSAGES.UNKNOWN_ERROR)
+          );
+        }
+      }
+    );
   }
 
   /**
@@ -297,6 +666,42 @@ export class RedLock implements Lock {
       throw new Error('TTL must be a positive integer');
     }
 
+    const attributes = { ...this.spanAttributes(), [SPAN_ATTRIBUTES.TTL]: ttl };
+    return traced(this.tracer, SPAN_NAMES.EXTEND, { attributes }, async span => {
+      const startTime = Date.now();
+      try {
+        const extendedNodes = await this.extendOnNodes(handle, ttl);
+        const extended = extendedNodes >= this.config.quorum;
+        span?.setAttributes({
+          [SPAN_ATTRIBUTES.EXTENDED]: extended,
+          [SPAN_ATTRIBUTES.NODES_SUCCEEDED]: extendedNodes,
+        });
+        this.events.emit(extended ? 'extended' : 'extension_failed', handle.key, {
+          duration: Date.now() - startTime,
+          handle,
+          ...(!extended && {
+            error: new Error(`Lock "${handle.key}" is no longer held on a quorum of nodes`),
+          }),
+          metadata: { ttl, nodes: extendedNodes },
+        });
+        return extended;
+      } catch (error) {
+        this.events.emit('extension_failed', handle.key, {
+          duration: Date.now() - startTime,
+          handle,
+          error,
+          metadata: { ttl },
+        });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Extend the lock on every node
+   * @returns Number of nodes that extended it, 0 when too few nodes still hold it
+   */
+  private async extendOnNodes(handle: LockHandle, ttl: number): Promise<number> {
     try {
       // Check current lock values on all nodes first
       const checkPromises = this.adapters.map(adapter => adapter.get(handle.key));
@@ -310,20 +715,19 @@ export class RedLock implements Lock {
 
       // Need quorum of nodes to have valid lock value
       if (validNodes.length < this.config.quorum) {
-        return false;
+        return 0;
       }
 
       // Extend TTL on all nodes using extendIfMatch for atomicity
       const extendPromises = this.adapters.map(adapter =>
-        adapter.extendIfMatch(handle.key, handle.value, ttl)
+        this.config.reentrant
+          ? adapter.reentrantExtend(handle.key, handle.value, ttl)
+          : adapter.extendIfMatch(handle.key, handle.value, ttl)
       );
 
       const extendResults = await Promise.allSettled(extendPromises);
-      const successfulExtensions = extendResults.filter(
-        result => result.status === 'fulfilled' && result.value === true
-      ).length;
-
-      return successfulExtensions >= this.config.quorum;
+      return extendResults.filter(result => result.status === 'fulfilled' && result.value === true)
+        .length;
     } catch (error) {
       throw new LockExtensionError(
         handle.key,
@@ -333,6 +737,45 @@ export class RedLock implements Lock {
     }
   }
 
+  /**
+   * Reattach a handle acquired elsewhere, e.g. in another process
+   *
+   * Inspects the nodes recorded in the handle and requires the handle's value on a
+   * quorum of them. Node IDs are adapter positions, so the resuming process must
+   * configure the same adapters in the same order.
+   *
+   * @param handle - Handle or the output of serializeHandle()
+   * @returns The live handle, or null when the lock expired or has another owner on too many nodes
+   */
+  async resume(handle: LockHandle | string): Promise<LockHandle | null> {
+    const resumed = typeof handle === 'string' ? deserializeHandle(handle) : handle;
+    this.validateHandle(resumed);
+
+    if (resumed.metadata?.strategy !== 'redlock') {
+      throw new Error(
+        `Cannot resume a ${resumed.metadata?.strategy ?? 'simple'} handle with a RedLock`
+      );
+    }
+
+    const nodes = (resumed.metadata.nodes ?? []).map(nodeId => {
+      const adapter = this.adapters[Number(nodeId.slice(NODE_ID_PREFIX.length))];
+      if (!nodeId.startsWith(NODE_ID_PREFIX) || !adapter) {
+        throw new Error(`Lock handle node "${nodeId}" is not part of this RedLock`);
+      }
+      return adapter;
+    });
+
+    const inspections = await Promise.allSettled(nodes.map(node => node.inspect(resumed.key)));
+    const owned = inspections.filter(
+      inspection =>
+        inspection.status === 'fulfilled' &&
+        inspection.value !== null &&
+        safeCompare(inspection.value.value, resumed.value)
+    ).length;
+
+    return owned >= this.config.quorum ? resumed : null;
+  }
+
   /**
    * Check if the distributed lock is currently held
    */
@@ -371,18 +814,17 @@ export class RedLock implements Lock {
     }
   }
 
-  /**
-   * Sleep for specified milliseconds
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Get RedLock configuration (for debugging)
    */
   getConfig(): Readonly<RedLockConfig> {
-    return { ...this.config };
+    return {
+      ...this.config,
+      ...(this.ownerId !== undefined && { ownerId: this.ownerId }),
+      ...(this.owner !== undefined && { owner: this.owner }),
+      ...(this.retryStrategy !== undefined && { retryStrategy: this.retryStrategy }),
+      ...(this.tracer !== undefined && { tracer: this.tracer }),
+    };
   }
 
   /**
@@ -412,18 +854,33 @@ export class RedLock implements Lock {
    * Auto-extends when remaining TTL < 20% (extends at ~80% consumed)
    * Uses quorum-based extension strategy (continues if majority of nodes succeed)
    * Provides AbortSignal when extension fails
+   * Pass `options.handle` to run under a resumed handle instead of acquiring
+   * With a tracer, the routine runs in the context of the using() span
    */
-  async using<T>(routine: (signal: ExtendedAbortSignal) => Promise<T>): Promise<T> {
-    const handle = await this.acquire();
-    const baseConfig = {
-      locks: [this],
-      handles: [handle],
-      ttl: this.config.ttl,
-      routine,
-    };
+  async using<T>(
+    routine: (signal: ExtendedAbortSignal) => Promise<T>,
+    options: UsingOptions = {}
+  ): Promise<T> {
+    if (options.handle) {
+      this.validateHandle(options.handle);
+    }
 
-    return executeWithAutoExtension(
-      this.config.logger ? { ...baseConfig, logger: this.config.logger } : baseConfig
+    return traced(
+      this.tracer,
+      SPAN_NAMES.USING,
+      { attributes: this.spanAttributes() },
+      async () => {
+        const handle = options.handle ?? (await this.acquire());
+        return executeWithAutoExtension({
+          locks: [this],
+          handles: [handle],
+          ttl: this.config.ttl,
+          routine,
+          ...(this.config.logger && { logger: this.config.logger }),
+          ...(this.tracer && { tracer: this.tracer }),
+          events: this.events,
+        });
+      }
     );
   }
 }
@@ -0,0 +1,267 @@
+/**
+ * Distributed counting semaphore
+ * Up to N holders may own the key at once, each with its own lease
+ */
+
+import type { RedisAdapter } from '../types/adapters.js';
+import type { AcquireOptions, Lock, LockHandle, SemaphoreConfig } from '../types/locks.js';
+import type { ILogger } from '../monitoring/Logger.js';
+import { LockAcquisitionError, LockReleaseError, LockExtensionError } from '../types/errors.js';
+import { generateLockValue, generateLockId } from '../utils/crypto.js';
+import { executeWithAutoExtension, type ExtendedAbortSignal } from '../utils/auto-extension.js';
+import { AcquireDeadline, validateAcquireOptions } from '../utils/acquire-deadline.js';
+import { DEFAULTS, ERROR_MESSAGES } from '../constants.js';
+
+/**
+ * Counting semaphore for a single Redis instance
+ *
+ * Holders are stored as leases in a sorted set (one member per handle, scored by
+ * expiry), so a crashed holder only frees its own permit once its lease runs out.
+ * Permits are handed out atomically in a Lua script, no probing of separate keys.
+ *
+ * @example
+ * ```typescript
+ * const semaphore = new Semaphore({ adapter, key: 'api:quota', limit: 5 });
+ * await semaphore.using(async () => callRateLimitedApi());
+ * ```
+ */
+export class Semaphore implements Lock {
+  private readonly adapter: RedisAdapter;
+  private readonly key: string;
+  private readonly limit: number;
+  private readonly ttl: number;
+  private readonly retryAttempts: number;
+  private readonly retryDelay: number;
+  private readonly nodeIndex: number | undefined;
+  private readonly logger: ILogger | undefined;
+
+  constructor(config: SemaphoreConfig) {
+    this.validateConfig(config);
+
+    this.adapter = config.adapter;
+    this.key = config.key;
+    this.limit = config.limit;
+    this.ttl = config.ttl ?? DEFAULTS.TTL;
+    this.retryAttempts = config.retryAttempts ?? DEFAULTS.RETRY_ATTEMPTS;
+    this.retryDelay = config.retryDelay ?? DEFAULTS.RETRY_DELAY;
+    this.nodeIndex = config.nodeIndex;
+    this.logger = config.logger;
+  }
+
+  /**
+   * Validate configuration parameters
+   */
+  private validateConfig(config: SemaphoreConfig): void {
+    if (!config.adapter) {
+      throw new Error('Redis adapter is required');
+    }
+
+    if (!config.key || typeof config.key !== 'string') {
+      throw new Error('Lock key must be a non-empty string');
+    }
+
+    if (!Number.isInteger(config.limit) || config.limit <= 0) {
+      throw new Error('Semaphore limit must be a positive integer');
+    }
+
+    const ttl = config.ttl ?? DEFAULTS.TTL;
+    if (ttl <= 0 || !Number.isInteger(ttl)) {
+      throw new Error('TTL must be a positive integer');
+    }
+
+    const retryAttempts = config.retryAttempts ?? DEFAULTS.RETRY_ATTEMPTS;
+    if (retryAttempts < 0 || !Number.isInteger(retryAttempts)) {
+      throw new Error('Retry attempts must be a non-negative integer');
+    }
+
+    const retryDelay = config.retryDelay ?? DEFAULTS.RETRY_DELAY;
+    if (retryDelay < 0 || !Number.isInteger(retryDelay)) {
+      throw new Error('Retry delay must be a non-negative integer');
+    }
+  }
+
+  /**
+   * Take a permit with retry logic
+   * Each call returns a separate handle with its own lease
+   * @param options - Optional abort signal, acquisition timeout and lease TTL override
+   */
+  async acquire(options: AcquireOptions = {}): Promise<LockHandle> {
+    validateAcquireOptions(options);
+    options.signal?.throwIfAborted();
+
+    const deadline = new AcquireDeadline(this.key, options);
+    try {
+      return await this.acquireWithRetry(options.ttl ?? this.ttl, deadline);
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Retry loop of acquire()
+   */
+  private async acquireWithRetry(ttl: number, deadline: AcquireDeadline): Promise<LockHandle> {
+    const startTime = Date.now();
+    const token = generateLockValue();
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.retryAttempts; attempt++) {
+      deadline.throwIfAborted(attempt, lastError);
+
+      try {
+        const acquired = await deadline.run(
+          this.adapter.acquireSemaphore(this.key, token, this.limit, ttl),
+          late => late && this.adapter.releaseSemaphore(this.key, token)
+        );
+
+        if (acquired) {
+          return {
+            id: generateLockId(),
+            key: this.key,
+            value: token,
+            acquiredAt: Date.now(),
+            ttl,
+            metadata: {
+              attempts: attempt + 1,
+              acquisitionTime: Date.now() - startTime,
+              strategy: 'semaphore',
+              limit: this.limit,
+              ...(this.nodeIndex !== undefined && { nodeIndex: this.nodeIndex }),
+            },
+          };
+        }
+
+        lastError = new Error(`All ${this.limit} permits of semaphore "${this.key}" are taken`);
+      } catch (error) {
+        deadline.throwIfAborted(attempt + 1, lastError);
+        lastError = error instanceof Error ? error : new Error(ERROR_MESSAGES.UNKNOWN_ERROR);
+
+        if (this.logger) {
+          this.logger.error('Semaphore acquisition attempt failed', lastError, {
+            key: this.key,
+            limit: this.limit,
+            attempt: attempt + 1,
+          });
+        }
+      }
+
+      if (attempt < this.retryAttempts) {
+        await deadline.sleep(this.retryDelay);
+      }
+    }
+
+    throw new LockAcquisitionError(
+      this.key,
+      this.retryAttempts + 1,
+      lastError || new Error(ERROR_MESSAGES.UNKNOWN_ERROR)
+    );
+  }
+
+  /**
+   * Return the permit held by this handle
+   */
+  async release(handle: LockHandle): Promise<boolean> {
+    this.validateHandle(handle);
+
+    try {
+      return await this.adapter.releaseSemaphore(handle.key, handle.value);
+    } catch (error) {
+      throw new LockReleaseError(handle.key, 'redis_error', error as Error);
+    }
+  }
+
+  /**
+   * Extend the lease held by this handle
+   */
+  async extend(handle: LockHandle, ttl: number): Promise<boolean> {
+    this.validateHandle(handle);
+
+    if (ttl <= 0 || !Number.isInteger(ttl)) {
+      throw new Error('TTL must be a positive integer');
+    }
+
+    try {
+      return await this.adapter.extendSemaphore(handle.key, handle.value, ttl);
+    } catch (error) {
+      throw new LockExtensionError(handle.key, 'redis_error', error as Error);
+    }
+  }
+
+  /**
+   * Check if every permit is taken
+   */
+  async isLocked(key: string): Promise<boolean> {
+    try {
+      return (await this.adapter.countSemaphoreHolders(key)) >= this.limit;
+    } catch (_error) {
+      return false;
+    }
+  }
+
+  /**
+   * Get the number of permits currently free
+   */
+  async getAvailablePermits(): Promise<number> {
+    const holders = await this.adapter.countSemaphoreHolders(this.key);
+    return Math.max(this.limit - holders, 0);
+  }
+
+  /**
+   * Get the underlying Redis adapter
+   * Semaphore handles are leases, so adapter.atomicExtend() does not apply to them
+   */
+  getAdapter(): RedisAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * Execute a routine holding a permit, with automatic lease extension
+   */
+  async using<T>(routine: (signal: ExtendedAbortSignal) => Promise<T>): Promise<T> {
+    const handle = await this.acquire();
+    const baseConfig = {
+      locks: [this],
+      handles: [handle],
+      ttl: this.ttl,
+      routine,
+      // Leases live in a sorted set, extend them through the semaphore instead
+      atomicExtension: false,
+    };
+
+    return executeWithAutoExtension(
+      this.logger ? { ...baseConfig, logger: this.logger } : baseConfig
+    );
+  }
+
+  /**
+   * Get semaphore configuration (for debugging)
+   */
+  getConfig(): Readonly<SemaphoreConfig> {
+    return Object.freeze({
+      adapter: this.adapter,
+      key: this.key,
+      limit: this.limit,
+      ttl: this.ttl,
+      retryAttempts: this.retryAttempts,
+      retryDelay: this.retryDelay,
+      ...(this.logger !== undefined && { logger: this.logger }),
+    });
+  }
+
+  /**
+   * Validate lock handle
+   */
+  private validateHandle(handle: LockHandle): void {
+    if (!handle) {
+      throw new Error('Lock handle is required');
+    }
+
+    if (!handle.id || !handle.key || !handle.value) {
+      throw new Error('Invalid lock handle: missing required properties');
+    }
+
+    if (handle.key !== this.key) {
+      throw new Error(`Lock handle key "${handle.key}" does not match lock key "${this.key}"`);
+    }
+  }
+}
@@ -1,17 +1,67 @@
-import type { RedisAdapter } from '../types/adapters.js';
-import type { Lock, LockHandle, SimpleLockConfig } from '../types/locks.js';
+import type { LockOwner, LockTakeover, RedisAdapter } from '../types/adapters.js';
+import type {
+  AcquireOptions,
+  FairQueueInspection,
+  Lock,
+  LockHandle,
+  RunOnceOptions,
+  RunOnceResult,
+  SimpleLockConfig,
+  TryAcquireResult,
+  UsingOptions,
+  WaitMode,
+} from '../types/locks.js';
 import type { ILogger } from '../monitoring/Logger.js';
-import { LockAcquisitionError, LockReleaseError, LockExtensionError } from '../types/errors.js';
-import { generateLockValue, generateLockId } from '../utils/crypto.js';
 import {
-  executeWithSingleLockExtension,
-  type ExtendedAbortSignal,
-} from '../utils/auto-extension.js';
+  SPAN_ATTRIBUTES,
+  SPAN_NAMES,
+  traced,
+  type SpanAttributes,
+  type Tracer,
+} from '../monitoring/tracing.js';
+import { LockEventEmitter, emitTryAcquireResult } from '../monitoring/LockEventEmitter.js';
+import {
+  LockAcquisitionError,
+  LockReleaseError,
+  LockExtensionError,
+  RunOnceError,
+} from '../types/errors.js';
+import {
+  createLockValueWithOwner,
+  generateLockValue,
+  generateLockId,
+  safeCompare,
+} from '../utils/crypto.js';
+import { executeWithAutoExtension, type ExtendedAbortSignal } from '../utils/auto-extension.js';
+import { ReleaseWaiter } from '../utils/release-waiter.js';
+import { AcquireDeadline, validateAcquireOptions } from '../utils/acquire-deadline.js';
+import { deserializeHandle } from '../utils/handle-serialization.js';
+import {
+  createRetrySchedule,
+  retryWindow,
+  validateRetryStrategy,
+  type RetryStrategy,
+} from '../utils/retry.js';
+import { localLockQueue, type LocalLockQueue } from '../utils/local-queue.js';
 import { DEFAULTS, ERROR_MESSAGES } from '../constants.js';
 
 // Redis response constants
 const REDIS_OK_RESPONSE = 'OK';
 
+/**
+ * Outcome of a single acquisition attempt
+ */
+interface AttemptResult {
+  acquired: boolean;
+  fencingToken: number | null;
+  holdCount: number;
+  takeover?: LockTakeover;
+}
+
+// Fair lock tickets outlive a few retry cycles so a polling waiter keeps its place
+const TICKET_RETRY_MULTIPLIER = 3;
+const MIN_TICKET_TTL = 100;
+
 /**
  * Simple lock implementation for single Redis instance
  * Provides reliable locking with retry logic and proper error handling
@@ -24,9 +74,19 @@ export class SimpleLock implements Lock {
   private readonly retryAttempts: number;
   private readonly retryDelay: number;
   private readonly logger: ILogger | undefined;
-  private readonly correlationId?: string;
-  private readonly onAcquire?: (handle: LockHandle) => void;
-  private readonly onRelease?: (handle: LockHandle) => void;
+  private readonly fencing: boolean;
+  private readonly reentrant: boolean;
+  private readonly ownerId: string | undefined;
+  private readonly owner: LockOwner | undefined;
+  private readonly fair: boolean;
+  private readonly waitMode: WaitMode;
+  private readonly retryStrategy: RetryStrategy | undefined;
+  private readonly staleAfter: number | undefined;
+  private readonly localQueue: LocalLockQueue | undefined;
+  private readonly tracer: Tracer | undefined;
+  private readonly correlationId: string | undefined;
+  /** Acquisition, extension, release and circuit breaker events of this lock */
+  readonly events: LockEventEmitter;
   private _configCache?: Readonly<SimpleLockConfig>;
 
   private _lastHealthCheck: number = 0;
@@ -43,6 +103,7 @@ export class SimpleLock implements Lock {
   private readonly _metadataTemplate: {
     strategy: 'simple';
     correlationId?: string;
+    staleAfter?: number;
   };
 
   constructor(config: SimpleLockConfig) {
@@ -54,12 +115,18 @@ export class SimpleLock implements Lock {
     this.retryAttempts = config.retryAttempts ?? DEFAULTS.RETRY_ATTEMPTS;
     this.retryDelay = config.retryDelay ?? DEFAULTS.RETRY_DELAY;
     this.logger = config.logger;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    this.correlationId = (config as any).correlationId;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    this.onAcquire = (config as any).onAcquire;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    this.onRelease = (config as any).onRelease;
+    this.fencing = config.fencing ?? false;
+    this.reentrant = config.reentrant ?? false;
+    this.owner = config.owner;
+    this.ownerId = this.reentrant ? (config.ownerId ?? this.generateValue()) : undefined;
+    this.fair = config.fair ?? false;
+    this.waitMode = config.waitMode ?? 'polling';
+    this.retryStrategy = config.retryStrategy;
+    this.staleAfter = config.staleAfter;
+    this.localQueue = config.localQueue ? localLockQueue(config.adapter) : undefined;
+    this.tracer = config.tracer;
+    this.events = config.events ?? new LockEventEmitter(config.logger);
+    this.correlationId = config.correlationId;
 
     // Parse circuit breaker config
     const cbConfig = config.circuitBreaker;
@@ -95,6 +162,7 @@ export class SimpleLock implements Lock {
     this._metadataTemplate = Object.freeze({
       strategy: 'simple' as const,
       ...(this.correlationId && { correlationId: this.correlationId }),
+      ...(this.staleAfter !== undefined && { staleAfter: this.staleAfter }),
     });
   }
 
@@ -120,6 +188,53 @@ export class SimpleLock implements Lock {
     if (retryDelay < 0 || !Number.isInteger(retryDelay)) {
       throw new Error('Retry delay must be a non-negative integer');
     }
+
+    if (config.retryStrategy !== undefined) {
+      validateRetryStrategy(config.retryStrategy);
+    }
+
+    if (config.reentrant && config.fencing) {
+      throw new Error('Fencing tokens are not supported for reentrant locks');
+    }
+
+    if (config.reentrant && config.fair) {
+      throw new Error('Reentrant locks cannot be fair');
+    }
+
+    if (config.ownerId !== undefined && (!config.ownerId || typeof config.ownerId !== 'string')) {
+      throw new Error('Owner ID must be a non-empty string');
+    }
+
+    if (config.owner !== undefined && config.ownerId !== undefined) {
+      throw new Error('Owner metadata cannot be combined with an explicit owner ID');
+    }
+
+    if (config.owner !== undefined) {
+      // Throws when the metadata does not fit into a lock value
+      createLockValueWithOwner(config.owner);
+    }
+
+    if (config.staleAfter !== undefined) {
+      if (config.staleAfter <= 0 || !Number.isInteger(config.staleAfter)) {
+        throw new Error('Stale-after threshold must be a positive integer');
+      }
+
+      if (config.fencing || config.reentrant || config.fair) {
+        throw new Error('Heartbeat takeover is not supported for fencing, reentrant or fair locks');
+      }
+    }
+
+    // A reentrant owner acquiring again would queue behind its own turn
+    if (config.localQueue && config.reentrant) {
+      throw new Error('Local queueing is not supported for reentrant locks');
+    }
+  }
+
+  /**
+   * Fresh lock value, carrying the owner metadata when configured
+   */
+  private generateValue(): string {
+    return this.owner ? createLockValueWithOwner(this.owner) : generateLockValue();
   }
 
   /**
@@ -132,6 +247,9 @@ export class SimpleLock implements Lock {
       this._circuitBreakerFailures = 0;
       if (this._circuitBreakerState === 'half-open') {
         this._circuitBreakerState = 'closed';
+        this.events.emit('circuit_closed', this.key, {
+          duration: now - this._circuitBreakerOpenedAt,
+        });
         if (this.logger) {
           this.logger.info('Circuit breaker closed - Redis recovered', {
             key: this.key,
@@ -147,6 +265,7 @@ export class SimpleLock implements Lock {
         // Probe failed — re-open the circuit
         this._circuitBreakerState = 'open';
         this._circuitBreakerOpenedAt = now;
+        this.emitCircuitOpened('Circuit breaker probe failed');
         if (this.logger) {
           this.logger.error('Circuit breaker re-opened - probe failed', undefined, {
             key: this.key,
@@ -160,6 +279,7 @@ export class SimpleLock implements Lock {
       ) {
         this._circuitBreakerState = 'open';
         this._circuitBreakerOpenedAt = now;
+        this.emitCircuitOpened('Redis failing');
         if (this.logger) {
           this.logger.error('Circuit breaker opened - Redis failing', undefined, {
             key: this.key,
@@ -172,6 +292,13 @@ export class SimpleLock implements Lock {
     }
   }
 
+  private emitCircuitOpened(reason: string): void {
+    this.events.emit('circuit_opened', this.key, {
+      error: new Error(reason),
+      metadata: { failures: this._circuitBreakerFailures },
+    });
+  }
+
   /**
    * Check Redis connection health periodically
    */
@@ -211,80 +338,343 @@ export class SimpleLock implements Lock {
 
   /**
    * Attempt to acquire the lock
+   * @param options - Optional abort signal, acquisition timeout and TTL override
    */
-  async acquire(): Promise<LockHandle> {
+  async acquire(options: AcquireOptions = {}): Promise<LockHandle> {
+    return this.acquireLock(options, false);
+  }
+
+  /**
+   * Acquire the lock, taking it over when its holder stopped sending heartbeats
+   *
+   * Only holders that acquired with a heartbeat record can be replaced, and only once
+   * their last heartbeat is older than the staleAfter they declared, compared on the
+   * Redis server clock. A healthy holder is waited for and retried like in acquire().
+   * Every takeover is recorded in the audit trail, see getTakeovers().
+   *
+   * @param options - Optional abort signal, acquisition timeout and TTL override
+   * @returns Handle of the new holder, metadata.takeover describes a replaced holder
+   * @throws Error if the lock was created without staleAfter
+   */
+  async takeover(options: AcquireOptions = {}): Promise<LockHandle> {
+    this.assertHeartbeatEnabled('takeover');
+    return this.acquireLock(options, true);
+  }
+
+  /**
+   * Shared implementation of acquire() and takeover(), traced as one span
+   */
+  private async acquireLock(options: AcquireOptions, steal: boolean): Promise<LockHandle> {
+    const attributes = { ...this.spanAttributes(), [SPAN_ATTRIBUTES.TTL]: options.ttl ?? this.ttl };
+
+    return traced(this.tracer, SPAN_NAMES.ACQUIRE, { attributes }, async span => {
+      const startTime = Date.now();
+      this.events.emit('acquisition_started', this.key, { metadata: { takeover: steal } });
+
+      try {
+        const handle = await this.runAcquisition(options, steal);
+        span?.setAttributes({
+          [SPAN_ATTRIBUTES.ACQUIRED]: true,
+          [SPAN_ATTRIBUTES.ATTEMPTS]: handle.metadata?.attempts,
+        });
+        this.events.emit('acquisition_success', this.key, {
+          duration: Date.now() - startTime,
+          handle,
+          metadata: { strategy: 'simple', attempts: handle.metadata?.attempts },
+        });
+        return handle;
+      } catch (error) {
+        const attempts = error instanceof LockAcquisitionError ? error.attempts : undefined;
+        span?.setAttributes({
+          [SPAN_ATTRIBUTES.ACQUIRED]: false,
+          [SPAN_ATTRIBUTES.ATTEMPTS]: attempts,
+        });
+        this.events.emit('acquisition_failed', this.key, {
+          duration: Date.now() - startTime,
+          error,
+          metadata: { strategy: 'simple', attempts },
+        });
+        throw error;
+      } finally {
+        span?.setAttribute(SPAN_ATTRIBUTES.CIRCUIT_BREAKER_STATE, this._circuitBreakerState);
+      }
+    });
+  }
+
+  /**
+   * Attributes shared by the spans of this lock
+   */
+  private spanAttributes(): SpanAttributes {
+    return { [SPAN_ATTRIBUTES.KEY]: this.key, [SPAN_ATTRIBUTES.STRATEGY]: 'simple' };
+  }
+
+  /**
+   * Acquire through the local queue and the retry loop
+   */
+  private async runAcquisition(options: AcquireOptions, steal: boolean): Promise<LockHandle> {
+    validateAcquireOptions(options);
+    options.signal?.throwIfAborted();
+
+    const rejection = this.checkCircuitBreaker();
+    if (rejection) {
+      throw new LockAcquisitionError(this.key, 0, new Error(rejection));
+    }
+
     if (this._circuitBreakerEnabled) {
-      if (this._circuitBreakerState === 'open') {
-        const now = Date.now();
-        if (now - this._circuitBreakerOpenedAt > this._circuitBreakerTimeout) {
-          this._circuitBreakerState = 'half-open';
-          if (this.logger) {
-            this.logger.info('Circuit breaker half-open - testing Redis', {
-              key: this.key,
-              correlationId: this.correlationId,
-              circuitBreakerState: this._circuitBreakerState,
-            });
-          }
-          // Fall through — this acquire call serves as the probe
-        } else {
-          throw new LockAcquisitionError(
-            this.key,
-            0,
-            new Error('Circuit breaker is open - Redis is failing')
-          );
-        }
-      } else if (this._circuitBreakerState === 'half-open') {
-        // Another acquire() is already probing — fast-fail to avoid flooding
-        throw new LockAcquisitionError(
+      await this.checkConnectionHealth();
+    }
+
+    const startTime = Date.now();
+    // Reentrant locks store the owner identity so the same owner can acquire again
+    const lockValue = this.ownerId ?? this.generateValue();
+    const ttl = options.ttl ?? this.ttl;
+    const deadline = new AcquireDeadline(this.key, options);
+    const waiter =
+      this.waitMode === 'pubsub'
+        ? new ReleaseWaiter([this.adapter], [this.key], this.logger)
+        : undefined;
+
+    let queued = false;
+
+    try {
+      if (this.localQueue) {
+        await this.localQueue.waitForTurn(
           this.key,
-          0,
-          new Error('Circuit breaker is half-open - probe in progress')
+          retryWindow(this.retryStrategy, this.retryDelay, this.retryAttempts),
+          deadline
         );
+        queued = true;
+      }
+
+      const handle = await this.acquireWithRetry(
+        lockValue,
+        ttl,
+        startTime,
+        waiter,
+        deadline,
+        steal
+      );
+      this.localQueue?.hold(handle);
+      return handle;
+    } catch (error) {
+      if (queued) {
+        this.localQueue!.leave(this.key);
+      }
+      // Leave the queue so waiters behind us do not wait for our ticket to expire
+      if (this.fair) {
+        await this.adapter.cancelFairWait(this.key, lockValue).catch(() => {});
       }
+      throw error;
+    } finally {
+      deadline.dispose();
+      await waiter?.close();
+    }
+  }
+
+  /**
+   * Make a single acquisition attempt without throwing
+   * Contention, an open circuit and Redis failures are reported in the result instead
+   *
+   * @param options - Optional TTL override
+   */
+  async tryAcquire(options: Pick<AcquireOptions, 'ttl'> = {}): Promise<TryAcquireResult> {
+    validateAcquireOptions(options);
+
+    const startTime = Date.now();
+    this.events.emit('acquisition_started', this.key, { metadata: { tryAcquire: true } });
+    const result = await this.attemptOnce(options);
+    emitTryAcquireResult(this.events, result, startTime);
+    return result;
+  }
+
+  private async attemptOnce(options: Pick<AcquireOptions, 'ttl'>): Promise<TryAcquireResult> {
+    if (this.checkCircuitBreaker()) {
+      return { acquired: false, reason: 'circuit-open', key: this.key };
     }
 
     if (this._circuitBreakerEnabled) {
       await this.checkConnectionHealth();
     }
 
+    // Another contender of this process has the turn, the lock cannot be free for us
+    if (this.localQueue && !this.localQueue.tryEnter(this.key)) {
+      const holder = await this.adapter.inspect(this.key).catch(() => null);
+      return { acquired: false, reason: 'held', key: this.key, holder };
+    }
+
     const startTime = Date.now();
+    const lockValue = this.ownerId ?? this.generateValue();
+    const ttl = options.ttl ?? this.ttl;
+    let acquired = false;
+
+    try {
+      const result = await this.attemptAcquire(
+        lockValue,
+        ttl,
+        Math.max(this.retryDelay * TICKET_RETRY_MULTIPLIER, MIN_TICKET_TTL),
+        0
+      );
+
+      if (this._circuitBreakerEnabled) {
+        this.updateCircuitBreaker(true);
+      }
+
+      if (result.acquired) {
+        const handle = this.createHandle(lockValue, ttl, 1, startTime, result);
+        this.localQueue?.hold(handle);
+        acquired = true;
+        return { acquired: true, handle };
+      }
+
+      if (this.fair) {
+        await this.adapter.cancelFairWait(this.key, lockValue).catch(() => {});
+      }
+
+      const holder = await this.adapter.inspect(this.key).catch(() => null);
+      return { acquired: false, reason: 'held', key: this.key, holder };
+    } catch (error) {
+      if (this._circuitBreakerEnabled) {
+        this.updateCircuitBreaker(false);
+      }
+
+      return {
+        acquired: false,
+        reason: 'adapter-error',
+        key: this.key,
+        error: error instanceof Error ? error : new Error(ERROR_MESSAGES.UNKNOWN_ERROR),
+      };
+    } finally {
+      if (!acquired) {
+        this.localQueue?.leave(this.key);
+      }
+    }
+  }
+
+  /**
+   * Gate acquisition attempts on the circuit breaker
+   * Moves an expired open circuit to half-open, so the caller becomes the probe
+   *
+   * @returns Rejection reason, or null when the attempt may proceed
+   */
+  private checkCircuitBreaker(): string | null {
+    if (!this._circuitBreakerEnabled) {
+      return null;
+    }
+
+    if (this._circuitBreakerState === 'open') {
+      const now = Date.now();
+      if (now - this._circuitBreakerOpenedAt <= this._circuitBreakerTimeout) {
+        return 'Circuit breaker is open - Redis is failing';
+      }
+
+      this._circuitBreakerState = 'half-open';
+      if (this.logger) {
+        this.logger.info('Circuit breaker half-open - testing Redis', {
+          key: this.key,
+          correlationId: this.correlationId,
+          circuitBreakerState: this._circuitBreakerState,
+        });
+      }
+      // This call serves as the probe
+      return null;
+    }
+
+    if (this._circuitBreakerState === 'half-open') {
+      // Another call is already probing — fast-fail to avoid flooding
+      return 'Circuit breaker is half-open - probe in progress';
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the handle of a successful attempt
+   */
+  private createHandle(
+    lockValue: string,
+    ttl: number,
+    attempts: number,
+    startTime: number,
+    { fencingToken, holdCount, takeover }: AttemptResult
+  ): LockHandle {
+    const handle: LockHandle = {
+      id: generateLockId(),
+      key: this.key,
+      value: lockValue,
+      acquiredAt: Date.now(),
+      ttl,
+      ...(fencingToken !== null && { fencingToken }),
+      metadata: {
+        attempts,
+        acquisitionTime: Date.now() - startTime,
+        ...this._metadataTemplate,
+        ...(this.reentrant && { holdCount }),
+        ...(takeover && { takeover }),
+      },
+    };
+
+    return handle;
+  }
+
+  /**
+   * Retry loop of acquire(), waiting for a release notification or the retry delay between attempts
+   */
+  private async acquireWithRetry(
+    lockValue: string,
+    ttl: number,
+    startTime: number,
+    waiter: ReleaseWaiter | undefined,
+    deadline: AcquireDeadline,
+    steal: boolean
+  ): Promise<LockHandle> {
     let lastError: Error | null = null;
-    const lockValue = generateLockValue();
+    const nextDelay = createRetrySchedule(this.retryStrategy, this.retryDelay);
 
     for (let attempt = 0; attempt <= this.retryAttempts; attempt++) {
+      deadline.throwIfAborted(attempt, lastError);
+
+      const delay = attempt < this.retryAttempts ? nextDelay(attempt + 1) : 0;
+      // Fair waiters use the lock value as their queue ticket, it must outlive the next wait
+      const ticketTTL = Math.max(
+        Math.max(delay, this.retryDelay) * TICKET_RETRY_MULTIPLIER,
+        MIN_TICKET_TTL
+      );
+
       try {
-        const result = await this.adapter.setNX(this.key, lockValue, this.ttl);
+        const result = await traced(
+          this.tracer,
+          SPAN_NAMES.ATTEMPT,
+          { attributes: { ...this.spanAttributes(), [SPAN_ATTRIBUTES.ATTEMPTS]: attempt + 1 } },
+          async span => {
+            const result = await deadline.run(
+              this.attemptAcquire(lockValue, ttl, ticketTTL, attempt, steal),
+              late => this.abandonAttempt(lockValue, late)
+            );
+            span?.setAttribute(SPAN_ATTRIBUTES.ACQUIRED, result.acquired);
+            return result;
+          }
+        );
 
         if (this._circuitBreakerEnabled) {
           this.updateCircuitBreaker(true);
         }
 
-        if (result === REDIS_OK_RESPONSE) {
-          const acquisitionTime = Date.now() - startTime;
-          const acquiredAt = Date.now();
-
-          const handle: LockHandle = {
-            id: generateLockId(),
-            key: this.key,
-            value: lockValue,
-            acquiredAt,
-            ttl: this.ttl,
-            metadata: {
-              attempts: attempt + 1,
-              acquisitionTime,
-              ...this._metadataTemplate,
-            },
-          };
-
-          this.onAcquire?.(handle);
-
-          return handle;
+        if (result.acquired) {
+          return this.createHandle(lockValue, ttl, attempt + 1, startTime, result);
         }
 
         if (!lastError) {
           lastError = new Error(`Lock "${this.key}" is already held`);
         }
       } catch (error) {
+        if (deadline.aborted) {
+          // An interrupted probe says nothing about Redis health, let the next call probe again
+          if (this._circuitBreakerState === 'half-open') {
+            this._circuitBreakerState = 'open';
+          }
+          deadline.throwIfAborted(attempt + 1, lastError);
+        }
+
         lastError = error as Error;
 
         if (this._circuitBreakerEnabled) {
@@ -304,7 +694,16 @@ export class SimpleLock implements Lock {
       }
 
       if (attempt < this.retryAttempts) {
-        await this.sleep(this.retryDelay);
+        if (this.logger) {
+          this.logger.debug('Retrying lock acquisition', {
+            key: this.key,
+            correlationId: this.correlationId,
+            attempt: attempt + 1,
+            delay,
+          });
+        }
+
+        await (waiter ? waiter.wait(delay, deadline.signal) : deadline.sleep(delay));
       }
     }
 
@@ -315,21 +714,150 @@ export class SimpleLock implements Lock {
     );
   }
 
+  /**
+   * Run one acquisition attempt with the strategy of this lock
+   */
+  private async attemptAcquire(
+    lockValue: string,
+    ttl: number,
+    ticketTTL: number,
+    attempt: number,
+    steal = false
+  ): Promise<AttemptResult> {
+    if (this.reentrant) {
+      const holdCount = await this.adapter.reentrantAcquire(this.key, lockValue, ttl);
+      return { acquired: holdCount > 0, fencingToken: null, holdCount };
+    }
+
+    if (this.fair) {
+      const result = await this.adapter.fairAcquire(
+        this.key,
+        lockValue,
+        ttl,
+        ticketTTL,
+        this.fencing
+      );
+
+      if (!result.acquired && this.logger) {
+        this.logger.debug('Waiting in fair lock queue', {
+          key: this.key,
+          correlationId: this.correlationId,
+          position: result.position,
+          attempt: attempt + 1,
+        });
+      }
+
+      return {
+        acquired: result.acquired,
+        fencingToken: result.fencingToken ?? null,
+        holdCount: 0,
+      };
+    }
+
+    if (steal) {
+      return this.attemptTakeover(lockValue, ttl);
+    }
+
+    if (this.staleAfter !== undefined) {
+      const acquired = await this.adapter.heartbeatAcquire(
+        this.key,
+        lockValue,
+        ttl,
+        this.staleAfter
+      );
+      return { acquired, fencingToken: null, holdCount: 0 };
+    }
+
+    if (this.fencing) {
+      const fencingToken = await this.adapter.setNXWithFencingToken(this.key, lockValue, ttl);
+      return { acquired: fencingToken !== null, fencingToken, holdCount: 0 };
+    }
+
+    const result = await this.adapter.setNX(this.key, lockValue, ttl);
+    return { acquired: result === REDIS_OK_RESPONSE, fencingToken: null, holdCount: 0 };
+  }
+
+  /**
+   * Run one takeover attempt, replacing a stale holder
+   */
+  private async attemptTakeover(lockValue: string, ttl: number): Promise<AttemptResult> {
+    const { acquired, takeover } = await this.adapter.takeoverStale(
+      this.key,
+      lockValue,
+      ttl,
+      this.staleAfter!
+    );
+
+    if (takeover && this.logger) {
+      this.logger.warn('Took over stale lock', {
+        key: this.key,
+        correlationId: this.correlationId,
+        previousValue: takeover.previousValue,
+        previousOwner: takeover.previousOwner,
+        heartbeatAge: takeover.heartbeatAge,
+      });
+    }
+
+    return { acquired, fencingToken: null, holdCount: 0, ...(takeover && { takeover }) };
+  }
+
+  /**
+   * Undo an attempt that completed after its acquisition was aborted
+   */
+  private async abandonAttempt(lockValue: string, result: AttemptResult): Promise<void> {
+    if (!result.acquired) {
+      if (this.fair) {
+        await this.adapter.cancelFairWait(this.key, lockValue);
+      }
+      return;
+    }
+
+    if (this.reentrant) {
+      await this.adapter.reentrantRelease(this.key, lockValue);
+    } else if (this.staleAfter !== undefined) {
+      await this.adapter.heartbeatRelease(this.key, lockValue);
+    } else {
+      await this.adapter.delIfMatch(this.key, lockValue);
+    }
+  }
+
   /**
    * Release a previously acquired lock
    */
   async release(handle: LockHandle): Promise<boolean> {
     this.validateHandle(handle);
 
-    try {
-      const released = await this.adapter.delIfMatch(handle.key, handle.value);
+    return traced(
+      this.tracer,
+      SPAN_NAMES.RELEASE,
+      { attributes: this.spanAttributes() },
+      async span => {
+        try {
+          let released: boolean;
+          if (this.reentrant) {
+            released = (await this.adapter.reentrantRelease(handle.key, handle.value)) >= 0;
+          } else if (this.staleAfter !== undefined) {
+            released = await this.adapter.heartbeatRelease(handle.key, handle.value);
+          } else {
+            released = await this.adapter.delIfMatch(handle.key, handle.value);
+          }
 
-      this.onRelease?.(handle);
+          span?.setAttribute(SPAN_ATTRIBUTES.RELEASED, released);
+          this.events.emit('released', handle.key, {
+            duration: Date.now() - handle.acquiredAt,
+            handle,
+            metadata: { released },
+          });
 
-      return released;
-    } catch (error) {
-      throw new LockReleaseError(handle.key, 'redis_error', error as Error);
-    }
+          return released;
+        } catch (error) {
+          throw new LockReleaseError(handle.key, 'redis_error', error as Error);
+        } finally {
+          // The handle may come from another instance, e.g. LockManager.releaseLock()
+          localLockQueue(this.adapter).release(handle);
+        }
+      }
+    );
   }
 
   /**
@@ -342,7 +870,45 @@ export class SimpleLock implements Lock {
       throw new Error('TTL must be a positive integer');
     }
 
+    const attributes = { ...this.spanAttributes(), [SPAN_ATTRIBUTES.TTL]: ttl };
+    return traced(this.tracer, SPAN_NAMES.EXTEND, { attributes }, async span => {
+      const startTime = Date.now();
+      try {
+        const extended = await this.extendHandle(handle, ttl);
+        span?.setAttribute(SPAN_ATTRIBUTES.EXTENDED, extended);
+        this.events.emit(extended ? 'extended' : 'extension_failed', handle.key, {
+          duration: Date.now() - startTime,
+          handle,
+          ...(!extended && { error: new Error(`Lock "${handle.key}" is no longer held`) }),
+          metadata: { ttl },
+        });
+        return extended;
+      } catch (error) {
+        this.events.emit('extension_failed', handle.key, {
+          duration: Date.now() - startTime,
+          handle,
+          error,
+          metadata: { ttl },
+        });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Extend the keys of a handle with the strategy of this lock
+   */
+  private async extendHandle(handle: LockHandle, ttl: number): Promise<boolean> {
     try {
+      if (this.reentrant) {
+        return await this.adapter.reentrantExtend(handle.key, handle.value, ttl);
+      }
+
+      // Extending keeps the last heartbeat, a stuck holder cannot stay live through its timer
+      if (this.staleAfter !== undefined) {
+        return await this.adapter.heartbeatExtend(handle.key, handle.value, ttl);
+      }
+
       // Use the atomic extendIfMatch method to safely extend the lock
       return await this.adapter.extendIfMatch(handle.key, handle.value, ttl);
     } catch (error) {
@@ -350,6 +916,58 @@ export class SimpleLock implements Lock {
     }
   }
 
+  /**
+   * Record a liveness heartbeat, postponing when the holder counts as stale
+   * Call it from the work loop itself: unlike extensions, heartbeats stop when the
+   * holder is stuck, which is what lets takeover() replace it.
+   *
+   * @returns true if recorded, false if the lock is no longer held by this handle
+   * @throws Error if the lock was created without staleAfter
+   */
+  async heartbeat(handle: LockHandle): Promise<boolean> {
+    this.validateHandle(handle);
+    this.assertHeartbeatEnabled('heartbeat');
+
+    try {
+      return await this.adapter.heartbeat(handle.key, handle.value);
+    } catch (error) {
+      throw new LockExtensionError(handle.key, 'redis_error', error as Error);
+    }
+  }
+
+  /**
+   * Read the takeover audit trail of this lock, newest first
+   */
+  async getTakeovers(): Promise<LockTakeover[]> {
+    return this.adapter.getTakeovers(this.key);
+  }
+
+  private assertHeartbeatEnabled(operation: string): void {
+    if (this.staleAfter === undefined) {
+      throw new Error(`Lock "${this.key}" needs staleAfter to be configured for ${operation}()`);
+    }
+  }
+
+  /**
+   * Reattach a handle acquired elsewhere, e.g. in another process
+   * Verifies through inspect() that the handle still owns the lock
+   *
+   * @param handle - Handle or the output of serializeHandle()
+   * @returns The live handle, or null when the lock expired or has another owner
+   */
+  async resume(handle: LockHandle | string): Promise<LockHandle | null> {
+    const resumed = typeof handle === 'string' ? deserializeHandle(handle) : handle;
+    this.validateHandle(resumed);
+
+    const strategy = resumed.metadata?.strategy ?? 'simple';
+    if (strategy !== 'simple') {
+      throw new Error(`Cannot resume a ${strategy} handle with a simple lock`);
+    }
+
+    const holder = await this.adapter.inspect(this.key);
+    return holder && safeCompare(holder.value, resumed.value) ? resumed : null;
+  }
+
   /**
    * Check if a lock is currently held
    */
@@ -362,6 +980,29 @@ export class SimpleLock implements Lock {
     }
   }
 
+  /**
+   * Inspect the holder and waiter queue of a fair lock
+   *
+   * Estimated waits assume every holder ahead keeps the lock for its full TTL,
+   * so they are an upper bound unless locks are auto-extended.
+   */
+  async inspectQueue(): Promise<FairQueueInspection> {
+    const [holder, tickets] = await Promise.all([
+      this.adapter.inspect(this.key),
+      this.adapter.getFairQueue(this.key),
+    ]);
+    const holderTTL = holder ? Math.max(holder.ttl, 0) : 0;
+
+    return {
+      holder,
+      waiters: tickets.map((ticket, position) => ({
+        ticket,
+        position,
+        estimatedWait: holderTTL + position * this.ttl,
+      })),
+    };
+  }
+
   /**
    * Validate lock handle
    */
@@ -379,13 +1020,6 @@ export class SimpleLock implements Lock {
     }
   }
 
-  /**
-   * Sleep for specified milliseconds
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Get lock configuration (for debugging)
    */
@@ -398,6 +1032,15 @@ export class SimpleLock implements Lock {
         retryAttempts: this.retryAttempts,
         retryDelay: this.retryDelay,
         ...(this.logger !== undefined && { logger: this.logger }),
+        ...(this.fencing && { fencing: this.fencing }),
+        ...(this.reentrant && { reentrant: this.reentrant, ownerId: this.ownerId! }),
+        ...(this.owner !== undefined && { owner: this.owner }),
+        ...(this.fair && { fair: this.fair }),
+        ...(this.waitMode !== 'polling' && { waitMode: this.waitMode }),
+        ...(this.retryStrategy !== undefined && { retryStrategy: this.retryStrategy }),
+        ...(this.staleAfter !== undefined && { staleAfter: this.staleAfter }),
+        ...(this.localQueue && { localQueue: true }),
+        ...(this.tracer !== undefined && { tracer: this.tracer }),
       });
     }
     return this._configCache;
@@ -439,16 +1082,137 @@ export class SimpleLock implements Lock {
    * Execute a routine with automatic lock management and extension
    * Auto-extends when remaining TTL < 20% (extends at ~80% consumed)
    * Provides AbortSignal when extension fails
+   * With a tracer, the routine runs in the context of the using() span
    *
    * @param routine - Function to execute while holding the lock
+   * @param options - Pass `handle` to run under a resumed handle instead of acquiring
    * @returns Result of the routine
    */
-  async using<T>(routine: (signal: ExtendedAbortSignal) => Promise<T>): Promise<T> {
+  async using<T>(
+    routine: (signal: ExtendedAbortSignal) => Promise<T>,
+    options: UsingOptions = {}
+  ): Promise<T> {
+    if (options.handle) {
+      this.validateHandle(options.handle);
+    }
+
+    return traced(
+      this.tracer,
+      SPAN_NAMES.USING,
+      { attributes: this.spanAttributes() },
+      async () => {
+        const handle = options.handle ?? (await this.acquire());
+        return executeWithAutoExtension({
+          locks: [this],
+          handles: [handle],
+          ttl: this.ttl,
+          routine: this.staleAfter === undefined ? routine : this.withHeartbeat(handle, routine),
+          // Hold count and heartbeat record live in companion keys, extend() refreshes both
+          ...((this.reentrant || this.staleAfter !== undefined) && { atomicExtension: false }),
+          ...(this.logger && { logger: this.logger }),
+          ...(this.tracer && { tracer: this.tracer }),
+          events: this.events,
+        });
+      }
+    );
+  }
+
+  /**
+   * Run a routine at most once per key within a retention window
+   *
+   * The routine runs under using(). After it succeeds, a completion marker with its
+   * JSON-encoded result is kept for `retention` ms, and later calls return that result
+   * as already completed instead of running the routine again. The marker is checked
+   * again once the lock is held, so callers that waited for a running routine get its
+   * result. A routine that throws, or whose process dies, leaves no marker and the
+   * next caller runs it again. The marker is only written while the lock is still
+   * held, a routine that lost its lock fails with RunOnceError instead.
+   *
+   * @param routine - Function to run, its result must be JSON-serializable
+   * @param options - Retention of the completion marker
+   * @returns The fresh result, or the stored one with alreadyCompleted set
+   * @throws RunOnceError if the lock was lost before the completion was recorded,
+   *   or the stored marker is corrupt
+   */
+  async runOnce<T>(
+    routine: (signal: ExtendedAbortSignal) => Promise<T>,
+    options: RunOnceOptions
+  ): Promise<RunOnceResult<T>> {
+    if (!Number.isInteger(options?.retention) || options.retention <= 0) {
+      throw new Error('Retention must be a positive integer');
+    }
+
+    const completed = await this.readCompletion<T>();
+    if (completed) {
+      return completed;
+    }
+
     const handle = await this.acquire();
-    if (this.logger) {
-      return executeWithSingleLockExtension(this, handle, this.ttl, routine, this.logger);
-    } else {
-      return executeWithSingleLockExtension(this, handle, this.ttl, routine);
+    return this.using(
+      async signal => {
+        const completedMeanwhile = await this.readCompletion<T>();
+        if (completedMeanwhile) {
+          return completedMeanwhile;
+        }
+
+        const result = await routine(signal);
+        if (signal.aborted) {
+          throw new RunOnceError(this.key, 'lock_lost', signal.error);
+        }
+
+        const stored = await this.adapter.markCompleted(
+          this.key,
+          handle.value,
+          JSON.stringify(result === undefined ? null : result),
+          options.retention
+        );
+        if (!stored) {
+          // Another holder completed first, or the lock expired before the marker was written
+          const completedElsewhere = await this.readCompletion<T>();
+          if (completedElsewhere) {
+            return completedElsewhere;
+          }
+          throw new RunOnceError(this.key, 'lock_lost');
+        }
+
+        return { alreadyCompleted: false, result };
+      },
+      { handle }
+    );
+  }
+
+  /**
+   * Read the completion marker of runOnce()
+   */
+  private async readCompletion<T>(): Promise<RunOnceResult<T> | null> {
+    const marker = await this.adapter.getCompletion(this.key);
+    if (!marker) {
+      return null;
+    }
+
+    let result: T;
+    try {
+      result = JSON.parse(marker.result) as T;
+    } catch (error) {
+      throw new RunOnceError(this.key, 'invalid_marker', error as Error);
     }
+
+    return { alreadyCompleted: true, result, completedAt: marker.completedAt };
+  }
+
+  /**
+   * Expose heartbeat() of the held handle on the routine's signal
+   */
+  private withHeartbeat<T>(
+    handle: LockHandle,
+    routine: (signal: ExtendedAbortSignal) => Promise<T>
+  ): (signal: ExtendedAbortSignal) => Promise<T> {
+    return signal => {
+      Object.defineProperty(signal, 'heartbeat', {
+        value: () => this.heartbeat(handle),
+        enumerable: true,
+      });
+      return routine(signal);
+    };
   }
 }
@@ -1,11 +1,35 @@
 export { SimpleLock } from './SimpleLock.js';
 export { LeanSimpleLock } from './LeanSimpleLock.js';
 export { RedLock } from './RedLock.js';
+export { ReadWriteLock } from './ReadWriteLock.js';
+export { Semaphore } from './Semaphore.js';
+export { HierarchicalLock } from './HierarchicalLock.js';
 
 export type {
   Lock,
   LockHandle,
   SimpleLockConfig,
   RedLockConfig,
+  ReadWriteLockConfig,
+  SemaphoreConfig,
+  HierarchicalLockConfig,
   CircuitBreakerConfig,
+  AcquireOptions,
+  FairQueueInspection,
+  FairQueueWaiter,
+  WaitMode,
+  TryAcquireResult,
+  TryAcquireSuccess,
+  TryAcquireFailure,
+  TryAcquireHeld,
+  TryAcquireCircuitOpen,
+  TryAcquireQuorumNotReached,
+  TryAcquireAdapterError,
+  SerializedLockHandle,
+  HandleStrategyTag,
+  UsingOptions,
+  RunOnceOptions,
+  RunOnceResult,
+  RunOnceExecuted,
+  RunOnceAlreadyCompleted,
 } from '../types/locks.js';
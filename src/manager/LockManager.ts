@@ -1,12 +1,58 @@
-import type { RedisAdapter } from '../types/adapters.js';
-import type { LockHandle } from '../types/locks.js';
+import type {
+  BatchAcquireFailure,
+  BatchAcquireResult,
+  LockOwner,
+  LockTakeover,
+  RedisAdapter,
+  ScannedLock,
+} from '../types/adapters.js';
+import type {
+  AcquireOptions,
+  Lock,
+  LockHandle,
+  TryAcquireResult,
+  WaitMode,
+} from '../types/locks.js';
 import type { ILogger } from '../monitoring/Logger.js';
+import type { Tracer } from '../monitoring/tracing.js';
+import { HealthChecker } from '../monitoring/HealthChecker.js';
+import { MetricsCollector } from '../monitoring/MetricsCollector.js';
+import { MonitoringServer, type MonitoringServerAddress } from '../monitoring/MonitoringServer.js';
+import {
+  LockEventEmitter,
+  type LockEventDetails,
+  type LockEventListener,
+} from '../monitoring/LockEventEmitter.js';
+import type { LockEvent, LockEventType } from '../types/monitoring.js';
 import { SimpleLock } from '../locks/SimpleLock.js';
 import { RedLock } from '../locks/RedLock.js';
+import { Semaphore } from '../locks/Semaphore.js';
+import { HierarchicalLock } from '../locks/HierarchicalLock.js';
 import { DEFAULTS, ERROR_MESSAGES } from '../constants.js';
-import { generateLockValue, generateLockId } from '../utils/crypto.js';
-import { LockAcquisitionError } from '../types/errors.js';
+import { createLockValueWithOwner, generateLockValue, generateLockId } from '../utils/crypto.js';
+import { LockAcquisitionError, LockOrderViolationError } from '../types/errors.js';
 import { executeWithAutoExtension, type ExtendedAbortSignal } from '../utils/auto-extension.js';
+import { ReleaseWaiter } from '../utils/release-waiter.js';
+import { WaitForGraph } from '../utils/wait-for-graph.js';
+import { localLockQueue } from '../utils/local-queue.js';
+import { AcquireDeadline, validateAcquireOptions } from '../utils/acquire-deadline.js';
+import { createRetrySchedule, validateRetryStrategy, type RetryStrategy } from '../utils/retry.js';
+
+// Wait-for graph key, hash-tagged so its hashes share a Redis Cluster slot
+const DEFAULT_WAIT_FOR_GRAPH = '{redlock:deadlock}';
+
+/**
+ * Deadlock detection for acquireLock() calls that pass a participantId
+ */
+export interface DeadlockDetectionConfig {
+  /** Key of the wait-for graph, kept on the first node (default: '{redlock:deadlock}') */
+  readonly graph?: string;
+  /**
+   * Order in which a participant must acquire keys, checked against the keys it holds
+   * through this manager (default: any order)
+   */
+  readonly lockOrder?: 'lexicographic' | ((a: string, b: string) => number);
+}
 
 /**
  * Configuration for LockManager
@@ -20,13 +66,34 @@ export interface LockManagerConfig {
   readonly defaultRetryAttempts?: number;
   /** Default retry delay in milliseconds */
   readonly defaultRetryDelay?: number;
+  /** Default way to wait between acquisition attempts (default: 'polling') */
+  readonly defaultWaitMode?: WaitMode;
+  /** Default delay policy between acquisition attempts (default: constant retry delay) */
+  readonly defaultRetryStrategy?: RetryStrategy;
   /** Optional logger for operational visibility */
   readonly logger?: ILogger;
+  /** OpenTelemetry tracer passed to the simple locks and RedLocks it creates (default: none) */
+  readonly tracer?: Tracer;
+  /** Fail acquisitions that would deadlock with DeadlockError (default: disabled) */
+  readonly deadlockDetection?: boolean | DeadlockDetectionConfig;
+  /**
+   * Queue same-process contenders of non-reentrant simple locks in memory behind one
+   * Redis acquisition per key (default: false)
+   */
+  readonly localQueue?: boolean;
   /** Monitoring configuration */
   readonly monitoring?: {
     readonly enabled?: boolean;
+    /** Serve /metrics, /health, /ready and /locks over HTTP (default: false) */
+    readonly server?: boolean;
+    /** Port of the monitoring server (default: 9090) */
     readonly metricsPort?: number;
+    /** Interface the monitoring server binds to (default: '127.0.0.1') */
+    readonly host?: string;
+    /** Time between health checks of the monitoring server in milliseconds */
     readonly healthCheckInterval?: number;
+    /** Listener of every event of `events` */
+    readonly onEvent?: LockEventListener;
   };
 }
 
@@ -42,15 +109,50 @@ export interface LockStats {
   readonly averageHoldTime: number;
 }
 
+/**
+ * Lock held on the nodes of a LockManager, as listed by listLocks()
+ */
+export interface ListedLock {
+  /** Lock key */
+  readonly key: string;
+  /** Lock value (owner token) */
+  readonly value: string;
+  /** Lowest remaining TTL across the nodes holding the lock, in milliseconds */
+  readonly ttl: number;
+  /** Owner metadata (only for locks acquired with an owner) */
+  readonly owner?: LockOwner;
+  /** Indices of the nodes holding the lock with this value */
+  readonly nodes: number[];
+  /** Whether the lock is a RedLock held on fewer than a quorum of nodes */
+  readonly belowQuorum: boolean;
+}
+
+/**
+ * Outcome of one acquireBatch() attempt
+ * Quorum attempts add the winning node IDs on success and the reason on failure
+ */
+type BatchAttemptResult = BatchAcquireResult & {
+  readonly nodes?: string[];
+  readonly reason?: string;
+};
+
 /**
  * Production-ready lock manager for Redis distributed locking
  * Provides centralized management of locks with monitoring and health checks
  */
 export class LockManager {
-  private readonly config: Required<Omit<LockManagerConfig, 'logger'>> & {
+  private readonly config: Required<
+    Omit<LockManagerConfig, 'logger' | 'tracer' | 'defaultRetryStrategy' | 'deadlockDetection'>
+  > & {
     readonly logger?: ILogger;
+    readonly tracer?: Tracer;
+    readonly defaultRetryStrategy?: RetryStrategy;
   };
   private readonly activeLocks = new Map<string, LockHandle>();
+  private readonly waitForGraph?: WaitForGraph;
+  private readonly lockOrder?: (a: string, b: string) => number;
+  /** Participant and key of handles acquired with deadlock detection, by handle ID */
+  private readonly participants = new Map<string, { participant: string; key: string }>();
   private readonly stats = {
     totalLocks: 0,
     activeLocks: 0,
@@ -59,6 +161,12 @@ export class LockManager {
     acquisitionTimes: [] as number[],
     holdTimes: [] as number[],
   };
+  /** Acquisition metrics, only recorded when monitoring is enabled */
+  private readonly metricsCollector?: MetricsCollector;
+  private monitoringServer: MonitoringServer | undefined;
+  private monitoringServerStart: Promise<MonitoringServerAddress> | undefined;
+  /** Events of the batch operations and of the simple locks and RedLocks it creates */
+  readonly events: LockEventEmitter;
 
   constructor(config: LockManagerConfig) {
     const baseConfig = {
@@ -66,9 +174,17 @@ export class LockManager {
       defaultTTL: config.defaultTTL ?? DEFAULTS.TTL,
       defaultRetryAttempts: config.defaultRetryAttempts ?? DEFAULTS.RETRY_ATTEMPTS,
       defaultRetryDelay: config.defaultRetryDelay ?? DEFAULTS.RETRY_DELAY,
+      defaultWaitMode: config.defaultWaitMode ?? ('polling' as const),
+      localQueue: config.localQueue ?? false,
+      ...(config.defaultRetryStrategy !== undefined && {
+        defaultRetryStrategy: config.defaultRetryStrategy,
+      }),
+      ...(config.tracer !== undefined && { tracer: config.tracer }),
       monitoring: {
         enabled: config.monitoring?.enabled ?? false,
+        server: config.monitoring?.server ?? false,
         metricsPort: config.monitoring?.metricsPort ?? 9090,
+        host: config.monitoring?.host ?? '127.0.0.1',
         healthCheckInterval: config.monitoring?.healthCheckInterval ?? 30000,
       },
     };
@@ -76,6 +192,51 @@ export class LockManager {
     this.config = config.logger ? { ...baseConfig, logger: config.logger } : baseConfig;
 
     this.validateConfig();
+    this.events = new LockEventEmitter(this.config.logger);
+    if (config.monitoring?.onEvent) {
+      this.events.on('*', config.monitoring.onEvent);
+    }
+
+    if (config.deadlockDetection) {
+      const { graph = DEFAULT_WAIT_FOR_GRAPH, lockOrder } =
+        config.deadlockDetection === true ? {} : config.deadlockDetection;
+
+      if (!graph || typeof graph !== 'string') {
+        throw new Error('Wait-for graph key must be a non-empty string');
+      }
+      if (
+        lockOrder !== undefined &&
+        lockOrder !== 'lexicographic' &&
+        typeof lockOrder !== 'function'
+      ) {
+        throw new Error('Lock order must be "lexicographic" or a comparison function');
+      }
+
+      this.waitForGraph = new WaitForGraph(this.config.nodes[0]!, graph, this.config.logger);
+      // Hold edges expire with the lock TTL, follow extensions and losses of tracked handles
+      this.events.on('extended', event => this.renewWaitForHold(event));
+      this.events.on('lost', event => {
+        if (event.handle) {
+          void this.leaveWaitForGraph(event.handle);
+        }
+      });
+      if (lockOrder !== undefined) {
+        this.lockOrder =
+          lockOrder === 'lexicographic' ? (a, b) => (a < b ? -1 : a > b ? 1 : 0) : lockOrder;
+      }
+    }
+
+    if (this.config.monitoring.enabled) {
+      this.metricsCollector = new MetricsCollector();
+
+      if (this.config.monitoring.server) {
+        this.startMonitoringServer().catch((error: Error) =>
+          this.config.logger?.error('Failed to start monitoring server', error, {
+            port: this.config.monitoring.metricsPort,
+          })
+        );
+      }
+    }
   }
 
   /**
@@ -97,6 +258,10 @@ export class LockManager {
     if (this.config.defaultRetryDelay < 0) {
       throw new Error('Default retry delay must be non-negative');
     }
+
+    if (this.config.defaultRetryStrategy !== undefined) {
+      validateRetryStrategy(this.config.defaultRetryStrategy);
+    }
   }
 
   /**
@@ -109,6 +274,15 @@ export class LockManager {
       readonly retryAttempts?: number;
       readonly retryDelay?: number;
       readonly nodeIndex?: number;
+      readonly fencing?: boolean;
+      readonly reentrant?: boolean;
+      readonly ownerId?: string;
+      readonly owner?: LockOwner;
+      readonly fair?: boolean;
+      readonly waitMode?: WaitMode;
+      readonly retryStrategy?: RetryStrategy;
+      readonly staleAfter?: number;
+      readonly localQueue?: boolean;
     } = {}
   ): SimpleLock {
     const nodeIndex = options.nodeIndex ?? 0;
@@ -123,6 +297,17 @@ export class LockManager {
       ttl: options.ttl ?? this.config.defaultTTL,
       retryAttempts: options.retryAttempts ?? this.config.defaultRetryAttempts,
       retryDelay: options.retryDelay ?? this.config.defaultRetryDelay,
+      ...(options.fencing !== undefined && { fencing: options.fencing }),
+      ...(options.reentrant !== undefined && { reentrant: options.reentrant }),
+      ...(options.ownerId !== undefined && { ownerId: options.ownerId }),
+      ...(options.owner !== undefined && { owner: options.owner }),
+      ...(options.fair !== undefined && { fair: options.fair }),
+      waitMode: options.waitMode ?? this.config.defaultWaitMode,
+      ...this.retryStrategyOption(options.retryStrategy),
+      ...(options.staleAfter !== undefined && { staleAfter: options.staleAfter }),
+      localQueue: options.localQueue ?? (this.config.localQueue && !options.reentrant),
+      ...(this.config.tracer && { tracer: this.config.tracer }),
+      events: this.events,
     });
   }
 
@@ -137,6 +322,12 @@ export class LockManager {
       readonly retryDelay?: number;
       readonly quorum?: number;
       readonly clockDriftFactor?: number;
+      readonly fencing?: boolean;
+      readonly reentrant?: boolean;
+      readonly ownerId?: string;
+      readonly owner?: LockOwner;
+      readonly waitMode?: WaitMode;
+      readonly retryStrategy?: RetryStrategy;
     } = {}
   ): RedLock {
     if (this.config.nodes.length < 3) {
@@ -151,45 +342,421 @@ export class LockManager {
       retryDelay: options.retryDelay ?? this.config.defaultRetryDelay,
       quorum: options.quorum ?? Math.floor(this.config.nodes.length / 2) + 1,
       clockDriftFactor: options.clockDriftFactor ?? 0.01,
+      ...(options.fencing !== undefined && { fencing: options.fencing }),
+      ...(options.reentrant !== undefined && { reentrant: options.reentrant }),
+      ...(options.ownerId !== undefined && { ownerId: options.ownerId }),
+      ...(options.owner !== undefined && { owner: options.owner }),
+      waitMode: options.waitMode ?? this.config.defaultWaitMode,
+      ...this.retryStrategyOption(options.retryStrategy),
+      ...(this.config.tracer && { tracer: this.config.tracer }),
+      events: this.events,
     });
   }
 
+  /**
+   * Resolve the retry strategy of a lock, falling back to the manager default
+   */
+  private retryStrategyOption(retryStrategy: RetryStrategy | undefined): {
+    retryStrategy?: RetryStrategy;
+  } {
+    const strategy = retryStrategy ?? this.config.defaultRetryStrategy;
+    return strategy !== undefined ? { retryStrategy: strategy } : {};
+  }
+
+  /**
+   * Create a counting semaphore admitting up to `limit` concurrent holders
+   */
+  createSemaphore(
+    key: string,
+    limit: number,
+    options: {
+      readonly ttl?: number;
+      readonly retryAttempts?: number;
+      readonly retryDelay?: number;
+      readonly nodeIndex?: number;
+    } = {}
+  ): Semaphore {
+    const nodeIndex = options.nodeIndex ?? 0;
+
+    if (nodeIndex >= this.config.nodes.length) {
+      throw new Error(`Node index ${nodeIndex} is out of range`);
+    }
+
+    const baseConfig = {
+      adapter: this.config.nodes[nodeIndex]!,
+      key,
+      limit,
+      ttl: options.ttl ?? this.config.defaultTTL,
+      retryAttempts: options.retryAttempts ?? this.config.defaultRetryAttempts,
+      retryDelay: options.retryDelay ?? this.config.defaultRetryDelay,
+      nodeIndex,
+    };
+
+    return new Semaphore(
+      this.config.logger ? { ...baseConfig, logger: this.config.logger } : baseConfig
+    );
+  }
+
+  /**
+   * Create a hierarchical lock on a ':'-separated key path
+   * Conflicts with holders of the key itself, its ancestors and its descendants
+   */
+  createHierarchicalLock(
+    key: string,
+    options: {
+      readonly ttl?: number;
+      readonly retryAttempts?: number;
+      readonly retryDelay?: number;
+      readonly nodeIndex?: number;
+      readonly owner?: LockOwner;
+    } = {}
+  ): HierarchicalLock {
+    const nodeIndex = options.nodeIndex ?? 0;
+
+    if (nodeIndex >= this.config.nodes.length) {
+      throw new Error(`Node index ${nodeIndex} is out of range`);
+    }
+
+    const baseConfig = {
+      adapter: this.config.nodes[nodeIndex]!,
+      key,
+      ttl: options.ttl ?? this.config.defaultTTL,
+      retryAttempts: options.retryAttempts ?? this.config.defaultRetryAttempts,
+      retryDelay: options.retryDelay ?? this.config.defaultRetryDelay,
+      ...(options.owner !== undefined && { owner: options.owner }),
+      nodeIndex,
+    };
+
+    return new HierarchicalLock(
+      this.config.logger ? { ...baseConfig, logger: this.config.logger } : baseConfig
+    );
+  }
+
   /**
    * Acquire a lock with automatic tracking
+   * Pass `signal` to cancel a pending acquisition and `acquireTimeout` to bound its duration.
+   * With deadlockDetection enabled, pass `participantId` (e.g. a request or job ID) to take
+   * part in the wait-for graph: an acquisition that would close a cycle rejects with
+   * DeadlockError, one that breaks the lock order with LockOrderViolationError.
    */
   async acquireLock(
     key: string,
     options: {
+      readonly signal?: AbortSignal;
+      readonly acquireTimeout?: number;
       readonly ttl?: number;
       readonly retryAttempts?: number;
       readonly retryDelay?: number;
       readonly useRedLock?: boolean;
+      readonly fencing?: boolean;
+      readonly reentrant?: boolean;
+      readonly ownerId?: string;
+      readonly owner?: LockOwner;
+      readonly fair?: boolean;
+      readonly hierarchical?: boolean;
+      readonly waitMode?: WaitMode;
+      readonly retryStrategy?: RetryStrategy;
+      readonly staleAfter?: number;
+      readonly localQueue?: boolean;
+      readonly participantId?: string;
     } = {}
   ): Promise<LockHandle> {
     const startTime = Date.now();
     this.stats.totalLocks++;
 
     try {
-      const lock = options.useRedLock
-        ? this.createRedLock(key, options)
-        : this.createSimpleLock(key, options);
-
-      const handle = await lock.acquire();
+      this.validateSimpleOnlyOptions(options);
+      const lock = options.hierarchical
+        ? this.createHierarchicalLockFor(key, options)
+        : options.useRedLock
+          ? this.createRedLock(key, options)
+          : this.createSimpleLock(key, options);
+
+      const { participantId } = options;
+      let handle: LockHandle;
+      if (this.waitForGraph && participantId !== undefined) {
+        this.checkLockOrder(participantId, key);
+        handle = await this.waitForGraph.acquire(
+          participantId,
+          key,
+          options.ttl ?? this.config.defaultTTL,
+          options.reentrant ?? false,
+          this.acquireOptions(options),
+          acquireOptions => lock.acquire(acquireOptions)
+        );
+        this.participants.set(handle.id, { participant: participantId, key });
+      } else {
+        handle = await lock.acquire(this.acquireOptions(options));
+      }
 
       const acquisitionTime = Date.now() - startTime;
       this.stats.acquisitionTimes.push(acquisitionTime);
       this.stats.acquiredLocks++;
       this.stats.activeLocks++;
+      this.recordAcquisition(key, startTime, handle);
 
       this.activeLocks.set(handle.id, handle);
 
       return handle;
     } catch (error) {
       this.stats.failedLocks++;
+      this.recordAcquisition(key, startTime);
       throw error;
     }
   }
 
+  /**
+   * Record an acquisition attempt in the metrics collector, failed without a handle
+   */
+  private recordAcquisition(key: string, startTime: number, handle?: LockHandle): void {
+    this.metricsCollector?.recordLockOperation({
+      key,
+      acquisitionTime: Date.now() - startTime,
+      attempts: handle?.metadata?.attempts ?? 1,
+      success: handle !== undefined,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Reject an acquisition that breaks the lock order against keys the participant holds
+   */
+  private checkLockOrder(participant: string, key: string): void {
+    if (!this.lockOrder) {
+      return;
+    }
+
+    for (const held of this.participants.values()) {
+      if (
+        held.participant === participant &&
+        held.key !== key &&
+        this.lockOrder(held.key, key) > 0
+      ) {
+        throw new LockOrderViolationError(key, held.key, participant);
+      }
+    }
+  }
+
+  /**
+   * Drop the wait-for graph edges of a handle acquired with deadlock detection
+   */
+  private async leaveWaitForGraph(handle: LockHandle): Promise<void> {
+    const entry = this.participants.get(handle.id);
+    if (!entry) {
+      return;
+    }
+
+    this.participants.delete(handle.id);
+    await this.waitForGraph?.remove(entry.participant, entry.key);
+  }
+
+  /**
+   * Renew the hold edge of a handle acquired with deadlock detection after an extension
+   */
+  private renewWaitForHold(event: LockEvent<'extended'>): void {
+    const entry = event.handle && this.participants.get(event.handle.id);
+    const ttl = event.metadata?.['ttl'];
+    if (entry && typeof ttl === 'number') {
+      void this.waitForGraph?.hold(entry.participant, entry.key, ttl);
+    }
+  }
+
+  /**
+   * Take over a lock whose holder stopped sending heartbeats, with automatic tracking
+   * Healthy holders are waited for like in acquireLock(), see SimpleLock.takeover()
+   */
+  async takeoverLock(
+    key: string,
+    options: {
+      readonly staleAfter: number;
+      readonly signal?: AbortSignal;
+      readonly acquireTimeout?: number;
+      readonly ttl?: number;
+      readonly retryAttempts?: number;
+      readonly retryDelay?: number;
+      readonly nodeIndex?: number;
+      readonly owner?: LockOwner;
+      readonly waitMode?: WaitMode;
+      readonly retryStrategy?: RetryStrategy;
+    }
+  ): Promise<LockHandle> {
+    const startTime = Date.now();
+    this.stats.totalLocks++;
+
+    try {
+      const handle = await this.createSimpleLock(key, options).takeover(
+        this.acquireOptions(options)
+      );
+
+      this.stats.acquisitionTimes.push(Date.now() - startTime);
+      this.stats.acquiredLocks++;
+      this.stats.activeLocks++;
+      this.recordAcquisition(key, startTime, handle);
+
+      this.activeLocks.set(handle.id, handle);
+
+      return handle;
+    } catch (error) {
+      this.stats.failedLocks++;
+      this.recordAcquisition(key, startTime);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a liveness heartbeat for a lock acquired with staleAfter
+   * @returns true if recorded, false if the handle no longer holds the lock
+   */
+  async heartbeat(handle: LockHandle): Promise<boolean> {
+    const staleAfter = handle.metadata?.staleAfter;
+    if (staleAfter === undefined || handle.metadata?.strategy !== 'simple') {
+      throw new Error(`Lock "${handle.key}" was not acquired with heartbeat takeover enabled`);
+    }
+
+    return this.createSimpleLock(handle.key, { staleAfter }).heartbeat(handle);
+  }
+
+  /**
+   * Read the takeover audit trail of a lock key, newest first
+   */
+  async getTakeovers(key: string, nodeIndex = 0): Promise<LockTakeover[]> {
+    const node = this.config.nodes[nodeIndex];
+    if (!node) {
+      throw new Error(`Node index ${nodeIndex} is out of range`);
+    }
+
+    return node.getTakeovers(key);
+  }
+
+  /**
+   * Heartbeat takeover and local queueing are implemented by simple locks only
+   */
+  private validateSimpleOnlyOptions(options: {
+    readonly staleAfter?: number;
+    readonly localQueue?: boolean;
+    readonly useRedLock?: boolean;
+    readonly hierarchical?: boolean;
+  }): void {
+    if (!options.useRedLock && !options.hierarchical) {
+      return;
+    }
+
+    if (options.staleAfter !== undefined) {
+      throw new Error('Heartbeat takeover cannot be combined with RedLock or hierarchical locks');
+    }
+
+    if (options.localQueue) {
+      throw new Error('Local queueing cannot be combined with RedLock or hierarchical locks');
+    }
+  }
+
+  /**
+   * Create the hierarchical lock of acquireLock(), rejecting options it cannot honour
+   */
+  private createHierarchicalLockFor(
+    key: string,
+    options: {
+      readonly ttl?: number;
+      readonly retryAttempts?: number;
+      readonly retryDelay?: number;
+      readonly useRedLock?: boolean;
+      readonly fencing?: boolean;
+      readonly reentrant?: boolean;
+      readonly fair?: boolean;
+      readonly owner?: LockOwner;
+    }
+  ): HierarchicalLock {
+    if (options.useRedLock || options.fencing || options.reentrant || options.fair) {
+      throw new Error(
+        'Hierarchical locks cannot be combined with RedLock, fencing, reentrant or fair locking'
+      );
+    }
+
+    return this.createHierarchicalLock(key, options);
+  }
+
+  /**
+   * Make a single tracked acquisition attempt without throwing
+   * Contention, an open circuit and Redis failures are reported in the result instead
+   */
+  async tryAcquire(
+    key: string,
+    options: {
+      readonly ttl?: number;
+      readonly useRedLock?: boolean;
+      readonly fencing?: boolean;
+      readonly reentrant?: boolean;
+      readonly ownerId?: string;
+      readonly owner?: LockOwner;
+      readonly fair?: boolean;
+      readonly staleAfter?: number;
+      readonly localQueue?: boolean;
+    } = {}
+  ): Promise<TryAcquireResult> {
+    this.validateSimpleOnlyOptions(options);
+
+    const startTime = Date.now();
+    this.stats.totalLocks++;
+
+    const result = options.useRedLock
+      ? await this.createRedLock(key, options).tryAcquire()
+      : await this.createSimpleLock(key, options).tryAcquire();
+
+    if (!result.acquired) {
+      this.stats.failedLocks++;
+      this.recordAcquisition(key, startTime);
+      return result;
+    }
+
+    this.stats.acquisitionTimes.push(Date.now() - startTime);
+    this.stats.acquiredLocks++;
+    this.stats.activeLocks++;
+    this.recordAcquisition(key, startTime, result.handle);
+    this.activeLocks.set(result.handle.id, result.handle);
+
+    return result;
+  }
+
+  /**
+   * Per-call acquire() options, the TTL is already part of the lock config
+   */
+  private acquireOptions(options: AcquireOptions): AcquireOptions {
+    return {
+      ...(options.signal !== undefined && { signal: options.signal }),
+      ...(options.acquireTimeout !== undefined && { acquireTimeout: options.acquireTimeout }),
+    };
+  }
+
+  /**
+   * Create a lock matching the strategy a handle was acquired with
+   */
+  private lockForHandle(handle: LockHandle): Lock {
+    // Reentrant handles carry a hold count and must only drop one hold
+    const reentrantOptions =
+      handle.metadata?.holdCount !== undefined ? { reentrant: true, ownerId: handle.value } : {};
+
+    switch (handle.metadata?.strategy) {
+      case 'redlock':
+        return this.createRedLock(handle.key, reentrantOptions);
+      case 'semaphore':
+        return this.createSemaphore(handle.key, handle.metadata.limit ?? 1, {
+          nodeIndex: handle.metadata.nodeIndex ?? 0,
+        });
+      case 'hierarchical':
+        return this.createHierarchicalLock(handle.key, {
+          nodeIndex: handle.metadata.nodeIndex ?? 0,
+        });
+      default:
+        return this.createSimpleLock(handle.key, {
+          ...reentrantOptions,
+          nodeIndex: handle.metadata?.nodeIndex ?? 0,
+          ...(handle.metadata?.staleAfter !== undefined && {
+            staleAfter: handle.metadata.staleAfter,
+          }),
+        });
+    }
+  }
+
   /**
    * Release a tracked lock
    */
@@ -199,12 +766,12 @@ export class LockManager {
 
     this.activeLocks.delete(handle.id);
     this.stats.activeLocks--;
-    const lock =
-      handle.metadata?.strategy === 'redlock'
-        ? this.createRedLock(handle.key)
-        : this.createSimpleLock(handle.key);
 
-    return lock.release(handle);
+    try {
+      return await this.lockForHandle(handle).release(handle);
+    } finally {
+      await this.leaveWaitForGraph(handle);
+    }
   }
 
   /**
@@ -235,17 +802,36 @@ export class LockManager {
    * @param options.nodeIndex - Redis node index to use (defaults to 0)
    * @param options.retryAttempts - Number of retry attempts (defaults to manager's defaultRetryAttempts)
    * @param options.retryDelay - Delay between retries in milliseconds (defaults to manager's defaultRetryDelay)
+   * @param options.fencing - Issue a fencing token per key, exposed on each handle (defaults to false)
+   * @param options.hierarchical - Lock the keys as hierarchical key paths, conflicting with holders of their ancestors and descendants (defaults to false)
+   * @param options.useRedLock - Acquire the batch on every node and require a quorum, nodeIndex is ignored (defaults to false)
+   * @param options.owner - Owner metadata stored with every lock of the batch, returned by inspect()
+   * @param options.waitMode - 'pubsub' retries as soon as any of the keys is released (defaults to manager's defaultWaitMode)
+   * @param options.retryStrategy - Delay policy between retries (defaults to manager's defaultRetryStrategy)
+   * @param options.signal - Cancels a pending acquisition, rejects with the signal's reason
+   * @param options.acquireTimeout - Wall-clock limit in milliseconds across all retries
    * @returns Promise resolving to array of lock handles in SORTED key order
    * @throws {Error} If keys array is empty or contains duplicates
+   * @throws {Error} If hierarchical keys overlap or are combined with fencing or RedLock
+   * @throws {Error} If useRedLock is set with fewer than 3 nodes
    * @throws {LockAcquisitionError} If any key is already locked after all retry attempts
+   * @throws {LockAcquisitionTimeoutError} If acquireTimeout elapses first
    */
   async acquireBatch(
     keys: string[],
     options: {
+      readonly signal?: AbortSignal;
+      readonly acquireTimeout?: number;
       readonly ttl?: number;
       readonly nodeIndex?: number;
       readonly retryAttempts?: number;
       readonly retryDelay?: number;
+      readonly fencing?: boolean;
+      readonly hierarchical?: boolean;
+      readonly useRedLock?: boolean;
+      readonly owner?: LockOwner;
+      readonly waitMode?: WaitMode;
+      readonly retryStrategy?: RetryStrategy;
     } = {}
   ): Promise<LockHandle[]> {
     if (keys.length === 0) {
@@ -267,22 +853,54 @@ export class LockManager {
       throw new Error(`Node index ${nodeIndex} is out of range`);
     }
 
+    if (options.hierarchical && options.fencing) {
+      throw new Error('Fencing is not supported for hierarchical batch acquisition');
+    }
+
+    if (options.useRedLock && options.hierarchical) {
+      throw new Error('Hierarchical batch acquisition cannot be combined with RedLock');
+    }
+
+    if (options.useRedLock && this.config.nodes.length < 3) {
+      throw new Error('RedLock requires at least 3 Redis nodes for proper distributed locking');
+    }
+
+    validateAcquireOptions(options);
+    options.signal?.throwIfAborted();
+
     const adapter = this.config.nodes[nodeIndex]!;
     const ttl = options.ttl ?? this.config.defaultTTL;
     const retryAttempts = options.retryAttempts ?? this.config.defaultRetryAttempts;
     const retryDelay = options.retryDelay ?? this.config.defaultRetryDelay;
     const startTime = Date.now();
     const sortedKeys = [...keys].sort();
-    const values = sortedKeys.map(() => generateLockValue());
+    const values = sortedKeys.map(() =>
+      options.owner ? createLockValueWithOwner(options.owner) : generateLockValue()
+    );
+    const waitMode = options.waitMode ?? this.config.defaultWaitMode;
+    const nextDelay = createRetrySchedule(
+      options.retryStrategy ?? this.config.defaultRetryStrategy,
+      retryDelay
+    );
+    const waiter =
+      waitMode === 'pubsub'
+        ? new ReleaseWaiter(
+            options.useRedLock ? this.config.nodes : [adapter],
+            sortedKeys,
+            this.config.logger
+          )
+        : undefined;
+    const deadline = new AcquireDeadline(sortedKeys[0]!, options);
 
     this.stats.totalLocks += sortedKeys.length;
+    this.emitBatch('acquisition_started', sortedKeys, { metadata: { batch: sortedKeys.length } });
 
     if (this.config.logger) {
       this.config.logger.info('Starting batch lock acquisition', {
         keyCount: sortedKeys.length,
         keys: sortedKeys.slice(0, 10), // Log first 10 to avoid huge logs
         ttl,
-        nodeIndex,
+        ...(options.useRedLock ? { nodeCount: this.config.nodes.length } : { nodeIndex }),
         retryAttempts,
         retryDelay,
       });
@@ -292,81 +910,133 @@ export class LockManager {
     let lastFailedKey: string | undefined;
     let lastFailedIndex: number | undefined;
 
-    for (let attempt = 0; attempt <= retryAttempts; attempt++) {
-      try {
-        const result = await adapter.batchSetNX(sortedKeys, values, ttl);
-
-        if (result.success) {
-          const acquisitionTime = Date.now() - startTime;
-
-          const handles: LockHandle[] = sortedKeys.map((key, index) => ({
-            id: generateLockId(),
-            key,
-            value: values[index]!,
-            acquiredAt: Date.now(),
-            ttl,
-            metadata: {
-              attempts: attempt + 1,
-              acquisitionTime,
-              strategy: 'simple' as const,
-            },
-          }));
-
-          this.stats.acquisitionTimes.push(acquisitionTime);
-          this.stats.acquiredLocks += handles.length;
-          this.stats.activeLocks += handles.length;
-
-          for (const handle of handles) {
-            this.activeLocks.set(handle.id, handle);
+    try {
+      for (let attempt = 0; attempt <= retryAttempts; attempt++) {
+        deadline.throwIfAborted(attempt, lastError);
+
+        try {
+          const result: BatchAttemptResult = options.useRedLock
+            ? await this.quorumBatchAcquire(sortedKeys, values, ttl, options, deadline)
+            : await deadline.run(
+                this.batchAcquireCall(adapter, sortedKeys, values, ttl, options),
+                late =>
+                  late.success &&
+                  Promise.all(
+                    sortedKeys.map((key, index) =>
+                      options.hierarchical
+                        ? adapter.hierarchicalRelease(key, values[index]!)
+                        : adapter.delIfMatch(key, values[index]!)
+                    )
+                  )
+              );
+
+          if (result.success) {
+            const acquisitionTime = Date.now() - startTime;
+
+            const handles: LockHandle[] = sortedKeys.map((key, index) => ({
+              id: generateLockId(),
+              key,
+              value: values[index]!,
+              acquiredAt: Date.now(),
+              ttl,
+              ...(result.fencingTokens && { fencingToken: result.fencingTokens[index]! }),
+              metadata: {
+                attempts: attempt + 1,
+                acquisitionTime,
+                ...(result.nodes
+                  ? { strategy: 'redlock' as const, nodes: [...result.nodes] }
+                  : options.hierarchical
+                    ? { strategy: 'hierarchical' as const, nodeIndex }
+                    : { strategy: 'simple' as const, nodeIndex }),
+              },
+            }));
+
+            this.stats.acquisitionTimes.push(acquisitionTime);
+            this.stats.acquiredLocks += handles.length;
+            this.stats.activeLocks += handles.length;
+
+            for (const handle of handles) {
+              this.activeLocks.set(handle.id, handle);
+              this.events.emit('acquisition_success', handle.key, {
+                duration: acquisitionTime,
+                handle,
+                metadata: { batch: handles.length, attempts: attempt + 1 },
+              });
+            }
+
+            if (this.config.logger) {
+              this.config.logger.info('Batch lock acquisition succeeded', {
+                lockCount: handles.length,
+                acquisitionTime,
+                avgTimePerLock: acquisitionTime / handles.length,
+                attempts: attempt + 1,
+              });
+            }
+
+            return handles;
           }
 
-          if (this.config.logger) {
-            this.config.logger.info('Batch lock acquisition succeeded', {
-              lockCount: handles.length,
-              acquisitionTime,
-              avgTimePerLock: acquisitionTime / handles.length,
-              attempts: attempt + 1,
+          // Acquisition failed - key is already locked
+          lastFailedKey = result.failedKey;
+          lastFailedIndex = result.failedIndex;
+          lastError = new Error(
+            result.reason
+              ? `Batch acquisition failed: ${result.reason}`
+              : `Batch acquisition failed: key "${result.failedKey}" at index ${result.failedIndex} is already locked`
+          );
+
+          if (this.config.logger && attempt < retryAttempts) {
+            this.config.logger.debug?.('Batch lock acquisition attempt failed, retrying', {
+              attempt: attempt + 1,
+              maxAttempts: retryAttempts + 1,
+              failedKey: result.failedKey,
+              failedIndex: result.failedIndex,
+              retryDelay,
+            });
+          }
+        } catch (error) {
+          deadline.throwIfAborted(attempt + 1, lastError);
+
+          // Unexpected error (network, Redis, etc.)
+          lastError = error as Error;
+          lastFailedKey = sortedKeys[0];
+          lastFailedIndex = 0;
+
+          if (this.config.logger && error instanceof Error) {
+            this.config.logger.error('Unexpected error during batch acquisition attempt', error, {
+              attempt: attempt + 1,
+              maxAttempts: retryAttempts + 1,
+              keyCount: sortedKeys.length,
             });
           }
-
-          return handles;
         }
 
-        // Acquisition failed - key is already locked
-        lastFailedKey = result.failedKey;
-        lastFailedIndex = result.failedIndex;
-        lastError = new Error(
-          `Batch acquisition failed: key "${result.failedKey}" at index ${result.failedIndex} is already locked`
-        );
+        // Wait before next retry (unless this was the last attempt)
+        if (attempt < retryAttempts) {
+          const delay = nextDelay(attempt + 1);
 
-        if (this.config.logger && attempt < retryAttempts) {
-          this.config.logger.debug?.('Batch lock acquisition attempt failed, retrying', {
-            attempt: attempt + 1,
-            maxAttempts: retryAttempts + 1,
-            failedKey: result.failedKey,
-            failedIndex: result.failedIndex,
-            retryDelay,
-          });
-        }
-      } catch (error) {
-        // Unexpected error (network, Redis, etc.)
-        lastError = error as Error;
-        lastFailedKey = sortedKeys[0];
-        lastFailedIndex = 0;
-
-        if (this.config.logger && error instanceof Error) {
-          this.config.logger.error('Unexpected error during batch acquisition attempt', error, {
-            attempt: attempt + 1,
-            maxAttempts: retryAttempts + 1,
-            keyCount: sortedKeys.length,
-          });
-        }
-      }
+          if (this.config.logger) {
+            this.config.logger.debug('Retrying batch lock acquisition', {
+              attempt: attempt + 1,
+              delay,
+            });
+          }
 
-      // Wait before next retry (unless this was the last attempt)
-      if (attempt < retryAttempts) {
-        await this.sleep(retryDelay);
+          await (waiter ? waiter.wait(delay, deadline.signal) : deadline.sleep(delay));
+        }
       }
+    } catch (error) {
+      // Cancelled or timed out, every other error is retried inside the loop
+      this.stats.failedLocks += sortedKeys.length;
+      this.emitBatch('acquisition_failed', sortedKeys, {
+        duration: Date.now() - startTime,
+        error,
+        metadata: { batch: sortedKeys.length },
+      });
+      throw error;
+    } finally {
+      deadline.dispose();
+      await waiter?.close();
     }
 
     // All retries exhausted
@@ -386,18 +1056,126 @@ export class LockManager {
       );
     }
 
-    throw new LockAcquisitionError(
+    const acquisitionError = new LockAcquisitionError(
       lastFailedKey ?? sortedKeys[0]!,
       retryAttempts + 1,
       lastError ?? new Error('Lock acquisition failed')
     );
+    this.emitBatch('acquisition_failed', sortedKeys, {
+      duration: Date.now() - startTime,
+      error: acquisitionError,
+      metadata: { batch: sortedKeys.length, attempts: retryAttempts + 1 },
+    });
+    throw acquisitionError;
+  }
+
+  /**
+   * Emit the same event for every key of a batch
+   */
+  private emitBatch(type: LockEventType, keys: string[], details: LockEventDetails): void {
+    for (const key of keys) {
+      this.events.emit(type, key, details);
+    }
+  }
+
+  /**
+   * Adapter call making one acquireBatch() attempt
+   */
+  private batchAcquireCall(
+    adapter: RedisAdapter,
+    keys: string[],
+    values: string[],
+    ttl: number,
+    options: { readonly fencing?: boolean; readonly hierarchical?: boolean }
+  ): Promise<BatchAcquireResult> {
+    if (options.hierarchical) {
+      return adapter.hierarchicalAcquire(keys, values, ttl);
+    }
+
+    return options.fencing
+      ? adapter.batchSetNXWithFencingTokens(keys, values, ttl)
+      : adapter.batchSetNX(keys, values, ttl);
   }
 
   /**
-   * Sleep for specified milliseconds
+   * One quorum attempt of acquireBatch() across all nodes
+   *
+   * Each node runs the batch script on its own, so a node holds either every key or
+   * none. The attempt succeeds when a quorum of nodes holds the batch and the time
+   * spent plus clock drift leaves part of the TTL; otherwise the nodes that won are
+   * rolled back.
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async quorumBatchAcquire(
+    keys: string[],
+    values: string[],
+    ttl: number,
+    options: { readonly fencing?: boolean },
+    deadline: AcquireDeadline
+  ): Promise<BatchAttemptResult> {
+    const startTime = Date.now();
+    const nodes = this.config.nodes;
+    const quorum = Math.floor(nodes.length / 2) + 1;
+    const rollback = (adapter: RedisAdapter): Promise<unknown> =>
+      Promise.allSettled(keys.map((key, index) => adapter.delIfMatch(key, values[index]!)));
+
+    const settled = await Promise.allSettled(
+      nodes.map(adapter =>
+        deadline.run(
+          this.batchAcquireCall(adapter, keys, values, ttl, options),
+          late => late.success && rollback(adapter)
+        )
+      )
+    );
+
+    const winners: { adapter: RedisAdapter; nodeId: string; fencingTokens?: number[] }[] = [];
+    let conflict: BatchAcquireFailure | undefined;
+
+    settled.forEach((outcome, index) => {
+      if (outcome.status !== 'fulfilled') {
+        return;
+      }
+
+      if (outcome.value.success) {
+        winners.push({
+          adapter: nodes[index]!,
+          nodeId: `node-${index}`,
+          ...(outcome.value.fencingTokens && { fencingTokens: outcome.value.fencingTokens }),
+        });
+      } else {
+        conflict ??= outcome.value;
+      }
+    });
+
+    const totalTime = Date.now() - startTime;
+    const driftTime = Math.floor(ttl * DEFAULTS.CLOCK_DRIFT_FACTOR) + 2;
+    const expired = totalTime + driftTime >= ttl;
+
+    if (winners.length >= quorum && !expired) {
+      // Nodes keep independent counters, the max across the quorum is each key's token
+      const fencingTokens = options.fencing
+        ? keys.map((_, index) => Math.max(...winners.map(w => w.fencingTokens?.[index] ?? 0)))
+        : undefined;
+
+      return {
+        success: true,
+        acquiredCount: keys.length,
+        nodes: winners.map(w => w.nodeId),
+        ...(fencingTokens && { fencingTokens }),
+      };
+    }
+
+    await Promise.allSettled(winners.map(w => rollback(w.adapter)));
+    const blocked = conflict ? `, key "${conflict.failedKey}" is already locked` : '';
+
+    return {
+      success: false,
+      acquiredCount: 0,
+      failedKey: conflict?.failedKey ?? keys[0]!,
+      failedIndex: conflict?.failedIndex ?? 1,
+      reason: expired
+        ? `acquisition took ${totalTime}ms, no validity left of the ${ttl}ms TTL after clock drift`
+        : `quorum not reached (${winners.length}/${quorum} nodes)${blocked}`,
+    };
   }
 
   /**
@@ -407,7 +1185,14 @@ export class LockManager {
    * @returns Promise resolving to array of results (true if released, false if already expired)
    */
   async releaseBatch(handles: LockHandle[]): Promise<boolean[]> {
+    // Plain simple locks are released by a single script, other strategies one by one
+    const plain = handles.filter(handle => this.isPlainSimpleHandle(handle));
+    const plainReleases =
+      plain.length > 0 ? this.releasePlainSimpleHandles(plain) : Promise.resolve([]);
+    let plainPosition = 0;
+
     const releasePromises = handles.map(async handle => {
+      const position = this.isPlainSimpleHandle(handle) ? plainPosition++ : undefined;
       const holdTime = Date.now() - handle.acquiredAt;
       this.stats.holdTimes.push(holdTime);
 
@@ -415,14 +1200,79 @@ export class LockManager {
         this.stats.activeLocks--;
       }
 
-      const lock = this.createSimpleLock(handle.key);
-      return lock.release(handle);
+      try {
+        if (position === undefined) {
+          return await this.lockForHandle(handle).release(handle);
+        }
+
+        // Released by the batch script, not by a lock that would emit the event
+        const released = (await plainReleases)[position]!;
+        this.events.emit('released', handle.key, {
+          duration: holdTime,
+          handle,
+          metadata: { released },
+        });
+        return released;
+      } finally {
+        await this.leaveWaitForGraph(handle);
+      }
     });
 
     const results = await Promise.allSettled(releasePromises);
     return results.map(result => (result.status === 'fulfilled' ? result.value : false));
   }
 
+  /**
+   * Whether a handle is a plain simple lock, released with delIfMatch on its node
+   * like lockForHandle() would
+   */
+  private isPlainSimpleHandle(handle: LockHandle): boolean {
+    const metadata = handle.metadata;
+    return (
+      (metadata === undefined || metadata.strategy === 'simple') &&
+      metadata?.holdCount === undefined &&
+      metadata?.staleAfter === undefined
+    );
+  }
+
+  /**
+   * Release plain simple locks with one batchDelIfMatch call per node
+   */
+  private async releasePlainSimpleHandles(handles: LockHandle[]): Promise<boolean[]> {
+    const positionsByNode = new Map<number, number[]>();
+    handles.forEach((handle, position) => {
+      const nodeIndex = handle.metadata?.nodeIndex ?? 0;
+      positionsByNode.set(nodeIndex, [...(positionsByNode.get(nodeIndex) ?? []), position]);
+    });
+
+    const results: boolean[] = [];
+    await Promise.all(
+      [...positionsByNode].map(async ([nodeIndex, positions]) => {
+        const adapter = this.config.nodes[nodeIndex];
+        if (!adapter) {
+          throw new Error(`Node index ${nodeIndex} is out of range`);
+        }
+
+        const nodeHandles = positions.map(position => handles[position]!);
+        try {
+          const released = await adapter.batchDelIfMatch(
+            nodeHandles.map(handle => handle.key),
+            nodeHandles.map(handle => handle.value)
+          );
+          positions.forEach((position, index) => {
+            results[position] = released[index]!;
+          });
+        } finally {
+          const localQueue = localLockQueue(adapter);
+          for (const handle of nodeHandles) {
+            localQueue.release(handle);
+          }
+        }
+      })
+    );
+    return results;
+  }
+
   /**
    * Acquire and manage multiple locks with automatic extension
    * Combines batch acquisition with auto-extension for long-running operations
@@ -434,27 +1284,46 @@ export class LockManager {
    * @param options.nodeIndex - Redis node index to use (defaults to 0)
    * @param options.retryAttempts - Number of retry attempts (defaults to manager's defaultRetryAttempts)
    * @param options.retryDelay - Delay between retries in milliseconds (defaults to manager's defaultRetryDelay)
+   * @param options.fencing - Issue fencing tokens, exposed on signal.fencingTokens (defaults to false)
+   * @param options.hierarchical - Lock the keys as hierarchical key paths (defaults to false)
+   * @param options.useRedLock - Require a quorum of nodes, extensions also run across the quorum (defaults to false)
+   * @param options.owner - Owner metadata stored with every lock of the batch, returned by inspect()
+   * @param options.waitMode - 'pubsub' retries as soon as any of the keys is released (defaults to manager's defaultWaitMode)
+   * @param options.retryStrategy - Delay policy between retries (defaults to manager's defaultRetryStrategy)
+   * @param options.signal - Cancels a pending acquisition (the routine's signal is separate)
+   * @param options.acquireTimeout - Wall-clock limit in milliseconds for acquiring the locks
    * @returns Promise resolving to the routine result
    */
   async usingBatch<T>(
     keys: string[],
     routine: (signal: ExtendedAbortSignal) => Promise<T>,
     options: {
+      readonly signal?: AbortSignal;
+      readonly acquireTimeout?: number;
       readonly ttl?: number;
       readonly nodeIndex?: number;
       readonly retryAttempts?: number;
       readonly retryDelay?: number;
+      readonly fencing?: boolean;
+      readonly hierarchical?: boolean;
+      readonly useRedLock?: boolean;
+      readonly owner?: LockOwner;
+      readonly waitMode?: WaitMode;
+      readonly retryStrategy?: RetryStrategy;
     } = {}
   ): Promise<T> {
     const handles = await this.acquireBatch(keys, options);
     const ttl = options.ttl ?? this.config.defaultTTL;
-    const locks = handles.map(handle => this.createSimpleLock(handle.key));
+    const locks = handles.map(handle => this.lockForHandle(handle));
 
     return executeWithAutoExtension({
       locks,
       handles,
       ttl,
       routine,
+      // Intention leases of hierarchical locks must be extended along with the locks
+      atomicExtension: !options.hierarchical,
+      events: this.events,
     });
   }
 
@@ -490,6 +1359,83 @@ export class LockManager {
     return Array.from(this.activeLocks.values());
   }
 
+  /**
+   * List the locks held on all nodes, including those of other processes
+   * Every node is scanned with scanLocks() and holders of the same key and value are
+   * merged. A lock held on more than one node, or held through a RedLock handle of
+   * this manager, is a RedLock and flagged when fewer than a quorum of nodes hold it,
+   * e.g. after a partial release or a node restart.
+   *
+   * @param pattern - Glob-style pattern of lock keys (defaults to all keys)
+   * @param options.count - Keys examined per SCAN call (defaults to 100)
+   * @returns Promise resolving to the held locks, sorted by key
+   */
+  async listLocks(pattern = '*', options: { readonly count?: number } = {}): Promise<ListedLock[]> {
+    const nodeLocks = await Promise.all(
+      this.config.nodes.map(node => this.scanAllLocks(node, pattern, options.count))
+    );
+
+    // Keys cannot contain newlines, so key and value joined by one identify a holder
+    const holderId = (key: string, value: string): string => `${key}\n${value}`;
+    const redLockHolders = new Set(
+      this.getActiveLocks()
+        .filter(handle => handle.metadata?.strategy === 'redlock')
+        .map(handle => holderId(handle.key, handle.value))
+    );
+
+    const merged = new Map<string, { lock: ScannedLock; ttl: number; nodes: number[] }>();
+    nodeLocks.forEach((locks, index) => {
+      for (const lock of locks) {
+        const id = holderId(lock.key, lock.value);
+        const holder = merged.get(id);
+        if (holder?.nodes.at(-1) === index) {
+          // SCAN may return a key more than once
+          continue;
+        }
+        if (holder) {
+          holder.ttl = Math.min(holder.ttl, lock.ttl);
+          holder.nodes.push(index);
+        } else {
+          merged.set(id, { lock, ttl: lock.ttl, nodes: [index] });
+        }
+      }
+    });
+
+    const quorum = Math.floor(this.config.nodes.length / 2) + 1;
+    return Array.from(merged, ([id, { lock, ttl, nodes }]) => {
+      const redLock = nodes.length > 1 || redLockHolders.has(id);
+      return {
+        key: lock.key,
+        value: lock.value,
+        ttl,
+        ...(lock.owner && { owner: lock.owner }),
+        nodes,
+        belowQuorum: redLock && nodes.length < quorum,
+      };
+    }).sort((a, b) => a.key.localeCompare(b.key) || a.nodes[0]! - b.nodes[0]!);
+  }
+
+  /**
+   * Scan one node until its scan is complete
+   */
+  private async scanAllLocks(
+    node: RedisAdapter,
+    pattern: string,
+    count?: number
+  ): Promise<ScannedLock[]> {
+    const locks: ScannedLock[] = [];
+    let cursor = '0';
+    do {
+      const page = await node.scanLocks(pattern, {
+        cursor,
+        ...(count !== undefined && { count }),
+      });
+      locks.push(...page.locks);
+      cursor = page.cursor;
+    } while (cursor !== '0');
+    return locks;
+  }
+
   /**
    * Check health of all Redis nodes
    */
@@ -558,6 +1504,7 @@ export class LockManager {
     }
 
     const stats = this.getStats();
+    const summary = this.metricsCollector!.getSummary();
 
     return `
 # HELP redlock_locks_total Total number of lock operations
@@ -583,6 +1530,72 @@ redlock_acquisition_duration_ms ${stats.averageAcquisitionTime}
 # HELP redlock_hold_duration_ms Average lock hold time in milliseconds
 # TYPE redlock_hold_duration_ms gauge
 redlock_hold_duration_ms ${stats.averageHoldTime}
+
+# HELP redlock_acquisition_duration_p95_ms 95th percentile of recent acquisition times in milliseconds
+# TYPE redlock_acquisition_duration_p95_ms gauge
+redlock_acquisition_duration_p95_ms ${summary.p95AcquisitionTime}
+
+# HELP redlock_acquisition_duration_p99_ms 99th percentile of recent acquisition times in milliseconds
+# TYPE redlock_acquisition_duration_p99_ms gauge
+redlock_acquisition_duration_p99_ms ${summary.p99AcquisitionTime}
+
+# HELP redlock_acquisition_success_ratio Share of recent acquisition attempts that succeeded
+# TYPE redlock_acquisition_success_ratio gauge
+redlock_acquisition_success_ratio ${summary.successRate}
     `.trim();
   }
+
+  /**
+   * Start the HTTP monitoring server, done by the constructor when monitoring.server is set
+   * Serves /metrics, /health, /ready and /locks on monitoring.metricsPort, see
+   * MonitoringServer. Calling it again returns the address of the running server.
+   *
+   * @returns Promise resolving to the address the server listens on
+   * @throws Error if monitoring is not enabled or the port cannot be bound
+   */
+  startMonitoringServer(): Promise<MonitoringServerAddress> {
+    if (!this.config.monitoring.enabled) {
+      return Promise.reject(new Error('Monitoring must be enabled to start the monitoring server'));
+    }
+
+    if (!this.monitoringServerStart) {
+      const healthChecker = new HealthChecker();
+      this.config.nodes.forEach((node, index) =>
+        healthChecker.registerAdapter(`node-${index}`, node)
+      );
+
+      const server = new MonitoringServer({
+        port: this.config.monitoring.metricsPort!,
+        host: this.config.monitoring.host!,
+        healthChecker,
+        healthCheckInterval: this.config.monitoring.healthCheckInterval!,
+        quorum: Math.floor(this.config.nodes.length / 2) + 1,
+        metrics: () => this.getMetrics(),
+        locks: () => this.getActiveLocks(),
+        ...(this.config.logger && { logger: this.config.logger }),
+      });
+      this.monitoringServer = server;
+      this.monitoringServerStart = server.start().catch(error => {
+        this.monitoringServer = undefined;
+        this.monitoringServerStart = undefined;
+        throw error;
+      });
+    }
+
+    return this.monitoringServerStart;
+  }
+
+  /**
+   * Stop the monitoring server, if running
+   * Held locks are not released, release them before shutting down
+   */
+  async close(): Promise<void> {
+    const server = this.monitoringServer;
+    const start = this.monitoringServerStart;
+    this.monitoringServer = undefined;
+    this.monitoringServerStart = undefined;
+
+    await start?.catch(() => {});
+    await server?.stop();
+  }
 }
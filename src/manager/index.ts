@@ -1,2 +1,7 @@
 export { LockManager } from './LockManager.js';
-export type { LockManagerConfig, LockStats } from './LockManager.js';
+export type {
+  LockManagerConfig,
+  LockStats,
+  DeadlockDetectionConfig,
+  ListedLock,
+} from './LockManager.js';
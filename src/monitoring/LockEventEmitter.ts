@@ -0,0 +1,204 @@
+/**
+ * Typed lock events, as listeners or an async iterator
+ */
+
+import { EventEmitter, on } from 'events';
+import type { LockHandle, TryAcquireResult } from '../types/locks.js';
+import type { LockEvent, LockEventType } from '../types/monitoring.js';
+import type { ILogger } from './Logger.js';
+
+/**
+ * Listener of one event type, '*' receives every event
+ */
+export type LockEventListener<T extends LockEventType = LockEventType> = (
+  event: LockEvent<T>
+) => void;
+
+/**
+ * Options of iterate()
+ */
+export interface LockEventIteratorOptions {
+  /** Only yield these event types (default: all) */
+  readonly types?: readonly LockEventType[];
+  /** Ends the iteration when aborted */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Fields of an event set by the emitting lock
+ */
+export interface LockEventDetails {
+  readonly duration?: number;
+  /** Failure, reported as the event's error message and cause */
+  readonly error?: unknown;
+  readonly handle?: LockHandle;
+  readonly metadata?: Record<string, unknown>;
+}
+
+const ANY_EVENT = Symbol('lock-event');
+
+/**
+ * Emitter of the events of one or more locks
+ *
+ * Every lock has one as `lock.events`. Pass an emitter in the lock config to share it,
+ * as LockManager does for the locks it creates. Events are only built while someone
+ * listens, so an unobserved emitter costs nothing on the lock's hot path.
+ *
+ * @example
+ * ```typescript
+ * lock.events.on('lost', event => logger.warn('Lock lost', event));
+ *
+ * for await (const event of lock.events.iterate({ types: ['acquisition_failed'] })) {
+ *   metrics.increment('lock.contention', { key: event.key });
+ * }
+ * ```
+ */
+export class LockEventEmitter implements AsyncIterable<LockEvent> {
+  private readonly emitter = new EventEmitter();
+
+  constructor(private readonly logger?: ILogger) {
+    // Shared emitters collect one listener per iterator, no leak to warn about
+    this.emitter.setMaxListeners(0);
+  }
+
+  on<T extends LockEventType>(type: T | '*', listener: LockEventListener<T>): this {
+    this.emitter.on(type === '*' ? ANY_EVENT : type, listener);
+    return this;
+  }
+
+  once<T extends LockEventType>(type: T | '*', listener: LockEventListener<T>): this {
+    this.emitter.once(type === '*' ? ANY_EVENT : type, listener);
+    return this;
+  }
+
+  off<T extends LockEventType>(type: T | '*', listener: LockEventListener<T>): this {
+    this.emitter.off(type === '*' ? ANY_EVENT : type, listener);
+    return this;
+  }
+
+  /**
+   * Iterate over events as they are emitted
+   *
+   * Listening starts when iterate() is called, events emitted while the consumer is
+   * busy are buffered. Leaving the loop or aborting the signal stops listening.
+   *
+   * @param options - Event types to yield and a signal ending the iteration
+   * @returns Async iterator of the events
+   */
+  iterate(options: LockEventIteratorOptions = {}): AsyncIterableIterator<LockEvent> {
+    const { types, signal } = options;
+    const source = on(this.emitter, ANY_EVENT, signal ? { signal } : {});
+
+    const next = async (): Promise<IteratorResult<LockEvent>> => {
+      try {
+        for (;;) {
+          const result = await source.next();
+          if (result.done) {
+            return { done: true, value: undefined };
+          }
+
+          const [event] = result.value as [LockEvent];
+          if (!types || types.includes(event.type)) {
+            return { done: false, value: event };
+          }
+        }
+      } catch (error) {
+        if (signal?.aborted) {
+          return { done: true, value: undefined };
+        }
+        throw error;
+      }
+    };
+
+    return {
+      next,
+      return: async () => {
+        await source.return?.();
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * Iterate over every event, see iterate()
+   */
+  [Symbol.asyncIterator](): AsyncIterableIterator<LockEvent> {
+    return this.iterate();
+  }
+
+  /**
+   * Emit an event, called by the locks
+   * A throwing listener is logged and does not fail the lock operation.
+   *
+   * @param type - Event type
+   * @param key - Lock key
+   * @param details - Duration, failure, handle and metadata of the event
+   */
+  emit<T extends LockEventType>(type: T, key: string, details: LockEventDetails = {}): void {
+    if (this.emitter.listenerCount(type) === 0 && this.emitter.listenerCount(ANY_EVENT) === 0) {
+      return;
+    }
+
+    const { error, ...fields } = details;
+    const cause = error === undefined || error instanceof Error ? error : new Error(String(error));
+    const event: LockEvent<T> = {
+      type,
+      key,
+      timestamp: Date.now(),
+      ...fields,
+      ...(cause && { error: cause.message, cause }),
+    };
+
+    this.dispatch(type, event);
+    this.dispatch(ANY_EVENT, event);
+  }
+
+  /**
+   * Call every listener of one event name, a throwing listener does not stop the others
+   */
+  private dispatch(name: LockEventType | typeof ANY_EVENT, event: LockEvent): void {
+    // Raw listeners keep the wrappers of once(), calling one removes it
+    for (const listener of this.emitter.rawListeners(name)) {
+      try {
+        (listener as (event: LockEvent) => void)(event);
+      } catch (listenerError) {
+        this.logger?.error('Lock event listener failed', listenerError as Error, {
+          key: event.key,
+          type: event.type,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Emit the outcome of a tryAcquire() started at startTime
+ * A failure carries its reason, and the node counts when the quorum was not reached.
+ */
+export function emitTryAcquireResult(
+  events: LockEventEmitter,
+  result: TryAcquireResult,
+  startTime: number
+): void {
+  const duration = Date.now() - startTime;
+
+  if (result.acquired) {
+    events.emit('acquisition_success', result.handle.key, {
+      duration,
+      handle: result.handle,
+      metadata: { strategy: result.handle.metadata?.strategy, attempts: 1 },
+    });
+    return;
+  }
+
+  const { acquired: _acquired, key, ...metadata } = result;
+  events.emit('acquisition_failed', key, {
+    duration,
+    error:
+      'error' in result ? result.error : new Error(`Lock "${key}" not acquired: ${result.reason}`),
+    metadata: { ...metadata, attempts: 1 },
+  });
+}
@@ -0,0 +1,207 @@
+/**
+ * Embedded HTTP server for metrics, health and active locks
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { LockHandle } from '../types/locks.js';
+import type { HealthChecker, SystemHealth } from './HealthChecker.js';
+import type { ILogger } from './Logger.js';
+
+/**
+ * Configuration for MonitoringServer
+ */
+export interface MonitoringServerConfig {
+  /** Port to listen on, 0 picks a free port */
+  readonly port: number;
+  /** Interface to bind (default: '127.0.0.1') */
+  readonly host?: string;
+  /** Health checker of the monitored nodes */
+  readonly healthChecker: HealthChecker;
+  /** Time between background health checks in milliseconds */
+  readonly healthCheckInterval: number;
+  /** Healthy nodes required for /ready to succeed */
+  readonly quorum: number;
+  /** Metrics in Prometheus text format */
+  readonly metrics: () => string;
+  /** Locks currently held through the manager */
+  readonly locks: () => LockHandle[];
+  /** Optional logger for operational visibility */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Address the server listens on
+ */
+export interface MonitoringServerAddress {
+  readonly host: string;
+  readonly port: number;
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const JSON_CONTENT_TYPE = 'application/json; charset=utf-8';
+
+/**
+ * HTTP server exposing the monitoring data of a LockManager
+ *
+ * Routes:
+ * - GET /metrics: Prometheus text format
+ * - GET /health: latest health check of every node, 503 unless all are healthy
+ * - GET /ready: 200 while a quorum of nodes is healthy, 503 otherwise
+ * - GET /locks: locks held through the manager, without their values
+ *
+ * Nodes are checked in the background every healthCheckInterval, so probes do not
+ * write to Redis themselves. Lock values are omitted from /locks because they are the
+ * ownership tokens that release or extend a lock.
+ */
+export class MonitoringServer {
+  private readonly config: MonitoringServerConfig;
+  private server: Server | undefined;
+  private healthTimer: ReturnType<typeof setInterval> | undefined;
+  private latestHealth: Promise<SystemHealth> | undefined;
+
+  constructor(config: MonitoringServerConfig) {
+    if (!Number.isInteger(config.port) || config.port < 0 || config.port > 65535) {
+      throw new Error('Monitoring port must be an integer between 0 and 65535');
+    }
+    if (!Number.isInteger(config.healthCheckInterval) || config.healthCheckInterval <= 0) {
+      throw new Error('Health check interval must be a positive integer');
+    }
+
+    this.config = config;
+  }
+
+  /**
+   * Address the server listens on, null before start() and after stop()
+   */
+  get address(): MonitoringServerAddress | null {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    return address ? { host: address.address, port: address.port } : null;
+  }
+
+  /**
+   * Start listening and checking health
+   * @returns Promise resolving to the bound address once the server listens
+   */
+  async start(): Promise<MonitoringServerAddress> {
+    if (this.server) {
+      return this.address!;
+    }
+
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch((error: Error) => {
+        this.config.logger?.error('Monitoring request failed', error, { url: request.url });
+        this.send(response, 500, JSON_CONTENT_TYPE, { error: 'Internal server error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host ?? DEFAULT_HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+
+    this.refreshHealth();
+    this.healthTimer = setInterval(() => this.refreshHealth(), this.config.healthCheckInterval);
+    this.healthTimer.unref();
+
+    this.config.logger?.info('Monitoring server listening', { ...this.address });
+    return this.address!;
+  }
+
+  /**
+   * Stop checking health and close the server, ending open connections
+   */
+  async stop(): Promise<void> {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    });
+    this.server = undefined;
+    this.latestHealth = undefined;
+  }
+
+  /**
+   * Start a health check, the previous result is served until it completes
+   */
+  private refreshHealth(): Promise<SystemHealth> {
+    const check = this.config.healthChecker.checkSystemHealth();
+    check.then(
+      () => {
+        this.latestHealth = check;
+      },
+      (error: Error) => {
+        this.config.logger?.error('Health check failed', error);
+        if (this.latestHealth === check) {
+          this.latestHealth = undefined;
+        }
+      }
+    );
+    this.latestHealth ??= check;
+    return check;
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.setHeader('Allow', 'GET, HEAD');
+      this.send(response, 405, JSON_CONTENT_TYPE, { error: 'Method not allowed' });
+      return;
+    }
+
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+    switch (path) {
+      case '/metrics':
+        this.send(response, 200, 'text/plain; version=0.0.4; charset=utf-8', this.config.metrics());
+        return;
+      case '/health': {
+        const health = await (this.latestHealth ?? this.refreshHealth());
+        this.send(response, health.overall ? 200 : 503, JSON_CONTENT_TYPE, health);
+        return;
+      }
+      case '/ready': {
+        const health = await (this.latestHealth ?? this.refreshHealth());
+        const healthyNodes = health.adapters.filter(adapter => adapter.status.healthy).length;
+        const ready = healthyNodes >= this.config.quorum;
+        this.send(response, ready ? 200 : 503, JSON_CONTENT_TYPE, {
+          ready,
+          healthyNodes,
+          quorum: this.config.quorum,
+        });
+        return;
+      }
+      case '/locks':
+        this.send(
+          response,
+          200,
+          JSON_CONTENT_TYPE,
+          this.config.locks().map(({ value: _value, ...handle }) => handle)
+        );
+        return;
+      default:
+        this.send(response, 404, JSON_CONTENT_TYPE, { error: 'Not found' });
+    }
+  }
+
+  private send(response: ServerResponse, status: number, contentType: string, body: unknown): void {
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+
+    response.writeHead(status, { 'Content-Type': contentType });
+    response.end(typeof body === 'string' ? body : JSON.stringify(body));
+  }
+}
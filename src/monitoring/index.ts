@@ -4,12 +4,25 @@
 
 export { MetricsCollector } from './MetricsCollector.js';
 export { HealthChecker } from './HealthChecker.js';
+export { MonitoringServer } from './MonitoringServer.js';
+export { LockEventEmitter } from './LockEventEmitter.js';
 export { Logger, LogLevel, logger } from './Logger.js';
 export { createPinoAdapter, createBunyanAdapter } from './adapters.js';
+export { SPAN_NAMES, SPAN_ATTRIBUTES } from './tracing.js';
 
 export type { LockMetrics, RedLockMetrics, MetricsSummary } from './MetricsCollector.js';
 
 export type { HealthStatus, AdapterHealth, SystemHealth } from './HealthChecker.js';
 
+export type { MonitoringServerConfig, MonitoringServerAddress } from './MonitoringServer.js';
+
+export type {
+  LockEventListener,
+  LockEventIteratorOptions,
+  LockEventDetails,
+} from './LockEventEmitter.js';
+export type { LockEvent, LockEventType } from '../types/monitoring.js';
+
 export type { ILogger, LogEntry, LoggerConfig } from './Logger.js';
 export type { PinoLogger, BunyanLogger } from './adapters.js';
+export type { Tracer, Span, SpanOptions, SpanAttributes, SpanAttributeValue } from './tracing.js';
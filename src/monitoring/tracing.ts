@@ -0,0 +1,180 @@
+/**
+ * Optional OpenTelemetry instrumentation
+ *
+ * The interfaces below are the subset of @opentelemetry/api the locks use, so a tracer
+ * from `trace.getTracer()` can be passed in without this library depending on the SDK.
+ */
+
+/**
+ * Value of a span attribute
+ */
+export type SpanAttributeValue = string | number | boolean | string[] | number[] | boolean[];
+
+/**
+ * Span attributes, undefined values are left out
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Options of a new span
+ */
+export interface SpanOptions {
+  readonly attributes?: SpanAttributes;
+  /** Start time in milliseconds since epoch (default: now) */
+  readonly startTime?: number;
+}
+
+/**
+ * Span of an OpenTelemetry tracer
+ */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): this;
+  setAttributes(attributes: SpanAttributes): this;
+  setStatus(status: { code: number; message?: string }): this;
+  recordException(exception: Error): void;
+  end(): void;
+}
+
+/**
+ * OpenTelemetry tracer, e.g. `trace.getTracer('redlock-universal')`
+ */
+export interface Tracer {
+  /**
+   * Start a span and run fn in a context where it is the active span
+   */
+  startActiveSpan<F extends (span: Span) => unknown>(
+    name: string,
+    options: SpanOptions,
+    fn: F
+  ): ReturnType<F>;
+}
+
+/**
+ * Names of the spans created by the locks
+ */
+export const SPAN_NAMES = {
+  /** acquire() or takeover(), including retries and waits */
+  ACQUIRE: 'redlock.acquire',
+  /** One acquisition attempt */
+  ATTEMPT: 'redlock.attempt',
+  /** Acquisition attempt of a RedLock on one node */
+  NODE_ACQUIRE: 'redlock.node.acquire',
+  EXTEND: 'redlock.extend',
+  /** One round of automatic extensions inside using() */
+  AUTO_EXTEND: 'redlock.auto_extend',
+  RELEASE: 'redlock.release',
+  /** using(), the routine runs in its context */
+  USING: 'redlock.using',
+} as const;
+
+/**
+ * Attribute names of the spans created by the locks
+ */
+export const SPAN_ATTRIBUTES = {
+  KEY: 'redlock.key',
+  /** Lock strategy, 'simple' or 'redlock' */
+  STRATEGY: 'redlock.strategy',
+  TTL: 'redlock.ttl',
+  /** Attempts made by an acquisition, or the number of an attempt */
+  ATTEMPTS: 'redlock.attempts',
+  ACQUIRED: 'redlock.acquired',
+  RELEASED: 'redlock.released',
+  EXTENDED: 'redlock.extended',
+  /** Circuit breaker state once the operation settled */
+  CIRCUIT_BREAKER_STATE: 'redlock.circuit_breaker.state',
+  /** Node ID of a RedLock node, 'node-<index>' */
+  NODE: 'redlock.node',
+  /** Nodes required by a RedLock */
+  QUORUM: 'redlock.quorum',
+  /** Nodes that granted, released or extended a RedLock */
+  NODES_SUCCEEDED: 'redlock.nodes.succeeded',
+  NODES_TOTAL: 'redlock.nodes.total',
+  /** Keys extended together by one auto-extension round */
+  KEYS: 'redlock.keys',
+} as const;
+
+/**
+ * SpanStatusCode.ERROR of @opentelemetry/api
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Mark a span as failed
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  const exception = error instanceof Error ? error : new Error(String(error));
+  span.recordException(exception);
+  span.setStatus({ code: SPAN_STATUS_ERROR, message: exception.message });
+}
+
+/**
+ * Attributes without their undefined values
+ */
+function definedAttributes(attributes: SpanAttributes): Record<string, SpanAttributeValue> {
+  return Object.fromEntries(
+    Object.entries(attributes).filter(
+      (entry): entry is [string, SpanAttributeValue] => entry[1] !== undefined
+    )
+  );
+}
+
+/**
+ * Span that leaves out undefined attribute values on every call, not only at its start
+ */
+function withDefinedAttributes(span: Span): Span {
+  return {
+    setAttribute(key, value) {
+      if (value !== undefined) {
+        span.setAttribute(key, value);
+      }
+      return this;
+    },
+    setAttributes(attributes) {
+      span.setAttributes(definedAttributes(attributes));
+      return this;
+    },
+    setStatus(status) {
+      span.setStatus(status);
+      return this;
+    },
+    recordException: exception => span.recordException(exception),
+    end: () => span.end(),
+  };
+}
+
+/**
+ * Run an operation in an active span, or directly when no tracer is configured
+ *
+ * The span ends when the operation settles and is marked failed when it throws.
+ * Operations set their result attributes through the span they receive, which drops
+ * undefined values like the initial attributes.
+ *
+ * @param tracer - Tracer of the lock, undefined disables tracing
+ * @param name - Span name
+ * @param options - Initial attributes and start time
+ * @param operation - Operation to trace, receives the span or undefined
+ * @returns Promise resolving to the operation result
+ */
+export async function traced<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  options: SpanOptions,
+  operation: (span: Span | undefined) => Promise<T>
+): Promise<T> {
+  if (!tracer) {
+    return operation(undefined);
+  }
+
+  const attributes = definedAttributes(options.attributes ?? {});
+
+  return tracer.startActiveSpan(name, { ...options, attributes }, async (span: Span) => {
+    try {
+      return await operation(withDefinedAttributes(span));
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
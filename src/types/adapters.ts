@@ -25,6 +25,52 @@ export interface LockInspection {
   readonly value: string;
   /** Remaining TTL in milliseconds */
   readonly ttl: number;
+  /** Owner metadata (only for locks acquired with an owner) */
+  readonly owner?: LockOwner;
+}
+
+/**
+ * Lock found by scanLocks()
+ */
+export interface ScannedLock extends LockInspection {
+  /** Lock key, without the adapter's key prefix */
+  readonly key: string;
+}
+
+/**
+ * Options of one scanLocks() call
+ */
+export interface ScanLocksOptions {
+  /** Number of keys to examine, a hint passed to SCAN COUNT (default: 100) */
+  readonly count?: number;
+  /** Cursor returned by the previous call (default: '0', starts a new scan) */
+  readonly cursor?: string;
+}
+
+/**
+ * One page of a lock scan
+ */
+export interface ScanLocksResult {
+  /** Cursor to pass to the next call, '0' once the scan is complete */
+  readonly cursor: string;
+  /** Locks found on this page, may be empty before the scan is complete */
+  readonly locks: ScannedLock[];
+}
+
+/**
+ * Owner metadata stored with a lock, readable through inspect()
+ */
+export interface LockOwner {
+  /** Host holding the lock (default: os.hostname()) */
+  readonly hostname?: string;
+  /** Process holding the lock (default: process.pid) */
+  readonly pid?: number;
+  /** Name of the service holding the lock */
+  readonly service?: string;
+  /** Job or request the lock was taken for */
+  readonly jobId?: string;
+  /** Free-form key/value tags */
+  readonly tags?: Readonly<Record<string, string>>;
 }
 
 /**
@@ -35,6 +81,8 @@ export interface BatchAcquireSuccess {
   readonly success: true;
   /** Number of locks acquired (equals keys.length) */
   readonly acquiredCount: number;
+  /** Fencing tokens in key order (only for fenced acquisition) */
+  readonly fencingTokens?: number[];
 }
 
 /**
@@ -56,6 +104,71 @@ export interface BatchAcquireFailure {
  */
 export type BatchAcquireResult = BatchAcquireSuccess | BatchAcquireFailure;
 
+/**
+ * Result of a fair (FIFO) lock acquisition attempt
+ */
+export interface FairAcquireResult {
+  /** Whether the lock was granted to this ticket */
+  readonly acquired: boolean;
+  /** Number of waiters ahead of this ticket (0 = next in line) */
+  readonly position: number;
+  /** Fencing token (only when acquired with fencing enabled) */
+  readonly fencingToken?: number;
+}
+
+/**
+ * Record of a stale lock taken over by a new holder
+ */
+export interface LockTakeover {
+  /** Lock key */
+  readonly key: string;
+  /** Server time of the takeover in milliseconds since epoch */
+  readonly at: number;
+  /** Lock value of the holder that was replaced */
+  readonly previousValue: string;
+  /** Owner metadata of the replaced holder (only when it was acquired with an owner) */
+  readonly previousOwner?: LockOwner;
+  /** Lock value of the new holder */
+  readonly newValue: string;
+  /** Time since the replaced holder's last heartbeat in milliseconds */
+  readonly heartbeatAge: number;
+}
+
+/**
+ * Result of a takeover attempt
+ */
+export interface TakeoverResult {
+  /** Whether the new value now holds the lock */
+  readonly acquired: boolean;
+  /** Takeover record (only when a stale holder was replaced) */
+  readonly takeover?: LockTakeover;
+}
+
+/**
+ * Completion marker of a run-once key
+ */
+export interface CompletionMarker {
+  /** Result payload stored on completion */
+  readonly result: string;
+  /** Server time of the completion in milliseconds since epoch */
+  readonly completedAt: number;
+}
+
+/**
+ * Edge of a wait-for graph: a participant waiting for a lock key
+ */
+export interface WaitForEdge {
+  /** Waiting participant */
+  readonly participant: string;
+  /** Lock key it waits for, held by the participant of the next edge */
+  readonly key: string;
+}
+
+/**
+ * Stops a release subscription
+ */
+export type ReleaseUnsubscribe = () => Promise<void>;
+
 /**
  * Configuration options for Redis adapters
  */
@@ -153,6 +266,404 @@ export interface RedisAdapter {
    */
   inspect(key: string): Promise<LockInspection | null>;
 
+  /**
+   * Release multiple locks in a single operation, each only if its value matches
+   * Keys are released independently, unlike the all-or-nothing batchSetNX
+   *
+   * @param keys - Array of Redis keys to release
+   * @param values - Array of expected values (one per key, same length as keys)
+   * @returns Promise resolving to whether each key was released, in key order
+   * @throws Error if keys and values arrays have different lengths
+   */
+  batchDelIfMatch(keys: string[], values: string[]): Promise<boolean[]>;
+
+  /**
+   * Atomic extension of multiple locks in a single operation
+   * Every key is checked and extended independently, like atomicExtend
+   *
+   * @param keys - Array of Redis keys to extend
+   * @param values - Array of expected values (one per key, same length as keys)
+   * @param minTTL - Minimum TTL required for extension (race condition protection)
+   * @param newTTL - New TTL to set in milliseconds
+   * @returns Promise resolving to the extension result of each key, in key order
+   * @throws Error if keys and values arrays have different lengths
+   */
+  batchAtomicExtend(
+    keys: string[],
+    values: string[],
+    minTTL: number,
+    newTTL: number
+  ): Promise<AtomicExtensionResult[]>;
+
+  /**
+   * Inspect multiple locks in a single operation
+   *
+   * @param keys - Array of Redis keys to inspect
+   * @returns Promise resolving to the inspection of each key in key order, null if missing
+   */
+  batchInspect(keys: string[]): Promise<Array<LockInspection | null>>;
+
+  /**
+   * Scan the keyspace for held locks, one SCAN page per call
+   * Follows SCAN semantics: a lock held for the whole scan is returned at least once,
+   * locks acquired or released meanwhile may or may not be. Only string keys are
+   * examined and helper keys such as fencing counters are skipped, so semaphores and
+   * read locks are not listed. On a Redis Cluster every master is scanned in turn.
+   *
+   * @param pattern - Glob-style pattern of lock keys, matched after the key prefix
+   * @param options - SCAN page size and the cursor of the previous call
+   * @returns Promise resolving to the locks of this page and the next cursor
+   */
+  scanLocks(pattern: string, options?: ScanLocksOptions): Promise<ScanLocksResult>;
+
+  /**
+   * Set key with value if not exists and issue a fencing token for it (atomic operation)
+   * Tokens come from a per-key counter that never expires, so they increase monotonically
+   *
+   * @param key - Redis key
+   * @param value - Value to set
+   * @param ttl - Time to live in milliseconds
+   * @returns Promise resolving to the fencing token on success, null if key exists
+   */
+  setNXWithFencingToken(key: string, value: string, ttl: number): Promise<number | null>;
+
+  /**
+   * Atomically acquire multiple locks and issue a fencing token for each of them
+   * Same all-or-nothing semantics as batchSetNX, tokens are returned in key order
+   *
+   * @param keys - Array of Redis keys to lock
+   * @param values - Array of values (one per key, same length as keys)
+   * @param ttl - Time to live in milliseconds for all locks
+   * @returns Promise resolving to batch acquisition result with fencingTokens on success
+   */
+  batchSetNXWithFencingTokens(
+    keys: string[],
+    values: string[],
+    ttl: number
+  ): Promise<BatchAcquireResult>;
+
+  /**
+   * Attempt to acquire a fair lock, joining its waiter queue on the first call
+   * The lock is granted strictly in queue order; each call also refreshes the ticket,
+   * so waiters that stop polling expire from the queue after ticketTTL
+   *
+   * @param key - Redis key
+   * @param ticket - Waiter ticket, used as the lock value once granted
+   * @param ttl - Lock time to live in milliseconds
+   * @param ticketTTL - Time in milliseconds after which an unrefreshed ticket is dropped
+   * @param fencing - Issue a fencing token when the lock is granted
+   * @returns Promise resolving to the acquisition result with queue position
+   */
+  fairAcquire(
+    key: string,
+    ticket: string,
+    ttl: number,
+    ticketTTL: number,
+    fencing: boolean
+  ): Promise<FairAcquireResult>;
+
+  /**
+   * Leave the waiter queue of a fair lock
+   * @param key - Redis key
+   * @param ticket - Waiter ticket
+   * @returns Promise resolving to true if the ticket was queued
+   */
+  cancelFairWait(key: string, ticket: string): Promise<boolean>;
+
+  /**
+   * List live waiter tickets of a fair lock in queue order
+   * @param key - Redis key
+   * @returns Promise resolving to tickets, head of the queue first
+   */
+  getFairQueue(key: string): Promise<string[]>;
+
+  /**
+   * Acquire a reentrant lock or add a hold if this owner already holds it (atomic operation)
+   * @param key - Redis key
+   * @param ownerId - Owner identity stored as the lock value
+   * @param ttl - Time to live in milliseconds
+   * @returns Promise resolving to the new hold count, 0 if held by another owner
+   */
+  reentrantAcquire(key: string, ownerId: string, ttl: number): Promise<number>;
+
+  /**
+   * Drop one hold of a reentrant lock, deleting the key when the count reaches zero
+   * @param key - Redis key
+   * @param ownerId - Owner identity used on acquisition
+   * @returns Promise resolving to the remaining hold count, -1 if not held by this owner
+   */
+  reentrantRelease(key: string, ownerId: string): Promise<number>;
+
+  /**
+   * Extend a reentrant lock together with its hold count
+   * @param key - Redis key
+   * @param ownerId - Owner identity used on acquisition
+   * @param ttl - New TTL in milliseconds
+   * @returns Promise resolving to true if extended, false if not held by this owner
+   */
+  reentrantExtend(key: string, ownerId: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Atomically acquire a shared read lock
+   * Readers are stored as leases with their own expiry next to the write lock key
+   *
+   * @param key - Read-write lock key
+   * @param token - Unique reader token
+   * @param ttl - Lease time to live in milliseconds
+   * @param writerPreference - When true, fail if a writer is waiting
+   * @returns Promise resolving to true if the read lock was acquired
+   */
+  acquireReadLock(
+    key: string,
+    token: string,
+    ttl: number,
+    writerPreference: boolean
+  ): Promise<boolean>;
+
+  /**
+   * Atomically acquire the exclusive write lock
+   * Succeeds only when there is no writer and no live reader
+   *
+   * @param key - Read-write lock key
+   * @param token - Unique writer token
+   * @param ttl - Time to live in milliseconds
+   * @param intentTTL - TTL of the writer intent recorded on failure (0 disables writer preference)
+   * @returns Promise resolving to true if the write lock was acquired
+   */
+  acquireWriteLock(key: string, token: string, ttl: number, intentTTL: number): Promise<boolean>;
+
+  /**
+   * Release a read lease
+   * @param key - Read-write lock key
+   * @param token - Reader token used on acquisition
+   * @returns Promise resolving to true if the lease was removed
+   */
+  releaseReadLock(key: string, token: string): Promise<boolean>;
+
+  /**
+   * Release the write lock and any writer intent owned by the same token
+   * @param key - Read-write lock key
+   * @param token - Writer token used on acquisition
+   * @returns Promise resolving to true if the write lock was released
+   */
+  releaseWriteLock(key: string, token: string): Promise<boolean>;
+
+  /**
+   * Extend a live read lease
+   * @param key - Read-write lock key
+   * @param token - Reader token used on acquisition
+   * @param ttl - New lease TTL in milliseconds
+   * @returns Promise resolving to true if extended, false if the lease expired
+   */
+  extendReadLock(key: string, token: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Count readers with a live read lease
+   * @param key - Read-write lock key
+   * @returns Promise resolving to the number of read locks held
+   */
+  countReaders(key: string): Promise<number>;
+
+  /**
+   * Atomically take a semaphore permit
+   * Each holder gets its own lease and expiry, so a crashed holder only frees its own permit
+   *
+   * @param key - Semaphore key
+   * @param token - Unique holder token
+   * @param limit - Maximum number of concurrent holders
+   * @param ttl - Lease time to live in milliseconds
+   * @returns Promise resolving to true if a permit was taken
+   */
+  acquireSemaphore(key: string, token: string, limit: number, ttl: number): Promise<boolean>;
+
+  /**
+   * Return a semaphore permit
+   * @param key - Semaphore key
+   * @param token - Holder token used on acquisition
+   * @returns Promise resolving to true if the lease was removed
+   */
+  releaseSemaphore(key: string, token: string): Promise<boolean>;
+
+  /**
+   * Extend a live semaphore lease
+   * @param key - Semaphore key
+   * @param token - Holder token used on acquisition
+   * @param ttl - New lease TTL in milliseconds
+   * @returns Promise resolving to true if extended, false if the lease expired
+   */
+  extendSemaphore(key: string, token: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Count holders with a live semaphore lease
+   * @param key - Semaphore key
+   * @returns Promise resolving to the number of permits in use
+   */
+  countSemaphoreHolders(key: string): Promise<number>;
+
+  /**
+   * Atomically lock hierarchical key paths ('tenant:42:order:7')
+   * Each key is locked exclusively and leaves an intention lease on every ancestor, so
+   * a key conflicts with holders of its ancestors and of its descendants.
+   * Same all-or-nothing semantics as batchSetNX, a single path is a batch of one.
+   *
+   * @param keys - Key paths, segments separated by ':' (must not overlap each other)
+   * @param values - Lock values (one per key)
+   * @param ttl - Time to live in milliseconds of the locks and their intention leases
+   * @returns Promise resolving to batch acquisition result
+   */
+  hierarchicalAcquire(keys: string[], values: string[], ttl: number): Promise<BatchAcquireResult>;
+
+  /**
+   * Release a hierarchical lock and its intention leases
+   * @param key - Key path
+   * @param value - Lock value used on acquisition
+   * @returns Promise resolving to true if the lock was released
+   */
+  hierarchicalRelease(key: string, value: string): Promise<boolean>;
+
+  /**
+   * Extend a hierarchical lock together with its intention leases
+   * @param key - Key path
+   * @param value - Lock value used on acquisition
+   * @param ttl - New TTL in milliseconds
+   * @returns Promise resolving to true if extended, false if the lock is no longer owned
+   */
+  hierarchicalExtend(key: string, value: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Set key if not exists, together with a heartbeat record of the holder
+   * The record lives as long as the lock and declares after how long without a
+   * heartbeat the holder counts as stale and may be taken over.
+   *
+   * @param key - Lock key
+   * @param value - Lock value
+   * @param ttl - Time to live in milliseconds
+   * @param staleAfter - Milliseconds without a heartbeat after which the holder is stale
+   * @returns Promise resolving to true if the lock was acquired
+   */
+  heartbeatAcquire(key: string, value: string, ttl: number, staleAfter: number): Promise<boolean>;
+
+  /**
+   * Acquire a lock like heartbeatAcquire, taking it over when its holder is stale
+   * Holders without a heartbeat record are never taken over. Takeovers are appended
+   * to the key's audit trail, see getTakeovers().
+   *
+   * @param key - Lock key
+   * @param value - Lock value of the new holder
+   * @param ttl - Time to live in milliseconds
+   * @param staleAfter - Staleness threshold declared by the new holder
+   * @returns Promise resolving to the takeover result
+   */
+  takeoverStale(
+    key: string,
+    value: string,
+    ttl: number,
+    staleAfter: number
+  ): Promise<TakeoverResult>;
+
+  /**
+   * Record a liveness heartbeat of the current holder
+   * @param key - Lock key
+   * @param value - Lock value used on acquisition
+   * @returns Promise resolving to true if recorded, false if the lock is no longer owned
+   */
+  heartbeat(key: string, value: string): Promise<boolean>;
+
+  /**
+   * Extend a lock together with its heartbeat record
+   * The last heartbeat is kept, extending does not count as a heartbeat.
+   * @param key - Lock key
+   * @param value - Lock value used on acquisition
+   * @param ttl - New TTL in milliseconds
+   * @returns Promise resolving to true if extended, false if the lock is no longer owned
+   */
+  heartbeatExtend(key: string, value: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Release a lock and its heartbeat record
+   * @param key - Lock key
+   * @param value - Lock value used on acquisition
+   * @returns Promise resolving to true if the lock was released
+   */
+  heartbeatRelease(key: string, value: string): Promise<boolean>;
+
+  /**
+   * Read the takeover audit trail of a lock key
+   * @param key - Lock key
+   * @returns Promise resolving to the latest takeovers, newest first
+   */
+  getTakeovers(key: string): Promise<LockTakeover[]>;
+
+  /**
+   * Store the completion marker of a run-once key, unless it already has one
+   * The marker is only written while the lock is still held with the given value.
+   * @param key - Lock key
+   * @param value - Lock value of the holder that ran the routine
+   * @param result - Result payload
+   * @param retention - How long the marker is kept in milliseconds
+   * @returns Promise resolving to true if stored, false if the key was already completed
+   *   or the lock is no longer held with the value
+   */
+  markCompleted(key: string, value: string, result: string, retention: number): Promise<boolean>;
+
+  /**
+   * Read the completion marker of a run-once key
+   * @param key - Lock key
+   * @returns Promise resolving to the marker, or null if the key was not completed
+   */
+  getCompletion(key: string): Promise<CompletionMarker | null>;
+
+  /**
+   * Record in a wait-for graph that a participant waits for a lock key
+   * Follows holder and wait edges from the key; the edge is not recorded when the
+   * walk leads back to the participant, since waiting would then never end.
+   *
+   * @param graph - Key of the wait-for graph (holder and waiter hashes are derived from it)
+   * @param participant - Waiting participant
+   * @param key - Lock key waited for
+   * @param ttl - Lifetime of the edge in milliseconds, renew it by calling again
+   * @param reentrant - Waiting for a key the participant holds itself is not a cycle
+   * @returns Promise resolving to the cycle the edge would close, or null once recorded
+   */
+  waitForEnqueue(
+    graph: string,
+    participant: string,
+    key: string,
+    ttl: number,
+    reentrant: boolean
+  ): Promise<WaitForEdge[] | null>;
+
+  /**
+   * Record in a wait-for graph that a participant holds a lock key
+   * Replaces the participant's wait edge on that key.
+   *
+   * @param graph - Key of the wait-for graph
+   * @param participant - Holding participant
+   * @param key - Lock key held
+   * @param ttl - Lifetime of the edge in milliseconds (the lock TTL)
+   */
+  waitForHold(graph: string, participant: string, key: string, ttl: number): Promise<void>;
+
+  /**
+   * Remove the hold and wait edges of a participant on a lock key
+   * @param graph - Key of the wait-for graph
+   * @param participant - Participant that released or gave up on the key
+   * @param key - Lock key
+   */
+  waitForRemove(graph: string, participant: string, key: string): Promise<void>;
+
+  /**
+   * Subscribe to release notifications of a lock key
+   * delIfMatch() and the final reentrantRelease() publish on a per-key channel,
+   * so waiters can retry right away instead of sleeping for the full retry delay.
+   * Expiry is not published, waiters must keep polling as a fallback.
+   *
+   * @param key - Redis key
+   * @param listener - Called each time the lock is released
+   * @returns Promise resolving to an unsubscribe function, or null if the client cannot subscribe
+   */
+  subscribeToRelease(key: string, listener: () => void): Promise<ReleaseUnsubscribe | null>;
+
   /**
    * Ping Redis server
    * @returns Promise resolving to 'PONG'
@@ -2,6 +2,8 @@
  * Error types for the library
  */
 
+import type { WaitForEdge } from './adapters.js';
+
 /**
  * Base class for all redlock-universal errors
  */
@@ -22,7 +24,8 @@ export abstract class RedlockError extends Error {
  * Thrown when unable to acquire a lock
  */
 export class LockAcquisitionError extends RedlockError {
-  readonly code = 'LOCK_ACQUISITION_FAILED';
+  readonly code: 'LOCK_ACQUISITION_FAILED' | 'LOCK_ACQUISITION_TIMEOUT' | 'DEADLOCK_DETECTED' =
+    'LOCK_ACQUISITION_FAILED';
 
   constructor(
     public readonly key: string,
@@ -38,6 +41,64 @@ export class LockAcquisitionError extends RedlockError {
   }
 }
 
+/**
+ * Thrown when acquireTimeout elapses before a lock could be acquired
+ */
+export class LockAcquisitionTimeoutError extends LockAcquisitionError {
+  override readonly code = 'LOCK_ACQUISITION_TIMEOUT';
+
+  constructor(
+    key: string,
+    attempts: number,
+    public readonly timeout: number,
+    cause?: Error
+  ) {
+    super(key, attempts, cause);
+    this.message = `Timed out acquiring lock "${key}" after ${timeout}ms (${attempts} attempts)${
+      cause ? `: ${cause.message}` : ''
+    }`;
+  }
+}
+
+/**
+ * Thrown when waiting for a lock would close a cycle in the wait-for graph
+ * The participant whose wait closes the cycle is the victim and fails fast.
+ */
+export class DeadlockError extends LockAcquisitionError {
+  override readonly code = 'DEADLOCK_DETECTED';
+
+  constructor(
+    key: string,
+    attempts: number,
+    /** Wait edges of the cycle, starting with the victim's */
+    public readonly cycle: readonly WaitForEdge[]
+  ) {
+    super(key, attempts);
+    const edges = cycle.map(
+      ({ participant, key: awaited }, index) =>
+        `${participant} waits for "${awaited}" held by ${cycle[(index + 1) % cycle.length]!.participant}`
+    );
+    this.message = `Deadlock detected acquiring lock "${key}": ${edges.join(', ')}`;
+  }
+}
+
+/**
+ * Thrown when a participant acquires locks against the declared lock order
+ */
+export class LockOrderViolationError extends RedlockError {
+  readonly code = 'LOCK_ORDER_VIOLATION';
+
+  constructor(
+    public readonly key: string,
+    public readonly heldKey: string,
+    public readonly participant: string
+  ) {
+    super(
+      `Lock order violation: "${participant}" holds "${heldKey}", which must be acquired after "${key}"`
+    );
+  }
+}
+
 /**
  * Thrown when lock release fails
  */
@@ -68,6 +129,26 @@ export class LockExtensionError extends RedlockError {
   }
 }
 
+/**
+ * Thrown when runOnce() cannot tell whether the routine completed exactly once
+ * - 'lock_lost': the lock was lost while the routine ran, its completion was not recorded
+ * - 'invalid_marker': the stored completion marker is not valid JSON
+ */
+export class RunOnceError extends RedlockError {
+  readonly code = 'RUN_ONCE_FAILED';
+
+  constructor(
+    public readonly key: string,
+    public readonly reason: 'lock_lost' | 'invalid_marker',
+    cause?: Error
+  ) {
+    super(
+      `Failed to run once under lock "${key}": ${reason}${cause ? `: ${cause.message}` : ''}`,
+      cause
+    );
+  }
+}
+
 /**
  * Thrown when Redis adapter configuration is invalid
  */
@@ -4,7 +4,34 @@
 
 // Core types
 export type { RedisAdapter, RedisAdapterOptions, AdapterFactory } from './adapters.js';
-export type { Lock, LockHandle, LockMetadata, SimpleLockConfig, RedLockConfig } from './locks.js';
+export type {
+  Lock,
+  LockHandle,
+  LockMetadata,
+  SimpleLockConfig,
+  RedLockConfig,
+  ReadWriteLockConfig,
+  SemaphoreConfig,
+  HierarchicalLockConfig,
+  AcquireOptions,
+  FairQueueInspection,
+  FairQueueWaiter,
+  WaitMode,
+  TryAcquireResult,
+  TryAcquireSuccess,
+  TryAcquireFailure,
+  TryAcquireHeld,
+  TryAcquireCircuitOpen,
+  TryAcquireQuorumNotReached,
+  TryAcquireAdapterError,
+  SerializedLockHandle,
+  HandleStrategyTag,
+  UsingOptions,
+  RunOnceOptions,
+  RunOnceResult,
+  RunOnceExecuted,
+  RunOnceAlreadyCompleted,
+} from './locks.js';
 export type {
   LockConfig,
   SimpleLockFactoryConfig,
@@ -17,8 +44,12 @@ export { isRedLockConfig, isSimpleLockConfig } from './config.js';
 export {
   RedlockError,
   LockAcquisitionError,
+  LockAcquisitionTimeoutError,
+  DeadlockError,
+  LockOrderViolationError,
   LockReleaseError,
   LockExtensionError,
+  RunOnceError,
   AdapterError,
   ConfigurationError,
 } from './errors.js';
@@ -29,5 +60,6 @@ export type {
   HealthStatus,
   AdapterHealth,
   LockEvent,
+  LockEventType,
   MonitoringConfig,
 } from './monitoring.js';
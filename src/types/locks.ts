@@ -2,9 +2,12 @@
  * Lock-related types and interfaces
  */
 
-import type { RedisAdapter } from './adapters.js';
+import type { RedisAdapter, LockInspection, LockOwner, LockTakeover } from './adapters.js';
 import type { ILogger } from '../monitoring/Logger.js';
+import type { Tracer } from '../monitoring/tracing.js';
+import type { LockEventEmitter } from '../monitoring/LockEventEmitter.js';
 import type { ExtendedAbortSignal } from '../utils/auto-extension.js';
+import type { RetryStrategy } from '../utils/retry.js';
 
 /**
  * Lock handle returned when a lock is successfully acquired
@@ -26,10 +29,83 @@ export interface LockHandle {
   /** Lock TTL in milliseconds */
   readonly ttl: number;
 
+  /**
+   * Monotonically increasing fencing token for this key (only when fencing is enabled)
+   * Pass it to downstream storage so writes from a holder whose lock expired can be rejected
+   */
+  readonly fencingToken?: number;
+
   /** Extended metadata for debugging */
   readonly metadata?: LockMetadata;
 }
 
+/**
+ * Strategy a serialized handle was acquired with
+ * RedLock handles carry the IDs of the nodes that granted the lock ('node-<index>')
+ */
+export type HandleStrategyTag =
+  | { readonly type: 'simple'; readonly staleAfter?: number }
+  | { readonly type: 'redlock'; readonly nodes: string[] }
+  | { readonly type: 'read-write'; readonly mode: 'read' | 'write' }
+  | { readonly type: 'semaphore'; readonly limit: number }
+  | { readonly type: 'hierarchical' };
+
+/**
+ * JSON-safe form of a LockHandle, produced by serializeHandle()
+ */
+export interface SerializedLockHandle {
+  /** Format version */
+  readonly version: 1;
+  readonly id: string;
+  readonly key: string;
+  readonly value: string;
+  readonly acquiredAt: number;
+  readonly ttl: number;
+  readonly fencingToken?: number;
+  readonly holdCount?: number;
+  readonly strategy: HandleStrategyTag;
+}
+
+/**
+ * Options for runOnce()
+ */
+export interface RunOnceOptions {
+  /** How long the completion marker is kept after a successful run, in milliseconds */
+  readonly retention: number;
+}
+
+/**
+ * The routine ran in this call
+ */
+export interface RunOnceExecuted<T> {
+  readonly alreadyCompleted: false;
+  readonly result: T;
+}
+
+/**
+ * The routine completed earlier within the retention window and was not run again
+ */
+export interface RunOnceAlreadyCompleted<T> {
+  readonly alreadyCompleted: true;
+  /** Result stored by the completed run (JSON round-tripped) */
+  readonly result: T;
+  /** Server time of the completion in milliseconds since epoch */
+  readonly completedAt: number;
+}
+
+/**
+ * Result of runOnce()
+ */
+export type RunOnceResult<T> = RunOnceExecuted<T> | RunOnceAlreadyCompleted<T>;
+
+/**
+ * Options for using()
+ */
+export interface UsingOptions {
+  /** Run under this already held handle (e.g. from resume()) instead of acquiring */
+  readonly handle?: LockHandle;
+}
+
 /**
  * Additional metadata for lock debugging and monitoring
  */
@@ -43,8 +119,26 @@ export interface LockMetadata {
   /** Which Redis instances participated (for distributed locks) */
   readonly nodes?: string[];
 
+  /** Index of the LockManager node holding the lock (for single-node batches, semaphores and hierarchical locks of a LockManager) */
+  readonly nodeIndex?: number;
+
   /** Acquisition strategy used */
-  readonly strategy: 'simple' | 'redlock';
+  readonly strategy: 'simple' | 'redlock' | 'read-write' | 'semaphore' | 'hierarchical';
+
+  /** Access mode for read-write locks */
+  readonly mode?: 'read' | 'write';
+
+  /** Maximum number of concurrent holders (for semaphores) */
+  readonly limit?: number;
+
+  /** Hold count after this acquisition (for reentrant locks) */
+  readonly holdCount?: number;
+
+  /** Heartbeat staleness threshold in milliseconds (for locks with takeover enabled) */
+  readonly staleAfter?: number;
+
+  /** Stale holder that was replaced (for handles returned by takeover()) */
+  readonly takeover?: LockTakeover;
 }
 
 /**
@@ -59,6 +153,90 @@ export interface CircuitBreakerConfig {
   readonly healthCheckInterval?: number;
 }
 
+/**
+ * How a waiting acquire() decides when to retry
+ * - 'polling': sleep for retryDelay between attempts
+ * - 'pubsub': retry as soon as the holder releases, with retryDelay as the fallback interval
+ */
+export type WaitMode = 'polling' | 'pubsub';
+
+/**
+ * Per-call options of acquire()
+ */
+export interface AcquireOptions {
+  /** Cancels a pending acquisition, acquire() rejects with the signal's reason */
+  readonly signal?: AbortSignal;
+  /**
+   * Wall-clock limit in milliseconds across all attempts and retry delays
+   * Rejects with LockAcquisitionTimeoutError when exceeded
+   */
+  readonly acquireTimeout?: number;
+  /** TTL of this acquisition in milliseconds (default: the lock's ttl) */
+  readonly ttl?: number;
+}
+
+/**
+ * Lock obtained by tryAcquire()
+ */
+export interface TryAcquireSuccess {
+  readonly acquired: true;
+  readonly handle: LockHandle;
+}
+
+/**
+ * Lock is held by another owner
+ */
+export interface TryAcquireHeld {
+  readonly acquired: false;
+  readonly reason: 'held';
+  readonly key: string;
+  /** Current owner and remaining TTL, null if the lock expired before it could be inspected */
+  readonly holder: LockInspection | null;
+}
+
+/**
+ * Circuit breaker rejected the attempt without contacting Redis
+ */
+export interface TryAcquireCircuitOpen {
+  readonly acquired: false;
+  readonly reason: 'circuit-open';
+  readonly key: string;
+}
+
+/**
+ * RedLock got the lock on too few nodes (or too late to be safe), partial locks were released
+ */
+export interface TryAcquireQuorumNotReached {
+  readonly acquired: false;
+  readonly reason: 'quorum-not-reached';
+  readonly key: string;
+  /** Nodes that granted the lock */
+  readonly successCount: number;
+  /** Nodes required */
+  readonly quorum: number;
+}
+
+/**
+ * Redis failed to answer
+ */
+export interface TryAcquireAdapterError {
+  readonly acquired: false;
+  readonly reason: 'adapter-error';
+  readonly key: string;
+  readonly error: Error;
+}
+
+/**
+ * Failed tryAcquire(), discriminated by `reason`
+ */
+export type TryAcquireFailure =
+  TryAcquireHeld | TryAcquireCircuitOpen | TryAcquireQuorumNotReached | TryAcquireAdapterError;
+
+/**
+ * Result of a single non-throwing acquisition attempt (discriminated union)
+ */
+export type TryAcquireResult = TryAcquireSuccess | TryAcquireFailure;
+
 /**
  * Configuration for simple (single-instance) locks
  */
@@ -81,8 +259,72 @@ export interface SimpleLockConfig {
   /** Optional logger for structured logging (default: none) */
   readonly logger?: ILogger;
 
+  /** Correlation ID added to log context and handle metadata (default: none) */
+  readonly correlationId?: string;
+
   /** Circuit breaker configuration (default: enabled with default thresholds) */
   readonly circuitBreaker?: boolean | CircuitBreakerConfig;
+
+  /** Issue a fencing token on every acquisition (default: false) */
+  readonly fencing?: boolean;
+
+  /** Let the same owner acquire the lock again, counting holds (default: false) */
+  readonly reentrant?: boolean;
+
+  /** Owner identity for reentrant locks (default: unique per lock instance) */
+  readonly ownerId?: string;
+
+  /** Owner metadata stored in the lock value, returned by inspect() (default: none) */
+  readonly owner?: LockOwner;
+
+  /** Grant the lock to waiters strictly in arrival order (default: false) */
+  readonly fair?: boolean;
+
+  /** How to wait between attempts (default: 'polling') */
+  readonly waitMode?: WaitMode;
+
+  /** Delay policy between attempts (default: constant retryDelay) */
+  readonly retryStrategy?: RetryStrategy;
+
+  /**
+   * Keep a liveness heartbeat next to the lock and let takeover() steal it once no
+   * heartbeat was recorded for this many milliseconds (default: takeover disabled)
+   */
+  readonly staleAfter?: number;
+
+  /**
+   * Queue same-process contenders for this key in memory behind one Redis acquisition,
+   * so only one of them talks to Redis at a time (default: false)
+   */
+  readonly localQueue?: boolean;
+
+  /** OpenTelemetry tracer for acquire, extend, release and using() spans (default: none) */
+  readonly tracer?: Tracer;
+
+  /** Emitter of the lock's events, e.g. one shared across locks (default: a new emitter) */
+  readonly events?: LockEventEmitter;
+}
+
+/**
+ * Waiter in the queue of a fair lock
+ */
+export interface FairQueueWaiter {
+  /** Waiter ticket (becomes the lock value once granted) */
+  readonly ticket: string;
+  /** Number of waiters ahead (0 = next in line) */
+  readonly position: number;
+  /** Estimated wait in milliseconds, assuming every holder keeps the lock for its full TTL */
+  readonly estimatedWait: number;
+}
+
+/**
+ * Snapshot of a fair lock and its waiter queue
+ */
+export interface FairQueueInspection {
+  /** Current holder, null if the lock is free */
+  readonly holder: LockInspection | null;
+  /** Live waiters, head of the queue first */
+  readonly waiters: FairQueueWaiter[];
 }
 
 /**
@@ -110,6 +352,114 @@ export interface RedLockConfig {
   /** Clock drift factor (default: 0.01) */
   readonly clockDriftFactor?: number;
 
+  /** Issue a fencing token on every acquisition, the max across the quorum (default: false) */
+  readonly fencing?: boolean;
+
+  /** Let the same owner acquire the lock again, counting holds on every node (default: false) */
+  readonly reentrant?: boolean;
+
+  /** Owner identity for reentrant locks (default: unique per lock instance) */
+  readonly ownerId?: string;
+
+  /** Owner metadata stored in the lock value, returned by inspect() (default: none) */
+  readonly owner?: LockOwner;
+
+  /** Optional logger for structured logging (default: none) */
+  readonly logger?: ILogger;
+
+  /** How to wait between attempts, pubsub subscribes on every node (default: 'polling') */
+  readonly waitMode?: WaitMode;
+
+  /** Delay policy between attempts (default: constant retryDelay) */
+  readonly retryStrategy?: RetryStrategy;
+
+  /** OpenTelemetry tracer, adds a span per node to each attempt (default: none) */
+  readonly tracer?: Tracer;
+
+  /** Emitter of the lock's events, e.g. one shared across locks (default: a new emitter) */
+  readonly events?: LockEventEmitter;
+}
+
+/**
+ * Configuration for read-write locks (shared readers, exclusive writer)
+ */
+export interface ReadWriteLockConfig {
+  /** Redis adapter instance */
+  readonly adapter: RedisAdapter;
+
+  /** Lock key */
+  readonly key: string;
+
+  /** Time-to-live in milliseconds (default: 30000) */
+  readonly ttl?: number;
+
+  /** Maximum retry attempts (default: 3) */
+  readonly retryAttempts?: number;
+
+  /** Delay between retries in milliseconds (default: 100) */
+  readonly retryDelay?: number;
+
+  /** Block new readers while a writer is waiting, preventing writer starvation (default: true) */
+  readonly writerPreference?: boolean;
+
+  /** Optional logger for structured logging (default: none) */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Configuration for counting semaphores (up to N concurrent holders)
+ */
+export interface SemaphoreConfig {
+  /** Redis adapter instance */
+  readonly adapter: RedisAdapter;
+
+  /** Semaphore key */
+  readonly key: string;
+
+  /** Maximum number of concurrent holders */
+  readonly limit: number;
+
+  /** Lease time-to-live in milliseconds (default: 30000) */
+  readonly ttl?: number;
+
+  /** Maximum retry attempts (default: 3) */
+  readonly retryAttempts?: number;
+
+  /** Delay between retries in milliseconds (default: 100) */
+  readonly retryDelay?: number;
+
+  /** Index of the adapter among the LockManager nodes, recorded on handles (default: none) */
+  readonly nodeIndex?: number;
+
+  /** Optional logger for structured logging (default: none) */
+  readonly logger?: ILogger;
+}
+
+/**
+ * Configuration for hierarchical locks on key paths ('tenant:42:order:7')
+ */
+export interface HierarchicalLockConfig {
+  /** Redis adapter instance */
+  readonly adapter: RedisAdapter;
+
+  /** Key path, segments separated by ':' */
+  readonly key: string;
+
+  /** Time-to-live in milliseconds (default: 30000) */
+  readonly ttl?: number;
+
+  /** Maximum retry attempts (default: 3) */
+  readonly retryAttempts?: number;
+
+  /** Delay between retries in milliseconds (default: 100) */
+  readonly retryDelay?: number;
+
+  /** Owner metadata stored in the lock value, returned by inspect() (default: none) */
+  readonly owner?: LockOwner;
+
+  /** Index of the adapter among the LockManager nodes, recorded on handles (default: none) */
+  readonly nodeIndex?: number;
+
   /** Optional logger for structured logging (default: none) */
   readonly logger?: ILogger;
 }
@@ -120,10 +470,12 @@ export interface RedLockConfig {
 export interface Lock {
   /**
    * Attempt to acquire the lock
+   * @param options - Optional abort signal, acquisition timeout and TTL override
    * @returns Promise resolving to lock handle on success
    * @throws LockAcquisitionError on failure
+   * @throws LockAcquisitionTimeoutError when acquireTimeout elapses
    */
-  acquire(): Promise<LockHandle>;
+  acquire(options?: AcquireOptions): Promise<LockHandle>;
 
   /**
    * Release a previously acquired lock
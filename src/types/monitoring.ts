@@ -2,6 +2,8 @@
  * Monitoring and metrics types
  */
 
+import type { LockHandle } from './locks.js';
+
 /**
  * Lock operation metrics
  */
@@ -74,13 +76,32 @@ export interface AdapterHealth {
   readonly lastError?: string;
 }
 
+/**
+ * Type of a lock event
+ * - 'acquisition_started', 'acquisition_success', 'acquisition_failed': acquire(),
+ *   takeover() and tryAcquire()
+ * - 'extended', 'extension_failed': extend() and the automatic extensions of using()
+ * - 'lost': an automatic extension failed, the routine's signal was aborted
+ * - 'released': release()
+ * - 'circuit_opened', 'circuit_closed': circuit breaker transitions of a simple lock
+ */
+export type LockEventType =
+  | 'acquisition_started'
+  | 'acquisition_success'
+  | 'acquisition_failed'
+  | 'extended'
+  | 'extension_failed'
+  | 'lost'
+  | 'released'
+  | 'circuit_opened'
+  | 'circuit_closed';
+
 /**
  * Event emitted during lock operations
  */
-export interface LockEvent {
+export interface LockEvent<T extends LockEventType = LockEventType> {
   /** Event type */
-  readonly type:
-    'acquisition_started' | 'acquisition_success' | 'acquisition_failed' | 'released' | 'extended';
+  readonly type: T;
 
   /** Lock key */
   readonly key: string;
@@ -88,13 +109,21 @@ export interface LockEvent {
   /** Event timestamp */
   readonly timestamp: number;
 
-  /** Time taken for the operation (ms) */
+  /**
+   * Time taken for the operation (ms), the hold time for 'released' and 'lost'
+   */
   readonly duration?: number;
 
-  /** Error information (for failed operations) */
+  /** Error message (for failed operations, lost locks and opened circuits) */
   readonly error?: string;
 
-  /** Additional metadata */
+  /** Error that caused a failure, when there is one */
+  readonly cause?: Error;
+
+  /** Handle the event concerns (successful acquisitions, extensions, losses and releases) */
+  readonly handle?: LockHandle;
+
+  /** Additional metadata, e.g. strategy, attempts or circuit breaker failures */
   readonly metadata?: Record<string, unknown>;
 }
 
@@ -0,0 +1,183 @@
+/**
+ * Cancellation and wall-clock limits for lock acquisition
+ * Combines the caller's AbortSignal and acquireTimeout into one signal per acquire() call
+ */
+
+import type { AcquireOptions } from '../types/locks.js';
+import { LockAcquisitionTimeoutError } from '../types/errors.js';
+
+/**
+ * Validate per-call acquire() options, throwing on invalid values
+ */
+export function validateAcquireOptions(options: AcquireOptions): void {
+  if (options.ttl !== undefined && (options.ttl <= 0 || !Number.isInteger(options.ttl))) {
+    throw new Error('TTL must be a positive integer');
+  }
+
+  if (
+    options.acquireTimeout !== undefined &&
+    (options.acquireTimeout < 0 || !Number.isInteger(options.acquireTimeout))
+  ) {
+    throw new Error('Acquire timeout must be a non-negative integer');
+  }
+}
+
+/**
+ * Abort state of one acquisition
+ *
+ * Without a signal or timeout every method is a pass-through, so plain acquire()
+ * calls pay nothing. Aborting cannot cancel a Redis command that was already sent:
+ * run() stops waiting for it and hands a late result to the caller's cleanup.
+ */
+export class AcquireDeadline {
+  private readonly controller: AbortController | undefined;
+  private readonly timer: ReturnType<typeof setTimeout> | undefined;
+  private readonly detach: (() => void) | undefined;
+  private timedOut = false;
+
+  constructor(
+    private readonly key: string,
+    private readonly options: AcquireOptions = {}
+  ) {
+    const { signal, acquireTimeout } = options;
+    if (!signal && acquireTimeout === undefined) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    if (signal?.aborted) {
+      controller.abort(signal.reason);
+    } else if (signal) {
+      const onAbort = (): void => controller.abort(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.detach = () => signal.removeEventListener('abort', onAbort);
+    }
+
+    if (acquireTimeout !== undefined && !controller.signal.aborted) {
+      this.timer = setTimeout(() => {
+        this.timedOut = true;
+        controller.abort();
+      }, acquireTimeout);
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Signal aborted on cancellation or timeout, undefined when neither was requested
+   */
+  get signal(): AbortSignal | undefined {
+    return this.controller?.signal;
+  }
+
+  get aborted(): boolean {
+    return this.controller?.signal.aborted ?? false;
+  }
+
+  /**
+   * Throw LockAcquisitionTimeoutError on timeout or the signal's reason on cancellation
+   */
+  throwIfAborted(attempts: number, lastError?: Error | null): void {
+    if (!this.aborted) {
+      return;
+    }
+
+    if (this.timedOut) {
+      throw new LockAcquisitionTimeoutError(
+        this.key,
+        attempts,
+        this.options.acquireTimeout ?? 0,
+        lastError ?? undefined
+      );
+    }
+
+    throw this.controller!.signal.reason;
+  }
+
+  /**
+   * Sleep for the given time, waking early when aborted
+   */
+  sleep(ms: number): Promise<void> {
+    const signal = this.signal;
+    if (!signal) {
+      return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    return new Promise(resolve => {
+      if (signal.aborted) {
+        resolve();
+        return;
+      }
+
+      const done = (): void => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  /**
+   * Wait for an in-flight adapter call unless aborted first
+   *
+   * @param operation - Pending adapter call
+   * @param onLateResult - Receives the result when the call succeeds after the abort,
+   *   so partially acquired locks can be released
+   * @returns The operation result, rejects with an AbortError when aborted
+   */
+  run<T>(operation: Promise<T>, onLateResult?: (result: T) => unknown): Promise<T> {
+    const signal = this.signal;
+    if (!signal) {
+      return operation;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+
+      const onAbort = (): void => {
+        settled = true;
+        reject(new DOMException('Lock acquisition aborted', 'AbortError'));
+      };
+
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+
+      operation.then(
+        result => {
+          signal.removeEventListener('abort', onAbort);
+          if (!settled) {
+            settled = true;
+            resolve(result);
+          } else if (onLateResult) {
+            Promise.resolve()
+              .then(() => onLateResult(result))
+              .catch(() => {});
+          }
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          if (!settled) {
+            settled = true;
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Stop the timeout and detach from the caller's signal
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.detach?.();
+  }
+}
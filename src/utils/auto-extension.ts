@@ -5,8 +5,21 @@
 
 import type { Lock, LockHandle } from '../types/locks.js';
 import type { ILogger } from '../monitoring/Logger.js';
+import type { LockEventEmitter } from '../monitoring/LockEventEmitter.js';
 import type { AtomicExtensionResult } from '../types/adapters.js';
+import {
+  recordSpanError,
+  SPAN_ATTRIBUTES,
+  SPAN_NAMES,
+  traced,
+  type Tracer,
+} from '../monitoring/tracing.js';
 import { DEFAULTS } from '../constants.js';
+import {
+  extensionScheduler,
+  type ExtensionScheduler,
+  type ScheduledExtension,
+} from './extension-scheduler.js';
 
 /**
  * Configuration for auto-extension
@@ -26,6 +39,12 @@ export interface AutoExtensionConfig<T> {
   readonly minExtensionInterval?: number;
   /** Optional logger for error reporting */
   readonly logger?: ILogger;
+  /** Use the adapter's atomicExtend when a lock exposes one (default: true) */
+  readonly atomicExtension?: boolean;
+  /** OpenTelemetry tracer, adds a span per extension round (default: none) */
+  readonly tracer?: Tracer;
+  /** Emitter of the atomic extensions and of the locks lost by a failed round (default: none) */
+  readonly events?: LockEventEmitter;
 }
 
 /**
@@ -34,6 +53,12 @@ export interface AutoExtensionConfig<T> {
 export interface ExtendedAbortSignal extends AbortSignal {
   /** Error that caused the abort (if any) */
   readonly error?: Error;
+  /** Fencing token of the held lock (single lock acquired with fencing enabled) */
+  readonly fencingToken?: number;
+  /** Fencing tokens by lock key (locks acquired with fencing enabled) */
+  readonly fencingTokens?: Readonly<Record<string, number>>;
+  /** Record a liveness heartbeat of the held lock (simple lock with staleAfter set) */
+  readonly heartbeat?: () => Promise<boolean>;
 }
 
 /**
@@ -78,6 +103,9 @@ export async function executeWithAutoExtension<T>(config: AutoExtensionConfig<T>
     extensionThresholdRatio = DEFAULTS.AUTO_EXTENSION_THRESHOLD_RATIO,
     minExtensionInterval = DEFAULTS.MIN_EXTENSION_INTERVAL,
     logger,
+    atomicExtension = true,
+    tracer,
+    events,
   } = config;
 
   if (locks.length !== handles.length) {
@@ -90,12 +118,35 @@ export async function executeWithAutoExtension<T>(config: AutoExtensionConfig<T>
 
   let extensionTimer: ReturnType<typeof setTimeout> | null = null;
   let extending: Promise<ExtensionResult> | undefined;
+  let scheduled: ScheduledExtension[] = [];
   let isAborted = false;
+  let isFinished = false;
   let abortError: Error | undefined;
   let lastExtensionTime = Math.max(...handles.map(h => h.acquiredAt));
 
   const threshold = Math.floor(ttl * extensionThresholdRatio);
 
+  // Atomic extensions go through the shared scheduler of each adapter, one batch per adapter
+  const adapters = atomicExtension ? locks.map(lock => lock.getAdapter?.()) : [];
+  const useScheduler = adapters.length > 0 && adapters.every(adapter => adapter?.atomicExtend);
+  const batches = new Map<ExtensionScheduler, number[]>();
+  if (useScheduler) {
+    adapters.forEach((adapter, index) => {
+      const scheduler = extensionScheduler(adapter!);
+      batches.set(scheduler, [...(batches.get(scheduler) ?? []), index]);
+    });
+  }
+
+  // Use appropriate buffer ratio based on lock distribution strategy
+  const bufferRatio =
+    locks.length > 1
+      ? DEFAULTS.DISTRIBUTED_EXTENSION_BUFFER_RATIO
+      : DEFAULTS.SINGLE_NODE_EXTENSION_BUFFER_RATIO;
+  const proportionalSafetyBuffer = Math.min(
+    DEFAULTS.ATOMIC_EXTENSION_SAFETY_BUFFER,
+    Math.floor(ttl * bufferRatio)
+  );
+
   const abortController = new AbortController();
 
   const enhancedSignal = abortController.signal as ExtendedAbortSignal;
@@ -105,6 +156,23 @@ export async function executeWithAutoExtension<T>(config: AutoExtensionConfig<T>
     configurable: false,
   });
 
+  const fencedHandles = handles.filter(handle => handle.fencingToken !== undefined);
+  if (fencedHandles.length > 0) {
+    Object.defineProperty(enhancedSignal, 'fencingTokens', {
+      value: Object.freeze(
+        Object.fromEntries(fencedHandles.map(handle => [handle.key, handle.fencingToken!]))
+      ),
+      enumerable: true,
+    });
+
+    if (handles.length === 1) {
+      Object.defineProperty(enhancedSignal, 'fencingToken', {
+        value: fencedHandles[0]!.fencingToken,
+        enumerable: true,
+      });
+    }
+  }
+
   const scheduleExtension = (): void => {
     if (extensionTimer) {
       clearTimeout(extensionTimer);
@@ -115,38 +183,52 @@ export async function executeWithAutoExtension<T>(config: AutoExtensionConfig<T>
     const timeUntilExtension = timeUntilExpiry - threshold;
 
     const safeExtensionTime = Math.max(timeUntilExtension, minExtensionInterval);
+    const delay = safeExtensionTime <= minExtensionInterval ? 0 : safeExtensionTime;
 
-    if (safeExtensionTime <= minExtensionInterval) {
-      void attemptExtension();
+    // Scheduled extensions wait in the scheduler, which may run them up to half the
+    // threshold early to batch them with other handles of the same adapter
+    if (useScheduler || delay === 0) {
+      void attemptExtension(delay);
     } else {
-      extensionTimer = setTimeout(attemptExtension, safeExtensionTime);
+      extensionTimer = setTimeout(attemptExtension, delay);
     }
   };
 
-  const attemptExtension = async (): Promise<void> => {
+  const attemptExtension = async (delay = 0): Promise<void> => {
     if (isAborted) return;
 
+    const startedAt = Date.now();
+    scheduled = [];
+    const scheduledResults: Array<Promise<AtomicExtensionResult | null>> = [];
+    for (const [scheduler, indices] of batches) {
+      const extension = scheduler.schedule(
+        indices.map(index => handles[index]!.key),
+        indices.map(index => handles[index]!.value),
+        proportionalSafetyBuffer,
+        ttl,
+        delay,
+        Math.floor(threshold / 2)
+      );
+      scheduled.push(extension);
+      indices.forEach((index, position) => {
+        scheduledResults[index] = extension.result.then(results => results?.[position] ?? null);
+      });
+    }
+
     const extensionPromises = locks.map(async (lock, index): Promise<IndividualExtensionResult> => {
       try {
         const handle = handles[index]!;
 
-        const adapter = lock.getAdapter?.();
+        const adapter = atomicExtension ? lock.getAdapter?.() : null;
         if (adapter && adapter.atomicExtend) {
-          // Use appropriate buffer ratio based on lock distribution strategy
-          const isDistributed = locks.length > 1;
-          const bufferRatio = isDistributed
-            ? DEFAULTS.DISTRIBUTED_EXTENSION_BUFFER_RATIO
-            : DEFAULTS.SINGLE_NODE_EXTENSION_BUFFER_RATIO;
-          const proportionalSafetyBuffer = Math.min(
-            DEFAULTS.ATOMIC_EXTENSION_SAFETY_BUFFER,
-            Math.floor(ttl * bufferRatio)
-          );
-          const atomicResult = await adapter.atomicExtend(
-            handle.key,
-            handle.value,
-            proportionalSafetyBuffer,
-            ttl
-          );
+          const atomicResult = useScheduler
+            ? await scheduledResults[index]!
+            : await adapter.atomicExtend(handle.key, handle.value, proportionalSafetyBuffer, ttl);
+
+          // Cancelled because the routine finished first
+          if (!atomicResult) {
+            return { success: true, error: null, atomicResult: null };
+          }
 
           if (logger) {
             const level = atomicResult.resultCode === 1 ? 'info' : 'warn';
@@ -177,52 +259,108 @@ export async function executeWithAutoExtension<T>(config: AutoExtensionConfig<T>
     });
 
     extending = Promise.all(extensionPromises).then(results => {
-      const successes = results.map(r => r.success);
-      const allSuccess = successes.every(Boolean);
-      let failedLocks: string[] | undefined;
-
-      if (allSuccess) {
-        lastExtensionTime = Date.now();
-
-        const atomicResults = results
-          .map(r => r.atomicResult)
-          .filter((result): result is AtomicExtensionResult => result !== null);
-
-        if (atomicResults.length > 0 && logger) {
-          logger.info('All locks extended successfully with atomic protection', {
-            lockCount: results.length,
-            atomicCount: atomicResults.length,
-            avgRemainingTTL: Math.round(
-              atomicResults.reduce((sum, r) => sum + r.actualTTL, 0) / atomicResults.length
-            ),
-          });
-        }
+      if (isFinished) {
+        return { success: true };
+      }
 
-        scheduleExtension();
-      } else {
-        failedLocks = handles
-          .map((handle, i) => (successes[i] ? null : handle.key))
-          .filter(Boolean) as string[];
+      // Scheduled extensions count from when the scheduler sent them, not from when they queued
+      const sentAt = scheduled
+        .map(extension => extension.sentAt)
+        .filter((time): time is number => time !== undefined);
+      const attributes = { [SPAN_ATTRIBUTES.KEYS]: handles.map(handle => handle.key) };
+      const startTime = sentAt.length > 0 ? Math.min(...sentAt) : startedAt;
+
+      const round = traced(
+        tracer,
+        SPAN_NAMES.AUTO_EXTEND,
+        { attributes, startTime },
+        async span => {
+          const successes = results.map(r => r.success);
+          const allSuccess = successes.every(Boolean);
+          let failedLocks: string[] | undefined;
+
+          // Extensions through lock.extend() were emitted by the lock itself
+          results.forEach((result, index) => {
+            if (result.atomicResult) {
+              events?.emit(result.success ? 'extended' : 'extension_failed', handles[index]!.key, {
+                duration: Date.now() - startTime,
+                handle: handles[index]!,
+                ...(result.error && { error: result.error }),
+                metadata: {
+                  ttl,
+                  resultCode: result.atomicResult.resultCode,
+                  actualTTL: result.atomicResult.actualTTL,
+                },
+              });
+            }
+          });
 
-        const atomicFailures = results
-          .filter(r => !r.success && r.atomicResult)
-          .map(r => `${r.atomicResult!.message} (TTL: ${r.atomicResult!.actualTTL}ms)`);
+          if (allSuccess) {
+            lastExtensionTime = Date.now();
+
+            const atomicResults = results
+              .map(r => r.atomicResult)
+              .filter((result): result is AtomicExtensionResult => result !== null);
+
+            if (atomicResults.length > 0 && logger) {
+              logger.info('All locks extended successfully with atomic protection', {
+                lockCount: results.length,
+                atomicCount: atomicResults.length,
+                avgRemainingTTL: Math.round(
+                  atomicResults.reduce((sum, r) => sum + r.actualTTL, 0) / atomicResults.length
+                ),
+              });
+            }
+          } else {
+            failedLocks = handles
+              .map((handle, i) => (successes[i] ? null : handle.key))
+              .filter(Boolean) as string[];
+
+            const atomicFailures = results
+              .filter(r => !r.success && r.atomicResult)
+              .map(r => `${r.atomicResult!.message} (TTL: ${r.atomicResult!.actualTTL}ms)`);
+
+            const errorMessage =
+              atomicFailures.length > 0
+                ? `Failed to extend locks with atomic protection: ${atomicFailures.join('; ')}`
+                : `Failed to extend ${failedLocks.length === 1 ? 'lock' : 'locks'}: ${failedLocks.join(', ')}`;
+
+            abortError = new Error(errorMessage);
+            isAborted = true;
+            abortController.abort();
+
+            results.forEach((result, index) => {
+              if (!result.success) {
+                const handle = handles[index]!;
+                events?.emit('lost', handle.key, {
+                  duration: Date.now() - handle.acquiredAt,
+                  handle,
+                  error: result.error ?? abortError,
+                });
+              }
+            });
+          }
 
-        const errorMessage =
-          atomicFailures.length > 0
-            ? `Failed to extend locks with atomic protection: ${atomicFailures.join('; ')}`
-            : `Failed to extend ${failedLocks.length === 1 ? 'lock' : 'locks'}: ${failedLocks.join(', ')}`;
+          span?.setAttribute(SPAN_ATTRIBUTES.EXTENDED, allSuccess);
+          if (span && abortError) {
+            recordSpanError(span, abortError);
+          }
 
-        abortError = new Error(errorMessage);
-        isAborted = true;
-        abortController.abort();
-      }
+          return {
+            success: allSuccess,
+            failedKeys: failedLocks,
+            error: allSuccess ? undefined : abortError,
+          };
+        }
+      );
 
-      return {
-        success: allSuccess,
-        failedKeys: failedLocks,
-        error: allSuccess ? undefined : abortError,
-      };
+      // Outside the span, so the next round is not traced as its child
+      return round.then(result => {
+        if (result.success && !isFinished) {
+          scheduleExtension();
+        }
+        return result;
+      });
     });
   };
 
@@ -231,11 +369,17 @@ export async function executeWithAutoExtension<T>(config: AutoExtensionConfig<T>
 
     return await routine(enhancedSignal);
   } finally {
+    isFinished = true;
+
     if (extensionTimer) {
       clearTimeout(extensionTimer);
       extensionTimer = null;
     }
 
+    for (const extension of scheduled) {
+      extension.cancel();
+    }
+
     if (extending) {
       await extending.catch(() => {});
     }
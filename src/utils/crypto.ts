@@ -1,4 +1,6 @@
 import { randomFillSync, timingSafeEqual } from 'crypto';
+import { hostname } from 'os';
+import type { LockOwner } from '../types/adapters.js';
 
 /**
  * Buffer pool for crypto operations to reduce allocations
@@ -106,6 +108,79 @@ export function parseLockValue(value: string): {
   return { nodeId, timestamp, random };
 }
 
+/**
+ * Separator between the random token and the owner metadata of a lock value
+ */
+const OWNER_SEPARATOR = '|';
+
+/**
+ * Longest lock value that safeCompare() and handle serialization accept
+ */
+const MAX_OWNER_LOCK_VALUE_LENGTH = 256;
+
+/**
+ * Create a lock value carrying owner metadata
+ * Format: random|{"hostname":...,"pid":...} - the metadata lives and expires with the lock
+ * hostname and pid default to the current process
+ *
+ * @throws Error if the encoded value is longer than 256 characters
+ */
+export function createLockValueWithOwner(owner: LockOwner = {}): string {
+  const metadata: LockOwner = {
+    hostname: owner.hostname ?? hostname(),
+    pid: owner.pid ?? process.pid,
+    ...(owner.service !== undefined && { service: owner.service }),
+    ...(owner.jobId !== undefined && { jobId: owner.jobId }),
+    ...(owner.tags !== undefined && { tags: owner.tags }),
+  };
+  const value = `${generateLockValue()}${OWNER_SEPARATOR}${JSON.stringify(metadata)}`;
+
+  if (value.length > MAX_OWNER_LOCK_VALUE_LENGTH) {
+    throw new Error(
+      `Lock owner metadata is too large: encoded lock value must be at most ${MAX_OWNER_LOCK_VALUE_LENGTH} characters`
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Parse owner metadata if the value was created with createLockValueWithOwner
+ */
+export function parseLockOwner(value: string): LockOwner | null {
+  const separatorIndex = value.indexOf(OWNER_SEPARATOR);
+  if (separatorIndex <= 0) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value.slice(separatorIndex + 1));
+  } catch {
+    return null;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const tags = record['tags'];
+  const validTags =
+    typeof tags === 'object' &&
+    tags !== null &&
+    !Array.isArray(tags) &&
+    Object.values(tags).every(tag => typeof tag === 'string');
+
+  return {
+    ...(typeof record['hostname'] === 'string' && { hostname: record['hostname'] }),
+    ...(typeof record['pid'] === 'number' && { pid: record['pid'] }),
+    ...(typeof record['service'] === 'string' && { service: record['service'] }),
+    ...(typeof record['jobId'] === 'string' && { jobId: record['jobId'] }),
+    ...(validTags && { tags: tags as Record<string, string> }),
+  };
+}
+
 /**
  * Validate that a lock value is properly formatted
  */
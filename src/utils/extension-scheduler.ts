@@ -0,0 +1,184 @@
+/**
+ * Shared extension scheduling for auto-extended locks
+ * One timer per adapter renews every handle held through it, instead of one timer per using() call
+ */
+
+import type { AtomicExtensionResult, RedisAdapter } from '../types/adapters.js';
+
+/**
+ * Extension waiting for its renewal window
+ */
+interface PendingExtension {
+  readonly keys: string[];
+  readonly values: string[];
+  readonly minTTL: number;
+  readonly ttl: number;
+  /** Latest time to extend, i.e. when the extension threshold is reached */
+  readonly dueAt: number;
+  /** Earliest time to extend, when another extension of the adapter runs anyway */
+  readonly earliestAt: number;
+  /** When the extension was sent, set by flush() */
+  sentAt?: number;
+  readonly resolve: (results: AtomicExtensionResult[] | null) => void;
+  readonly reject: (error: unknown) => void;
+}
+
+/**
+ * Handle of one scheduled extension
+ */
+export interface ScheduledExtension {
+  /** Atomic extension results in key order, null when cancelled before it ran */
+  readonly result: Promise<AtomicExtensionResult[] | null>;
+  /** When the extension was sent to Redis, undefined until then */
+  readonly sentAt: number | undefined;
+  /** Drop the extension unless it already runs */
+  cancel(): void;
+}
+
+const schedulers = new WeakMap<RedisAdapter, ExtensionScheduler>();
+
+/**
+ * Shared extension scheduler of an adapter
+ */
+export function extensionScheduler(adapter: RedisAdapter): ExtensionScheduler {
+  let scheduler = schedulers.get(adapter);
+  if (!scheduler) {
+    scheduler = new ExtensionScheduler(adapter);
+    schedulers.set(adapter, scheduler);
+  }
+  return scheduler;
+}
+
+/**
+ * Extension timer shared by all handles of one adapter
+ *
+ * The timer fires when the earliest extension is due. Every extension whose renewal
+ * window has opened by then is sent along in the same tick, so the client pipelines
+ * them and thousands of held locks cost a few round-trips per TTL rather than a
+ * timer and a round-trip each. The keys of one extension, e.g. the locks of one
+ * usingBatch() call, are extended by a single batchAtomicExtend script.
+ */
+export class ExtensionScheduler {
+  private readonly pending = new Set<PendingExtension>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private timerAt = Infinity;
+
+  constructor(private readonly adapter: RedisAdapter) {}
+
+  /**
+   * Number of extensions waiting for their window
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Schedule an atomic extension of held locks
+   *
+   * @param keys - Lock keys
+   * @param values - Lock values of the handles, in key order
+   * @param minTTL - Minimum remaining TTL for the extension to succeed
+   * @param ttl - New TTL in milliseconds
+   * @param delay - Time until the extension is due
+   * @param slack - How much earlier it may run to join a batch
+   */
+  schedule(
+    keys: string[],
+    values: string[],
+    minTTL: number,
+    ttl: number,
+    delay: number,
+    slack: number
+  ): ScheduledExtension {
+    const now = Date.now();
+    let entry!: PendingExtension;
+
+    const result = new Promise<AtomicExtensionResult[] | null>((resolve, reject) => {
+      entry = {
+        keys,
+        values,
+        minTTL,
+        ttl,
+        dueAt: now + delay,
+        earliestAt: now + delay - slack,
+        resolve,
+        reject,
+      };
+    });
+
+    this.pending.add(entry);
+    if (entry.dueAt < this.timerAt) {
+      this.arm(entry.dueAt);
+    }
+
+    return {
+      result,
+      get sentAt() {
+        return entry.sentAt;
+      },
+      cancel: () => {
+        if (this.pending.delete(entry)) {
+          entry.resolve(null);
+          if (this.pending.size === 0) {
+            this.arm(Infinity);
+          }
+        }
+      },
+    };
+  }
+
+  /**
+   * Point the timer at the given time, Infinity stops it
+   */
+  private arm(at: number): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    this.timerAt = at;
+    if (at !== Infinity) {
+      this.timer = setTimeout(() => this.flush(), Math.max(at - Date.now(), 0));
+    }
+  }
+
+  /**
+   * Extend the keys of one scheduled extension in a single script call
+   */
+  private async extend({
+    keys,
+    values,
+    minTTL,
+    ttl,
+  }: PendingExtension): Promise<AtomicExtensionResult[]> {
+    if (keys.length === 1) {
+      return [await this.adapter.atomicExtend(keys[0]!, values[0]!, minTTL, ttl)];
+    }
+    return this.adapter.batchAtomicExtend(keys, values, minTTL, ttl);
+  }
+
+  /**
+   * Send every extension whose window has opened
+   */
+  private flush(): void {
+    this.timer = undefined;
+
+    const now = Date.now();
+    let next = Infinity;
+    for (const entry of this.pending) {
+      if (entry.earliestAt > now) {
+        next = Math.min(next, entry.dueAt);
+        continue;
+      }
+
+      this.pending.delete(entry);
+      entry.sentAt = now;
+      new Promise<AtomicExtensionResult[]>(resolve => resolve(this.extend(entry))).then(
+        entry.resolve,
+        entry.reject
+      );
+    }
+
+    this.arm(next);
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Lock handle serialization
+ * Hands a held lock to another process, which reattaches it with lock.resume()
+ */
+
+import type {
+  HandleStrategyTag,
+  LockHandle,
+  LockMetadata,
+  SerializedLockHandle,
+} from '../types/locks.js';
+
+const SERIALIZED_HANDLE_VERSION = 1;
+const MAX_LOCK_VALUE_LENGTH = 256;
+const NODE_ID_PATTERN = /^node-\d+$/;
+
+/**
+ * Serialize a lock handle to a JSON string
+ *
+ * Only fields needed to extend, release or resume the lock are kept,
+ * acquisition statistics are dropped.
+ *
+ * @param handle - Handle returned by acquire()
+ * @returns JSON string accepted by deserializeHandle()
+ */
+export function serializeHandle(handle: LockHandle): string {
+  assertValidHandle(handle);
+
+  const serialized: SerializedLockHandle = {
+    version: SERIALIZED_HANDLE_VERSION,
+    id: handle.id,
+    key: handle.key,
+    value: handle.value,
+    acquiredAt: handle.acquiredAt,
+    ttl: handle.ttl,
+    ...(handle.fencingToken !== undefined && { fencingToken: handle.fencingToken }),
+    ...(handle.metadata?.holdCount !== undefined && { holdCount: handle.metadata.holdCount }),
+    strategy: strategyTagOf(handle.metadata),
+  };
+
+  return JSON.stringify(serialized);
+}
+
+/**
+ * Parse and validate a handle produced by serializeHandle()
+ *
+ * @param data - JSON string from serializeHandle()
+ * @returns Lock handle, verify it is still held with lock.resume() before use
+ * @throws Error if the data is not a valid serialized handle
+ */
+export function deserializeHandle(data: string): LockHandle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    throw invalid('not valid JSON');
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw invalid('expected an object');
+  }
+
+  const record = parsed as Record<string, unknown>;
+  if (record['version'] !== SERIALIZED_HANDLE_VERSION) {
+    throw invalid(`unsupported version ${String(record['version'])}`);
+  }
+
+  for (const field of ['id', 'key', 'value']) {
+    if (typeof record[field] !== 'string' || !record[field]) {
+      throw invalid(`${field} must be a non-empty string`);
+    }
+  }
+
+  if ((record['value'] as string).length > MAX_LOCK_VALUE_LENGTH) {
+    throw invalid(`value must be at most ${MAX_LOCK_VALUE_LENGTH} characters`);
+  }
+
+  for (const field of ['acquiredAt', 'ttl']) {
+    if (!isNonNegativeInteger(record[field])) {
+      throw invalid(`${field} must be a non-negative integer`);
+    }
+  }
+
+  for (const field of ['fencingToken', 'holdCount']) {
+    if (record[field] !== undefined && !isNonNegativeInteger(record[field])) {
+      throw invalid(`${field} must be a non-negative integer`);
+    }
+  }
+
+  const strategy = parseStrategyTag(record['strategy']);
+  const fencingToken = record['fencingToken'] as number | undefined;
+  const holdCount = record['holdCount'] as number | undefined;
+
+  return {
+    id: record['id'] as string,
+    key: record['key'] as string,
+    value: record['value'] as string,
+    acquiredAt: record['acquiredAt'] as number,
+    ttl: record['ttl'] as number,
+    ...(fencingToken !== undefined && { fencingToken }),
+    metadata: {
+      attempts: 0,
+      acquisitionTime: 0,
+      ...metadataOf(strategy),
+      ...(holdCount !== undefined && { holdCount }),
+    },
+  };
+}
+
+/**
+ * Strategy tag of a handle, handles without metadata come from simple locks
+ */
+function strategyTagOf(metadata: LockMetadata | undefined): HandleStrategyTag {
+  switch (metadata?.strategy) {
+    case 'redlock':
+      if (!metadata.nodes || metadata.nodes.length === 0) {
+        throw new Error('Invalid lock handle: RedLock handle has no node list');
+      }
+      return { type: metadata.strategy, nodes: [...metadata.nodes] };
+    case 'read-write':
+      if (!metadata.mode) {
+        throw new Error('Invalid lock handle: read-write handle has no mode');
+      }
+      return { type: metadata.strategy, mode: metadata.mode };
+    case 'semaphore':
+      if (metadata.limit === undefined) {
+        throw new Error('Invalid lock handle: semaphore handle has no limit');
+      }
+      return { type: metadata.strategy, limit: metadata.limit };
+    case 'hierarchical':
+      return { type: metadata.strategy };
+    default:
+      return {
+        type: 'simple',
+        ...(metadata?.staleAfter !== undefined && { staleAfter: metadata.staleAfter }),
+      };
+  }
+}
+
+function parseStrategyTag(tag: unknown): HandleStrategyTag {
+  if (typeof tag !== 'object' || tag === null) {
+    throw invalid('strategy must be an object');
+  }
+
+  const record = tag as Record<string, unknown>;
+  const type = record['type'];
+  switch (type) {
+    case 'simple': {
+      const staleAfter = record['staleAfter'];
+      if (staleAfter === undefined) {
+        return { type };
+      }
+      if (!isNonNegativeInteger(staleAfter) || staleAfter === 0) {
+        throw invalid('staleAfter must be a positive integer');
+      }
+      return { type, staleAfter: staleAfter as number };
+    }
+    case 'hierarchical':
+      return { type };
+    case 'redlock': {
+      const nodes = record['nodes'];
+      if (
+        !Array.isArray(nodes) ||
+        nodes.length === 0 ||
+        !nodes.every(node => typeof node === 'string' && NODE_ID_PATTERN.test(node))
+      ) {
+        throw invalid('RedLock nodes must be a non-empty list of node IDs');
+      }
+      return { type, nodes: nodes as string[] };
+    }
+    case 'read-write':
+      if (record['mode'] !== 'read' && record['mode'] !== 'write') {
+        throw invalid('read-write mode must be "read" or "write"');
+      }
+      return { type, mode: record['mode'] };
+    case 'semaphore':
+      if (!isNonNegativeInteger(record['limit']) || record['limit'] === 0) {
+        throw invalid('semaphore limit must be a positive integer');
+      }
+      return { type, limit: record['limit'] as number };
+    default:
+      throw invalid(`unknown strategy "${String(type)}"`);
+  }
+}
+
+/**
+ * Handle metadata fields of a strategy tag
+ */
+function metadataOf(
+  tag: HandleStrategyTag
+): Pick<LockMetadata, 'strategy' | 'nodes' | 'mode' | 'limit' | 'staleAfter'> {
+  const { type, ...details } = tag;
+  return { strategy: type, ...details };
+}
+
+function assertValidHandle(handle: LockHandle): void {
+  if (!handle || !handle.id || !handle.key || !handle.value) {
+    throw new Error('Invalid lock handle: missing required properties');
+  }
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function invalid(reason: string): Error {
+  return new Error(`Invalid serialized lock handle: ${reason}`);
+}
@@ -4,6 +4,8 @@ export {
   safeCompare,
   createLockValueWithMetadata,
   parseLockValue,
+  createLockValueWithOwner,
+  parseLockOwner,
   isValidLockValue,
 } from './crypto.js';
 
@@ -13,3 +15,28 @@ export {
   type AutoExtensionConfig,
   type ExtendedAbortSignal,
 } from './auto-extension.js';
+
+export { ReleaseWaiter } from './release-waiter.js';
+
+export { WaitForGraph } from './wait-for-graph.js';
+
+export { LocalLockQueue, localLockQueue } from './local-queue.js';
+
+export {
+  ExtensionScheduler,
+  extensionScheduler,
+  type ScheduledExtension,
+} from './extension-scheduler.js';
+
+export { AcquireDeadline, validateAcquireOptions } from './acquire-deadline.js';
+
+export { serializeHandle, deserializeHandle } from './handle-serialization.js';
+
+export {
+  createRetrySchedule,
+  retryWindow,
+  validateRetryStrategy,
+  type RetryStrategy,
+  type RetryContext,
+  type RetryDelayFunction,
+} from './retry.js';
@@ -0,0 +1,227 @@
+/**
+ * In-process coordination of lock contenders
+ * Queues contenders for the same key in memory, so only one of them per process
+ * acquires from Redis at a time
+ */
+
+import type { RedisAdapter } from '../types/adapters.js';
+import type { LockHandle } from '../types/locks.js';
+import { LockAcquisitionError } from '../types/errors.js';
+import type { AcquireDeadline } from './acquire-deadline.js';
+
+/**
+ * Contender waiting for its turn on a key
+ */
+interface LocalWaiter {
+  /** Hand the turn over, false when the waiter already gave up */
+  grant(): boolean;
+}
+
+/**
+ * Turn of one contender, held while it acquires from Redis and then by its handle
+ */
+interface LocalTurn {
+  waiters: LocalWaiter[];
+}
+
+/**
+ * Turn held by an acquired lock, checked against Redis when its TTL runs out
+ */
+interface LocalLease {
+  key: string;
+  value: string;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const queues = new WeakMap<RedisAdapter, LocalLockQueue>();
+
+/**
+ * Shared local queue of an adapter, so locks created separately still coordinate
+ */
+export function localLockQueue(adapter: RedisAdapter): LocalLockQueue {
+  let queue = queues.get(adapter);
+  if (!queue) {
+    queue = new LocalLockQueue(adapter);
+    queues.set(adapter, queue);
+  }
+  return queue;
+}
+
+/**
+ * FIFO queues of same-process contenders, one per key
+ *
+ * The queue only decides which local contender talks to Redis next. Mutual exclusion
+ * still comes from Redis: a turn whose handle was lost, e.g. never released, is handed
+ * on once Redis no longer holds the lock, and the next contender competes with other
+ * processes as usual.
+ */
+export class LocalLockQueue {
+  private readonly turns = new Map<string, LocalTurn>();
+  private readonly leases = new Map<string, LocalLease>();
+
+  constructor(private readonly adapter: RedisAdapter) {}
+
+  /**
+   * Take the turn on a key if nobody in this process holds it
+   */
+  tryEnter(key: string): boolean {
+    if (this.turns.has(key)) {
+      return false;
+    }
+
+    this.turns.set(key, { waiters: [] });
+    return true;
+  }
+
+  /**
+   * Wait for the turn on a key
+   *
+   * @param key - Lock key
+   * @param timeout - Maximum wait in milliseconds
+   * @param signal - Stops waiting when aborted
+   * @returns true once the turn is held, false on timeout or abort
+   */
+  enter(key: string, timeout: number, signal?: AbortSignal): Promise<boolean> {
+    if (this.tryEnter(key)) {
+      return Promise.resolve(true);
+    }
+
+    if (timeout <= 0 || signal?.aborted) {
+      return Promise.resolve(false);
+    }
+
+    const turn = this.turns.get(key)!;
+
+    return new Promise(resolve => {
+      let settled = false;
+
+      const settle = (granted: boolean): void => {
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', giveUp);
+        resolve(granted);
+      };
+
+      const waiter: LocalWaiter = {
+        grant: () => {
+          if (settled) {
+            return false;
+          }
+          settle(true);
+          return true;
+        },
+      };
+
+      function giveUp(): void {
+        if (settled) {
+          return;
+        }
+        turn.waiters.splice(turn.waiters.indexOf(waiter), 1);
+        settle(false);
+      }
+
+      const timer = setTimeout(giveUp, timeout);
+      timer.unref?.();
+      signal?.addEventListener('abort', giveUp, { once: true });
+      turn.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Wait for the turn on a key as part of an acquisition
+   *
+   * @param key - Lock key
+   * @param timeout - Maximum wait, the retry window of the lock
+   * @param deadline - Deadline of the acquisition
+   * @throws {LockAcquisitionTimeoutError} If the acquire timeout passes first
+   * @throws {LockAcquisitionError} If the turn does not come within the timeout
+   */
+  async waitForTurn(key: string, timeout: number, deadline: AcquireDeadline): Promise<void> {
+    if (await this.enter(key, timeout, deadline.signal)) {
+      return;
+    }
+
+    deadline.throwIfAborted(0);
+    throw new LockAcquisitionError(
+      key,
+      0,
+      new Error(`Lock "${key}" is already held in this process`)
+    );
+  }
+
+  /**
+   * Hand the turn on a key to the next waiter, or free it
+   */
+  leave(key: string): void {
+    const turn = this.turns.get(key);
+    if (!turn) {
+      return;
+    }
+
+    while (turn.waiters.length > 0) {
+      if (turn.waiters.shift()!.grant()) {
+        return;
+      }
+    }
+
+    this.turns.delete(key);
+  }
+
+  /**
+   * Keep the turn while the handle holds the lock
+   * Extensions may bypass the lock, so the turn is checked against Redis every TTL
+   * instead of trusting the handle to be released.
+   */
+  hold(handle: LockHandle): void {
+    const lease: LocalLease = {
+      key: handle.key,
+      value: handle.value,
+      timer: this.checkLeaseAfter(handle.id, handle.ttl),
+    };
+    this.leases.set(handle.id, lease);
+  }
+
+  /**
+   * Give up the turn held by a handle, after its release
+   */
+  release(handle: LockHandle): void {
+    const lease = this.leases.get(handle.id);
+    if (!lease) {
+      return;
+    }
+
+    clearTimeout(lease.timer);
+    this.leases.delete(handle.id);
+    this.leave(lease.key);
+  }
+
+  /**
+   * Check whether a leased lock is still held once its TTL may have run out
+   */
+  private checkLeaseAfter(id: string, ttl: number): ReturnType<typeof setTimeout> {
+    const timer = setTimeout(() => {
+      const lease = this.leases.get(id);
+      if (!lease) {
+        return;
+      }
+
+      this.adapter
+        .get(lease.key)
+        .catch(() => null)
+        .then(value => {
+          if (this.leases.get(id) !== lease) {
+            return;
+          }
+
+          if (value === lease.value) {
+            lease.timer = this.checkLeaseAfter(id, ttl);
+          } else {
+            this.leases.delete(id);
+            this.leave(lease.key);
+          }
+        });
+    }, ttl);
+    timer.unref?.();
+    return timer;
+  }
+}
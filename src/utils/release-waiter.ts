@@ -0,0 +1,97 @@
+/**
+ * Release notification waiting for blocking acquisition
+ * Replaces fixed retry sleeps with a wake-up on the holder's release
+ */
+
+import type { RedisAdapter, ReleaseUnsubscribe } from '../types/adapters.js';
+import type { ILogger } from '../monitoring/Logger.js';
+
+/**
+ * Waits between acquisition attempts until a watched key is released
+ *
+ * Subscribes lazily on the first wait, so an uncontended acquisition never pays
+ * for the subscription. The retry delay stays the upper bound of every wait: lock
+ * expiry is not published, and adapters that cannot subscribe fall back to polling.
+ */
+export class ReleaseWaiter {
+  private subscription: Promise<ReleaseUnsubscribe[]> | undefined;
+  private released = false;
+  private wake: (() => void) | undefined;
+
+  constructor(
+    private readonly adapters: readonly RedisAdapter[],
+    private readonly keys: readonly string[],
+    private readonly logger?: ILogger
+  ) {}
+
+  /**
+   * Wait for a release of any watched key, at most for the given time
+   * @param ms - Upper bound of the wait in milliseconds
+   * @param signal - Ends the wait early when aborted
+   */
+  async wait(ms: number, signal?: AbortSignal): Promise<void> {
+    const deadline = Date.now() + ms;
+    await this.subscribe();
+
+    // A release may have been published while the last attempt was in flight
+    if (this.released || signal?.aborted) {
+      this.released = false;
+      return;
+    }
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(done, Math.max(deadline - Date.now(), 0));
+      signal?.addEventListener('abort', done, { once: true });
+
+      function done(): void {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+
+      this.wake = done;
+    });
+
+    this.wake = undefined;
+    this.released = false;
+  }
+
+  /**
+   * Drop all subscriptions
+   */
+  async close(): Promise<void> {
+    const unsubscribes = (await this.subscription) ?? [];
+    this.subscription = undefined;
+
+    await Promise.all(unsubscribes.map(unsubscribe => unsubscribe().catch(() => {})));
+  }
+
+  private subscribe(): Promise<ReleaseUnsubscribe[]> {
+    if (!this.subscription) {
+      const listener = (): void => {
+        this.released = true;
+        this.wake?.();
+      };
+
+      this.subscription = Promise.all(
+        this.adapters.flatMap(adapter =>
+          this.keys.map(key => adapter.subscribeToRelease(key, listener).catch(() => null))
+        )
+      ).then(results => {
+        const unsubscribes = results.filter(
+          (unsubscribe): unsubscribe is ReleaseUnsubscribe => unsubscribe !== null
+        );
+
+        if (unsubscribes.length === 0 && this.logger) {
+          this.logger.debug('Release notifications unavailable, polling instead', {
+            keys: this.keys.slice(0, 10),
+          });
+        }
+
+        return unsubscribes;
+      });
+    }
+
+    return this.subscription;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Retry strategies for lock acquisition
+ * Spread out retries so waiters on the same key do not retry in lockstep
+ */
+
+import { DEFAULTS } from '../constants.js';
+
+/**
+ * Input of a custom retry delay function
+ */
+export interface RetryContext {
+  /** Number of attempts made so far (1 = first retry is being scheduled) */
+  readonly attempt: number;
+  /** Delay chosen before the previous attempt (0 before the first retry) */
+  readonly previousDelay: number;
+  /** Configured retryDelay of the lock */
+  readonly baseDelay: number;
+}
+
+/**
+ * Custom retry policy returning the delay in milliseconds before the next attempt
+ */
+export type RetryDelayFunction = (context: RetryContext) => number;
+
+/**
+ * Retry strategy for acquisition loops
+ *
+ * Built-in policies take their base delay from `delay`, falling back to the lock's
+ * retryDelay, and never wait longer than `maxDelay` (default: 5000ms):
+ * - constant: base
+ * - linear: base + increment * (attempt - 1)
+ * - exponential: base * factor ^ (attempt - 1)
+ * - full-jitter: random between 0 and the exponential delay
+ * - decorrelated-jitter: random between base and 3x the previous delay
+ */
+export type RetryStrategy =
+  | { readonly type: 'constant'; readonly delay?: number }
+  | {
+      readonly type: 'linear';
+      readonly delay?: number;
+      /** Added per attempt (default: base delay) */
+      readonly increment?: number;
+      readonly maxDelay?: number;
+    }
+  | {
+      readonly type: 'exponential' | 'full-jitter';
+      readonly delay?: number;
+      /** Growth factor per attempt (default: 2) */
+      readonly factor?: number;
+      readonly maxDelay?: number;
+    }
+  | { readonly type: 'decorrelated-jitter'; readonly delay?: number; readonly maxDelay?: number }
+  | RetryDelayFunction;
+
+// Defaults of the built-in policies
+const DEFAULT_BACKOFF_FACTOR = 2;
+const DECORRELATED_JITTER_MULTIPLIER = 3;
+const STRATEGY_TYPES = new Set([
+  'constant',
+  'linear',
+  'exponential',
+  'full-jitter',
+  'decorrelated-jitter',
+]);
+
+/**
+ * Validate a retry strategy, throwing on invalid parameters
+ */
+export function validateRetryStrategy(strategy: RetryStrategy): void {
+  if (typeof strategy === 'function') {
+    return;
+  }
+
+  if (!STRATEGY_TYPES.has(strategy.type)) {
+    throw new Error(`Unknown retry strategy type "${strategy.type}"`);
+  }
+
+  const options: Record<string, unknown> = strategy;
+  for (const name of ['delay', 'maxDelay', 'increment']) {
+    const value = options[name];
+    if (
+      value !== undefined &&
+      (typeof value !== 'number' || value < 0 || !Number.isInteger(value))
+    ) {
+      throw new Error(`Retry strategy ${name} must be a non-negative integer`);
+    }
+  }
+
+  if (options['factor'] !== undefined && !((options['factor'] as number) >= 1)) {
+    throw new Error('Retry strategy factor must be at least 1');
+  }
+}
+
+/**
+ * Create the delay schedule of one acquisition
+ * The returned function is stateful (decorrelated jitter builds on the previous delay),
+ * so create a new one per acquire() call.
+ *
+ * @param strategy - Retry strategy, constant retryDelay when undefined
+ * @param retryDelay - Configured retryDelay of the lock
+ * @returns Function mapping the number of attempts made so far to the next delay
+ */
+export function createRetrySchedule(
+  strategy: RetryStrategy | undefined,
+  retryDelay: number
+): (attempt: number) => number {
+  let previousDelay = 0;
+
+  return attempt => {
+    const delay = Math.round(computeDelay(strategy, retryDelay, attempt, previousDelay));
+    // Custom functions may return anything, never sleep for a negative or invalid time
+    previousDelay = Number.isFinite(delay) ? Math.max(delay, 0) : retryDelay;
+    return previousDelay;
+  };
+}
+
+/**
+ * Total time an acquisition sleeps between its attempts, i.e. how long it keeps retrying
+ *
+ * @param strategy - Retry strategy, constant retryDelay when undefined
+ * @param retryDelay - Configured retryDelay of the lock
+ * @param retryAttempts - Configured retryAttempts of the lock
+ */
+export function retryWindow(
+  strategy: RetryStrategy | undefined,
+  retryDelay: number,
+  retryAttempts: number
+): number {
+  const nextDelay = createRetrySchedule(strategy, retryDelay);
+  let total = 0;
+  for (let attempt = 1; attempt <= retryAttempts; attempt++) {
+    total += nextDelay(attempt);
+  }
+  return total;
+}
+
+function computeDelay(
+  strategy: RetryStrategy | undefined,
+  retryDelay: number,
+  attempt: number,
+  previousDelay: number
+): number {
+  if (strategy === undefined) {
+    return retryDelay;
+  }
+
+  if (typeof strategy === 'function') {
+    return strategy({ attempt, previousDelay, baseDelay: retryDelay });
+  }
+
+  const base = strategy.delay ?? retryDelay;
+  if (strategy.type === 'constant') {
+    return base;
+  }
+
+  const maxDelay = strategy.maxDelay ?? DEFAULTS.MAX_RETRY_DELAY;
+
+  switch (strategy.type) {
+    case 'linear':
+      return Math.min(base + (strategy.increment ?? base) * (attempt - 1), maxDelay);
+    case 'exponential':
+      return Math.min(
+        base * (strategy.factor ?? DEFAULT_BACKOFF_FACTOR) ** (attempt - 1),
+        maxDelay
+      );
+    case 'full-jitter':
+      return (
+        Math.random() *
+        Math.min(base * (strategy.factor ?? DEFAULT_BACKOFF_FACTOR) ** (attempt - 1), maxDelay)
+      );
+    case 'decorrelated-jitter': {
+      const upper = Math.max(previousDelay, base) * DECORRELATED_JITTER_MULTIPLIER;
+      return Math.min(base + Math.random() * (upper - base), maxDelay);
+    }
+  }
+}
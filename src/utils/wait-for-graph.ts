@@ -0,0 +1,129 @@
+/**
+ * Deadlock detection for blocking acquisition
+ * Records which participant holds and waits for which key in a wait-for graph in Redis
+ */
+
+import type { RedisAdapter } from '../types/adapters.js';
+import type { AcquireOptions, LockHandle } from '../types/locks.js';
+import type { ILogger } from '../monitoring/Logger.js';
+import { DeadlockError } from '../types/errors.js';
+
+// Wait edges are renewed twice per TTL, but not more often than this
+const MIN_RENEWAL_INTERVAL = 100;
+
+/**
+ * Wait-for graph shared by all participants acquiring through one graph key
+ *
+ * A participant enqueues a wait edge before its first attempt and renews it while
+ * retrying, so the edge of a crashed waiter expires. Whenever an enqueue or renewal
+ * would close a cycle, that waiter is the victim: its acquisition fails fast with
+ * DeadlockError instead of waiting for a TTL to break the cycle.
+ */
+export class WaitForGraph {
+  constructor(
+    private readonly adapter: RedisAdapter,
+    private readonly graph: string,
+    private readonly logger?: ILogger
+  ) {}
+
+  /**
+   * Run an acquisition as a waiter of the graph, recording the hold on success
+   *
+   * @param participant - Acquiring participant
+   * @param key - Lock key
+   * @param ttl - Lock TTL, also the lifetime of the wait and hold edges
+   * @param reentrant - The participant may acquire a key it already holds
+   * @param options - Caller's cancellation options
+   * @param acquire - Acquisition to run, must honour the signal it is given
+   * @throws {DeadlockError} If waiting would close a cycle
+   */
+  async acquire(
+    participant: string,
+    key: string,
+    ttl: number,
+    reentrant: boolean,
+    options: AcquireOptions,
+    acquire: (options: AcquireOptions) => Promise<LockHandle>
+  ): Promise<LockHandle> {
+    const cycle = await this.adapter.waitForEnqueue(this.graph, participant, key, ttl, reentrant);
+    if (cycle) {
+      throw new DeadlockError(key, 0, cycle);
+    }
+
+    const controller = new AbortController();
+    const { signal } = options;
+    const onAbort = (): void => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    const renewal = setInterval(
+      () => {
+        this.adapter
+          .waitForEnqueue(this.graph, participant, key, ttl, reentrant)
+          .then(found => {
+            if (found) {
+              controller.abort(new DeadlockError(key, 0, found));
+            }
+          })
+          .catch(error => {
+            this.logger?.warn('Failed to renew wait-for edge', {
+              key,
+              participant,
+              error: (error as Error).message,
+            });
+          });
+      },
+      Math.max(Math.floor(ttl / 2), MIN_RENEWAL_INTERVAL)
+    );
+    renewal.unref?.();
+
+    try {
+      const handle = await acquire({ ...options, signal: controller.signal });
+      await this.hold(participant, key, handle.ttl);
+      return handle;
+    } catch (error) {
+      await this.remove(participant, key);
+      throw error;
+    } finally {
+      clearInterval(renewal);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Record that a participant holds a key for ttl ms, e.g. again after the lock was extended
+   * The hold edge expires with the lock, so it must be renewed on every extension.
+   * Failures are logged: the lock is held, a missing hold edge only hides this
+   * participant from detection.
+   */
+  async hold(participant: string, key: string, ttl: number): Promise<void> {
+    try {
+      await this.adapter.waitForHold(this.graph, participant, key, ttl);
+    } catch (error) {
+      this.logger?.warn('Failed to record wait-for hold edge', {
+        key,
+        participant,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Drop the hold and wait edges of a participant on a key, e.g. after release
+   * Failures are logged, stale edges expire with their TTL
+   */
+  async remove(participant: string, key: string): Promise<void> {
+    try {
+      await this.adapter.waitForRemove(this.graph, participant, key);
+    } catch (error) {
+      this.logger?.warn('Failed to remove wait-for edges', {
+        key,
+        participant,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
@@ -158,6 +158,25 @@ describe('Redis Adapter Integration Tests', () => {
       });
     });
 
+    describe('fairAcquire', () => {
+      it('should keep a long-TTL waiter queued after a short-TTL waiter polls', async () => {
+        await adapter.setNX(testKey, 'holder', testTTL);
+
+        await adapter.fairAcquire(testKey, 'long', testTTL, 5000, false);
+        await adapter.fairAcquire(testKey, 'short', testTTL, 50, false);
+        await new Promise(resolve => setTimeout(resolve, 150));
+
+        expect(await adapter.getFairQueue(testKey)).toEqual(['long']);
+        expect(await adapter.fairAcquire(testKey, 'long', testTTL, 5000, false)).toEqual({
+          acquired: false,
+          position: 0,
+        });
+
+        await adapter.cancelFairWait(testKey, 'long');
+        await adapter.del(testKey);
+      });
+    });
+
     describe('key prefix', () => {
       it('should use key prefix when configured', async () => {
         const prefixedAdapter =
@@ -238,6 +238,25 @@ describe('GlideAdapter Unit Tests', () => {
 
       expect(mockClient.get).toHaveBeenCalledWith('test:key');
     });
+
+    it('should hash-tag the companion keys of a read-write lock', async () => {
+      const prefixedAdapter = new GlideAdapter(mockClient, { keyPrefix: 'test:' });
+      mockClient.customCommand.mockResolvedValueOnce('mock-sha').mockResolvedValueOnce(1);
+
+      await prefixedAdapter.acquireWriteLock('rw', 'token', 1000, 300);
+
+      expect(mockClient.customCommand).toHaveBeenCalledWith([
+        'EVALSHA',
+        'mock-sha',
+        '3',
+        'test:rw',
+        '{test:rw}:readers',
+        '{test:rw}:writer-intent',
+        'token',
+        '1000',
+        '300',
+      ]);
+    });
   });
 
   describe('timeout handling', () => {
@@ -260,4 +279,10 @@ describe('GlideAdapter Unit Tests', () => {
       expect(newAdapter).toBeInstanceOf(GlideAdapter);
     });
   });
+
+  describe('release notifications', () => {
+    it('should fall back to polling', async () => {
+      expect(await adapter.subscribeToRelease('lock', vi.fn())).toBeNull();
+    });
+  });
 });
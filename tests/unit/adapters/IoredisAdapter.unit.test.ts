@@ -170,6 +170,542 @@ describe('IoredisAdapter Unit Tests', () => {
     });
   });
 
+  describe('fencing tokens', () => {
+    it('should pass the lock and counter keys to the fenced acquire script', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(5);
+
+      const token = await adapter.setNXWithFencingToken('lock', 'value', 5000);
+
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        2,
+        'lock',
+        'lock:fence',
+        'value',
+        '5000'
+      );
+      expect(token).toBe(5);
+    });
+
+    it('should return null when the lock is held', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(0);
+
+      expect(await adapter.setNXWithFencingToken('lock', 'value', 5000)).toBeNull();
+    });
+
+    it('should parse batch fencing tokens', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([1, 2, 4, 7]);
+
+      const result = await adapter.batchSetNXWithFencingTokens(['a', 'b'], ['v1', 'v2'], 5000);
+
+      expect(result).toEqual({ success: true, acquiredCount: 2, fencingTokens: [4, 7] });
+    });
+  });
+
+  describe('batch release, extend and inspect', () => {
+    it('should release all keys with one script call', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([1, 0]);
+
+      expect(await adapter.batchDelIfMatch(['a', 'b'], ['v1', 'v2'])).toEqual([true, false]);
+      expect(mockClient.evalsha).toHaveBeenCalledWith('mock-sha', 2, 'a', 'b', 'v1', 'v2');
+    });
+
+    it('should parse the result of every extension', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([
+        [1, 4000],
+        [-1, -2],
+      ]);
+
+      const results = await adapter.batchAtomicExtend(['a', 'b'], ['v1', 'v2'], 1000, 5000);
+
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        2,
+        'a',
+        'b',
+        'v1',
+        'v2',
+        '1000',
+        '5000'
+      );
+      expect(results.map(result => result.resultCode)).toEqual([1, -1]);
+      expect(results[1]?.message).toBe('Lock key "b" no longer exists');
+    });
+
+    it('should parse missing keys of a batch inspection as null', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([null, ['owner', 3000]]);
+
+      expect(await adapter.batchInspect(['a', 'b'])).toEqual([null, { value: 'owner', ttl: 3000 }]);
+    });
+  });
+
+  describe('scanLocks', () => {
+    it('should scan string keys under the key prefix and inspect the lock keys', async () => {
+      const prefixed = new IoredisAdapter(mockClient, { keyPrefix: 'app*:' });
+      mockClient.scan = vi.fn().mockResolvedValue(['17', ['app*:job:1', 'app*:job:1:fence']]);
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(['owner', 3000]);
+
+      const page = await prefixed.scanLocks('job:*', { count: 50 });
+
+      expect(mockClient.scan).toHaveBeenCalledWith(
+        '0',
+        'MATCH',
+        'app\\*:job:*',
+        'COUNT',
+        50,
+        'TYPE',
+        'string'
+      );
+      expect(mockClient.evalsha).toHaveBeenCalledTimes(1);
+      expect(mockClient.evalsha).toHaveBeenCalledWith('mock-sha', 1, 'app*:job:1');
+      expect(page).toEqual({
+        cursor: '17',
+        locks: [{ key: 'job:1', value: 'owner', ttl: 3000 }],
+      });
+    });
+
+    it('should scan every master of a cluster in turn', async () => {
+      const masters = [
+        {
+          scan: vi
+            .fn()
+            .mockResolvedValueOnce(['5', []])
+            .mockResolvedValueOnce(['0', ['a']]),
+        },
+        { scan: vi.fn().mockResolvedValue(['0', ['b']]) },
+      ];
+      const cluster = { ...mockClient, isCluster: true, nodes: vi.fn().mockReturnValue(masters) };
+      const clusterAdapter = new IoredisAdapter(cluster);
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(['owner', 3000]);
+
+      const cursors: string[] = [];
+      const keys: string[] = [];
+      let cursor = '0';
+      do {
+        const page = await clusterAdapter.scanLocks('*', { cursor });
+        cursor = page.cursor;
+        cursors.push(cursor);
+        keys.push(...page.locks.map(lock => lock.key));
+      } while (cursor !== '0');
+
+      expect(cluster.nodes).toHaveBeenCalledWith('master');
+      expect(cursors).toEqual(['0:5', '1:0', '0']);
+      expect(masters[0]!.scan).toHaveBeenLastCalledWith(
+        '5',
+        'MATCH',
+        '*',
+        'COUNT',
+        100,
+        'TYPE',
+        'string'
+      );
+      expect(keys).toEqual(['a', 'b']);
+    });
+
+    it('should reject invalid cluster cursors', async () => {
+      const cluster = { ...mockClient, isCluster: true, nodes: vi.fn().mockReturnValue([]) };
+
+      await expect(new IoredisAdapter(cluster).scanLocks('*', { cursor: '3:0' })).rejects.toThrow(
+        'Invalid cluster scan cursor "3:0"'
+      );
+    });
+  });
+
+  describe('fair locks', () => {
+    it('should pass the lock, queue, sequence and fencing keys to the fair script', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([0, 2, 0]);
+
+      const result = await adapter.fairAcquire('lock', 'ticket', 5000, 300, false);
+
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        5,
+        'lock',
+        'lock:queue',
+        'lock:queue-timeouts',
+        'lock:queue-seq',
+        'lock:fence',
+        'ticket',
+        '5000',
+        '300',
+        '0'
+      );
+      expect(result).toEqual({ acquired: false, position: 2 });
+    });
+
+    it('should not let a short-TTL waiter shorten the queue of a long-TTL waiter', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([0, 0, 0]);
+
+      await adapter.fairAcquire('lock', 'long', 5000, 5000, false);
+      await adapter.fairAcquire('lock', 'short', 5000, 10, false);
+
+      // Both waiters refresh the shared queue keys with their own ticket TTL
+      expect(mockClient.evalsha.mock.calls.map((call: unknown[]) => call[9])).toEqual([
+        '5000',
+        '10',
+      ]);
+      const [, script] = mockClient.script.mock.calls[0]!;
+      expect(script).toContain(
+        'if redis.call("PTTL", KEYS[i]) < ticket_ttl then\n    redis.call("PEXPIRE", KEYS[i], ticket_ttl)'
+      );
+      expect(script.match(/PEXPIRE/g)).toHaveLength(1);
+    });
+
+    it('should return the fencing token once granted', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([1, 0, 7]);
+
+      expect(await adapter.fairAcquire('lock', 'ticket', 5000, 300, true)).toEqual({
+        acquired: true,
+        position: 0,
+        fencingToken: 7,
+      });
+    });
+
+    it('should return queued tickets in order', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(['a', 'b']);
+
+      expect(await adapter.getFairQueue('lock')).toEqual(['a', 'b']);
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        2,
+        'lock:queue',
+        'lock:queue-timeouts'
+      );
+    });
+  });
+
+  describe('reentrant locks', () => {
+    it('should pass the lock and hold count keys to the reentrant scripts', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(2);
+
+      const holds = await adapter.reentrantAcquire('lock', 'owner', 5000);
+
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        2,
+        'lock',
+        'lock:holds',
+        'owner',
+        '5000'
+      );
+      expect(holds).toBe(2);
+    });
+
+    it('should return the remaining hold count on release', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(-1);
+
+      expect(await adapter.reentrantRelease('lock', 'owner')).toBe(-1);
+    });
+  });
+
+  describe('read-write locks', () => {
+    it('should pass lock, readers and intent keys to the read script', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(1);
+
+      const result = await adapter.acquireReadLock('rw', 'reader', 5000, true);
+
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        3,
+        'rw',
+        '{rw}:readers',
+        '{rw}:writer-intent',
+        'reader',
+        '5000',
+        '1'
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should report a blocked write acquisition', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(0);
+
+      const result = await adapter.acquireWriteLock('rw', 'writer', 5000, 300);
+
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        3,
+        'rw',
+        '{rw}:readers',
+        '{rw}:writer-intent',
+        'writer',
+        '5000',
+        '300'
+      );
+      expect(result).toBe(false);
+    });
+
+    it('should release read leases from the readers set', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(1);
+
+      expect(await adapter.releaseReadLock('rw', 'reader')).toBe(true);
+      expect(mockClient.evalsha).toHaveBeenCalledWith('mock-sha', 1, '{rw}:readers', 'reader');
+    });
+
+    it('should count live read leases in the readers set', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(2);
+
+      expect(await adapter.countReaders('rw')).toBe(2);
+      expect(mockClient.evalsha).toHaveBeenCalledWith('mock-sha', 1, '{rw}:readers');
+    });
+
+    it('should keep the companion keys in the slot of the lock key', async () => {
+      // CRC16/XMODEM of the hash tag, or of the whole key without one, as Redis Cluster does
+      const keySlot = (key: string): number => {
+        const open = key.indexOf('{');
+        const close = open === -1 ? -1 : key.indexOf('}', open + 1);
+        const hashed = close > open + 1 ? key.slice(open + 1, close) : key;
+        let crc = 0;
+        for (const byte of Buffer.from(hashed)) {
+          crc ^= byte << 8;
+          for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+          }
+        }
+        return crc % 16384;
+      };
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(1);
+      expect(keySlot('foo')).toBe(12182);
+
+      for (const key of ['orders:42', '{tenant:7}:orders']) {
+        await adapter.acquireWriteLock(key, 'writer', 5000, 300);
+        const keys = mockClient.evalsha.mock.calls.at(-1).slice(2, 5) as string[];
+        expect(keys.map(keySlot)).toEqual([keySlot(key), keySlot(key), keySlot(key)]);
+      }
+    });
+  });
+
+  describe('semaphores', () => {
+    it('should pass the limit and TTL to the semaphore script', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(1);
+
+      const result = await adapter.acquireSemaphore('sem', 'holder', 3, 5000);
+
+      expect(mockClient.evalsha).toHaveBeenCalledWith('mock-sha', 1, 'sem', 'holder', '3', '5000');
+      expect(result).toBe(true);
+    });
+
+    it('should count live holders', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(2);
+
+      expect(await adapter.countSemaphoreHolders('sem')).toBe(2);
+    });
+  });
+
+  describe('hierarchical locks', () => {
+    it('should pass each path with its ancestors to the acquisition script', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([1, 1]);
+
+      const result = await adapter.hierarchicalAcquire(['t:1:o:7'], ['holder'], 5000);
+
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        8,
+        't:1:o:7',
+        't:1:o:7:intents',
+        't',
+        't:intents',
+        't:1',
+        't:1:intents',
+        't:1:o',
+        't:1:o:intents',
+        '5000',
+        '1',
+        'holder',
+        '3'
+      );
+      expect(result).toEqual({ success: true, acquiredCount: 1 });
+    });
+
+    it('should report the conflicting path', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([0, 2, 't:2']);
+
+      const result = await adapter.hierarchicalAcquire(['t:1', 't:2'], ['a', 'b'], 5000);
+
+      expect(result).toEqual({
+        success: false,
+        acquiredCount: 0,
+        failedIndex: 2,
+        failedKey: 't:2',
+      });
+    });
+
+    it('should release the lock and the intention leases of its ancestors', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(1);
+
+      expect(await adapter.hierarchicalRelease('t:1:o', 'holder')).toBe(true);
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        3,
+        't:1:o',
+        't:intents',
+        't:1:intents',
+        'holder'
+      );
+    });
+
+    it('should reject overlapping paths and empty segments', async () => {
+      await expect(adapter.hierarchicalAcquire(['t:1', 't:1:o'], ['a', 'b'], 5000)).rejects.toThrow(
+        'Hierarchical keys "t:1" and "t:1:o" overlap'
+      );
+      await expect(adapter.hierarchicalAcquire(['t::1'], ['a'], 5000)).rejects.toThrow(
+        'Hierarchical key "t::1" must not contain empty segments'
+      );
+    });
+  });
+
+  describe('heartbeat takeover', () => {
+    it('should pass the lock, heartbeat and audit keys to the takeover script', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([2, 1700000000000, 'old|{"jobId":"a"}', 9000]);
+
+      const result = await adapter.takeoverStale('job', 'new', 5000, 3000);
+
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        3,
+        'job',
+        'job:heartbeat',
+        'job:takeovers',
+        'new',
+        '5000',
+        '3000',
+        '100'
+      );
+      expect(result).toEqual({
+        acquired: true,
+        takeover: {
+          key: 'job',
+          at: 1700000000000,
+          previousValue: 'old|{"jobId":"a"}',
+          previousOwner: { jobId: 'a' },
+          newValue: 'new',
+          heartbeatAge: 9000,
+        },
+      });
+    });
+
+    it('should report a healthy holder without a takeover record', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([0]);
+
+      expect(await adapter.takeoverStale('job', 'new', 5000, 3000)).toEqual({ acquired: false });
+    });
+
+    it('should skip audit entries it cannot parse', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([
+        '{"at":1,"previousValue":"old","newValue":"new","heartbeatAge":4000}',
+        'not json',
+      ]);
+
+      expect(await adapter.getTakeovers('job')).toEqual([
+        { key: 'job', at: 1, previousValue: 'old', newValue: 'new', heartbeatAge: 4000 },
+      ]);
+    });
+  });
+
+  describe('completion markers', () => {
+    it('should store the marker next to the lock key', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(1);
+
+      expect(await adapter.markCompleted('webhook', 'holder', '{"ok":true}', 86400000)).toBe(true);
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        2,
+        'webhook:completed',
+        'webhook',
+        'holder',
+        '{"ok":true}',
+        '86400000'
+      );
+    });
+
+    it('should check the lock value in the same script as the marker write', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(0);
+
+      expect(await adapter.markCompleted('webhook', 'holder', 'null', 1000)).toBe(false);
+      const script = mockClient.script.mock.calls.at(-1)?.[1] as string;
+      expect(script).toContain('redis.call("GET", KEYS[2]) ~= ARGV[1]');
+    });
+
+    it('should parse a stored marker and report a missing one as null', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValueOnce(['{"ok":true}', '1700000000000']);
+      mockClient.evalsha.mockResolvedValueOnce([null, null]);
+
+      expect(await adapter.getCompletion('webhook')).toEqual({
+        result: '{"ok":true}',
+        completedAt: 1700000000000,
+      });
+      expect(await adapter.getCompletion('webhook')).toBeNull();
+    });
+  });
+
+  describe('wait-for graph', () => {
+    it('should pass the graph hashes to the enqueue script and parse a cycle', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue(['job-2', 'a', 'job-1', 'b']);
+
+      const cycle = await adapter.waitForEnqueue('{deadlock}', 'job-2', 'a', 5000, false);
+
+      expect(mockClient.evalsha).toHaveBeenCalledWith(
+        'mock-sha',
+        2,
+        '{deadlock}:holders',
+        '{deadlock}:waiters',
+        'job-2',
+        'a',
+        '5000',
+        '0',
+        '64'
+      );
+      expect(cycle).toEqual([
+        { participant: 'job-2', key: 'a' },
+        { participant: 'job-1', key: 'b' },
+      ]);
+    });
+
+    it('should report a recorded wait edge as no cycle', async () => {
+      mockClient.script.mockResolvedValue('mock-sha');
+      mockClient.evalsha.mockResolvedValue([]);
+
+      expect(await adapter.waitForEnqueue('{deadlock}', 'job-1', 'a', 5000, true)).toBeNull();
+    });
+
+    it('should reject an empty participant', async () => {
+      await expect(adapter.waitForHold('{deadlock}', '', 'a', 5000)).rejects.toThrow(
+        'Participant must be a non-empty string'
+      );
+    });
+  });
+
   describe('ping', () => {
     it('should call Redis PING', async () => {
       mockClient.ping.mockResolvedValue('PONG');
@@ -283,4 +819,117 @@ describe('IoredisAdapter Unit Tests', () => {
       expect(clusterAdapter.getClient()).toBe(mockClusterClient);
     });
   });
+
+  describe('release notifications', () => {
+    let subscriber: any;
+
+    beforeEach(() => {
+      subscriber = {
+        on: vi.fn(),
+        subscribe: vi.fn().mockResolvedValue(1),
+        unsubscribe: vi.fn().mockResolvedValue(0),
+        disconnect: vi.fn(),
+      };
+      mockClient.duplicate = vi.fn(() => subscriber);
+    });
+
+    it('should subscribe once per channel on a duplicated connection', async () => {
+      const first = vi.fn();
+      const second = vi.fn();
+
+      const unsubscribeFirst = await adapter.subscribeToRelease('lock', first);
+      const unsubscribeSecond = await adapter.subscribeToRelease('lock', second);
+
+      expect(mockClient.duplicate).toHaveBeenCalledTimes(1);
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+      expect(subscriber.subscribe).toHaveBeenCalledWith('lock:released');
+
+      const onMessage = subscriber.on.mock.calls[0][1];
+      onMessage('lock:released', 'owner');
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(1);
+
+      await unsubscribeFirst!();
+      expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+      await unsubscribeSecond!();
+      expect(subscriber.unsubscribe).toHaveBeenCalledWith('lock:released');
+    });
+
+    it('should return null when subscribing fails', async () => {
+      subscriber.subscribe.mockRejectedValue(new Error('connection lost'));
+
+      expect(await adapter.subscribeToRelease('lock', vi.fn())).toBeNull();
+    });
+
+    it('should let concurrent listeners wait for the pending subscribe', async () => {
+      let acknowledge!: () => void;
+      subscriber.subscribe.mockReturnValue(
+        new Promise(resolve => {
+          acknowledge = () => resolve(1);
+        })
+      );
+      const settled = vi.fn();
+
+      const subscriptions = Promise.all(
+        [vi.fn(), vi.fn()].map(listener =>
+          adapter.subscribeToRelease('lock', listener).finally(settled)
+        )
+      );
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(settled).not.toHaveBeenCalled();
+
+      acknowledge();
+      expect(await subscriptions).toEqual([expect.any(Function), expect.any(Function)]);
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to polling for every listener of a failed subscribe', async () => {
+      let fail!: (error: Error) => void;
+      subscriber.subscribe.mockReturnValueOnce(
+        new Promise((_, reject) => {
+          fail = reject;
+        })
+      );
+
+      const subscriptions = Promise.all([
+        adapter.subscribeToRelease('lock', vi.fn()),
+        adapter.subscribeToRelease('lock', vi.fn()),
+      ]);
+      fail(new Error('connection lost'));
+
+      expect(await subscriptions).toEqual([null, null]);
+      expect(await adapter.subscribeToRelease('lock', vi.fn())).toEqual(expect.any(Function));
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(2);
+    });
+
+    it('should subscribe again only after a pending unsubscribe of the channel', async () => {
+      let acknowledgeUnsubscribe!: () => void;
+      subscriber.unsubscribe.mockReturnValueOnce(
+        new Promise(resolve => {
+          acknowledgeUnsubscribe = () => resolve(0);
+        })
+      );
+
+      const unsubscribe = await adapter.subscribeToRelease('lock', vi.fn());
+      const unsubscribing = unsubscribe!();
+      const resubscribing = adapter.subscribeToRelease('lock', vi.fn());
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+
+      acknowledgeUnsubscribe();
+      await unsubscribing;
+      expect(await resubscribing).toEqual(expect.any(Function));
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(2);
+      expect(subscriber.unsubscribe.mock.invocationCallOrder[0]).toBeLessThan(
+        subscriber.subscribe.mock.invocationCallOrder[1]
+      );
+    });
+
+    it('should close the subscriber connection on disconnect', async () => {
+      await adapter.subscribeToRelease('lock', vi.fn());
+      await adapter.disconnect();
+
+      expect(subscriber.disconnect).toHaveBeenCalled();
+    });
+  });
 });
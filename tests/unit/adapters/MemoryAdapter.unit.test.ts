@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
 import { TEST_CONFIG, TIMING_CONFIG } from '../../shared/constants.js';
 
@@ -272,6 +272,101 @@ describe('MemoryAdapter', () => {
     });
   });
 
+  describe('batch release, extend and inspect', () => {
+    it('should release only the keys whose value matches', async () => {
+      await adapter.batchSetNX(['lock1', 'lock2'], ['value1', 'value2'], 5000);
+
+      expect(
+        await adapter.batchDelIfMatch(['lock1', 'lock2', 'lock3'], ['value1', 'other', 'value3'])
+      ).toEqual([true, false, false]);
+      expect(await adapter.get('lock1')).toBeNull();
+      expect(await adapter.get('lock2')).toBe('value2');
+    });
+
+    it('should extend every key with its own result', async () => {
+      await adapter.batchSetNX(['lock1', 'lock2'], ['value1', 'value2'], 5000);
+
+      const results = await adapter.batchAtomicExtend(
+        ['lock1', 'lock2', 'lock3'],
+        ['value1', 'other', 'value3'],
+        1000,
+        TEST_CONFIG.LONG_TTL
+      );
+
+      expect(results.map(result => result.resultCode)).toEqual([1, -1, -1]);
+      expect(results[2]?.actualTTL).toBe(-2);
+      expect((await adapter.inspect('lock1'))?.ttl).toBeGreaterThan(5000);
+    });
+
+    it('should inspect every key in order', async () => {
+      await adapter.setNX('lock2', 'owner2', TEST_CONFIG.DEFAULT_TTL);
+
+      const [missing, held] = await adapter.batchInspect(['lock1', 'lock2']);
+
+      expect(missing).toBeNull();
+      expect(held?.value).toBe('owner2');
+    });
+
+    it('should validate the batch', async () => {
+      await expect(adapter.batchDelIfMatch(['lock1'], [])).rejects.toThrow(
+        'Keys and values arrays must have the same length'
+      );
+      await expect(adapter.batchInspect([])).rejects.toThrow(
+        'At least one key is required for batch operations'
+      );
+    });
+  });
+
+  describe('scanLocks', () => {
+    it('should list matching locks without the key prefix or helper keys', async () => {
+      const prefixed = new MemoryAdapter({ keyPrefix: 'app:' });
+      await prefixed.setNX('job:1', 'owner1', TEST_CONFIG.DEFAULT_TTL);
+      await prefixed.reentrantAcquire('job:2', 'owner2', TEST_CONFIG.DEFAULT_TTL);
+      await prefixed.setNX('report:1', 'owner3', TEST_CONFIG.DEFAULT_TTL);
+
+      const { cursor, locks } = await prefixed.scanLocks('job:*');
+
+      expect(cursor).toBe('0');
+      expect(locks.map(lock => [lock.key, lock.value])).toEqual([
+        ['job:1', 'owner1'],
+        ['job:2', 'owner2'],
+      ]);
+      expect(locks[0]?.ttl).toBeGreaterThan(4000);
+      await prefixed.disconnect();
+    });
+
+    it('should page through the keys with the returned cursor', async () => {
+      for (let i = 0; i < 5; i++) {
+        await adapter.setNX(`lock:${i}`, `owner${i}`, TEST_CONFIG.DEFAULT_TTL);
+      }
+
+      const keys: string[] = [];
+      let cursor = '0';
+      let pages = 0;
+      do {
+        const page = await adapter.scanLocks('lock:[0-3]', { count: 2, cursor });
+        keys.push(...page.locks.map(lock => lock.key));
+        cursor = page.cursor;
+        pages++;
+      } while (cursor !== '0');
+
+      expect(pages).toBe(3);
+      expect(keys).toEqual(['lock:0', 'lock:1', 'lock:2', 'lock:3']);
+    });
+
+    it('should validate scan options', async () => {
+      await expect(adapter.scanLocks('')).rejects.toThrow(
+        'Scan pattern must be a non-empty string'
+      );
+      await expect(adapter.scanLocks('*', { count: 0 })).rejects.toThrow(
+        'Scan count must be a positive integer'
+      );
+      await expect(adapter.scanLocks('*', { cursor: 'x' })).rejects.toThrow(
+        'Invalid scan cursor "x"'
+      );
+    });
+  });
+
   describe('inspect', () => {
     it('should return value and TTL for existing lock', async () => {
       await adapter.setNX('lock1', 'owner1', TEST_CONFIG.DEFAULT_TTL);
@@ -298,6 +393,163 @@ describe('MemoryAdapter', () => {
     });
   });
 
+  describe('read-write locks', () => {
+    it('should share read leases and exclude writers', async () => {
+      expect(await adapter.acquireReadLock('rw', 'reader1', TEST_CONFIG.DEFAULT_TTL, true)).toBe(
+        true
+      );
+      expect(await adapter.acquireReadLock('rw', 'reader2', TEST_CONFIG.DEFAULT_TTL, true)).toBe(
+        true
+      );
+      expect(await adapter.acquireWriteLock('rw', 'writer', TEST_CONFIG.DEFAULT_TTL, 0)).toBe(
+        false
+      );
+
+      await adapter.releaseReadLock('rw', 'reader1');
+      await adapter.releaseReadLock('rw', 'reader2');
+
+      expect(await adapter.acquireWriteLock('rw', 'writer', TEST_CONFIG.DEFAULT_TTL, 0)).toBe(true);
+      expect(await adapter.get('rw')).toBe('writer');
+    });
+
+    it('should record writer intent and clear it on release', async () => {
+      await adapter.acquireReadLock('rw', 'reader', TEST_CONFIG.DEFAULT_TTL, true);
+      await adapter.acquireWriteLock('rw', 'writer', TEST_CONFIG.DEFAULT_TTL, 1000);
+
+      expect(await adapter.acquireReadLock('rw', 'late', TEST_CONFIG.DEFAULT_TTL, true)).toBe(
+        false
+      );
+      expect(await adapter.acquireReadLock('rw', 'late', TEST_CONFIG.DEFAULT_TTL, false)).toBe(
+        true
+      );
+
+      expect(await adapter.releaseWriteLock('rw', 'writer')).toBe(false);
+      expect(await adapter.acquireReadLock('rw', 'after', TEST_CONFIG.DEFAULT_TTL, true)).toBe(
+        true
+      );
+    });
+
+    it('should extend live read leases only', async () => {
+      await adapter.acquireReadLock('rw', 'reader', TEST_CONFIG.ULTRA_SHORT_TTL, false);
+
+      expect(await adapter.extendReadLock('rw', 'reader', TEST_CONFIG.DEFAULT_TTL)).toBe(true);
+      expect(await adapter.extendReadLock('rw', 'unknown', TEST_CONFIG.DEFAULT_TTL)).toBe(false);
+      expect(await adapter.countReaders('rw')).toBe(1);
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(await adapter.acquireWriteLock('rw', 'writer', TEST_CONFIG.DEFAULT_TTL, 0)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('semaphores', () => {
+    it('should admit holders up to the limit', async () => {
+      expect(await adapter.acquireSemaphore('sem', 'a', 2, TEST_CONFIG.DEFAULT_TTL)).toBe(true);
+      expect(await adapter.acquireSemaphore('sem', 'b', 2, TEST_CONFIG.DEFAULT_TTL)).toBe(true);
+      expect(await adapter.acquireSemaphore('sem', 'c', 2, TEST_CONFIG.DEFAULT_TTL)).toBe(false);
+      expect(await adapter.countSemaphoreHolders('sem')).toBe(2);
+
+      expect(await adapter.releaseSemaphore('sem', 'a')).toBe(true);
+      expect(await adapter.acquireSemaphore('sem', 'c', 2, TEST_CONFIG.DEFAULT_TTL)).toBe(true);
+    });
+
+    it('should free only the permit of an expired holder', async () => {
+      await adapter.acquireSemaphore('sem', 'short', 2, TEST_CONFIG.ULTRA_SHORT_TTL);
+      await adapter.acquireSemaphore('sem', 'long', 2, TEST_CONFIG.DEFAULT_TTL);
+
+      await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.ULTRA_SHORT_TTL + 20));
+
+      expect(await adapter.countSemaphoreHolders('sem')).toBe(1);
+      expect(await adapter.extendSemaphore('sem', 'short', TEST_CONFIG.DEFAULT_TTL)).toBe(false);
+      expect(await adapter.extendSemaphore('sem', 'long', TEST_CONFIG.DEFAULT_TTL)).toBe(true);
+    });
+
+    it('should reject invalid limits', async () => {
+      await expect(
+        adapter.acquireSemaphore('sem', 'a', 0, TEST_CONFIG.DEFAULT_TTL)
+      ).rejects.toThrow('Semaphore limit must be a positive integer');
+    });
+  });
+
+  describe('hierarchical locks', () => {
+    const { DEFAULT_TTL } = TEST_CONFIG;
+
+    it('should block descendants of a held key', async () => {
+      expect(await adapter.hierarchicalAcquire(['t:1'], ['tenant'], DEFAULT_TTL)).toEqual({
+        success: true,
+        acquiredCount: 1,
+      });
+
+      expect(await adapter.hierarchicalAcquire(['t:1:o:7'], ['order'], DEFAULT_TTL)).toMatchObject({
+        success: false,
+        failedKey: 't:1:o:7',
+      });
+      expect((await adapter.hierarchicalAcquire(['t:2:o:7'], ['other'], DEFAULT_TTL)).success).toBe(
+        true
+      );
+    });
+
+    it('should block ancestors of a held key until it is released', async () => {
+      await adapter.hierarchicalAcquire(['t:1:o:7'], ['order'], DEFAULT_TTL);
+      await adapter.hierarchicalAcquire(['t:1:o:8'], ['sibling'], DEFAULT_TTL);
+
+      expect((await adapter.hierarchicalAcquire(['t:1'], ['tenant'], DEFAULT_TTL)).success).toBe(
+        false
+      );
+
+      expect(await adapter.hierarchicalRelease('t:1:o:7', 'order')).toBe(true);
+      expect((await adapter.hierarchicalAcquire(['t:1'], ['tenant'], DEFAULT_TTL)).success).toBe(
+        false
+      );
+
+      expect(await adapter.hierarchicalRelease('t:1:o:8', 'sibling')).toBe(true);
+      expect((await adapter.hierarchicalAcquire(['t:1'], ['tenant'], DEFAULT_TTL)).success).toBe(
+        true
+      );
+    });
+
+    it('should acquire a batch all-or-nothing', async () => {
+      await adapter.hierarchicalAcquire(['t:2:o:1'], ['holder'], DEFAULT_TTL);
+
+      expect(
+        await adapter.hierarchicalAcquire(['t:1', 't:2'], ['a', 'b'], DEFAULT_TTL)
+      ).toMatchObject({ success: false, failedIndex: 2, failedKey: 't:2' });
+      expect(await adapter.get('t:1')).toBeNull();
+    });
+
+    it('should drop intention leases of expired holders', async () => {
+      await adapter.hierarchicalAcquire(['t:1:o:7'], ['order'], TEST_CONFIG.ULTRA_SHORT_TTL);
+
+      await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.ULTRA_SHORT_TTL + 20));
+
+      expect((await adapter.hierarchicalAcquire(['t:1'], ['tenant'], DEFAULT_TTL)).success).toBe(
+        true
+      );
+    });
+
+    it('should extend intention leases along with the lock', async () => {
+      await adapter.hierarchicalAcquire(['t:1:o:7'], ['order'], TEST_CONFIG.ULTRA_SHORT_TTL);
+
+      expect(await adapter.hierarchicalExtend('t:1:o:7', 'order', DEFAULT_TTL)).toBe(true);
+      expect(await adapter.hierarchicalExtend('t:1:o:7', 'other', DEFAULT_TTL)).toBe(false);
+
+      await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.ULTRA_SHORT_TTL + 20));
+
+      expect((await adapter.hierarchicalAcquire(['t:1'], ['tenant'], DEFAULT_TTL)).success).toBe(
+        false
+      );
+    });
+
+    it('should conflict with plain locks on an ancestor', async () => {
+      await adapter.setNX('t:1', 'plain', DEFAULT_TTL);
+
+      expect((await adapter.hierarchicalAcquire(['t:1:o:7'], ['order'], DEFAULT_TTL)).success).toBe(
+        false
+      );
+    });
+  });
+
   describe('ping', () => {
     it('should return PONG', async () => {
       const result = await adapter.ping();
@@ -373,4 +625,283 @@ describe('MemoryAdapter', () => {
       await prefixedAdapter.disconnect();
     });
   });
+
+  describe('fencing tokens', () => {
+    it('should issue increasing tokens across lock lifetimes', async () => {
+      expect(await adapter.setNXWithFencingToken('fenced', 'a', TEST_CONFIG.DEFAULT_TTL)).toBe(1);
+      expect(
+        await adapter.setNXWithFencingToken('fenced', 'b', TEST_CONFIG.DEFAULT_TTL)
+      ).toBeNull();
+
+      await adapter.delIfMatch('fenced', 'a');
+
+      expect(await adapter.setNXWithFencingToken('fenced', 'b', TEST_CONFIG.DEFAULT_TTL)).toBe(2);
+    });
+
+    it('should return tokens in key order for batch acquisition', async () => {
+      await adapter.setNXWithFencingToken('k2', 'v', TEST_CONFIG.DEFAULT_TTL);
+      await adapter.del('k2');
+
+      const result = await adapter.batchSetNXWithFencingTokens(
+        ['k1', 'k2'],
+        ['v1', 'v2'],
+        TEST_CONFIG.DEFAULT_TTL
+      );
+
+      expect(result).toEqual({ success: true, acquiredCount: 2, fencingTokens: [1, 2] });
+    });
+
+    it('should not issue tokens when batch acquisition fails', async () => {
+      await adapter.setNX('k2', 'held', TEST_CONFIG.DEFAULT_TTL);
+
+      const result = await adapter.batchSetNXWithFencingTokens(
+        ['k1', 'k2'],
+        ['v1', 'v2'],
+        TEST_CONFIG.DEFAULT_TTL
+      );
+
+      expect(result.success).toBe(false);
+      await adapter.del('k2');
+      expect(await adapter.setNXWithFencingToken('k1', 'v', TEST_CONFIG.DEFAULT_TTL)).toBe(1);
+    });
+  });
+
+  describe('reentrant locks', () => {
+    it('should count holds for the owner and delete on the last release', async () => {
+      expect(await adapter.reentrantAcquire('re', 'owner', TEST_CONFIG.DEFAULT_TTL)).toBe(1);
+      expect(await adapter.reentrantAcquire('re', 'owner', TEST_CONFIG.DEFAULT_TTL)).toBe(2);
+      expect(await adapter.reentrantAcquire('re', 'other', TEST_CONFIG.DEFAULT_TTL)).toBe(0);
+
+      expect(await adapter.reentrantRelease('re', 'owner')).toBe(1);
+      expect(await adapter.get('re')).toBe('owner');
+      expect(await adapter.reentrantRelease('re', 'owner')).toBe(0);
+      expect(await adapter.get('re')).toBeNull();
+      expect(await adapter.reentrantRelease('re', 'owner')).toBe(-1);
+    });
+
+    it('should extend only for the owner', async () => {
+      await adapter.reentrantAcquire('re', 'owner', TEST_CONFIG.ULTRA_SHORT_TTL);
+
+      expect(await adapter.reentrantExtend('re', 'other', TEST_CONFIG.DEFAULT_TTL)).toBe(false);
+      expect(await adapter.reentrantExtend('re', 'owner', TEST_CONFIG.DEFAULT_TTL)).toBe(true);
+
+      await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.ULTRA_SHORT_TTL + 20));
+      expect(await adapter.reentrantAcquire('re', 'owner', TEST_CONFIG.DEFAULT_TTL)).toBe(2);
+    });
+  });
+
+  describe('fair locks', () => {
+    it('should only grant the lock to the head of the queue', async () => {
+      await adapter.setNX('fair', 'holder', TEST_CONFIG.DEFAULT_TTL);
+
+      expect(await adapter.fairAcquire('fair', 'a', 1000, 1000, false)).toEqual({
+        acquired: false,
+        position: 0,
+      });
+      expect(await adapter.fairAcquire('fair', 'b', 1000, 1000, false)).toEqual({
+        acquired: false,
+        position: 1,
+      });
+
+      await adapter.del('fair');
+
+      expect((await adapter.fairAcquire('fair', 'b', 1000, 1000, false)).acquired).toBe(false);
+      expect(await adapter.fairAcquire('fair', 'a', 1000, 1000, true)).toEqual({
+        acquired: true,
+        position: 0,
+        fencingToken: 1,
+      });
+      expect(await adapter.getFairQueue('fair')).toEqual(['b']);
+    });
+
+    it('should drop tickets that are not refreshed', async () => {
+      await adapter.setNX('fair', 'holder', TEST_CONFIG.DEFAULT_TTL);
+      await adapter.fairAcquire('fair', 'stale', 1000, TEST_CONFIG.ULTRA_SHORT_TTL, false);
+      await adapter.fairAcquire('fair', 'live', 1000, TEST_CONFIG.DEFAULT_TTL, false);
+
+      await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.ULTRA_SHORT_TTL + 20));
+
+      expect(await adapter.getFairQueue('fair')).toEqual(['live']);
+      expect((await adapter.fairAcquire('fair', 'live', 1000, 1000, false)).position).toBe(0);
+    });
+
+    it('should cancel a waiting ticket', async () => {
+      await adapter.setNX('fair', 'holder', TEST_CONFIG.DEFAULT_TTL);
+      await adapter.fairAcquire('fair', 'a', 1000, 1000, false);
+
+      expect(await adapter.cancelFairWait('fair', 'a')).toBe(true);
+      expect(await adapter.cancelFairWait('fair', 'a')).toBe(false);
+      expect(await adapter.getFairQueue('fair')).toEqual([]);
+    });
+  });
+
+  describe('release notifications', () => {
+    it('should notify listeners when the owner releases', async () => {
+      const listener = vi.fn();
+      const unsubscribe = await adapter.subscribeToRelease('notify', listener);
+
+      await adapter.setNX('notify', 'owner', TEST_CONFIG.DEFAULT_TTL);
+      await adapter.delIfMatch('notify', 'other');
+      expect(listener).not.toHaveBeenCalled();
+
+      await adapter.delIfMatch('notify', 'owner');
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      await unsubscribe();
+      await adapter.setNX('notify', 'owner', TEST_CONFIG.DEFAULT_TTL);
+      await adapter.delIfMatch('notify', 'owner');
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify only when the last reentrant hold is released', async () => {
+      const listener = vi.fn();
+      await adapter.subscribeToRelease('notify', listener);
+
+      await adapter.reentrantAcquire('notify', 'owner', TEST_CONFIG.DEFAULT_TTL);
+      await adapter.reentrantAcquire('notify', 'owner', TEST_CONFIG.DEFAULT_TTL);
+      await adapter.reentrantRelease('notify', 'owner');
+      expect(listener).not.toHaveBeenCalled();
+
+      await adapter.reentrantRelease('notify', 'owner');
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('heartbeat takeover', () => {
+    it('should only take over holders whose heartbeat went stale', async () => {
+      await adapter.heartbeatAcquire('hb', 'holder', TEST_CONFIG.DEFAULT_TTL, 50);
+
+      expect(await adapter.takeoverStale('hb', 'thief', TEST_CONFIG.DEFAULT_TTL, 50)).toEqual({
+        acquired: false,
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+      const result = await adapter.takeoverStale('hb', 'thief', TEST_CONFIG.DEFAULT_TTL, 50);
+
+      expect(result.acquired).toBe(true);
+      expect(result.takeover).toMatchObject({
+        key: 'hb',
+        previousValue: 'holder',
+        newValue: 'thief',
+      });
+      expect(result.takeover!.heartbeatAge).toBeGreaterThan(50);
+      expect(await adapter.get('hb')).toBe('thief');
+      expect(await adapter.getTakeovers('hb')).toEqual([result.takeover]);
+      expect(await adapter.heartbeat('hb', 'holder')).toBe(false);
+    });
+
+    it('should never take over holders without a heartbeat record', async () => {
+      await adapter.setNX('hb', 'holder', TEST_CONFIG.DEFAULT_TTL);
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      expect(await adapter.takeoverStale('hb', 'thief', TEST_CONFIG.DEFAULT_TTL, 1)).toEqual({
+        acquired: false,
+      });
+      expect(await adapter.getTakeovers('hb')).toEqual([]);
+    });
+
+    it('should keep a holder live through heartbeats but not through extensions', async () => {
+      await adapter.heartbeatAcquire('hb', 'holder', TEST_CONFIG.DEFAULT_TTL, 100);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(await adapter.heartbeat('hb', 'holder')).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(
+        (await adapter.takeoverStale('hb', 'thief', TEST_CONFIG.DEFAULT_TTL, 100)).acquired
+      ).toBe(false);
+
+      expect(await adapter.heartbeatExtend('hb', 'holder', TEST_CONFIG.DEFAULT_TTL)).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 60));
+      expect(
+        (await adapter.takeoverStale('hb', 'thief', TEST_CONFIG.DEFAULT_TTL, 100)).acquired
+      ).toBe(true);
+    });
+
+    it('should release the lock together with its heartbeat record', async () => {
+      await adapter.heartbeatAcquire('hb', 'holder', TEST_CONFIG.DEFAULT_TTL, 20);
+
+      expect(await adapter.heartbeatRelease('hb', 'other')).toBe(false);
+      expect(await adapter.heartbeatRelease('hb', 'holder')).toBe(true);
+      expect(await adapter.heartbeat('hb', 'holder')).toBe(false);
+      expect(await adapter.takeoverStale('hb', 'next', TEST_CONFIG.DEFAULT_TTL, 20)).toEqual({
+        acquired: true,
+      });
+    });
+  });
+
+  describe('completion markers', () => {
+    it('should keep the first completion until the retention ends', async () => {
+      expect(await adapter.getCompletion('run')).toBeNull();
+      await adapter.setNX('run', 'holder', TEST_CONFIG.DEFAULT_TTL);
+
+      expect(await adapter.markCompleted('run', 'holder', '"first"', 30)).toBe(true);
+      expect(await adapter.markCompleted('run', 'holder', '"second"', 30)).toBe(false);
+      expect(await adapter.getCompletion('run')).toMatchObject({ result: '"first"' });
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(await adapter.getCompletion('run')).toBeNull();
+    });
+
+    it('should allow retention beyond the lock TTL limit', async () => {
+      const week = 7 * 24 * 60 * 60 * 1000;
+      await adapter.setNX('run', 'holder', TEST_CONFIG.DEFAULT_TTL);
+
+      expect(await adapter.markCompleted('run', 'holder', 'null', week)).toBe(true);
+      await expect(adapter.markCompleted('run', 'holder', 'null', 0)).rejects.toThrow(
+        'Retention must be a positive integer'
+      );
+    });
+
+    it('should only store the marker while the lock is held with the value', async () => {
+      expect(await adapter.markCompleted('run', 'holder', '"done"', 30)).toBe(false);
+
+      await adapter.setNX('run', 'other', TEST_CONFIG.DEFAULT_TTL);
+      expect(await adapter.markCompleted('run', 'holder', '"done"', 30)).toBe(false);
+      expect(await adapter.getCompletion('run')).toBeNull();
+    });
+  });
+
+  describe('wait-for graph', () => {
+    const graph = '{deadlock}';
+    const ttl = TEST_CONFIG.DEFAULT_TTL;
+
+    it('should refuse the wait edge that closes a cycle', async () => {
+      await adapter.waitForHold(graph, 'a', 'k1', ttl);
+      await adapter.waitForHold(graph, 'b', 'k2', ttl);
+
+      expect(await adapter.waitForEnqueue(graph, 'a', 'k2', ttl, false)).toBeNull();
+      expect(await adapter.waitForEnqueue(graph, 'b', 'k1', ttl, false)).toEqual([
+        { participant: 'b', key: 'k1' },
+        { participant: 'a', key: 'k2' },
+      ]);
+
+      await adapter.waitForRemove(graph, 'a', 'k2');
+      expect(await adapter.waitForEnqueue(graph, 'b', 'k1', ttl, false)).toBeNull();
+    });
+
+    it('should treat waiting for an own key as a cycle unless reentrant', async () => {
+      await adapter.waitForHold(graph, 'a', 'k1', ttl);
+
+      expect(await adapter.waitForEnqueue(graph, 'a', 'k1', ttl, false)).toEqual([
+        { participant: 'a', key: 'k1' },
+      ]);
+      expect(await adapter.waitForEnqueue(graph, 'a', 'k1', ttl, true)).toBeNull();
+    });
+
+    it('should ignore expired edges', async () => {
+      await adapter.waitForHold(graph, 'a', 'k1', 20);
+      await adapter.waitForHold(graph, 'b', 'k2', ttl);
+      await adapter.waitForEnqueue(graph, 'a', 'k2', ttl, false);
+      await new Promise(resolve => setTimeout(resolve, 40));
+
+      expect(await adapter.waitForEnqueue(graph, 'b', 'k1', ttl, false)).toBeNull();
+    });
+
+    it('should only remove edges of the given participant', async () => {
+      await adapter.waitForHold(graph, 'a', 'k1', ttl);
+      await adapter.waitForRemove(graph, 'b', 'k1');
+
+      expect(await adapter.waitForEnqueue(graph, 'a', 'k1', ttl, false)).not.toBeNull();
+    });
+  });
 });
@@ -220,4 +220,37 @@ describe('NodeRedisAdapter Unit Tests', () => {
       await expect(slowAdapter.get('key')).rejects.toThrow('Operation timed out after 100ms');
     });
   });
+
+  describe('release notifications', () => {
+    it('should subscribe on a connected duplicate and dispatch messages', async () => {
+      const subscriber = {
+        connect: vi.fn().mockResolvedValue(undefined),
+        subscribe: vi.fn().mockResolvedValue(undefined),
+        unsubscribe: vi.fn().mockResolvedValue(undefined),
+        disconnect: vi.fn().mockResolvedValue(undefined),
+      };
+      mockClient.duplicate = vi.fn(() => subscriber);
+      const listener = vi.fn();
+
+      const unsubscribe = await adapter.subscribeToRelease('lock', listener);
+
+      expect(subscriber.connect).toHaveBeenCalled();
+      expect(subscriber.subscribe).toHaveBeenCalledWith('lock:released', expect.any(Function));
+
+      const onMessage = subscriber.subscribe.mock.calls[0]![1];
+      onMessage('owner', 'lock:released');
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      await unsubscribe!();
+      expect(subscriber.unsubscribe).toHaveBeenCalledWith('lock:released');
+    });
+
+    it('should return null when the subscriber cannot connect', async () => {
+      mockClient.duplicate = vi.fn(() => ({
+        connect: vi.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+      }));
+
+      expect(await adapter.subscribeToRelease('lock', vi.fn())).toBeNull();
+    });
+  });
 });
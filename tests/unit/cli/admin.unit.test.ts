@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runAdmin, EXIT_CODES, type AdminEnvironment } from '../../../src/cli/admin.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+import { createLockValueWithOwner } from '../../../src/utils/crypto.js';
+import { TEST_CONFIG } from '../../shared/constants.js';
+
+describe('Admin CLI', () => {
+  let adapter: MemoryAdapter;
+  let stdout: string;
+  let stderr: string;
+  let env: AdminEnvironment & { confirm: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    adapter = new MemoryAdapter({ keyPrefix: 'app:' });
+    stdout = '';
+    stderr = '';
+    env = {
+      stdout: text => {
+        stdout += text;
+      },
+      stderr: text => {
+        stderr += text;
+      },
+      confirm: vi.fn().mockResolvedValue(true),
+      connect: vi.fn(async (_url, options) => {
+        expect(options).toEqual({ keyPrefix: 'app:' });
+        return { adapter, close: async () => {} };
+      }),
+    };
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  const run = (...argv: string[]) => runAdmin([...argv, '--key-prefix', 'app:'], env);
+
+  it('should list held locks by prefix', async () => {
+    const value = createLockValueWithOwner({ service: 'billing', hostname: 'web-1', pid: 42 });
+    await adapter.setNX('orders:1', value, TEST_CONFIG.DEFAULT_TTL);
+    await adapter.setNX('orders:2', 'plain-value', TEST_CONFIG.DEFAULT_TTL);
+    await adapter.setNX('reports:1', 'other', TEST_CONFIG.DEFAULT_TTL);
+
+    expect(await run('list', 'orders:')).toBe(EXIT_CODES.SUCCESS);
+
+    const lines = stdout.trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^orders:1 {2}ttl=\d+ms {2}service=billing hostname=web-1 pid=42$/);
+    expect(lines[1]).toMatch(/^orders:2 {2}ttl=\d+ms {2}plain-value$/);
+  });
+
+  it('should print JSON for scripting', async () => {
+    await adapter.setNX('orders:1', 'owner1', TEST_CONFIG.DEFAULT_TTL);
+
+    expect(await run('list', '--json')).toBe(EXIT_CODES.SUCCESS);
+    expect(JSON.parse(stdout)).toEqual([
+      { key: 'orders:1', value: 'owner1', ttl: expect.any(Number) },
+    ]);
+
+    stdout = '';
+    expect(await run('inspect', 'missing', '--json')).toBe(EXIT_CODES.FAILURE);
+    expect(JSON.parse(stdout)).toBeNull();
+  });
+
+  it('should inspect the owner and TTL of a lock', async () => {
+    const value = createLockValueWithOwner({ hostname: 'web-1', pid: 7, tags: { job: 'sync' } });
+    await adapter.setNX('orders:1', value, TEST_CONFIG.DEFAULT_TTL);
+
+    expect(await run('inspect', 'orders:1')).toBe(EXIT_CODES.SUCCESS);
+    expect(stdout).toContain(`value:  ${value}`);
+    expect(stdout).toContain('owner:  hostname=web-1 pid=7 job=sync');
+  });
+
+  it('should release a lock only with --force and after confirmation', async () => {
+    await adapter.setNX('orders:1', 'owner1', TEST_CONFIG.DEFAULT_TTL);
+
+    expect(await run('release', 'orders:1')).toBe(EXIT_CODES.USAGE);
+    expect(stderr).toContain('pass --force');
+
+    env.confirm.mockResolvedValueOnce(false);
+    expect(await run('release', '--force', 'orders:1')).toBe(EXIT_CODES.FAILURE);
+    expect(await adapter.get('orders:1')).toBe('owner1');
+
+    expect(await run('release', '--force', 'orders:1')).toBe(EXIT_CODES.SUCCESS);
+    expect(env.confirm).toHaveBeenLastCalledWith(
+      expect.stringMatching(/^Release lock "orders:1" held by owner1 \(ttl \d+ms\)\?$/)
+    );
+    expect(await adapter.get('orders:1')).toBeNull();
+  });
+
+  it('should not release a holder that took over during confirmation', async () => {
+    await adapter.setNX('orders:1', 'owner1', TEST_CONFIG.DEFAULT_TTL);
+    env.confirm.mockImplementationOnce(async () => {
+      await adapter.del('orders:1');
+      await adapter.setNX('orders:1', 'owner2', TEST_CONFIG.DEFAULT_TTL);
+      return true;
+    });
+
+    expect(await run('release', '--force', 'orders:1', '--json')).toBe(EXIT_CODES.FAILURE);
+    expect(JSON.parse(stdout)).toEqual({ key: 'orders:1', released: false });
+    expect(await adapter.get('orders:1')).toBe('owner2');
+  });
+
+  it('should show read leases and refuse to force-release a read-locked key', async () => {
+    await adapter.acquireReadLock('rw', 'reader1', TEST_CONFIG.DEFAULT_TTL, false);
+    await adapter.acquireReadLock('rw', 'reader2', TEST_CONFIG.DEFAULT_TTL, false);
+
+    expect(await run('inspect', 'rw')).toBe(EXIT_CODES.SUCCESS);
+    expect(stdout).toContain('readers: 2 read leases of a read-write lock');
+
+    expect(await run('release', '--force', 'rw')).toBe(EXIT_CODES.FAILURE);
+    expect(stderr).toContain('Lock "rw" is read-locked by 2 readers');
+    expect(env.confirm).not.toHaveBeenCalled();
+    expect(await adapter.countReaders('rw')).toBe(2);
+  });
+
+  it('should release hierarchical holders together with their intention leases', async () => {
+    await adapter.hierarchicalAcquire(['tenant:1:orders'], ['owner1'], TEST_CONFIG.DEFAULT_TTL);
+
+    expect(await run('inspect', 'tenant:1', '--json')).toBe(EXIT_CODES.FAILURE);
+    expect(JSON.parse(stdout)).toEqual({ key: 'tenant:1', intents: 1 });
+
+    expect(await run('release', '--force', 'tenant:1:orders')).toBe(EXIT_CODES.SUCCESS);
+    expect(await adapter.countSemaphoreHolders('tenant:1:intents')).toBe(0);
+    expect(
+      (await adapter.hierarchicalAcquire(['tenant:1'], ['owner2'], TEST_CONFIG.DEFAULT_TTL)).success
+    ).toBe(true);
+  });
+
+  it('should extend a held lock', async () => {
+    await adapter.setNX('orders:1', 'owner1', 1000);
+
+    expect(await run('extend', 'orders:1', '60000')).toBe(EXIT_CODES.SUCCESS);
+    expect((await adapter.inspect('orders:1'))?.ttl).toBeGreaterThan(59000);
+
+    expect(await run('extend', 'missing', '60000')).toBe(EXIT_CODES.FAILURE);
+    expect(await run('extend', 'orders:1', '1.5')).toBe(EXIT_CODES.USAGE);
+    expect(stderr).toContain('TTL must be a positive integer, got "1.5"');
+  });
+
+  it('should watch holder changes until aborted', async () => {
+    const controller = new AbortController();
+    env = { ...env, signal: controller.signal };
+    await adapter.setNX('orders:1', 'owner1', TEST_CONFIG.DEFAULT_TTL);
+
+    const watching = run('watch', 'orders:1', '--interval', '10', '--json');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await adapter.delIfMatch('orders:1', 'owner1');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    controller.abort();
+
+    expect(await watching).toBe(EXIT_CODES.SUCCESS);
+    const events = stdout
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(events.map(event => [event.event, event.value])).toEqual([
+      ['held', 'owner1'],
+      ['released', undefined],
+    ]);
+  });
+
+  it('should reject unknown commands without connecting', async () => {
+    expect(await run('drop', 'orders:1')).toBe(EXIT_CODES.USAGE);
+    expect(stderr).toContain('Unknown command "drop"');
+    expect(env.connect).not.toHaveBeenCalled();
+  });
+});
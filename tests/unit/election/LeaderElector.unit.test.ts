@@ -0,0 +1,279 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LeaderElector } from '../../../src/election/LeaderElector.js';
+import type { LeaderDemotedEvent } from '../../../src/election/LeaderElector.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+import { TEST_CONFIG } from '../../shared/constants.js';
+
+const ROLE = 'scheduler';
+const LEADER_KEY = `leader:${ROLE}`;
+const CAMPAIGN_INTERVAL = 20;
+
+const waitFor = async (condition: () => boolean, timeout = 3000): Promise<void> => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('LeaderElector', () => {
+  const electors: LeaderElector[] = [];
+
+  const createElector = (
+    adapter: MemoryAdapter,
+    overrides: Partial<ConstructorParameters<typeof LeaderElector>[0]> = {}
+  ): LeaderElector => {
+    const elector = new LeaderElector({
+      adapter,
+      role: ROLE,
+      campaignInterval: CAMPAIGN_INTERVAL,
+      ...overrides,
+    });
+    electors.push(elector);
+    return elector;
+  };
+
+  afterEach(async () => {
+    await Promise.all(electors.splice(0).map(elector => elector.resign()));
+  });
+
+  describe('configuration', () => {
+    it('should require a role and exactly one of adapter or adapters', () => {
+      const adapter = new MemoryAdapter();
+
+      expect(() => new LeaderElector({ adapter, role: '' })).toThrow(
+        'Leader role must be a non-empty string'
+      );
+      expect(() => new LeaderElector({ role: ROLE })).toThrow('Provide either adapter or adapters');
+      expect(() => new LeaderElector({ adapter, adapters: [adapter], role: ROLE })).toThrow(
+        'Provide either adapter or adapters'
+      );
+      expect(() => new LeaderElector({ adapter, role: ROLE, campaignInterval: -1 })).toThrow(
+        'Campaign interval must be a non-negative integer'
+      );
+    });
+  });
+
+  describe('campaigning', () => {
+    it('should become leader and emit elected', async () => {
+      const adapter = new MemoryAdapter();
+      const elector = createElector(adapter);
+      const elected = vi.fn();
+      elector.on('elected', elected);
+
+      elector.start();
+      await waitFor(() => elector.isLeader());
+
+      expect(elected).toHaveBeenCalledWith(
+        expect.objectContaining({
+          role: ROLE,
+          handle: expect.objectContaining({ key: LEADER_KEY }),
+        })
+      );
+      expect(await adapter.get(LEADER_KEY)).not.toBeNull();
+    });
+
+    it('should elect only one leader per role', async () => {
+      const adapter = new MemoryAdapter();
+      const first = createElector(adapter);
+      const second = createElector(adapter);
+
+      first.start();
+      await waitFor(() => first.isLeader());
+      second.start();
+      await new Promise(resolve => setTimeout(resolve, CAMPAIGN_INTERVAL * 5));
+
+      expect(first.isLeader()).toBe(true);
+      expect(second.isLeader()).toBe(false);
+    });
+
+    it('should hand leadership to a follower after the leader resigns', async () => {
+      const adapter = new MemoryAdapter();
+      const first = createElector(adapter);
+      const second = createElector(adapter);
+
+      first.start();
+      await waitFor(() => first.isLeader());
+      second.start();
+
+      await first.resign();
+      await waitFor(() => second.isLeader());
+
+      expect(first.isLeader()).toBe(false);
+    });
+
+    it('should include the fencing token of the term when fencing is enabled', async () => {
+      const elector = createElector(new MemoryAdapter(), { fencing: true });
+      const elected = vi.fn();
+      elector.on('elected', elected);
+
+      elector.start();
+      await waitFor(() => elector.isLeader());
+
+      expect(elected.mock.calls[0]![0].fencingToken).toEqual(expect.any(Number));
+    });
+
+    it('should campaign with a RedLock when given multiple adapters', async () => {
+      const nodes = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      const elector = createElector(nodes[0]!, { adapter: undefined, adapters: nodes });
+
+      elector.start();
+      await waitFor(() => elector.isLeader());
+
+      for (const node of nodes) {
+        expect(await node.get(LEADER_KEY)).not.toBeNull();
+      }
+    });
+
+    it('should keep campaigning after a listener throws', async () => {
+      const elector = createElector(new MemoryAdapter());
+      elector.on('elected', () => {
+        throw new Error('listener failed');
+      });
+
+      elector.start();
+      await waitFor(() => elector.isLeader());
+
+      expect(elector.isLeader()).toBe(true);
+    });
+  });
+
+  describe('auto-extension', () => {
+    it(
+      'should stay leader beyond the lock TTL',
+      async () => {
+        const adapter = new MemoryAdapter();
+        const elector = createElector(adapter, { ttl: TEST_CONFIG.SHORT_TTL });
+
+        elector.start();
+        await waitFor(() => elector.isLeader());
+        await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.SHORT_TTL + 500));
+
+        expect(elector.isLeader()).toBe(true);
+        expect(await adapter.get(LEADER_KEY)).not.toBeNull();
+      },
+      TEST_CONFIG.LONG_TTL
+    );
+
+    it(
+      'should emit demoted when extension fails and campaign again',
+      async () => {
+        const adapter = new MemoryAdapter();
+        const elector = createElector(adapter, { ttl: TEST_CONFIG.SHORT_TTL });
+        const elected = vi.fn();
+        const demoted = vi.fn();
+        elector.on('elected', elected);
+        elector.on('demoted', demoted);
+
+        elector.start();
+        await waitFor(() => elector.isLeader());
+
+        // Simulate losing the lock, e.g. expiry during a network partition
+        await adapter.del(LEADER_KEY);
+        await waitFor(() => demoted.mock.calls.length > 0, TEST_CONFIG.LONG_TTL);
+
+        const event = demoted.mock.calls[0]![0] as LeaderDemotedEvent;
+        expect(event.reason).toBe('lost');
+        expect(event.error).toBeInstanceOf(Error);
+
+        await waitFor(() => elected.mock.calls.length === 2);
+        expect(elector.isLeader()).toBe(true);
+      },
+      TEST_CONFIG.LONG_TTL
+    );
+  });
+
+  describe('resign', () => {
+    it('should release the leader lock and emit demoted', async () => {
+      const adapter = new MemoryAdapter();
+      const elector = createElector(adapter);
+      const demoted = vi.fn();
+      elector.on('demoted', demoted);
+
+      elector.start();
+      await waitFor(() => elector.isLeader());
+      await elector.resign();
+
+      expect(elector.isLeader()).toBe(false);
+      expect(demoted).toHaveBeenCalledWith({ role: ROLE, reason: 'resigned' });
+      expect(await adapter.get(LEADER_KEY)).toBeNull();
+    });
+
+    it('should stop a follower without emitting events', async () => {
+      const adapter = new MemoryAdapter();
+      const leader = createElector(adapter);
+      const follower = createElector(adapter, { campaignInterval: TEST_CONFIG.LONG_TTL });
+      const demoted = vi.fn();
+      follower.on('demoted', demoted);
+
+      leader.start();
+      await waitFor(() => leader.isLeader());
+      follower.start();
+
+      // Resolves without waiting for the campaign interval
+      const start = Date.now();
+      await follower.resign();
+
+      expect(Date.now() - start).toBeLessThan(TEST_CONFIG.DEFAULT_TTL);
+      expect(demoted).not.toHaveBeenCalled();
+    });
+
+    it('should allow campaigning again after resign', async () => {
+      const elector = createElector(new MemoryAdapter());
+
+      elector.start();
+      await waitFor(() => elector.isLeader());
+      await elector.resign();
+
+      elector.start();
+      await waitFor(() => elector.isLeader());
+    });
+
+    it('should refuse to start while the previous campaign is still stopping', async () => {
+      const elector = createElector(new MemoryAdapter());
+
+      elector.start();
+      await waitFor(() => elector.isLeader());
+      const resigning = elector.resign();
+
+      expect(() => elector.start()).toThrow('Leader elector is still stopping');
+      await resigning;
+
+      elector.start();
+      await waitFor(() => elector.isLeader());
+    });
+  });
+
+  describe('failures', () => {
+    it('should stop the campaign with an error event instead of an unhandled rejection', async () => {
+      const adapter = new MemoryAdapter();
+      vi.spyOn(adapter, 'setNX').mockRejectedValue(new Error('connection lost'));
+      const logger = {
+        debug: vi.fn(() => {
+          throw new Error('log sink closed');
+        }),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+      const elector = createElector(adapter, { logger });
+      const onError = vi.fn();
+      elector.on('error', onError);
+
+      elector.start();
+      await waitFor(() => onError.mock.calls.length > 0);
+
+      expect(onError).toHaveBeenCalledWith({ role: ROLE, error: new Error('log sink closed') });
+      expect(logger.error).toHaveBeenCalledWith('Leader campaign failed', expect.any(Error), {
+        role: ROLE,
+      });
+
+      vi.mocked(adapter.setNX).mockRestore();
+      logger.debug.mockReset();
+      elector.start();
+      await waitFor(() => elector.isLeader());
+    });
+  });
+});
@@ -5,12 +5,16 @@ import {
   createPrefixedLock,
   createRedlock,
   createRedlocks,
+  createReadWriteLock,
+  createSemaphore,
   type CreateLockConfig,
   type CreateRedlockConfig,
 } from '../../src/factory.js';
 import { SimpleLock } from '../../src/locks/SimpleLock.js';
 import { LeanSimpleLock } from '../../src/locks/LeanSimpleLock.js';
 import { RedLock } from '../../src/locks/RedLock.js';
+import { ReadWriteLock } from '../../src/locks/ReadWriteLock.js';
+import { Semaphore } from '../../src/locks/Semaphore.js';
 import { ConfigurationError } from '../../src/types/errors.js';
 import type { ILogger } from '../../src/monitoring/Logger.js';
 import type { RedisAdapter, AtomicExtensionResult } from '../../src/types/adapters.js';
@@ -493,4 +497,49 @@ describe('Factory Functions', () => {
       });
     });
   });
+
+  describe('createReadWriteLock', () => {
+    it('should create a ReadWriteLock with provided options', () => {
+      const rwLock = createReadWriteLock({
+        adapter: mockAdapter,
+        key: 'config:app',
+        ttl: 10000,
+        writerPreference: false,
+      });
+
+      expect(rwLock).toBeInstanceOf(ReadWriteLock);
+      expect(rwLock.getConfig()).toMatchObject({
+        key: 'config:app',
+        ttl: 10000,
+        writerPreference: false,
+      });
+    });
+
+    it('should throw when adapter or key is missing', () => {
+      expect(() => createReadWriteLock({ adapter: null as any, key: 'k' })).toThrow(
+        ConfigurationError
+      );
+      expect(() => createReadWriteLock({ adapter: mockAdapter, key: '' })).toThrow(
+        'Lock key is required'
+      );
+    });
+  });
+
+  describe('createSemaphore', () => {
+    it('should create a Semaphore with provided options', () => {
+      const semaphore = createSemaphore({ adapter: mockAdapter, key: 'pool', limit: 4, ttl: 8000 });
+
+      expect(semaphore).toBeInstanceOf(Semaphore);
+      expect(semaphore.getConfig()).toMatchObject({ key: 'pool', limit: 4, ttl: 8000 });
+    });
+
+    it('should throw on invalid limit', () => {
+      expect(() => createSemaphore({ adapter: mockAdapter, key: 'pool', limit: 0 })).toThrow(
+        ConfigurationError
+      );
+      expect(() => createSemaphore({ adapter: mockAdapter, key: 'pool', limit: 1.5 })).toThrow(
+        'Semaphore limit must be a positive integer'
+      );
+    });
+  });
 });
@@ -44,6 +44,16 @@ describe('Main Entry Point', () => {
       expect(RedlockUniversal.RedLock).toBeDefined();
       expect(typeof RedlockUniversal.RedLock).toBe('function');
     });
+
+    it('should export ReadWriteLock', () => {
+      expect(RedlockUniversal.ReadWriteLock).toBeDefined();
+      expect(typeof RedlockUniversal.ReadWriteLock).toBe('function');
+    });
+
+    it('should export Semaphore', () => {
+      expect(RedlockUniversal.Semaphore).toBeDefined();
+      expect(typeof RedlockUniversal.Semaphore).toBe('function');
+    });
   });
 
   describe('Adapter Classes', () => {
@@ -70,6 +80,13 @@ describe('Main Entry Point', () => {
     });
   });
 
+  describe('Leader Election', () => {
+    it('should export LeaderElector', () => {
+      expect(RedlockUniversal.LeaderElector).toBeDefined();
+      expect(typeof RedlockUniversal.LeaderElector).toBe('function');
+    });
+  });
+
   describe('Monitoring', () => {
     it('should export MetricsCollector', () => {
       expect(RedlockUniversal.MetricsCollector).toBeDefined();
@@ -81,6 +98,21 @@ describe('Main Entry Point', () => {
       expect(typeof RedlockUniversal.HealthChecker).toBe('function');
     });
 
+    it('should export span names and attributes', () => {
+      expect(RedlockUniversal.SPAN_NAMES.ACQUIRE).toBe('redlock.acquire');
+      expect(RedlockUniversal.SPAN_ATTRIBUTES.KEY).toBe('redlock.key');
+    });
+
+    it('should export LockEventEmitter', () => {
+      expect(RedlockUniversal.LockEventEmitter).toBeDefined();
+      expect(typeof RedlockUniversal.LockEventEmitter).toBe('function');
+    });
+
+    it('should export MonitoringServer', () => {
+      expect(RedlockUniversal.MonitoringServer).toBeDefined();
+      expect(typeof RedlockUniversal.MonitoringServer).toBe('function');
+    });
+
     it('should export Logger', () => {
       expect(RedlockUniversal.Logger).toBeDefined();
       expect(typeof RedlockUniversal.Logger).toBe('function');
@@ -123,6 +155,11 @@ describe('Main Entry Point', () => {
       expect(typeof RedlockUniversal.parseLockValue).toBe('function');
     });
 
+    it('should export owner metadata helpers', () => {
+      expect(typeof RedlockUniversal.createLockValueWithOwner).toBe('function');
+      expect(typeof RedlockUniversal.parseLockOwner).toBe('function');
+    });
+
     it('should export isValidLockValue', () => {
       expect(RedlockUniversal.isValidLockValue).toBeDefined();
       expect(typeof RedlockUniversal.isValidLockValue).toBe('function');
@@ -140,6 +177,16 @@ describe('Main Entry Point', () => {
       expect(typeof RedlockUniversal.LockAcquisitionError).toBe('function');
     });
 
+    it('should export LockAcquisitionTimeoutError', () => {
+      expect(RedlockUniversal.LockAcquisitionTimeoutError).toBeDefined();
+      expect(typeof RedlockUniversal.LockAcquisitionTimeoutError).toBe('function');
+    });
+
+    it('should export DeadlockError and LockOrderViolationError', () => {
+      expect(typeof RedlockUniversal.DeadlockError).toBe('function');
+      expect(typeof RedlockUniversal.LockOrderViolationError).toBe('function');
+    });
+
     it('should export LockReleaseError', () => {
       expect(RedlockUniversal.LockReleaseError).toBeDefined();
       expect(typeof RedlockUniversal.LockReleaseError).toBe('function');
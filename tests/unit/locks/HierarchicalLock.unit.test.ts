@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { HierarchicalLock } from '../../../src/locks/HierarchicalLock.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+import {
+  LockAcquisitionError,
+  LockAcquisitionTimeoutError,
+  LockReleaseError,
+} from '../../../src/types/errors.js';
+import { TEST_CONFIG } from '../../shared/constants.js';
+
+const TENANT = 'tenant:42';
+const ORDER = 'tenant:42:order:7';
+const LINE = 'tenant:42:order:7:line:3';
+
+describe('HierarchicalLock Unit Tests', () => {
+  let adapter: MemoryAdapter;
+
+  const createLock = (key: string, ttl: number = TEST_CONFIG.DEFAULT_TTL) =>
+    new HierarchicalLock({
+      adapter,
+      key,
+      ttl,
+      retryAttempts: 0,
+      retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+    });
+
+  beforeEach(() => {
+    adapter = new MemoryAdapter();
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  describe('constructor', () => {
+    it('should apply defaults', () => {
+      const config = new HierarchicalLock({ adapter, key: TENANT }).getConfig();
+
+      expect(config.ttl).toBe(30000);
+      expect(config.retryAttempts).toBe(3);
+    });
+
+    it('should reject keys with empty segments', () => {
+      expect(() => new HierarchicalLock({ adapter, key: 'tenant::42' })).toThrow(
+        'Hierarchical lock key must not contain empty segments'
+      );
+      expect(() => new HierarchicalLock({ adapter, key: 'tenant:' })).toThrow(
+        'Hierarchical lock key must not contain empty segments'
+      );
+    });
+  });
+
+  describe('conflicts', () => {
+    it('should block every descendant while an ancestor is held', async () => {
+      const handle = await createLock(TENANT).acquire();
+
+      await expect(createLock(ORDER).acquire()).rejects.toThrow(LockAcquisitionError);
+      await expect(createLock(LINE).acquire()).rejects.toThrow(LockAcquisitionError);
+
+      await createLock(TENANT).release(handle);
+      await expect(createLock(LINE).acquire()).resolves.toMatchObject({ key: LINE });
+    });
+
+    it('should block ancestors while a descendant is held', async () => {
+      const line = createLock(LINE);
+      const handle = await line.acquire();
+
+      await expect(createLock(ORDER).acquire()).rejects.toThrow(LockAcquisitionError);
+      await expect(createLock(TENANT).acquire()).rejects.toThrow(LockAcquisitionError);
+
+      expect(await line.release(handle)).toBe(true);
+      await expect(createLock(TENANT).acquire()).resolves.toMatchObject({ key: TENANT });
+    });
+
+    it('should let siblings and other subtrees proceed', async () => {
+      await createLock(ORDER).acquire();
+
+      await expect(createLock('tenant:42:order:8').acquire()).resolves.toBeDefined();
+      await expect(createLock('tenant:43').acquire()).resolves.toBeDefined();
+    });
+
+    it('should wait for a conflicting holder within its retries', async () => {
+      const order = createLock(ORDER, TEST_CONFIG.ULTRA_SHORT_TTL);
+      await order.acquire();
+
+      const tenant = new HierarchicalLock({
+        adapter,
+        key: TENANT,
+        retryAttempts: 10,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+      });
+
+      const handle = await tenant.acquire();
+      expect(handle.metadata).toMatchObject({ strategy: 'hierarchical' });
+      expect(handle.metadata!.attempts).toBeGreaterThan(1);
+    });
+
+    it('should honour acquireTimeout', async () => {
+      await createLock(ORDER).acquire();
+      const tenant = new HierarchicalLock({ adapter, key: TENANT, retryAttempts: 100 });
+
+      await expect(tenant.acquire({ acquireTimeout: 30 })).rejects.toThrow(
+        LockAcquisitionTimeoutError
+      );
+    });
+  });
+
+  describe('release and extend', () => {
+    it('should only release locks it still owns', async () => {
+      const lock = createLock(ORDER);
+      const handle = await lock.acquire();
+
+      expect(await lock.release(handle)).toBe(true);
+      expect(await lock.release(handle)).toBe(false);
+    });
+
+    it('should extend the intention leases with the lock', async () => {
+      const order = createLock(ORDER, TEST_CONFIG.ULTRA_SHORT_TTL);
+      const handle = await order.acquire();
+
+      expect(await order.extend(handle, TEST_CONFIG.DEFAULT_TTL)).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.ULTRA_SHORT_TTL + 20));
+
+      await expect(createLock(TENANT).acquire()).rejects.toThrow(LockAcquisitionError);
+    });
+
+    it('should reject handles of other keys', async () => {
+      const handle = await createLock(ORDER).acquire();
+
+      await expect(createLock(TENANT).release(handle)).rejects.toThrow(
+        `Lock handle key "${ORDER}" does not match lock key "${TENANT}"`
+      );
+    });
+
+    it('should wrap adapter errors', async () => {
+      const lock = createLock(ORDER);
+      const handle = await lock.acquire();
+      vi.spyOn(adapter, 'hierarchicalRelease').mockRejectedValue(new Error('connection lost'));
+
+      await expect(lock.release(handle)).rejects.toThrow(LockReleaseError);
+    });
+  });
+
+  describe('using', () => {
+    it(
+      'should hold the subtree beyond the TTL with auto-extension',
+      async () => {
+        const order = createLock(ORDER, TEST_CONFIG.SHORT_TTL);
+
+        await order.using(async () => {
+          await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.SHORT_TTL + 300));
+          await expect(createLock(TENANT).acquire()).rejects.toThrow(LockAcquisitionError);
+        });
+
+        await expect(createLock(TENANT).acquire()).resolves.toBeDefined();
+      },
+      TEST_CONFIG.LONG_TTL
+    );
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { LeanSimpleLock } from '../../../src/locks/LeanSimpleLock.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
 import {
   LockAcquisitionError,
+  LockAcquisitionTimeoutError,
   LockReleaseError,
   LockExtensionError,
 } from '../../../src/types/errors.js';
@@ -97,6 +99,30 @@ describe('LeanSimpleLock Unit Tests', () => {
       await expect(lock.acquire()).rejects.toThrow(LockAcquisitionError);
     });
 
+    it('should time out with LockAcquisitionTimeoutError', async () => {
+      mockAdapter.setNX = vi.fn().mockResolvedValue(null);
+      const slowLock = new LeanSimpleLock({
+        adapter: mockAdapter,
+        key: 'test-lock',
+        retryAttempts: 10,
+        retryDelay: 1000,
+      });
+
+      await expect(slowLock.acquire({ acquireTimeout: 20 })).rejects.toThrow(
+        LockAcquisitionTimeoutError
+      );
+      expect(mockAdapter.setNX).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass the TTL override to Redis', async () => {
+      mockAdapter.setNX = vi.fn().mockResolvedValue('OK');
+
+      const handle = await lock.acquire({ ttl: 1000 });
+
+      expect(handle.ttl).toBe(1000);
+      expect(mockAdapter.setNX).toHaveBeenCalledWith('test-lock', handle.value, 1000);
+    });
+
     it('should generate unique lock values', async () => {
       mockAdapter.setNX = vi.fn().mockResolvedValue('OK');
 
@@ -115,6 +141,57 @@ describe('LeanSimpleLock Unit Tests', () => {
     });
   });
 
+  describe('tryAcquire', () => {
+    it('should return the handle on success', async () => {
+      mockAdapter.setNX = vi.fn().mockResolvedValue('OK');
+
+      const result = await lock.tryAcquire();
+
+      expect(result.acquired).toBe(true);
+      expect(result.acquired && result.handle.key).toBe('test-lock');
+    });
+
+    it('should report the holder after a single attempt', async () => {
+      mockAdapter.setNX = vi.fn().mockResolvedValue(null);
+      mockAdapter.inspect = vi.fn().mockResolvedValue({ value: 'other', ttl: 1200 });
+
+      const result = await lock.tryAcquire();
+
+      expect(result).toEqual({
+        acquired: false,
+        reason: 'held',
+        key: 'test-lock',
+        holder: { value: 'other', ttl: 1200 },
+      });
+      expect(mockAdapter.setNX).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report adapter errors instead of throwing', async () => {
+      const redisError = new Error('Redis connection failed');
+      mockAdapter.setNX = vi.fn().mockRejectedValue(redisError);
+
+      await expect(lock.tryAcquire()).resolves.toEqual({
+        acquired: false,
+        reason: 'adapter-error',
+        key: 'test-lock',
+        error: redisError,
+      });
+    });
+  });
+
+  describe('resume', () => {
+    it('should return the handle only while it owns the lock', async () => {
+      mockAdapter.setNX = vi.fn().mockResolvedValue('OK');
+      const handle = await lock.acquire();
+
+      mockAdapter.inspect = vi.fn().mockResolvedValue({ value: handle.value, ttl: 3000 });
+      expect(await lock.resume(handle)).toBe(handle);
+
+      mockAdapter.inspect = vi.fn().mockResolvedValue({ value: 'other', ttl: 3000 });
+      expect(await lock.resume(handle)).toBeNull();
+    });
+  });
+
   describe('release', () => {
     it('should successfully release lock', async () => {
       mockAdapter.delIfMatch = vi.fn().mockResolvedValue(true);
@@ -256,4 +333,49 @@ describe('LeanSimpleLock Unit Tests', () => {
       expect(Object.keys(handle.metadata!)).toEqual(['attempts', 'acquisitionTime', 'strategy']);
     });
   });
+
+  describe('fencing tokens', () => {
+    it('should return the fencing token on the handle when enabled', async () => {
+      const fencedAdapter = {
+        ...mockAdapter,
+        setNXWithFencingToken: vi.fn().mockResolvedValueOnce(null).mockResolvedValueOnce(9),
+      };
+      const fencedLock = new LeanSimpleLock({
+        adapter: fencedAdapter,
+        key: 'test-lock',
+        retryDelay: 1,
+        fencing: true,
+      });
+
+      const handle = await fencedLock.acquire();
+
+      expect(handle.fencingToken).toBe(9);
+      expect(mockAdapter.setNX).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('local queue', () => {
+    it('should send one local contender at a time to Redis', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const setNX = vi.spyOn(memoryAdapter, 'setNX');
+      const createLock = () =>
+        new LeanSimpleLock({
+          adapter: memoryAdapter,
+          key: 'lock:report:123',
+          retryAttempts: 50,
+          retryDelay: 10,
+          localQueue: true,
+        });
+
+      const handles = [createLock().acquire(), createLock().acquire(), createLock().acquire()];
+      for (const pending of handles) {
+        const handle = await pending;
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await createLock().release(handle);
+      }
+
+      expect(setNX).toHaveBeenCalledTimes(3);
+      expect(await createLock().tryAcquire()).toMatchObject({ acquired: true });
+    });
+  });
 });
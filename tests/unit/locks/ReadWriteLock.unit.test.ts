@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ReadWriteLock } from '../../../src/locks/ReadWriteLock.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+import {
+  LockAcquisitionError,
+  LockAcquisitionTimeoutError,
+  LockReleaseError,
+} from '../../../src/types/errors.js';
+import { TEST_CONFIG } from '../../shared/constants.js';
+
+describe('ReadWriteLock Unit Tests', () => {
+  let adapter: MemoryAdapter;
+  let rwLock: ReadWriteLock;
+
+  beforeEach(() => {
+    adapter = new MemoryAdapter();
+    rwLock = new ReadWriteLock({
+      adapter,
+      key: 'config:app',
+      ttl: TEST_CONFIG.DEFAULT_TTL,
+      retryAttempts: 0,
+      retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+    });
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  describe('constructor', () => {
+    it('should apply defaults', () => {
+      const config = new ReadWriteLock({ adapter, key: 'defaults' }).getConfig();
+
+      expect(config.ttl).toBe(30000);
+      expect(config.retryAttempts).toBe(3);
+      expect(config.writerPreference).toBe(true);
+    });
+
+    it('should validate configuration', () => {
+      expect(() => new ReadWriteLock({ adapter, key: '' })).toThrow(
+        'Lock key must be a non-empty string'
+      );
+      expect(() => new ReadWriteLock({ adapter, key: 'k', ttl: 0 })).toThrow(
+        'TTL must be a positive integer'
+      );
+      expect(() => new ReadWriteLock({ adapter, key: 'k', retryDelay: -1 })).toThrow(
+        'Retry delay must be a non-negative integer'
+      );
+    });
+  });
+
+  describe('shared readers', () => {
+    it('should allow multiple readers at once', async () => {
+      const first = await rwLock.readLock().acquire();
+      const second = await rwLock.readLock().acquire();
+
+      expect(first.value).not.toBe(second.value);
+      expect(first.metadata).toMatchObject({ strategy: 'read-write', mode: 'read' });
+      expect(second.metadata?.mode).toBe('read');
+    });
+
+    it('should block writers while readers hold the lock', async () => {
+      const reader = await rwLock.readLock().acquire();
+
+      await expect(rwLock.writeLock().acquire()).rejects.toThrow(LockAcquisitionError);
+
+      await rwLock.readLock().release(reader);
+      const writer = await rwLock.writeLock().acquire();
+      expect(writer.metadata?.mode).toBe('write');
+    });
+
+    it('should only drop the lease of the released reader', async () => {
+      const first = await rwLock.readLock().acquire();
+      await rwLock.readLock().acquire();
+
+      expect(await rwLock.readLock().release(first)).toBe(true);
+      expect(await rwLock.readLock().release(first)).toBe(false);
+      await expect(rwLock.writeLock().acquire()).rejects.toThrow(LockAcquisitionError);
+    });
+
+    it('should let an expired reader lease free the write side', async () => {
+      const shortLock = new ReadWriteLock({
+        adapter,
+        key: 'short',
+        ttl: TEST_CONFIG.ULTRA_SHORT_TTL,
+        retryAttempts: 0,
+      });
+
+      await shortLock.readLock().acquire();
+      await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.ULTRA_SHORT_TTL + 20));
+
+      await expect(shortLock.writeLock().acquire()).resolves.toMatchObject({ key: 'short' });
+    });
+  });
+
+  describe('exclusive writer', () => {
+    it('should block readers and writers while a writer holds the lock', async () => {
+      const writer = await rwLock.writeLock().acquire();
+
+      await expect(rwLock.readLock().acquire()).rejects.toThrow(LockAcquisitionError);
+      await expect(rwLock.writeLock().acquire()).rejects.toThrow(LockAcquisitionError);
+
+      expect(await rwLock.writeLock().release(writer)).toBe(true);
+      await expect(rwLock.readLock().acquire()).resolves.toBeDefined();
+    });
+
+    it('should report the write side through isLocked', async () => {
+      expect(await rwLock.writeLock().isLocked('config:app')).toBe(false);
+
+      await rwLock.writeLock().acquire();
+
+      expect(await rwLock.readLock().isLocked('config:app')).toBe(true);
+    });
+  });
+
+  describe('writer preference', () => {
+    it('should block new readers while a writer is waiting', async () => {
+      const reader = await rwLock.readLock().acquire();
+
+      await expect(rwLock.writeLock().acquire()).rejects.toThrow(LockAcquisitionError);
+      // The failed writer withdraws its intent once it gives up
+      const secondReader = await rwLock.readLock().acquire();
+
+      const waitingWriter = new ReadWriteLock({
+        adapter,
+        key: 'config:app',
+        retryAttempts: 20,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+      });
+      const writerPromise = waitingWriter.writeLock().acquire();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      await expect(rwLock.readLock().acquire()).rejects.toThrow(LockAcquisitionError);
+
+      await rwLock.readLock().release(reader);
+      await rwLock.readLock().release(secondReader);
+
+      const writer = await writerPromise;
+      expect(writer.metadata?.mode).toBe('write');
+    });
+
+    it('should withdraw writer intent when a waiting writer times out', async () => {
+      await rwLock.readLock().acquire();
+      const waitingWriter = new ReadWriteLock({
+        adapter,
+        key: 'config:app',
+        retryAttempts: 20,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+      });
+
+      await expect(waitingWriter.writeLock().acquire({ acquireTimeout: 30 })).rejects.toThrow(
+        LockAcquisitionTimeoutError
+      );
+      await expect(rwLock.readLock().acquire()).resolves.toBeDefined();
+    });
+
+    it('should let readers in while a writer waits when disabled', async () => {
+      const readerFriendly = new ReadWriteLock({
+        adapter,
+        key: 'config:app',
+        retryAttempts: 0,
+        writerPreference: false,
+      });
+
+      await readerFriendly.readLock().acquire();
+      await expect(readerFriendly.writeLock().acquire()).rejects.toThrow(LockAcquisitionError);
+      await expect(readerFriendly.readLock().acquire()).resolves.toBeDefined();
+    });
+  });
+
+  describe('handles', () => {
+    it('should reject handles from the other mode', async () => {
+      const reader = await rwLock.readLock().acquire();
+
+      await expect(rwLock.writeLock().release(reader)).rejects.toThrow(
+        'Lock handle was acquired in read mode, not write mode'
+      );
+    });
+
+    it('should extend read leases', async () => {
+      const reader = await rwLock.readLock().acquire();
+
+      expect(await rwLock.readLock().extend(reader, TEST_CONFIG.LONG_TTL)).toBe(true);
+      await rwLock.readLock().release(reader);
+      expect(await rwLock.readLock().extend(reader, TEST_CONFIG.LONG_TTL)).toBe(false);
+    });
+
+    it('should wrap adapter errors on release', async () => {
+      const reader = await rwLock.readLock().acquire();
+      vi.spyOn(adapter, 'releaseReadLock').mockRejectedValueOnce(new Error('boom'));
+
+      await expect(rwLock.readLock().release(reader)).rejects.toThrow(LockReleaseError);
+    });
+  });
+
+  describe('using', () => {
+    it('should run readers concurrently and release afterwards', async () => {
+      let concurrentReaders = 0;
+      let maxConcurrentReaders = 0;
+
+      const read = () =>
+        rwLock.readLock().using(async () => {
+          concurrentReaders++;
+          maxConcurrentReaders = Math.max(maxConcurrentReaders, concurrentReaders);
+          await new Promise(resolve => setTimeout(resolve, 20));
+          concurrentReaders--;
+        });
+
+      await Promise.all([read(), read(), read()]);
+
+      expect(maxConcurrentReaders).toBe(3);
+      await expect(rwLock.writeLock().acquire()).resolves.toBeDefined();
+    });
+
+    it('should auto-extend read leases through the lock', async () => {
+      const extendSpy = vi.spyOn(adapter, 'extendReadLock');
+      const atomicSpy = vi.spyOn(adapter, 'atomicExtend');
+      const shortLock = new ReadWriteLock({
+        adapter,
+        key: 'long-read',
+        ttl: TEST_CONFIG.SHORT_TTL,
+      });
+
+      const result = await shortLock.readLock().using(async signal => {
+        await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.SHORT_TTL - 100));
+        return signal.aborted;
+      });
+
+      expect(result).toBe(false);
+      expect(extendSpy).toHaveBeenCalled();
+      expect(atomicSpy).not.toHaveBeenCalled();
+    });
+  });
+});
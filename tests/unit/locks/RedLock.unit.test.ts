@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { RedLock } from '../../../src/locks/RedLock.js';
-import { LockAcquisitionError } from '../../../src/types/errors.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+import { LockAcquisitionError, LockAcquisitionTimeoutError } from '../../../src/types/errors.js';
+import { serializeHandle } from '../../../src/utils/handle-serialization.js';
 import type { RedisAdapter, AtomicExtensionResult } from '../../../src/types/adapters.js';
 import type { RedLockConfig } from '../../../src/types/locks.js';
 import {
@@ -724,4 +726,254 @@ describe('RedLock', () => {
       });
     });
   });
+
+  describe('Fencing Tokens', () => {
+    it('should use the highest token across the quorum', async () => {
+      const nodes = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      const fencedKey = generateTestKey('fenced');
+
+      // Advance one node's counter past the others
+      for (let i = 0; i < 4; i++) {
+        await nodes[1]!.setNXWithFencingToken(fencedKey, `old-${i}`, TEST_CONFIG.DEFAULT_TTL);
+        await nodes[1]!.del(fencedKey);
+      }
+
+      const fencedRedlock = new RedLock({
+        adapters: nodes,
+        key: fencedKey,
+        ttl: TEST_CONFIG.DEFAULT_TTL,
+        fencing: true,
+      });
+
+      const first = await fencedRedlock.acquire();
+      expect(first.fencingToken).toBe(5);
+
+      await fencedRedlock.release(first);
+      const second = await fencedRedlock.acquire();
+      expect(second.fencingToken).toBe(6);
+
+      await fencedRedlock.release(second);
+      await Promise.all(nodes.map(node => node.disconnect()));
+    });
+
+    it('should expose the fencing token on the using() signal', async () => {
+      const nodes = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      const fencedRedlock = new RedLock({
+        adapters: nodes,
+        key: generateTestKey('fenced-using'),
+        ttl: TEST_CONFIG.DEFAULT_TTL,
+        fencing: true,
+      });
+
+      const token = await fencedRedlock.using(async signal => signal.fencingToken);
+
+      expect(token).toBe(1);
+      await Promise.all(nodes.map(node => node.disconnect()));
+    });
+  });
+
+  describe('Reentrant Locks', () => {
+    it('should count holds on every node and release on the last hold', async () => {
+      const nodes = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      const reentrantKey = generateTestKey('reentrant');
+      const reentrantRedlock = new RedLock({
+        adapters: nodes,
+        key: reentrantKey,
+        ttl: TEST_CONFIG.DEFAULT_TTL,
+        retryAttempts: 0,
+        reentrant: true,
+        ownerId: 'job-7',
+      });
+
+      const outer = await reentrantRedlock.acquire();
+      const inner = await reentrantRedlock.acquire();
+
+      expect(outer.value).toBe('job-7');
+      expect(inner.metadata?.holdCount).toBe(2);
+
+      expect(await reentrantRedlock.release(inner)).toBe(true);
+      expect(await reentrantRedlock.isLocked(reentrantKey)).toBe(true);
+
+      expect(await reentrantRedlock.release(outer)).toBe(true);
+      expect(await reentrantRedlock.isLocked(reentrantKey)).toBe(false);
+
+      await Promise.all(nodes.map(node => node.disconnect()));
+    });
+
+    it('should roll back holds when quorum is not reached', async () => {
+      const nodes = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      const reentrantKey = generateTestKey('reentrant-partial');
+      await nodes[0]!.setNX(reentrantKey, 'someone-else', TEST_CONFIG.DEFAULT_TTL);
+      await nodes[1]!.setNX(reentrantKey, 'someone-else', TEST_CONFIG.DEFAULT_TTL);
+
+      const reentrantRedlock = new RedLock({
+        adapters: nodes,
+        key: reentrantKey,
+        retryAttempts: 0,
+        reentrant: true,
+      });
+
+      await expect(reentrantRedlock.acquire()).rejects.toThrow(LockAcquisitionError);
+      expect(await nodes[2]!.get(reentrantKey)).toBeNull();
+
+      await Promise.all(nodes.map(node => node.disconnect()));
+    });
+  });
+
+  describe('Acquire Options', () => {
+    it('should release partial node locks when aborted', async () => {
+      const key = getTestKey();
+      const lock = new RedLock({ adapters, key, quorum: TEST_CONFIG.DEFAULT_QUORUM_5 });
+      adapters.slice(2).forEach(adapter => (adapter.simulateLatency = 100));
+      const controller = new AbortController();
+
+      const pending = lock.acquire({ signal: controller.signal });
+      setTimeout(() => controller.abort(new Error('cancelled')), 20);
+
+      await expect(pending).rejects.toThrow('cancelled');
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const values = await Promise.all(adapters.map(adapter => adapter.get(key)));
+      expect(values.every(value => value === null)).toBe(true);
+    });
+
+    it('should time out across retries with LockAcquisitionTimeoutError', async () => {
+      const key = getTestKey();
+      adapters.forEach(adapter => (adapter.shouldFailSetNX = true));
+      const lock = new RedLock({
+        adapters,
+        key,
+        retryAttempts: 100,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+      });
+
+      const error = await lock.acquire({ acquireTimeout: 100 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(LockAcquisitionTimeoutError);
+      expect(error.message).toContain('Timed out acquiring lock');
+    });
+
+    it('should apply the TTL override on every node', async () => {
+      const key = getTestKey();
+      const lock = new RedLock({ adapters, key, ttl: TEST_CONFIG.LONG_TTL });
+      const setNXSpy = vi.spyOn(adapters[0]!, 'setNX');
+
+      const handle = await lock.acquire({ ttl: TEST_CONFIG.SHORT_TTL });
+
+      expect(handle.ttl).toBe(TEST_CONFIG.SHORT_TTL);
+      expect(setNXSpy).toHaveBeenCalledWith(key, handle.value, TEST_CONFIG.SHORT_TTL);
+    });
+  });
+
+  describe('Try Acquire', () => {
+    it('should report a lock held on every node with its holder', async () => {
+      const key = getTestKey();
+      const holder = new RedLock({ adapters, key, retryAttempts: 0 });
+      const contender = new RedLock({ adapters, key, retryAttempts: 0 });
+      adapters.forEach(adapter => (adapter.inspect = vi.fn().mockResolvedValue(null)));
+      vi.mocked(adapters[1]!.inspect).mockResolvedValue({ value: 'holder', ttl: 5000 });
+
+      await holder.acquire();
+      const result = await contender.tryAcquire();
+
+      expect(result).toEqual({
+        acquired: false,
+        reason: 'held',
+        key,
+        holder: { value: 'holder', ttl: 5000 },
+      });
+    });
+
+    it('should release partial locks when the quorum is not reached', async () => {
+      const key = getTestKey();
+      const lock = new RedLock({ adapters, key });
+      await Promise.all(adapters.slice(0, 3).map(adapter => adapter.setNX(key, 'other', 5000)));
+
+      const result = await lock.tryAcquire();
+
+      expect(result).toEqual({
+        acquired: false,
+        reason: 'quorum-not-reached',
+        key,
+        successCount: 2,
+        quorum: TEST_CONFIG.DEFAULT_QUORUM_5,
+      });
+      expect(await adapters[4]!.get(key)).toBeNull();
+    });
+
+    it('should report adapter errors when every refusing node failed', async () => {
+      const key = getTestKey();
+      adapters.forEach(adapter => (adapter.shouldFailSetNX = true));
+
+      const result = await new RedLock({ adapters, key }).tryAcquire();
+
+      expect(result).toMatchObject({ acquired: false, reason: 'adapter-error', key });
+    });
+
+    it('should return a handle when the quorum is reached', async () => {
+      const result = await redlock.tryAcquire();
+
+      expect(result.acquired).toBe(true);
+      expect(result.acquired && result.handle.metadata?.nodes).toHaveLength(5);
+    });
+  });
+
+  describe('Resume', () => {
+    it('should resume a handle owned on a quorum of its recorded nodes', async () => {
+      const nodes = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      const key = generateTestKey('resume');
+      const lock = new RedLock({ adapters: nodes, key });
+      const handle = await lock.acquire();
+      const serialized = serializeHandle(handle);
+
+      expect(await new RedLock({ adapters: nodes, key }).resume(serialized)).toMatchObject({
+        value: handle.value,
+      });
+
+      await nodes[0]!.delIfMatch(key, handle.value);
+      await nodes[1]!.delIfMatch(key, handle.value);
+      expect(await lock.resume(serialized)).toBeNull();
+
+      await Promise.all(nodes.map(node => node.disconnect()));
+    });
+
+    it('should reject nodes that are not part of this RedLock', async () => {
+      const key = getTestKey();
+      const handle = await new RedLock({ adapters, key }).acquire();
+      const smaller = new RedLock({ adapters: adapters.slice(0, 3), key });
+
+      await expect(
+        smaller.resume({ ...handle, metadata: { ...handle.metadata!, nodes: ['node-4'] } })
+      ).rejects.toThrow('Lock handle node "node-4" is not part of this RedLock');
+      await expect(
+        smaller.resume({ ...handle, metadata: { ...handle.metadata!, strategy: 'simple' } })
+      ).rejects.toThrow('Cannot resume a simple handle with a RedLock');
+    });
+  });
+
+  describe('Pubsub Wait Mode', () => {
+    it('should retry as soon as the holder releases on the nodes', async () => {
+      const nodes = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      const hotKey = generateTestKey('hot');
+      const holderLock = new RedLock({ adapters: nodes, key: hotKey, retryAttempts: 0 });
+      const waitingLock = new RedLock({
+        adapters: nodes,
+        key: hotKey,
+        retryAttempts: 1,
+        retryDelay: TEST_CONFIG.LONG_TTL,
+        waitMode: 'pubsub',
+      });
+
+      const holder = await holderLock.acquire();
+      const waiting = waitingLock.acquire();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await holderLock.release(holder);
+
+      const handle = await waiting;
+      expect(handle.metadata?.acquisitionTime).toBeLessThan(TEST_CONFIG.LONG_TTL / 2);
+
+      await waitingLock.release(handle);
+      await Promise.all(nodes.map(node => node.disconnect()));
+    });
+  });
 });
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Semaphore } from '../../../src/locks/Semaphore.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+import {
+  LockAcquisitionError,
+  LockAcquisitionTimeoutError,
+  LockExtensionError,
+  LockReleaseError,
+} from '../../../src/types/errors.js';
+import { TEST_CONFIG } from '../../shared/constants.js';
+
+describe('Semaphore Unit Tests', () => {
+  let adapter: MemoryAdapter;
+  let semaphore: Semaphore;
+
+  beforeEach(() => {
+    adapter = new MemoryAdapter();
+    semaphore = new Semaphore({
+      adapter,
+      key: 'api:quota',
+      limit: 2,
+      ttl: TEST_CONFIG.DEFAULT_TTL,
+      retryAttempts: 0,
+      retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+    });
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  describe('constructor', () => {
+    it('should apply defaults', () => {
+      const config = new Semaphore({ adapter, key: 'defaults', limit: 3 }).getConfig();
+
+      expect(config.limit).toBe(3);
+      expect(config.ttl).toBe(30000);
+      expect(config.retryAttempts).toBe(3);
+    });
+
+    it('should validate configuration', () => {
+      expect(() => new Semaphore({ adapter, key: '', limit: 1 })).toThrow(
+        'Lock key must be a non-empty string'
+      );
+      expect(() => new Semaphore({ adapter, key: 'k', limit: 0 })).toThrow(
+        'Semaphore limit must be a positive integer'
+      );
+      expect(() => new Semaphore({ adapter, key: 'k', limit: 1, ttl: -5 })).toThrow(
+        'TTL must be a positive integer'
+      );
+    });
+  });
+
+  describe('acquire', () => {
+    it('should hand out a separate handle per holder up to the limit', async () => {
+      const first = await semaphore.acquire();
+      const second = await semaphore.acquire();
+
+      expect(first.value).not.toBe(second.value);
+      expect(first.metadata).toMatchObject({ strategy: 'semaphore', limit: 2 });
+      await expect(semaphore.acquire()).rejects.toThrow(LockAcquisitionError);
+    });
+
+    it('should wait for a permit when retries are configured', async () => {
+      const holder = await semaphore.acquire();
+      await semaphore.acquire();
+
+      const waiting = new Semaphore({
+        adapter,
+        key: 'api:quota',
+        limit: 2,
+        retryAttempts: 20,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+      });
+      const waitingPromise = waiting.acquire();
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await semaphore.release(holder);
+
+      const handle = await waitingPromise;
+      expect(handle.metadata?.attempts).toBeGreaterThan(1);
+    });
+
+    it('should give up waiting for a permit when aborted', async () => {
+      await semaphore.acquire();
+      await semaphore.acquire();
+      const waiting = new Semaphore({
+        adapter,
+        key: 'api:quota',
+        limit: 2,
+        retryAttempts: 20,
+        retryDelay: TEST_CONFIG.LONG_TTL,
+      });
+      const controller = new AbortController();
+
+      const waitingPromise = waiting.acquire({ signal: controller.signal });
+      setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+      await expect(waitingPromise).rejects.toThrow('cancelled');
+      await expect(waiting.acquire({ acquireTimeout: 0 })).rejects.toThrow(
+        LockAcquisitionTimeoutError
+      );
+    });
+
+    it('should free only the permit of a crashed holder', async () => {
+      const shortSemaphore = new Semaphore({
+        adapter,
+        key: 'short',
+        limit: 2,
+        ttl: TEST_CONFIG.ULTRA_SHORT_TTL,
+        retryAttempts: 0,
+      });
+      const longSemaphore = new Semaphore({ adapter, key: 'short', limit: 2, retryAttempts: 0 });
+
+      await shortSemaphore.acquire();
+      await longSemaphore.acquire();
+      await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.ULTRA_SHORT_TTL + 20));
+
+      await expect(longSemaphore.acquire()).resolves.toBeDefined();
+      await expect(longSemaphore.acquire()).rejects.toThrow(LockAcquisitionError);
+    });
+  });
+
+  describe('release and extend', () => {
+    it('should only return the permit of the released handle', async () => {
+      const first = await semaphore.acquire();
+      await semaphore.acquire();
+
+      expect(await semaphore.release(first)).toBe(true);
+      expect(await semaphore.release(first)).toBe(false);
+      expect(await semaphore.getAvailablePermits()).toBe(1);
+    });
+
+    it('should extend live leases only', async () => {
+      const handle = await semaphore.acquire();
+
+      expect(await semaphore.extend(handle, TEST_CONFIG.LONG_TTL)).toBe(true);
+      await semaphore.release(handle);
+      expect(await semaphore.extend(handle, TEST_CONFIG.LONG_TTL)).toBe(false);
+    });
+
+    it('should reject handles for another key', async () => {
+      const handle = await semaphore.acquire();
+
+      await expect(semaphore.release({ ...handle, key: 'other' })).rejects.toThrow(
+        'Lock handle key "other" does not match lock key "api:quota"'
+      );
+    });
+
+    it('should wrap adapter errors', async () => {
+      const handle = await semaphore.acquire();
+      vi.spyOn(adapter, 'releaseSemaphore').mockRejectedValueOnce(new Error('boom'));
+      vi.spyOn(adapter, 'extendSemaphore').mockRejectedValueOnce(new Error('boom'));
+
+      await expect(semaphore.release(handle)).rejects.toThrow(LockReleaseError);
+      await expect(semaphore.extend(handle, TEST_CONFIG.LONG_TTL)).rejects.toThrow(
+        LockExtensionError
+      );
+    });
+  });
+
+  describe('isLocked', () => {
+    it('should report locked only when every permit is taken', async () => {
+      await semaphore.acquire();
+      expect(await semaphore.isLocked('api:quota')).toBe(false);
+
+      await semaphore.acquire();
+      expect(await semaphore.isLocked('api:quota')).toBe(true);
+    });
+  });
+
+  describe('using', () => {
+    it('should cap concurrent routines at the limit', async () => {
+      const waitingSemaphore = new Semaphore({
+        adapter,
+        key: 'api:quota',
+        limit: 2,
+        retryAttempts: 50,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+      });
+      let running = 0;
+      let maxRunning = 0;
+
+      const task = () =>
+        waitingSemaphore.using(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise(resolve => setTimeout(resolve, 20));
+          running--;
+        });
+
+      await Promise.all([task(), task(), task(), task()]);
+
+      expect(maxRunning).toBe(2);
+      expect(await waitingSemaphore.getAvailablePermits()).toBe(2);
+    });
+
+    it('should auto-extend leases through the semaphore', async () => {
+      const extendSpy = vi.spyOn(adapter, 'extendSemaphore');
+      const atomicSpy = vi.spyOn(adapter, 'atomicExtend');
+      const shortSemaphore = new Semaphore({
+        adapter,
+        key: 'long-task',
+        limit: 1,
+        ttl: TEST_CONFIG.SHORT_TTL,
+      });
+
+      const result = await shortSemaphore.using(async signal => {
+        await new Promise(resolve => setTimeout(resolve, TEST_CONFIG.SHORT_TTL - 100));
+        return signal.aborted;
+      });
+
+      expect(result).toBe(false);
+      expect(extendSpy).toHaveBeenCalled();
+      expect(atomicSpy).not.toHaveBeenCalled();
+    });
+  });
+});
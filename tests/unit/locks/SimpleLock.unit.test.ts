@@ -1,11 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { hostname } from 'os';
 import { SimpleLock } from '../../../src/locks/SimpleLock.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
 import {
   LockAcquisitionError,
+  LockAcquisitionTimeoutError,
   LockReleaseError,
   LockExtensionError,
+  RunOnceError,
 } from '../../../src/types/errors.js';
 import type { RedisAdapter, AtomicExtensionResult } from '../../../src/types/adapters.js';
+import { serializeHandle, deserializeHandle } from '../../../src/utils/handle-serialization.js';
 import { TEST_CONFIG } from '../../shared/constants.js';
 
 describe('SimpleLock Unit Tests', () => {
@@ -321,6 +326,17 @@ describe('SimpleLock Unit Tests', () => {
       const adapter = lock.getAdapter();
       expect(adapter).toBe(mockAdapter);
     });
+
+    it('should add the correlation ID to handle metadata', async () => {
+      const correlated = new SimpleLock({
+        adapter: new MemoryAdapter(),
+        key: 'test-lock',
+        correlationId: 'req-42',
+      });
+
+      const handle = await correlated.acquire();
+      expect(handle.metadata).toMatchObject({ strategy: 'simple', correlationId: 'req-42' });
+    });
   });
 
   describe('using() API', () => {
@@ -649,4 +665,952 @@ describe('SimpleLock Unit Tests', () => {
       }
     });
   });
+
+  describe('fencing tokens', () => {
+    it('should return the fencing token on the handle when enabled', async () => {
+      const fencedAdapter = {
+        ...mockAdapter,
+        setNXWithFencingToken: vi.fn().mockResolvedValue(42),
+      };
+      const fencedLock = new SimpleLock({
+        adapter: fencedAdapter,
+        key: 'test-lock',
+        fencing: true,
+      });
+
+      const handle = await fencedLock.acquire();
+
+      expect(handle.fencingToken).toBe(42);
+      expect(fencedAdapter.setNXWithFencingToken).toHaveBeenCalledWith(
+        'test-lock',
+        handle.value,
+        30000
+      );
+      expect(mockAdapter.setNX).not.toHaveBeenCalled();
+    });
+
+    it('should retry while the fenced acquisition finds the lock held', async () => {
+      const fencedAdapter = {
+        ...mockAdapter,
+        setNXWithFencingToken: vi.fn().mockResolvedValueOnce(null).mockResolvedValueOnce(3),
+      };
+      const fencedLock = new SimpleLock({
+        adapter: fencedAdapter,
+        key: 'test-lock',
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+        fencing: true,
+      });
+
+      const handle = await fencedLock.acquire();
+
+      expect(handle.fencingToken).toBe(3);
+      expect(handle.metadata?.attempts).toBe(2);
+    });
+
+    it('should not set a fencing token by default', async () => {
+      vi.mocked(mockAdapter.setNX).mockResolvedValue('OK');
+
+      const handle = await lock.acquire();
+
+      expect(handle).not.toHaveProperty('fencingToken');
+    });
+  });
+
+  describe('reentrant locks', () => {
+    let memoryAdapter: MemoryAdapter;
+
+    beforeEach(() => {
+      memoryAdapter = new MemoryAdapter();
+    });
+
+    it('should count holds for the same owner instead of failing', async () => {
+      const reentrantLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'order:1',
+        retryAttempts: 0,
+        reentrant: true,
+      });
+
+      const outer = await reentrantLock.acquire();
+      const inner = await reentrantLock.acquire();
+
+      expect(outer.metadata?.holdCount).toBe(1);
+      expect(inner.metadata?.holdCount).toBe(2);
+      expect(inner.value).toBe(outer.value);
+
+      await reentrantLock.release(inner);
+      expect(await reentrantLock.isLocked('order:1')).toBe(true);
+
+      await reentrantLock.release(outer);
+      expect(await reentrantLock.isLocked('order:1')).toBe(false);
+    });
+
+    it('should share holds across lock instances with the same owner identity', async () => {
+      const options = { adapter: memoryAdapter, key: 'order:2', retryAttempts: 0, reentrant: true };
+      const service = new SimpleLock({ ...options, ownerId: 'request-1' });
+      const nested = new SimpleLock({ ...options, ownerId: 'request-1' });
+      const other = new SimpleLock({ ...options, ownerId: 'request-2' });
+
+      await service.acquire();
+      const nestedHandle = await nested.acquire();
+
+      expect(nestedHandle.metadata?.holdCount).toBe(2);
+      await expect(other.acquire()).rejects.toThrow(LockAcquisitionError);
+    });
+
+    it('should reject another owner and use a unique owner per instance by default', async () => {
+      const first = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'order:3',
+        retryAttempts: 0,
+        reentrant: true,
+      });
+      const second = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'order:3',
+        retryAttempts: 0,
+        reentrant: true,
+      });
+
+      await first.acquire();
+
+      await expect(second.acquire()).rejects.toThrow(LockAcquisitionError);
+      expect(first.getConfig().ownerId).not.toBe(second.getConfig().ownerId);
+    });
+
+    it('should support nested using() calls', async () => {
+      const reentrantLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'order:4',
+        retryAttempts: 0,
+        reentrant: true,
+      });
+
+      const result = await reentrantLock.using(async () =>
+        reentrantLock.using(async () => 'nested')
+      );
+
+      expect(result).toBe('nested');
+      expect(await reentrantLock.isLocked('order:4')).toBe(false);
+    });
+
+    it('should reject fencing for reentrant locks', () => {
+      expect(
+        () => new SimpleLock({ adapter: memoryAdapter, key: 'k', reentrant: true, fencing: true })
+      ).toThrow('Fencing tokens are not supported for reentrant locks');
+    });
+  });
+
+  describe('fair locks', () => {
+    let memoryAdapter: MemoryAdapter;
+
+    const createFairLock = (retryAttempts: number) =>
+      new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'queue:job',
+        ttl: TEST_CONFIG.DEFAULT_TTL,
+        retryAttempts,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+        fair: true,
+      });
+
+    beforeEach(() => {
+      memoryAdapter = new MemoryAdapter();
+    });
+
+    it('should grant the lock to waiters in arrival order', async () => {
+      const holderLock = createFairLock(0);
+      let handle = await holderLock.acquire();
+      const order: number[] = [];
+
+      const waiters = [1, 2, 3].map(async id => {
+        const lock = createFairLock(100);
+        await new Promise(resolve => setTimeout(resolve, id * 5));
+        const waiterHandle = await lock.acquire();
+        order.push(id);
+        return { lock, handle: waiterHandle };
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 40));
+      await holderLock.release(handle);
+
+      for (const waiter of waiters) {
+        const next = await waiter;
+        await next.lock.release(next.handle);
+        handle = next.handle;
+      }
+
+      expect(order).toEqual([1, 2, 3]);
+    });
+
+    it('should not let a newcomer jump the queue when the lock frees up', async () => {
+      const holderLock = createFairLock(0);
+      const holder = await holderLock.acquire();
+      const waiting = createFairLock(100).acquire();
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await holderLock.release(holder);
+
+      await expect(createFairLock(0).acquire()).rejects.toThrow(LockAcquisitionError);
+      await expect(waiting).resolves.toMatchObject({ key: 'queue:job' });
+    });
+
+    it('should leave the queue when giving up', async () => {
+      const holderLock = createFairLock(0);
+      await holderLock.acquire();
+
+      await expect(createFairLock(1).acquire()).rejects.toThrow(LockAcquisitionError);
+
+      const inspection = await holderLock.inspectQueue();
+      expect(inspection.waiters).toEqual([]);
+    });
+
+    it('should expose queue positions and estimated waits', async () => {
+      const holderLock = createFairLock(0);
+      const holder = await holderLock.acquire();
+
+      await memoryAdapter.fairAcquire('queue:job', 'first', 1000, TEST_CONFIG.DEFAULT_TTL, false);
+      await memoryAdapter.fairAcquire('queue:job', 'second', 1000, TEST_CONFIG.DEFAULT_TTL, false);
+
+      const inspection = await holderLock.inspectQueue();
+
+      expect(inspection.holder?.value).toBe(holder.value);
+      expect(inspection.waiters.map(waiter => waiter.ticket)).toEqual(['first', 'second']);
+      expect(inspection.waiters.map(waiter => waiter.position)).toEqual([0, 1]);
+      expect(inspection.waiters[0]!.estimatedWait).toBeLessThanOrEqual(TEST_CONFIG.DEFAULT_TTL);
+      expect(inspection.waiters[1]!.estimatedWait - inspection.waiters[0]!.estimatedWait).toBe(
+        TEST_CONFIG.DEFAULT_TTL
+      );
+    });
+
+    it('should issue fencing tokens when enabled', async () => {
+      const fencedLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'queue:fenced',
+        retryAttempts: 0,
+        fair: true,
+        fencing: true,
+      });
+
+      const first = await fencedLock.acquire();
+      await fencedLock.release(first);
+      const second = await fencedLock.acquire();
+
+      expect(second.fencingToken).toBe(first.fencingToken! + 1);
+    });
+
+    it('should reject fair reentrant locks', () => {
+      expect(
+        () => new SimpleLock({ adapter: memoryAdapter, key: 'k', reentrant: true, fair: true })
+      ).toThrow('Reentrant locks cannot be fair');
+    });
+  });
+
+  describe('pubsub wait mode', () => {
+    let memoryAdapter: MemoryAdapter;
+
+    beforeEach(() => {
+      memoryAdapter = new MemoryAdapter();
+    });
+
+    it('should retry as soon as the holder releases', async () => {
+      const holderLock = new SimpleLock({ adapter: memoryAdapter, key: 'hot', retryAttempts: 0 });
+      const holder = await holderLock.acquire();
+      const waitingLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'hot',
+        retryAttempts: 1,
+        retryDelay: TEST_CONFIG.LONG_TTL,
+        waitMode: 'pubsub',
+      });
+
+      const waiting = waitingLock.acquire();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await holderLock.release(holder);
+
+      const handle = await waiting;
+      expect(handle.metadata?.acquisitionTime).toBeLessThan(TEST_CONFIG.LONG_TTL / 2);
+      expect(handle.metadata?.attempts).toBe(2);
+    });
+
+    it('should unsubscribe once acquisition ends', async () => {
+      const unsubscribe = vi.fn().mockResolvedValue(undefined);
+      vi.spyOn(memoryAdapter, 'subscribeToRelease').mockResolvedValue(unsubscribe);
+      await memoryAdapter.setNX('hot', 'holder', TEST_CONFIG.DEFAULT_TTL);
+
+      const waitingLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'hot',
+        retryAttempts: 1,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+        waitMode: 'pubsub',
+      });
+
+      await expect(waitingLock.acquire()).rejects.toThrow(LockAcquisitionError);
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to polling when the adapter cannot subscribe', async () => {
+      vi.spyOn(memoryAdapter, 'subscribeToRelease').mockResolvedValue(null);
+      await memoryAdapter.setNX('hot', 'holder', TEST_CONFIG.ULTRA_SHORT_TTL);
+
+      const waitingLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'hot',
+        retryAttempts: 20,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+        waitMode: 'pubsub',
+      });
+
+      await expect(waitingLock.acquire()).resolves.toMatchObject({ key: 'hot' });
+    });
+
+    it('should not subscribe when the lock is free', async () => {
+      const subscribeSpy = vi.spyOn(memoryAdapter, 'subscribeToRelease');
+      const lock = new SimpleLock({ adapter: memoryAdapter, key: 'free', waitMode: 'pubsub' });
+
+      await lock.acquire();
+
+      expect(subscribeSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retry strategies', () => {
+    it('should wait the delays chosen by the strategy and log them', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      await memoryAdapter.setNX('busy', 'holder', TEST_CONFIG.DEFAULT_TTL);
+
+      const strategyLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'busy',
+        retryAttempts: 2,
+        retryStrategy: ({ attempt }) => attempt * 5,
+        logger,
+      });
+
+      await expect(strategyLock.acquire()).rejects.toThrow(LockAcquisitionError);
+
+      expect(logger.debug).toHaveBeenCalledWith(
+        'Retrying lock acquisition',
+        expect.objectContaining({ attempt: 1, delay: 5 })
+      );
+      expect(logger.debug).toHaveBeenCalledWith(
+        'Retrying lock acquisition',
+        expect.objectContaining({ attempt: 2, delay: 10 })
+      );
+    });
+
+    it('should validate the strategy', () => {
+      expect(
+        () =>
+          new SimpleLock({
+            adapter: new MemoryAdapter(),
+            key: 'k',
+            retryStrategy: { type: 'exponential', maxDelay: -1 },
+          })
+      ).toThrow('Retry strategy maxDelay must be a non-negative integer');
+    });
+  });
+
+  describe('acquire options', () => {
+    const holdKey = async (memoryAdapter: MemoryAdapter, key: string) =>
+      memoryAdapter.setNX(key, 'holder', TEST_CONFIG.LONG_TTL);
+
+    it('should stop waiting when the signal is aborted', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      await holdKey(memoryAdapter, 'busy');
+      const waitingLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'busy',
+        retryAttempts: 5,
+        retryDelay: TEST_CONFIG.LONG_TTL,
+      });
+      const controller = new AbortController();
+      const startTime = Date.now();
+
+      const pending = waitingLock.acquire({ signal: controller.signal });
+      setTimeout(() => controller.abort(new Error('shutting down')), 20);
+
+      await expect(pending).rejects.toThrow('shutting down');
+      expect(Date.now() - startTime).toBeLessThan(TEST_CONFIG.LONG_TTL / 2);
+    });
+
+    it('should not touch Redis when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(lock.acquire({ signal: controller.signal })).rejects.toThrow();
+      expect(mockAdapter.setNX).not.toHaveBeenCalled();
+    });
+
+    it('should reject with LockAcquisitionTimeoutError when acquireTimeout elapses', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      await holdKey(memoryAdapter, 'busy');
+      const waitingLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'busy',
+        retryAttempts: 100,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+      });
+
+      const error = await waitingLock.acquire({ acquireTimeout: 120 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(LockAcquisitionTimeoutError);
+      expect(error).toBeInstanceOf(LockAcquisitionError);
+      expect(error.code).toBe('LOCK_ACQUISITION_TIMEOUT');
+      expect(error.timeout).toBe(120);
+      expect(error.attempts).toBeLessThan(100);
+      expect(error.message).toContain('is already held');
+    });
+
+    it('should release a lock acquired by an interrupted in-flight call', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const setNX = memoryAdapter.setNX.bind(memoryAdapter);
+      vi.spyOn(memoryAdapter, 'setNX').mockImplementation(async (key, value, ttl) => {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return setNX(key, value, ttl);
+      });
+      const slowLock = new SimpleLock({ adapter: memoryAdapter, key: 'slow', retryAttempts: 0 });
+      const controller = new AbortController();
+
+      const pending = slowLock.acquire({ signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(pending).rejects.toThrow();
+      await new Promise(resolve => setTimeout(resolve, 80));
+      expect(await memoryAdapter.get('slow')).toBeNull();
+    });
+
+    it('should use the TTL override for this acquisition', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const ttlLock = new SimpleLock({ adapter: memoryAdapter, key: 'ttl', retryAttempts: 0 });
+
+      const handle = await ttlLock.acquire({ ttl: TEST_CONFIG.SHORT_TTL });
+
+      expect(handle.ttl).toBe(TEST_CONFIG.SHORT_TTL);
+      expect((await memoryAdapter.inspect('ttl'))?.ttl).toBeLessThanOrEqual(TEST_CONFIG.SHORT_TTL);
+    });
+
+    it('should validate the options', async () => {
+      await expect(lock.acquire({ ttl: 0 })).rejects.toThrow('TTL must be a positive integer');
+      await expect(lock.acquire({ acquireTimeout: -1 })).rejects.toThrow(
+        'Acquire timeout must be a non-negative integer'
+      );
+    });
+
+    it('should leave the fair queue when aborted', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      await holdKey(memoryAdapter, 'fair');
+      const fairLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'fair',
+        fair: true,
+        retryAttempts: 5,
+        retryDelay: TEST_CONFIG.FAST_RETRY_DELAY,
+      });
+
+      await expect(fairLock.acquire({ acquireTimeout: 30 })).rejects.toThrow(
+        LockAcquisitionTimeoutError
+      );
+      expect(await memoryAdapter.getFairQueue('fair')).toEqual([]);
+    });
+  });
+
+  describe('tryAcquire', () => {
+    it('should return the handle on success', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const tryLock = new SimpleLock({ adapter: memoryAdapter, key: 'try', fencing: true });
+
+      const result = await tryLock.tryAcquire();
+
+      expect(result.acquired).toBe(true);
+      if (result.acquired) {
+        expect(result.handle.metadata?.attempts).toBe(1);
+        expect(result.handle.fencingToken).toBeDefined();
+      }
+    });
+
+    it('should report the current holder without retrying or throwing', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      await memoryAdapter.setNX('try', 'holder', TEST_CONFIG.LONG_TTL);
+      const setNXSpy = vi.spyOn(memoryAdapter, 'setNX');
+      const tryLock = new SimpleLock({ adapter: memoryAdapter, key: 'try', retryAttempts: 5 });
+
+      const result = await tryLock.tryAcquire();
+
+      expect(result).toMatchObject({
+        acquired: false,
+        reason: 'held',
+        key: 'try',
+        holder: { value: 'holder' },
+      });
+      expect(setNXSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report adapter errors and then the open circuit', async () => {
+      vi.mocked(mockAdapter.setNX).mockRejectedValue(new Error('ECONNRESET'));
+      const breakerLock = new SimpleLock({
+        adapter: mockAdapter,
+        key: 'try',
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      const failed = await breakerLock.tryAcquire();
+      const rejected = await breakerLock.tryAcquire();
+
+      expect(failed).toMatchObject({
+        acquired: false,
+        reason: 'adapter-error',
+        error: expect.objectContaining({ message: 'ECONNRESET' }),
+      });
+      expect(rejected).toEqual({ acquired: false, reason: 'circuit-open', key: 'try' });
+    });
+
+    it('should not keep a fair queue ticket after a failed attempt', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      await memoryAdapter.setNX('fair', 'holder', TEST_CONFIG.LONG_TTL);
+      const fairLock = new SimpleLock({ adapter: memoryAdapter, key: 'fair', fair: true });
+
+      expect((await fairLock.tryAcquire()).acquired).toBe(false);
+      expect(await memoryAdapter.getFairQueue('fair')).toEqual([]);
+    });
+  });
+
+  describe('resume', () => {
+    it('should reattach a serialized handle that still owns the lock', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const owner = new SimpleLock({ adapter: memoryAdapter, key: 'job' });
+      const worker = new SimpleLock({ adapter: memoryAdapter, key: 'job' });
+      const handle = await owner.acquire();
+
+      const resumed = await worker.resume(serializeHandle(handle));
+
+      expect(resumed).toMatchObject({ id: handle.id, value: handle.value });
+      expect(await worker.extend(resumed!, TEST_CONFIG.LONG_TTL)).toBe(true);
+      expect(await worker.release(resumed!)).toBe(true);
+    });
+
+    it('should return null once the lock has another owner', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const owner = new SimpleLock({ adapter: memoryAdapter, key: 'job' });
+      const handle = await owner.acquire();
+      await owner.release(handle);
+      await memoryAdapter.setNX('job', 'someone-else', TEST_CONFIG.LONG_TTL);
+
+      expect(await owner.resume(handle)).toBeNull();
+    });
+
+    it('should reject handles of another key or strategy', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const owner = new SimpleLock({ adapter: memoryAdapter, key: 'job' });
+      const handle = await owner.acquire();
+
+      await expect(owner.resume({ ...handle, key: 'other' })).rejects.toThrow(
+        'does not match lock key'
+      );
+      await expect(
+        owner.resume({ ...handle, metadata: { ...handle.metadata!, strategy: 'semaphore' } })
+      ).rejects.toThrow('Cannot resume a semaphore handle with a simple lock');
+    });
+
+    it('should run using() under a resumed handle and release it afterwards', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const owner = new SimpleLock({ adapter: memoryAdapter, key: 'job' });
+      const acquireSpy = vi.spyOn(owner, 'acquire');
+      const handle = deserializeHandle(serializeHandle(await owner.acquire()));
+      acquireSpy.mockClear();
+
+      const result = await owner.using(async () => 'done', { handle });
+
+      expect(result).toBe('done');
+      expect(acquireSpy).not.toHaveBeenCalled();
+      expect(await memoryAdapter.get('job')).toBeNull();
+    });
+  });
+
+  describe('owner metadata', () => {
+    const owner = { service: 'billing', jobId: 'invoice-42', tags: { region: 'eu' } };
+
+    it('should expose the owner through inspect() until release', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const ownedLock = new SimpleLock({ adapter: memoryAdapter, key: 'job', owner });
+
+      const handle = await ownedLock.acquire();
+      const inspection = await memoryAdapter.inspect('job');
+
+      expect(inspection?.value).toBe(handle.value);
+      expect(inspection?.owner).toEqual({ hostname: hostname(), pid: process.pid, ...owner });
+      expect(await ownedLock.extend(handle, TEST_CONFIG.LONG_TTL)).toBe(true);
+      expect(await ownedLock.release(handle)).toBe(true);
+      expect(await memoryAdapter.inspect('job')).toBeNull();
+    });
+
+    it('should report the owner of a held lock to tryAcquire', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      await new SimpleLock({ adapter: memoryAdapter, key: 'job', owner }).acquire();
+
+      const result = await new SimpleLock({ adapter: memoryAdapter, key: 'job' }).tryAcquire();
+
+      expect(result).toMatchObject({
+        acquired: false,
+        reason: 'held',
+        holder: { owner: { service: 'billing', jobId: 'invoice-42' } },
+      });
+    });
+
+    it('should keep the owner in the reentrant owner ID', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const reentrantLock = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'job',
+        reentrant: true,
+        owner,
+      });
+
+      await reentrantLock.acquire();
+
+      expect((await memoryAdapter.inspect('job'))?.owner?.jobId).toBe('invoice-42');
+    });
+
+    it('should reject metadata that does not fit into a lock value', () => {
+      const memoryAdapter = new MemoryAdapter();
+
+      expect(
+        () =>
+          new SimpleLock({ adapter: memoryAdapter, key: 'job', owner: { jobId: 'x'.repeat(300) } })
+      ).toThrow('Lock owner metadata is too large');
+      expect(
+        () => new SimpleLock({ adapter: memoryAdapter, key: 'job', owner, ownerId: 'worker-1' })
+      ).toThrow('Owner metadata cannot be combined with an explicit owner ID');
+    });
+  });
+
+  describe('stale takeover', () => {
+    const staleAfter = 50;
+
+    it('should take over a holder only once its heartbeat is stale', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const holder = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'job',
+        staleAfter,
+        owner: { jobId: 'stuck' },
+      });
+      const rescuer = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'job',
+        staleAfter,
+        retryAttempts: 0,
+      });
+
+      const stuck = await holder.acquire();
+      await expect(rescuer.takeover()).rejects.toThrow(LockAcquisitionError);
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+      const handle = await rescuer.takeover();
+
+      expect(handle.metadata?.staleAfter).toBe(staleAfter);
+      expect(handle.metadata?.takeover).toMatchObject({
+        previousValue: stuck.value,
+        previousOwner: { jobId: 'stuck' },
+        newValue: handle.value,
+      });
+      expect(await rescuer.getTakeovers()).toEqual([handle.metadata?.takeover]);
+      expect(await holder.heartbeat(stuck)).toBe(false);
+      expect(await holder.release(stuck)).toBe(false);
+      expect(await rescuer.release(handle)).toBe(true);
+    });
+
+    it('should never take over a holder without a heartbeat record', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      await new SimpleLock({ adapter: memoryAdapter, key: 'job' }).acquire();
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      const rescuer = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'job',
+        staleAfter: 1,
+        retryAttempts: 0,
+      });
+
+      await expect(rescuer.takeover()).rejects.toThrow(LockAcquisitionError);
+      expect(await rescuer.getTakeovers()).toEqual([]);
+    });
+
+    it('should expose heartbeat() on the signal of using()', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const holder = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'job',
+        ttl: TEST_CONFIG.DEFAULT_TTL,
+        staleAfter: 100,
+      });
+      const rescuer = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'job',
+        staleAfter: 100,
+        retryAttempts: 0,
+      });
+
+      const result = await holder.using(async signal => {
+        for (let step = 0; step < 3; step++) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+          expect(await signal.heartbeat?.()).toBe(true);
+        }
+        await expect(rescuer.takeover()).rejects.toThrow(LockAcquisitionError);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(await memoryAdapter.get('job')).toBeNull();
+    });
+
+    it('should reject takeover options it cannot honour', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const plain = new SimpleLock({ adapter: memoryAdapter, key: 'job' });
+
+      await expect(plain.takeover()).rejects.toThrow('needs staleAfter to be configured');
+      expect(() => new SimpleLock({ adapter: memoryAdapter, key: 'job', staleAfter: 0 })).toThrow(
+        'Stale-after threshold must be a positive integer'
+      );
+      expect(
+        () => new SimpleLock({ adapter: memoryAdapter, key: 'job', staleAfter, fencing: true })
+      ).toThrow('Heartbeat takeover is not supported for fencing, reentrant or fair locks');
+    });
+  });
+
+  describe('run once', () => {
+    const retention = TEST_CONFIG.LONG_TTL;
+
+    it('should return the stored result instead of running again', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const webhookLock = new SimpleLock({ adapter: memoryAdapter, key: 'webhook:evt_1' });
+      const routine = vi.fn().mockResolvedValue({ charged: 42 });
+
+      const first = await webhookLock.runOnce(routine, { retention });
+      const second = await webhookLock.runOnce(routine, { retention });
+
+      expect(first).toEqual({ alreadyCompleted: false, result: { charged: 42 } });
+      expect(second).toMatchObject({ alreadyCompleted: true, result: { charged: 42 } });
+      expect(second.alreadyCompleted && second.completedAt).toBeGreaterThan(0);
+      expect(routine).toHaveBeenCalledTimes(1);
+      expect(await memoryAdapter.get('webhook:evt_1')).toBeNull();
+    });
+
+    it('should hand the result to callers that waited for the running routine', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const createLock = () =>
+        new SimpleLock({
+          adapter: memoryAdapter,
+          key: 'webhook:evt_2',
+          ttl: TEST_CONFIG.DEFAULT_TTL,
+          retryAttempts: 20,
+          retryDelay: 10,
+        });
+      const routine = vi.fn(async () => {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return 'processed';
+      });
+
+      const results = await Promise.all([
+        createLock().runOnce(routine, { retention }),
+        createLock().runOnce(routine, { retention }),
+      ]);
+
+      expect(routine).toHaveBeenCalledTimes(1);
+      expect(results.map(result => result.result)).toEqual(['processed', 'processed']);
+      expect(results.filter(result => result.alreadyCompleted)).toHaveLength(1);
+    });
+
+    it('should run again after a routine failed or the retention ended', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const webhookLock = new SimpleLock({ adapter: memoryAdapter, key: 'webhook:evt_3' });
+
+      await expect(
+        webhookLock.runOnce(() => Promise.reject(new Error('crashed midway')), { retention })
+      ).rejects.toThrow('crashed midway');
+      expect(await webhookLock.runOnce(async () => undefined, { retention: 20 })).toEqual({
+        alreadyCompleted: false,
+        result: undefined,
+      });
+      expect((await webhookLock.runOnce(async () => 'again', { retention })).result).toBeNull();
+
+      await new Promise(resolve => setTimeout(resolve, 40));
+      expect(await webhookLock.runOnce(async () => 'again', { retention })).toEqual({
+        alreadyCompleted: false,
+        result: 'again',
+      });
+    });
+
+    it('should not mark completion after the lock was lost', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const webhookLock = new SimpleLock({ adapter: memoryAdapter, key: 'webhook:evt_5' });
+
+      const error = await webhookLock
+        .runOnce(
+          async () => {
+            await memoryAdapter.del('webhook:evt_5');
+            return 'processed';
+          },
+          { retention }
+        )
+        .catch(err => err);
+
+      expect(error).toBeInstanceOf(RunOnceError);
+      expect(error).toMatchObject({ code: 'RUN_ONCE_FAILED', reason: 'lock_lost' });
+      expect(await memoryAdapter.getCompletion('webhook:evt_5')).toBeNull();
+    });
+
+    it('should return the marker of a holder that completed after the lock was lost', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const createLock = () => new SimpleLock({ adapter: memoryAdapter, key: 'webhook:evt_6' });
+
+      const result = await createLock().runOnce(
+        async () => {
+          await memoryAdapter.del('webhook:evt_6');
+          await createLock().runOnce(async () => 'second', { retention });
+          return 'first';
+        },
+        { retention }
+      );
+
+      expect(result).toMatchObject({ alreadyCompleted: true, result: 'second' });
+    });
+
+    it('should reject a corrupt completion marker with a typed error', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const webhookLock = new SimpleLock({ adapter: memoryAdapter, key: 'webhook:evt_7' });
+      vi.spyOn(memoryAdapter, 'getCompletion').mockResolvedValue({
+        result: '{"charged":',
+        completedAt: Date.now(),
+      });
+      const routine = vi.fn();
+
+      const error = await webhookLock.runOnce(routine, { retention }).catch(err => err);
+
+      expect(error).toBeInstanceOf(RunOnceError);
+      expect(error).toMatchObject({ reason: 'invalid_marker' });
+      expect(error.cause).toBeInstanceOf(SyntaxError);
+      expect(routine).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid retention', async () => {
+      const webhookLock = new SimpleLock({ adapter: new MemoryAdapter(), key: 'webhook:evt_4' });
+
+      await expect(webhookLock.runOnce(async () => 1, { retention: 0 })).rejects.toThrow(
+        'Retention must be a positive integer'
+      );
+    });
+  });
+
+  describe('local queue', () => {
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('should send one local contender at a time to Redis', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const setNX = vi.spyOn(memoryAdapter, 'setNX');
+      let running = 0;
+      let maxRunning = 0;
+
+      await Promise.all(
+        Array.from({ length: 5 }, () =>
+          new SimpleLock({
+            adapter: memoryAdapter,
+            key: 'lock:report:123',
+            ttl: TEST_CONFIG.DEFAULT_TTL,
+            retryAttempts: 50,
+            retryDelay: 10,
+            localQueue: true,
+          }).using(async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await sleep(10);
+            running--;
+          })
+        )
+      );
+
+      expect(maxRunning).toBe(1);
+      expect(setNX).toHaveBeenCalledTimes(5);
+    });
+
+    it('should give up waiting for the turn after the retry window', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const createLock = () =>
+        new SimpleLock({
+          adapter: memoryAdapter,
+          key: 'lock:report:124',
+          retryAttempts: 2,
+          retryDelay: 10,
+          localQueue: true,
+        });
+      await createLock().acquire();
+      const setNX = vi.spyOn(memoryAdapter, 'setNX');
+
+      await expect(createLock().acquire()).rejects.toThrow(
+        'Lock "lock:report:124" is already held in this process'
+      );
+      await expect(createLock().acquire({ acquireTimeout: 5 })).rejects.toThrow(
+        LockAcquisitionTimeoutError
+      );
+      expect(await createLock().tryAcquire()).toMatchObject({ acquired: false, reason: 'held' });
+      expect(setNX).not.toHaveBeenCalled();
+    });
+
+    it('should keep excluding contenders of other processes', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const queued = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'lock:report:125',
+        retryAttempts: 1,
+        retryDelay: 10,
+        localQueue: true,
+      });
+      const elsewhere = new SimpleLock({
+        adapter: memoryAdapter,
+        key: 'lock:report:125',
+        retryAttempts: 1,
+        retryDelay: 10,
+      });
+
+      const handle = await elsewhere.acquire();
+      await expect(queued.acquire()).rejects.toThrow(LockAcquisitionError);
+      await elsewhere.release(handle);
+
+      const queuedHandle = await queued.acquire();
+      await expect(elsewhere.acquire()).rejects.toThrow(LockAcquisitionError);
+      await queued.release(queuedHandle);
+      expect(await queued.tryAcquire()).toMatchObject({ acquired: true });
+    });
+
+    it('should hand the turn on once a handle that was never released expires', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const createLock = () =>
+        new SimpleLock({
+          adapter: memoryAdapter,
+          key: 'lock:report:126',
+          ttl: 50,
+          retryAttempts: 30,
+          retryDelay: 10,
+          localQueue: true,
+        });
+
+      await createLock().acquire();
+      const handle = await createLock().acquire();
+
+      expect(handle.metadata?.attempts).toBe(1);
+    });
+
+    it('should reject local queueing for reentrant locks', () => {
+      expect(
+        () =>
+          new SimpleLock({
+            adapter: new MemoryAdapter(),
+            key: 'lock:report:127',
+            reentrant: true,
+            localQueue: true,
+          })
+      ).toThrow('Local queueing is not supported for reentrant locks');
+    });
+  });
 });
@@ -1,6 +1,14 @@
 import { describe, it, expect, vi } from 'vitest';
 import { LockManager } from '../../../src/manager/LockManager.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+import {
+  DeadlockError,
+  LockAcquisitionError,
+  LockAcquisitionTimeoutError,
+  LockOrderViolationError,
+} from '../../../src/types/errors.js';
 import type { RedisAdapter, AtomicExtensionResult } from '../../../src/types/adapters.js';
+import type { LockHandle } from '../../../src/types/locks.js';
 
 // Mock Redis adapter for testing
 class MockRedisAdapter implements RedisAdapter {
@@ -178,6 +186,44 @@ describe('LockManager', () => {
     });
   });
 
+  describe('createSemaphore', () => {
+    it('should create a semaphore with manager defaults', () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()], defaultTTL: 5000 });
+
+      const semaphore = manager.createSemaphore('pool', 3);
+      expect(semaphore.getConfig()).toMatchObject({ key: 'pool', limit: 3, ttl: 5000 });
+    });
+
+    it('should release semaphore handles through releaseLock', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [adapter], defaultRetryAttempts: 0 });
+      const semaphore = manager.createSemaphore('pool', 1);
+
+      const handle = await semaphore.acquire();
+      expect(await manager.releaseLock(handle)).toBe(true);
+      expect(await adapter.countSemaphoreHolders('pool')).toBe(0);
+    });
+
+    it('should release semaphore handles on the node they were acquired on', async () => {
+      const first = new MemoryAdapter();
+      const second = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [first, second], defaultRetryAttempts: 0 });
+
+      const handle = await manager.createSemaphore('pool', 1, { nodeIndex: 1 }).acquire();
+      expect(handle.metadata?.nodeIndex).toBe(1);
+      expect(await manager.releaseBatch([handle])).toEqual([true]);
+      expect(await second.countSemaphoreHolders('pool')).toBe(0);
+    });
+
+    it('should validate node index', () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()] });
+
+      expect(() => manager.createSemaphore('pool', 2, { nodeIndex: 1 })).toThrow(
+        'Node index 1 is out of range'
+      );
+    });
+  });
+
   describe('acquireLock and releaseLock', () => {
     it('should acquire and release simple lock', async () => {
       const adapter = new MockRedisAdapter();
@@ -331,4 +377,687 @@ describe('LockManager', () => {
       expect(metrics).toContain('redlock_acquisition_duration_ms');
     });
   });
+
+  describe('monitoring server', () => {
+    it('should serve the manager metrics and locks until closed', async () => {
+      const manager = new LockManager({
+        nodes: [new MemoryAdapter()],
+        monitoring: { enabled: true, server: true, metricsPort: 0 },
+      });
+      const { host, port } = await manager.startMonitoringServer();
+      const handle = await manager.acquireLock('orders:1');
+
+      const metrics = await (await fetch(`http://${host}:${port}/metrics`)).text();
+      expect(metrics).toContain('redlock_locks_active 1');
+      expect(metrics).toContain('redlock_acquisition_success_ratio 1');
+      const locks = await (await fetch(`http://${host}:${port}/locks`)).json();
+      expect(locks.map((lock: LockHandle) => lock.key)).toEqual(['orders:1']);
+
+      await manager.releaseLock(handle);
+      await manager.close();
+      await expect(fetch(`http://${host}:${port}/metrics`)).rejects.toThrow();
+    });
+
+    it('should require monitoring to be enabled', async () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()] });
+
+      await expect(manager.startMonitoringServer()).rejects.toThrow(
+        'Monitoring must be enabled to start the monitoring server'
+      );
+    });
+  });
+
+  describe('fencing tokens', () => {
+    it('should issue a fencing token per key in batch acquisition', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [adapter] });
+
+      const first = await manager.acquireBatch(['b', 'a'], { fencing: true });
+      expect(first.map(h => [h.key, h.fencingToken])).toEqual([
+        ['a', 1],
+        ['b', 1],
+      ]);
+
+      await manager.releaseBatch(first);
+      const second = await manager.acquireBatch(['a'], { fencing: true });
+      expect(second[0]!.fencingToken).toBe(2);
+    });
+
+    it('should expose fencing tokens by key inside usingBatch', async () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()] });
+
+      const tokens = await manager.usingBatch(['x', 'y'], async signal => signal.fencingTokens, {
+        fencing: true,
+      });
+
+      expect(tokens).toEqual({ x: 1, y: 1 });
+    });
+
+    it('should pass fencing through acquireLock', async () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()] });
+
+      const handle = await manager.acquireLock('fenced', { fencing: true });
+      expect(handle.fencingToken).toBe(1);
+    });
+  });
+
+  describe('reentrant locks', () => {
+    it('should only drop one hold when releasing through the manager', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [adapter] });
+      const options = { reentrant: true, ownerId: 'worker-1' };
+
+      const outer = await manager.acquireLock('order', options);
+      const inner = await manager.acquireLock('order', options);
+      expect(inner.metadata?.holdCount).toBe(2);
+
+      expect(await manager.releaseLock(inner)).toBe(true);
+      expect(await adapter.get('order')).toBe('worker-1');
+
+      expect(await manager.releaseLock(outer)).toBe(true);
+      expect(await adapter.get('order')).toBeNull();
+    });
+  });
+
+  describe('pubsub wait mode', () => {
+    const slowRetryDelay = 10000;
+
+    it('should wake batch acquisition when a blocking key is released', async () => {
+      const manager = new LockManager({
+        nodes: [new MemoryAdapter()],
+        defaultRetryDelay: slowRetryDelay,
+        defaultWaitMode: 'pubsub',
+      });
+      const [blocker] = await manager.acquireBatch(['b'], { retryAttempts: 0 });
+
+      const waiting = manager.acquireBatch(['a', 'b'], { retryAttempts: 1 });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await manager.releaseLock(blocker!);
+
+      const handles = await waiting;
+      expect(handles[0]!.metadata?.acquisitionTime).toBeLessThan(slowRetryDelay / 2);
+    });
+
+    it('should pass the default wait mode to created locks', () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()], defaultWaitMode: 'pubsub' });
+
+      expect(manager.createSimpleLock('k').getConfig().waitMode).toBe('pubsub');
+      expect(
+        manager.createSimpleLock('k', { waitMode: 'polling' }).getConfig().waitMode
+      ).toBeUndefined();
+    });
+  });
+
+  describe('retry strategies', () => {
+    it('should apply the default strategy to batch acquisition', async () => {
+      const adapter = new MemoryAdapter();
+      const strategy = vi.fn(() => 1);
+      const manager = new LockManager({ nodes: [adapter], defaultRetryStrategy: strategy });
+      await adapter.setNX('b', 'holder', 5000);
+
+      await expect(manager.acquireBatch(['a', 'b'], { retryAttempts: 2 })).rejects.toThrow(
+        'Failed to acquire lock'
+      );
+      expect(strategy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pass the default strategy to created locks unless overridden', () => {
+      const defaultRetryStrategy = { type: 'full-jitter' as const };
+      const manager = new LockManager({ nodes: [new MemoryAdapter()], defaultRetryStrategy });
+
+      expect(manager.createSimpleLock('k').getConfig().retryStrategy).toBe(defaultRetryStrategy);
+      expect(
+        manager.createSimpleLock('k', { retryStrategy: { type: 'constant' } }).getConfig()
+          .retryStrategy
+      ).toEqual({ type: 'constant' });
+    });
+  });
+
+  describe('acquire options', () => {
+    const holderTTL = 5000;
+    const slowRetryDelay = 10000;
+
+    it('should time out acquireLock with LockAcquisitionTimeoutError', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [adapter], defaultRetryAttempts: 100 });
+      await adapter.setNX('busy', 'holder', holderTTL);
+
+      await expect(manager.acquireLock('busy', { acquireTimeout: 50 })).rejects.toThrow(
+        LockAcquisitionTimeoutError
+      );
+      expect(manager.getStats().failedLocks).toBe(1);
+    });
+
+    it('should cancel a waiting batch and track it as failed', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [adapter] });
+      await adapter.setNX('b', 'holder', holderTTL);
+      const controller = new AbortController();
+      const startTime = Date.now();
+
+      const pending = manager.acquireBatch(['a', 'b'], {
+        signal: controller.signal,
+        retryAttempts: 3,
+        retryDelay: slowRetryDelay,
+      });
+      setTimeout(() => controller.abort(new Error('cancelled')), 20);
+
+      await expect(pending).rejects.toThrow('cancelled');
+      expect(Date.now() - startTime).toBeLessThan(slowRetryDelay / 2);
+      expect(manager.getStats().failedLocks).toBe(2);
+      expect(await adapter.get('a')).toBeNull();
+    });
+
+    it('should time out a waiting batch', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [adapter] });
+      await adapter.setNX('b', 'holder', holderTTL);
+
+      const error = await manager
+        .acquireBatch(['a', 'b'], { acquireTimeout: 30, retryAttempts: 100, retryDelay: 5 })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(LockAcquisitionTimeoutError);
+      expect(error.key).toBe('a');
+    });
+  });
+
+  describe('tryAcquire', () => {
+    it('should track acquired locks and report contention without throwing', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [adapter] });
+
+      const first = await manager.tryAcquire('job');
+      const second = await manager.tryAcquire('job');
+
+      expect(first.acquired).toBe(true);
+      expect(second).toMatchObject({ acquired: false, reason: 'held', key: 'job' });
+      expect(manager.getActiveLocks()).toHaveLength(1);
+      expect(manager.getStats()).toMatchObject({ totalLocks: 2, acquiredLocks: 1, failedLocks: 1 });
+    });
+
+    it('should try RedLock across all nodes', async () => {
+      const nodes = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      const manager = new LockManager({ nodes });
+      await nodes[0]!.setNX('job', 'other', 5000);
+      await nodes[1]!.setNX('job', 'other', 5000);
+
+      await expect(manager.tryAcquire('job', { useRedLock: true })).resolves.toMatchObject({
+        acquired: false,
+        reason: 'quorum-not-reached',
+        successCount: 1,
+        quorum: 2,
+      });
+      expect(await nodes[2]!.get('job')).toBeNull();
+    });
+  });
+
+  describe('hierarchical locks', () => {
+    it('should block a tenant lock while an order below it is held', async () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()], defaultRetryAttempts: 0 });
+
+      const order = await manager.acquireLock('tenant:42:order:7', { hierarchical: true });
+      expect(order.metadata?.strategy).toBe('hierarchical');
+      await expect(manager.acquireLock('tenant:42', { hierarchical: true })).rejects.toThrow(
+        'Failed to acquire lock "tenant:42"'
+      );
+
+      expect(await manager.releaseLock(order)).toBe(true);
+      const tenant = await manager.acquireLock('tenant:42', { hierarchical: true });
+      await expect(
+        manager.acquireLock('tenant:42:order:8', { hierarchical: true })
+      ).rejects.toThrow('Failed to acquire lock "tenant:42:order:8"');
+      await manager.releaseLock(tenant);
+    });
+
+    it('should reject options hierarchical locks cannot honour', async () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()] });
+
+      await expect(
+        manager.acquireLock('tenant:42', { hierarchical: true, fencing: true })
+      ).rejects.toThrow('Hierarchical locks cannot be combined');
+      await expect(
+        manager.acquireBatch(['tenant:1'], { hierarchical: true, fencing: true })
+      ).rejects.toThrow('Fencing is not supported for hierarchical batch acquisition');
+    });
+
+    it('should release hierarchical handles on the node they were acquired on', async () => {
+      const second = new MemoryAdapter();
+      const manager = new LockManager({
+        nodes: [new MemoryAdapter(), second],
+        defaultRetryAttempts: 0,
+      });
+
+      const tenant = await manager.createHierarchicalLock('tenant:1', { nodeIndex: 1 }).acquire();
+      const orders = await manager.acquireBatch(['tenant:2:order:1'], {
+        hierarchical: true,
+        nodeIndex: 1,
+      });
+      expect([tenant, ...orders].map(handle => handle.metadata?.nodeIndex)).toEqual([1, 1]);
+
+      expect(await manager.releaseLock(tenant)).toBe(true);
+      expect(await manager.releaseBatch(orders)).toEqual([true]);
+      expect(
+        await second.hierarchicalAcquire(['tenant:1', 'tenant:2'], ['a', 'b'], 1000)
+      ).toMatchObject({
+        success: true,
+      });
+    });
+
+    it('should acquire and release hierarchical batches', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [adapter], defaultRetryAttempts: 0 });
+
+      const handles = await manager.acquireBatch(['tenant:2:order:1', 'tenant:1'], {
+        hierarchical: true,
+      });
+      expect(handles.map(h => h.key)).toEqual(['tenant:1', 'tenant:2:order:1']);
+
+      await expect(
+        manager.acquireBatch(['tenant:1:order:3'], { hierarchical: true })
+      ).rejects.toThrow('Failed to acquire lock "tenant:1:order:3"');
+      await expect(manager.acquireBatch(['tenant:2'], { hierarchical: true })).rejects.toThrow(
+        'Failed to acquire lock "tenant:2"'
+      );
+
+      expect(await manager.releaseBatch(handles)).toEqual([true, true]);
+      await expect(
+        manager.acquireBatch(['tenant:2'], { hierarchical: true })
+      ).resolves.toHaveLength(1);
+    });
+
+    it('should keep intention leases alive inside usingBatch', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [adapter], defaultRetryAttempts: 0 });
+      const ttl = 1500;
+
+      await manager.usingBatch(
+        ['tenant:1:order:1'],
+        async () => {
+          await new Promise(resolve => setTimeout(resolve, ttl + 300));
+          await expect(manager.acquireBatch(['tenant:1'], { hierarchical: true })).rejects.toThrow(
+            'Failed to acquire lock "tenant:1"'
+          );
+        },
+        { hierarchical: true, ttl }
+      );
+
+      await expect(
+        manager.acquireBatch(['tenant:1'], { hierarchical: true })
+      ).resolves.toHaveLength(1);
+    });
+  });
+
+  describe('quorum batches', () => {
+    const createNodes = () => [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+
+    it('should acquire the batch on every node and release it across the quorum', async () => {
+      const nodes = createNodes();
+      const manager = new LockManager({ nodes, defaultRetryAttempts: 0 });
+
+      const handles = await manager.acquireBatch(['b', 'a'], { useRedLock: true });
+
+      expect(handles.map(h => h.key)).toEqual(['a', 'b']);
+      expect(handles[0]!.metadata).toMatchObject({
+        strategy: 'redlock',
+        nodes: ['node-0', 'node-1', 'node-2'],
+      });
+      for (const node of nodes) {
+        expect(await node.get('a')).toBe(handles[0]!.value);
+      }
+
+      expect(await manager.releaseBatch(handles)).toEqual([true, true]);
+      for (const node of nodes) {
+        expect(await node.get('a')).toBeNull();
+        expect(await node.get('b')).toBeNull();
+      }
+    });
+
+    it('should succeed with a quorum while one node holds a conflicting key', async () => {
+      const nodes = createNodes();
+      const manager = new LockManager({ nodes, defaultRetryAttempts: 0 });
+      await nodes[2]!.setNX('b', 'other', 5000);
+
+      const handles = await manager.acquireBatch(['a', 'b'], { useRedLock: true });
+
+      expect(handles[1]!.metadata?.nodes).toEqual(['node-0', 'node-1']);
+      expect(await nodes[2]!.get('a')).toBeNull();
+    });
+
+    it('should roll back partial wins when the quorum is not reached', async () => {
+      const nodes = createNodes();
+      const manager = new LockManager({ nodes, defaultRetryAttempts: 0 });
+      await nodes[0]!.setNX('b', 'other', 5000);
+      await nodes[1]!.setNX('b', 'other', 5000);
+
+      await expect(manager.acquireBatch(['a', 'b'], { useRedLock: true })).rejects.toThrow(
+        'quorum not reached (1/2 nodes), key "b" is already locked'
+      );
+      expect(await nodes[2]!.get('a')).toBeNull();
+      expect(await nodes[2]!.get('b')).toBeNull();
+      expect(manager.getStats()).toMatchObject({ failedLocks: 2, activeLocks: 0 });
+    });
+
+    it('should roll back when clock drift leaves no validity', async () => {
+      const nodes = createNodes();
+      const manager = new LockManager({ nodes, defaultRetryAttempts: 0 });
+      const slow = nodes[0]!;
+      const batchSetNX = slow.batchSetNX.bind(slow);
+      vi.spyOn(slow, 'batchSetNX').mockImplementation(async (keys, values, ttl) => {
+        await new Promise(resolve => setTimeout(resolve, 120));
+        return batchSetNX(keys, values, ttl);
+      });
+
+      await expect(manager.acquireBatch(['a'], { useRedLock: true, ttl: 100 })).rejects.toThrow(
+        'no validity left of the 100ms TTL after clock drift'
+      );
+      for (const node of nodes) {
+        expect(await node.get('a')).toBeNull();
+      }
+    });
+
+    it('should return the highest fencing token of the quorum per key', async () => {
+      const nodes = createNodes();
+      const manager = new LockManager({ nodes });
+      for (let i = 0; i < 3; i++) {
+        await nodes[1]!.setNXWithFencingToken('b', 'seed', 5000);
+        await nodes[1]!.delIfMatch('b', 'seed');
+      }
+
+      const handles = await manager.acquireBatch(['a', 'b'], { useRedLock: true, fencing: true });
+
+      expect(handles.map(h => h.fencingToken)).toEqual([1, 4]);
+    });
+
+    it('should reject configurations a quorum batch cannot honour', async () => {
+      const single = new LockManager({ nodes: [new MemoryAdapter()] });
+      const manager = new LockManager({ nodes: createNodes() });
+
+      await expect(single.acquireBatch(['a'], { useRedLock: true })).rejects.toThrow(
+        'RedLock requires at least 3 Redis nodes'
+      );
+      await expect(
+        manager.acquireBatch(['a'], { useRedLock: true, hierarchical: true })
+      ).rejects.toThrow('Hierarchical batch acquisition cannot be combined with RedLock');
+    });
+
+    it('should extend the batch across the quorum inside usingBatch', async () => {
+      const nodes = createNodes();
+      const manager = new LockManager({ nodes, defaultRetryAttempts: 0 });
+      const ttl = 1500;
+
+      await manager.usingBatch(
+        ['a', 'b'],
+        async () => {
+          await new Promise(resolve => setTimeout(resolve, ttl + 300));
+          for (const node of nodes) {
+            expect(await node.get('b')).not.toBeNull();
+          }
+        },
+        { useRedLock: true, ttl }
+      );
+
+      for (const node of nodes) {
+        expect(await node.get('b')).toBeNull();
+      }
+    });
+  });
+
+  describe('stale takeover', () => {
+    it('should take over a stale holder and track the new handle', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({ nodes: [adapter], defaultRetryAttempts: 0 });
+
+      const stuck = await manager.acquireLock('job', { staleAfter: 50, owner: { jobId: 'a' } });
+      expect(await manager.heartbeat(stuck)).toBe(true);
+      await expect(manager.takeoverLock('job', { staleAfter: 50 })).rejects.toThrow(
+        'Failed to acquire lock "job"'
+      );
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+      const handle = await manager.takeoverLock('job', { staleAfter: 50 });
+
+      expect(handle.metadata?.takeover?.previousOwner?.jobId).toBe('a');
+      expect(await manager.getTakeovers('job')).toHaveLength(1);
+      expect(manager.getActiveLocks().map(active => active.id)).toContain(handle.id);
+      expect(await manager.heartbeat(handle)).toBe(true);
+      expect(await manager.releaseLock(handle)).toBe(true);
+      expect(await adapter.get('job')).toBeNull();
+    });
+
+    it('should reject heartbeat takeover for other lock types', async () => {
+      const nodes = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      const manager = new LockManager({ nodes });
+
+      await expect(
+        manager.acquireLock('job', { staleAfter: 50, useRedLock: true })
+      ).rejects.toThrow('Heartbeat takeover cannot be combined with RedLock or hierarchical locks');
+      await expect(manager.heartbeat(await manager.acquireLock('job'))).rejects.toThrow(
+        'was not acquired with heartbeat takeover enabled'
+      );
+    });
+  });
+
+  describe('deadlock detection', () => {
+    it('should fail the participant that closes a wait-for cycle', async () => {
+      const adapter = new MemoryAdapter();
+      const manager = new LockManager({
+        nodes: [adapter],
+        deadlockDetection: true,
+        defaultRetryAttempts: 50,
+        defaultRetryDelay: 20,
+      });
+
+      const first = await manager.acquireLock('a', { participantId: 'job-1' });
+      const second = await manager.acquireLock('b', { participantId: 'job-2' });
+      const waiting = manager.acquireLock('b', { participantId: 'job-1' });
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      const error = await manager.acquireLock('a', { participantId: 'job-2' }).catch(e => e);
+      expect(error).toBeInstanceOf(DeadlockError);
+      expect(error).toBeInstanceOf(LockAcquisitionError);
+      expect(error.code).toBe('DEADLOCK_DETECTED');
+      expect(error.cycle).toEqual([
+        { participant: 'job-2', key: 'a' },
+        { participant: 'job-1', key: 'b' },
+      ]);
+      expect(error.message).toContain('job-2 waits for "a" held by job-1');
+
+      await manager.releaseLock(second);
+      const handle = await waiting;
+      expect(handle.key).toBe('b');
+
+      await manager.releaseLock(handle);
+      await manager.releaseLock(first);
+      expect(manager.getStats().failedLocks).toBe(1);
+    });
+
+    it('should detect a cycle through a lock extended past its first TTL', async () => {
+      const manager = new LockManager({
+        nodes: [new MemoryAdapter()],
+        deadlockDetection: true,
+        defaultRetryAttempts: 50,
+        defaultRetryDelay: 20,
+      });
+
+      const first = await manager.acquireLock('a', { participantId: 'job-1', ttl: 100 });
+      expect(await manager.createSimpleLock('a').extend(first, 5000)).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 150));
+
+      const second = await manager.acquireLock('b', { participantId: 'job-2' });
+      const waiting = manager.acquireLock('b', { participantId: 'job-1' });
+      await new Promise(resolve => setTimeout(resolve, 30));
+
+      const error = await manager.acquireLock('a', { participantId: 'job-2' }).catch(e => e);
+      expect(error).toBeInstanceOf(DeadlockError);
+
+      await manager.releaseLock(second);
+      await manager.releaseLock(await waiting);
+      await manager.releaseLock(first);
+    });
+
+    it('should not track acquisitions without a participant', async () => {
+      const manager = new LockManager({
+        nodes: [new MemoryAdapter()],
+        deadlockDetection: true,
+        defaultRetryAttempts: 0,
+      });
+
+      await manager.acquireLock('a');
+      const error = await manager.acquireLock('a').catch(e => e);
+
+      expect(error).toBeInstanceOf(LockAcquisitionError);
+      expect(error).not.toBeInstanceOf(DeadlockError);
+    });
+
+    it('should enforce the declared lock order per participant', async () => {
+      const manager = new LockManager({
+        nodes: [new MemoryAdapter()],
+        deadlockDetection: { lockOrder: 'lexicographic' },
+      });
+
+      const b = await manager.acquireLock('b', { participantId: 'job-1' });
+      await expect(manager.acquireLock('a', { participantId: 'job-1' })).rejects.toThrow(
+        LockOrderViolationError
+      );
+      await manager.acquireLock('a', { participantId: 'job-2' });
+      const c = await manager.acquireLock('c', { participantId: 'job-1' });
+
+      await manager.releaseLock(b);
+      await manager.releaseLock(c);
+      await expect(manager.acquireLock('a', { participantId: 'job-1' })).rejects.toThrow(
+        'Failed to acquire lock "a"'
+      );
+    });
+
+    it('should reject an invalid lock order', () => {
+      expect(
+        () =>
+          new LockManager({
+            nodes: [new MemoryAdapter()],
+            deadlockDetection: { lockOrder: 'random' as 'lexicographic' },
+          })
+      ).toThrow('Lock order must be "lexicographic" or a comparison function');
+    });
+  });
+
+  describe('local queue', () => {
+    it('should queue local contenders of simple locks by default when enabled', async () => {
+      const memoryAdapter = new MemoryAdapter();
+      const setNX = vi.spyOn(memoryAdapter, 'setNX');
+      const manager = new LockManager({
+        nodes: [memoryAdapter],
+        defaultRetryAttempts: 50,
+        defaultRetryDelay: 10,
+        localQueue: true,
+      });
+
+      const first = await manager.acquireLock('lock:report:123');
+      const second = manager.acquireLock('lock:report:123');
+      await new Promise(resolve => setTimeout(resolve, 30));
+      await manager.releaseLock(first);
+      await manager.releaseLock(await second);
+
+      expect(setNX).toHaveBeenCalledTimes(2);
+      expect(manager.createSimpleLock('k', { reentrant: true }).getConfig().localQueue).toBe(
+        undefined
+      );
+    });
+
+    it('should reject local queueing for RedLock', async () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()] });
+
+      await expect(
+        manager.acquireLock('lock:report:123', { useRedLock: true, localQueue: true })
+      ).rejects.toThrow('Local queueing cannot be combined with RedLock or hierarchical locks');
+    });
+  });
+
+  describe('batch release and extension', () => {
+    it('should release plain simple locks with a single script call', async () => {
+      const adapter = new MemoryAdapter();
+      const batchDelIfMatch = vi.spyOn(adapter, 'batchDelIfMatch');
+      const manager = new LockManager({ nodes: [adapter] });
+
+      const batch = await manager.acquireBatch(['a', 'b']);
+      const reentrant = await manager.acquireLock('c', { reentrant: true });
+      const results = await manager.releaseBatch([...batch, reentrant, batch[0]!]);
+
+      expect(results).toEqual([true, true, true, false]);
+      expect(batchDelIfMatch).toHaveBeenCalledTimes(1);
+      expect(batchDelIfMatch).toHaveBeenCalledWith(['a', 'b', 'a'], expect.any(Array));
+      expect(await adapter.get('c')).toBeNull();
+      expect(manager.getStats().activeLocks).toBe(0);
+    });
+
+    it('should extend the locks of usingBatch with a single script call', async () => {
+      const adapter = new MemoryAdapter();
+      const batchAtomicExtend = vi.spyOn(adapter, 'batchAtomicExtend');
+      const manager = new LockManager({ nodes: [adapter] });
+
+      const aborted = await manager.usingBatch(
+        ['a', 'b'],
+        async signal => {
+          await new Promise(resolve => setTimeout(resolve, 1300));
+          return signal.aborted;
+        },
+        { ttl: 1500 }
+      );
+
+      expect(aborted).toBe(false);
+      expect(batchAtomicExtend).toHaveBeenCalledTimes(1);
+      expect(batchAtomicExtend.mock.calls[0]![0]).toEqual(['a', 'b']);
+    });
+
+    it('should release and extend batches on the node they were acquired on', async () => {
+      const first = new MemoryAdapter();
+      const second = new MemoryAdapter();
+      const batchAtomicExtend = vi.spyOn(second, 'batchAtomicExtend');
+      const manager = new LockManager({ nodes: [first, second] });
+
+      const batch = await manager.acquireBatch(['a', 'b'], { nodeIndex: 1 });
+      expect(batch.map(handle => handle.metadata?.nodeIndex)).toEqual([1, 1]);
+      expect(await manager.releaseBatch(batch)).toEqual([true, true]);
+      expect(await second.get('a')).toBeNull();
+
+      const aborted = await manager.usingBatch(
+        ['c', 'd'],
+        async signal => {
+          await new Promise(resolve => setTimeout(resolve, 1300));
+          return signal.aborted;
+        },
+        { ttl: 1500, nodeIndex: 1 }
+      );
+
+      expect(aborted).toBe(false);
+      expect(batchAtomicExtend).toHaveBeenCalledTimes(1);
+      expect(await second.get('c')).toBeNull();
+    });
+  });
+
+  describe('listLocks', () => {
+    it('should merge locks across nodes and flag RedLocks below quorum', async () => {
+      const nodes = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      const manager = new LockManager({ nodes });
+
+      const redlock = await manager.acquireLock('orders', { useRedLock: true });
+      await nodes[1]!.delIfMatch('orders', redlock.value);
+      await nodes[2]!.setNX('single', 'other-process', 5000);
+      await nodes[0]!.setNX('report', 'simple', 5000);
+      await nodes[1]!.setNX('report', 'other', 5000);
+
+      const locks = await manager.listLocks();
+
+      expect(locks.map(lock => [lock.key, lock.value, lock.nodes, lock.belowQuorum])).toEqual([
+        ['orders', redlock.value, [0, 2], false],
+        ['report', 'simple', [0], false],
+        ['report', 'other', [1], false],
+        ['single', 'other-process', [2], false],
+      ]);
+
+      await nodes[2]!.delIfMatch('orders', redlock.value);
+      const [orders] = await manager.listLocks('ord*');
+      expect(orders).toMatchObject({ key: 'orders', nodes: [0], belowQuorum: true });
+    });
+  });
 });
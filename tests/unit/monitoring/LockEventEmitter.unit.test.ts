@@ -0,0 +1,392 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LockEventEmitter } from '../../../src/monitoring/LockEventEmitter.js';
+import { SimpleLock } from '../../../src/locks/SimpleLock.js';
+import { LeanSimpleLock } from '../../../src/locks/LeanSimpleLock.js';
+import { RedLock } from '../../../src/locks/RedLock.js';
+import { LockManager } from '../../../src/manager/LockManager.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+import type { LockEvent } from '../../../src/types/monitoring.js';
+
+/**
+ * Collect every event of an emitter
+ */
+const record = (events: LockEventEmitter) => {
+  const recorded: LockEvent[] = [];
+  events.on('*', event => recorded.push(event));
+  return {
+    recorded,
+    types: () => recorded.map(event => event.type),
+  };
+};
+
+describe('LockEventEmitter', () => {
+  describe('listeners', () => {
+    it('should deliver events to listeners of their type and to wildcard listeners', () => {
+      const events = new LockEventEmitter();
+      const onReleased = vi.fn();
+      const onAny = vi.fn();
+      const onLost = vi.fn();
+      events.on('released', onReleased).on('*', onAny).on('lost', onLost);
+
+      events.emit('released', 'orders:1', { duration: 42, metadata: { released: true } });
+
+      expect(onReleased).toHaveBeenCalledWith({
+        type: 'released',
+        key: 'orders:1',
+        timestamp: expect.any(Number),
+        duration: 42,
+        metadata: { released: true },
+      });
+      expect(onAny).toHaveBeenCalledWith(onReleased.mock.calls[0]![0]);
+      expect(onLost).not.toHaveBeenCalled();
+    });
+
+    it('should stop delivering after off() and deliver once() a single time', () => {
+      const events = new LockEventEmitter();
+      const listener = vi.fn();
+      const onceListener = vi.fn();
+      events.on('extended', listener).once('extended', onceListener);
+
+      events.emit('extended', 'orders:1');
+      events.off('extended', listener);
+      events.emit('extended', 'orders:1');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(onceListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report errors as message and cause', () => {
+      const events = new LockEventEmitter();
+      const { recorded } = record(events);
+      const cause = new Error('Connection lost');
+
+      events.emit('acquisition_failed', 'orders:1', { error: cause });
+      events.emit('acquisition_failed', 'orders:1', { error: 'timeout' });
+
+      expect(recorded[0]).toMatchObject({ error: 'Connection lost', cause });
+      expect(recorded[1]).toMatchObject({ error: 'timeout' });
+      expect(recorded[1]!.cause).toBeInstanceOf(Error);
+    });
+
+    it('should log a throwing listener instead of failing the emitter', () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const events = new LockEventEmitter(logger);
+      events.on('released', () => {
+        throw new Error('Listener failed');
+      });
+
+      expect(() => events.emit('released', 'orders:1')).not.toThrow();
+      expect(logger.error).toHaveBeenCalledWith(
+        'Lock event listener failed',
+        expect.objectContaining({ message: 'Listener failed' }),
+        { key: 'orders:1', type: 'released' }
+      );
+    });
+
+    it('should still deliver to the other listeners when a typed listener throws', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const events = new LockEventEmitter(logger);
+      const typed = vi.fn();
+      const once = vi.fn();
+      const any = vi.fn();
+      events.on('released', () => {
+        throw new Error('Listener failed');
+      });
+      events.on('released', typed);
+      events.once('released', once);
+      events.on('*', any);
+      const iterator = events[Symbol.asyncIterator]();
+
+      events.emit('released', 'orders:1');
+      events.emit('released', 'orders:1');
+
+      expect(typed).toHaveBeenCalledTimes(2);
+      expect(once).toHaveBeenCalledTimes(1);
+      expect(any).toHaveBeenCalledTimes(2);
+      expect((await iterator.next()).value.type).toBe('released');
+      expect(logger.error).toHaveBeenCalledTimes(2);
+      await iterator.return!();
+    });
+  });
+
+  describe('async iteration', () => {
+    it('should yield events emitted while iterating, in order', async () => {
+      const events = new LockEventEmitter();
+      const iterator = events[Symbol.asyncIterator]();
+
+      events.emit('acquisition_started', 'orders:1');
+      events.emit('acquisition_success', 'orders:1');
+
+      expect((await iterator.next()).value.type).toBe('acquisition_started');
+      expect((await iterator.next()).value.type).toBe('acquisition_success');
+      await iterator.return!();
+    });
+
+    it('should only yield the requested types and end when the signal aborts', async () => {
+      const events = new LockEventEmitter();
+      const controller = new AbortController();
+      const consumed: LockEvent[] = [];
+
+      const consumer = (async () => {
+        for await (const event of events.iterate({
+          types: ['lost'],
+          signal: controller.signal,
+        })) {
+          consumed.push(event);
+        }
+      })();
+
+      events.emit('extended', 'orders:1');
+      events.emit('lost', 'orders:1');
+      events.emit('released', 'orders:1');
+      await new Promise(resolve => setImmediate(resolve));
+      controller.abort();
+      await consumer;
+
+      expect(consumed.map(event => event.type)).toEqual(['lost']);
+    });
+
+    it('should stop listening when the loop is left', async () => {
+      const events = new LockEventEmitter();
+      const listener = vi.fn();
+      events.on('released', listener);
+
+      const iteration = (async () => {
+        for await (const event of events) {
+          return event.key;
+        }
+        return undefined;
+      })();
+      events.emit('released', 'orders:1');
+
+      await expect(iteration).resolves.toBe('orders:1');
+      events.emit('released', 'orders:2');
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('SimpleLock', () => {
+    it('should emit the acquisition, extension and release of a lock', async () => {
+      const lock = new SimpleLock({ adapter: new MemoryAdapter(), key: 'orders:1' });
+      const { recorded, types } = record(lock.events);
+
+      const handle = await lock.acquire();
+      await lock.extend(handle, 5000);
+      await lock.release(handle);
+
+      expect(types()).toEqual([
+        'acquisition_started',
+        'acquisition_success',
+        'extended',
+        'released',
+      ]);
+      expect(recorded[1]).toMatchObject({
+        key: 'orders:1',
+        handle,
+        duration: expect.any(Number),
+        metadata: { strategy: 'simple', attempts: 1 },
+      });
+      expect(recorded[2]).toMatchObject({ handle, metadata: { ttl: 5000 } });
+      expect(recorded[3]).toMatchObject({ handle, metadata: { released: true } });
+    });
+
+    it('should emit failed acquisitions and extensions with their errors', async () => {
+      const adapter = new MemoryAdapter();
+      const lock = new SimpleLock({ adapter, key: 'orders:1', retryAttempts: 1, retryDelay: 0 });
+      const handle = await lock.acquire();
+      await lock.release(handle);
+      await adapter.setNX('orders:1', 'other', 5000);
+      const { recorded } = record(lock.events);
+
+      await expect(lock.acquire()).rejects.toThrow('after 2 attempts');
+      await expect(lock.extend(handle, 5000)).resolves.toBe(false);
+
+      expect(recorded[1]).toMatchObject({
+        type: 'acquisition_failed',
+        error: expect.stringContaining('after 2 attempts'),
+        metadata: { attempts: 2 },
+      });
+      expect(recorded[2]).toMatchObject({
+        type: 'extension_failed',
+        error: 'Lock "orders:1" is no longer held',
+      });
+    });
+
+    it('should emit the reason of a failed tryAcquire()', async () => {
+      const adapter = new MemoryAdapter();
+      await adapter.setNX('orders:1', 'other', 5000);
+      const lock = new SimpleLock({ adapter, key: 'orders:1' });
+      const { recorded } = record(lock.events);
+
+      await lock.tryAcquire();
+
+      expect(recorded.map(event => event.type)).toEqual([
+        'acquisition_started',
+        'acquisition_failed',
+      ]);
+      expect(recorded[1]).toMatchObject({
+        metadata: { reason: 'held', attempts: 1 },
+        error: 'Lock "orders:1" not acquired: held',
+      });
+    });
+
+    it('should emit the opening and closing of the circuit breaker', async () => {
+      const adapter = new MemoryAdapter();
+      const lock = new SimpleLock({
+        adapter,
+        key: 'orders:1',
+        retryAttempts: 0,
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 20 },
+      });
+      const { recorded } = record(lock.events);
+      const setNX = vi.spyOn(adapter, 'setNX').mockRejectedValueOnce(new Error('Redis error'));
+
+      await expect(lock.acquire()).rejects.toThrow();
+      await new Promise(resolve => setTimeout(resolve, 30));
+      await lock.acquire();
+
+      expect(setNX).toHaveBeenCalledTimes(2);
+      const circuit = recorded.filter(event => event.type.startsWith('circuit_'));
+      expect(circuit).toMatchObject([
+        { type: 'circuit_opened', error: 'Redis failing', metadata: { failures: 1 } },
+        { type: 'circuit_closed', duration: expect.any(Number) },
+      ]);
+    });
+
+    it('should emit a lost lock when auto-extension fails inside using()', async () => {
+      const adapter = new MemoryAdapter();
+      const lock = new SimpleLock({ adapter, key: 'orders:1', ttl: 200 });
+      const { recorded } = record(lock.events);
+
+      await lock.using(async signal => {
+        const holder = await adapter.inspect('orders:1');
+        await adapter.delIfMatch('orders:1', holder!.value);
+        await adapter.setNX('orders:1', 'other', 5000);
+        await new Promise(resolve => signal.addEventListener('abort', resolve));
+      });
+
+      const lost = recorded.find(event => event.type === 'lost');
+      expect(lost).toMatchObject({ key: 'orders:1', cause: expect.any(Error) });
+      expect(lost!.handle?.key).toBe('orders:1');
+      expect(recorded.map(event => event.type)).toContain('extension_failed');
+    });
+
+    it('should share an emitter passed in the config', async () => {
+      const events = new LockEventEmitter();
+      const { recorded } = record(events);
+      const adapter = new MemoryAdapter();
+      const first = new SimpleLock({ adapter, key: 'orders:1', events });
+      const second = new SimpleLock({ adapter, key: 'orders:2', events });
+
+      expect(first.events).toBe(events);
+      await first.release(await first.acquire());
+      await second.release(await second.acquire());
+
+      expect(recorded.filter(event => event.type === 'released').map(event => event.key)).toEqual([
+        'orders:1',
+        'orders:2',
+      ]);
+    });
+  });
+
+  describe('LeanSimpleLock', () => {
+    it('should emit once its emitter is accessed', async () => {
+      const lock = new LeanSimpleLock({ adapter: new MemoryAdapter(), key: 'orders:1' });
+      await lock.release(await lock.acquire());
+
+      const { types } = record(lock.events);
+      const handle = await lock.acquire();
+      await lock.extend(handle, 5000);
+      await lock.release(handle);
+
+      expect(types()).toEqual([
+        'acquisition_started',
+        'acquisition_success',
+        'extended',
+        'released',
+      ]);
+    });
+  });
+
+  describe('RedLock', () => {
+    it('should emit the acquisition and release with node counts', async () => {
+      const lock = new RedLock({
+        adapters: [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()],
+        key: 'orders:1',
+      });
+      const { recorded, types } = record(lock.events);
+
+      const handle = await lock.acquire();
+      await lock.extend(handle, 5000);
+      await lock.release(handle);
+
+      expect(types()).toEqual([
+        'acquisition_started',
+        'acquisition_success',
+        'extended',
+        'released',
+      ]);
+      expect(recorded[1]).toMatchObject({ handle, metadata: { strategy: 'redlock' } });
+      expect(recorded[2]).toMatchObject({ metadata: { ttl: 5000, nodes: 3 } });
+      expect(recorded[3]).toMatchObject({ metadata: { released: true, nodes: 3 } });
+    });
+
+    it('should emit a quorum not reached by tryAcquire()', async () => {
+      const adapters = [new MemoryAdapter(), new MemoryAdapter(), new MemoryAdapter()];
+      await adapters[0]!.setNX('orders:1', 'other', 5000);
+      await adapters[1]!.setNX('orders:1', 'other', 5000);
+      const lock = new RedLock({ adapters, key: 'orders:1' });
+      const { recorded } = record(lock.events);
+
+      await lock.tryAcquire();
+
+      expect(recorded[1]).toMatchObject({
+        type: 'acquisition_failed',
+        metadata: { reason: 'quorum-not-reached', successCount: 1, quorum: 2 },
+      });
+    });
+  });
+
+  describe('LockManager', () => {
+    it('should emit the events of the locks it creates', async () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()] });
+      const { types } = record(manager.events);
+
+      expect(manager.createSimpleLock('orders:1').events).toBe(manager.events);
+      const handle = await manager.acquireLock('orders:1');
+      await manager.releaseLock(handle);
+
+      expect(types()).toEqual(['acquisition_started', 'acquisition_success', 'released']);
+    });
+
+    it('should pass every event to monitoring.onEvent', async () => {
+      const onEvent = vi.fn();
+      const manager = new LockManager({ nodes: [new MemoryAdapter()], monitoring: { onEvent } });
+
+      await manager.tryAcquire('orders:1');
+
+      expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+        'acquisition_started',
+        'acquisition_success',
+      ]);
+    });
+
+    it('should emit an event per key of a batch', async () => {
+      const manager = new LockManager({ nodes: [new MemoryAdapter()] });
+      const { recorded } = record(manager.events);
+
+      const handles = await manager.acquireBatch(['orders:2', 'orders:1']);
+      await manager.releaseBatch(handles);
+
+      expect(recorded.map(event => `${event.type} ${event.key}`)).toEqual([
+        'acquisition_started orders:1',
+        'acquisition_started orders:2',
+        'acquisition_success orders:1',
+        'acquisition_success orders:2',
+        'released orders:1',
+        'released orders:2',
+      ]);
+      expect(recorded[2]).toMatchObject({ handle: handles[0], metadata: { batch: 2 } });
+    });
+  });
+});
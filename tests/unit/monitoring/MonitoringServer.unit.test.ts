@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MonitoringServer } from '../../../src/monitoring/MonitoringServer.js';
+import { HealthChecker } from '../../../src/monitoring/HealthChecker.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+import type { LockHandle } from '../../../src/types/locks.js';
+
+describe('MonitoringServer', () => {
+  let server: MonitoringServer | undefined;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+  });
+
+  const handle: LockHandle = {
+    id: 'handle-1',
+    key: 'orders:1',
+    value: 'secret-token',
+    acquiredAt: 1000,
+    ttl: 5000,
+  };
+
+  const start = async (nodes: MemoryAdapter[], quorum: number) => {
+    const healthChecker = new HealthChecker();
+    nodes.forEach((node, index) => healthChecker.registerAdapter(`node-${index}`, node));
+    server = new MonitoringServer({
+      port: 0,
+      healthChecker,
+      healthCheckInterval: 60_000,
+      quorum,
+      metrics: () => 'redlock_locks_active 1',
+      locks: () => [handle],
+    });
+    const { host, port } = await server.start();
+    return (path: string, init?: RequestInit) => fetch(`http://${host}:${port}${path}`, init);
+  };
+
+  it('should bind to localhost by default', async () => {
+    await start([new MemoryAdapter()], 1);
+
+    expect(server!.address?.host).toBe('127.0.0.1');
+  });
+
+  it('should serve metrics and active locks without their values', async () => {
+    const request = await start([new MemoryAdapter()], 1);
+
+    const metrics = await request('/metrics');
+    expect(metrics.status).toBe(200);
+    expect(metrics.headers.get('content-type')).toContain('text/plain');
+    expect(await metrics.text()).toBe('redlock_locks_active 1');
+
+    const locks = await request('/locks');
+    expect(await locks.json()).toEqual([
+      { id: 'handle-1', key: 'orders:1', acquiredAt: 1000, ttl: 5000 },
+    ]);
+  });
+
+  it('should report health of every node and readiness by quorum', async () => {
+    const failing = new MemoryAdapter();
+    vi.spyOn(failing, 'setNX').mockRejectedValue(new Error('Connection lost'));
+    const request = await start([new MemoryAdapter(), new MemoryAdapter(), failing], 2);
+
+    const health = await request('/health');
+    expect(health.status).toBe(503);
+    const body = await health.json();
+    expect(body.overall).toBe(false);
+    expect(body.adapters.map((adapter: any) => adapter.status.healthy)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+
+    const ready = await request('/ready');
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toEqual({ ready: true, healthyNodes: 2, quorum: 2 });
+  });
+
+  it('should reject unknown routes and methods', async () => {
+    const request = await start([new MemoryAdapter()], 1);
+
+    expect((await request('/unknown')).status).toBe(404);
+    const post = await request('/metrics', { method: 'POST' });
+    expect(post.status).toBe(405);
+    expect(post.headers.get('allow')).toBe('GET, HEAD');
+  });
+
+  it('should stop listening on stop()', async () => {
+    const request = await start([new MemoryAdapter()], 1);
+    await server!.stop();
+
+    expect(server!.address).toBeNull();
+    await expect(request('/metrics')).rejects.toThrow();
+  });
+
+  it('should validate its configuration', () => {
+    const config = {
+      port: 0,
+      healthChecker: new HealthChecker(),
+      healthCheckInterval: 1000,
+      quorum: 1,
+      metrics: () => '',
+      locks: () => [],
+    };
+
+    expect(() => new MonitoringServer({ ...config, port: 70000 })).toThrow(
+      'Monitoring port must be an integer between 0 and 65535'
+    );
+    expect(() => new MonitoringServer({ ...config, healthCheckInterval: 0 })).toThrow(
+      'Health check interval must be a positive integer'
+    );
+  });
+});
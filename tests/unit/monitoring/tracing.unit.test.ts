@@ -0,0 +1,250 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AsyncLocalStorage } from 'async_hooks';
+import { traced, SPAN_NAMES, SPAN_ATTRIBUTES } from '../../../src/monitoring/tracing.js';
+import { SimpleLock } from '../../../src/locks/SimpleLock.js';
+import { RedLock } from '../../../src/locks/RedLock.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+
+interface RecordedSpan {
+  name: string;
+  attributes: Record<string, unknown>;
+  parent: RecordedSpan | undefined;
+  startTime: number | undefined;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+}
+
+/**
+ * In-memory tracer with AsyncLocalStorage context, like the OpenTelemetry SDK
+ */
+const createTracer = () => {
+  const context = new AsyncLocalStorage<RecordedSpan>();
+  const spans: RecordedSpan[] = [];
+
+  const tracer = {
+    startActiveSpan(name: string, options: any, fn: (span: any) => unknown) {
+      const recorded: RecordedSpan = {
+        name,
+        attributes: { ...options.attributes },
+        parent: context.getStore(),
+        startTime: options.startTime,
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+
+      const span = {
+        setAttribute(key: string, value: unknown) {
+          recorded.attributes[key] = value;
+          return span;
+        },
+        setAttributes(attributes: Record<string, unknown>) {
+          Object.assign(recorded.attributes, attributes);
+          return span;
+        },
+        setStatus(status: { code: number; message?: string }) {
+          recorded.status = status;
+          return span;
+        },
+        recordException(exception: Error) {
+          recorded.exceptions.push(exception);
+        },
+        end() {
+          recorded.ended = true;
+        },
+      };
+      return context.run(recorded, () => fn(span));
+    },
+  };
+
+  return {
+    tracer,
+    spans,
+    active: () => context.getStore(),
+    named: (name: string) => spans.filter(span => span.name === name),
+  };
+};
+
+describe('Tracing', () => {
+  describe('traced', () => {
+    it('should run the operation without a span when no tracer is configured', async () => {
+      const operation = vi.fn(async () => 'result');
+
+      await expect(traced(undefined, 'op', {}, operation)).resolves.toBe('result');
+      expect(operation).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should end the span, drop undefined attributes and record failures', async () => {
+      const { tracer, spans } = createTracer();
+
+      await expect(
+        traced(tracer, 'op', { attributes: { a: 1, b: undefined } }, async () => {
+          throw new Error('Connection lost');
+        })
+      ).rejects.toThrow('Connection lost');
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0]!.attributes).toEqual({ a: 1 });
+      expect(spans[0]!.status).toEqual({ code: 2, message: 'Connection lost' });
+      expect(spans[0]!.exceptions[0]?.message).toBe('Connection lost');
+      expect(spans[0]!.ended).toBe(true);
+    });
+
+    it('should drop undefined attributes set by the operation', async () => {
+      const { tracer, spans } = createTracer();
+
+      await traced(tracer, 'op', {}, async span => {
+        span?.setAttributes({ a: 1, b: undefined });
+        span?.setAttribute('c', undefined as unknown as string);
+        span?.setAttribute('d', true);
+      });
+
+      expect(spans[0]!.attributes).toStrictEqual({ a: 1, d: true });
+    });
+  });
+
+  describe('SimpleLock', () => {
+    it('should trace acquire with a child span per attempt', async () => {
+      const { tracer, named } = createTracer();
+      const adapter = new MemoryAdapter();
+      await adapter.setNX('orders:1', 'other', 30);
+      const lock = new SimpleLock({
+        adapter,
+        key: 'orders:1',
+        retryAttempts: 10,
+        retryDelay: 10,
+        tracer,
+      });
+
+      const handle = await lock.acquire();
+
+      const [acquire] = named(SPAN_NAMES.ACQUIRE);
+      const attempts = named(SPAN_NAMES.ATTEMPT);
+      expect(acquire!.attributes).toMatchObject({
+        [SPAN_ATTRIBUTES.KEY]: 'orders:1',
+        [SPAN_ATTRIBUTES.STRATEGY]: 'simple',
+        [SPAN_ATTRIBUTES.ACQUIRED]: true,
+        [SPAN_ATTRIBUTES.ATTEMPTS]: handle.metadata?.attempts,
+        [SPAN_ATTRIBUTES.CIRCUIT_BREAKER_STATE]: 'closed',
+      });
+      expect(attempts.length).toBe(handle.metadata?.attempts);
+      expect(attempts.length).toBeGreaterThan(1);
+      expect(attempts.every(attempt => attempt.parent === acquire)).toBe(true);
+      expect(attempts.map(attempt => attempt.attributes[SPAN_ATTRIBUTES.ACQUIRED]).at(-1)).toBe(
+        true
+      );
+      expect(attempts[0]!.attributes[SPAN_ATTRIBUTES.ACQUIRED]).toBe(false);
+    });
+
+    it('should mark a failed acquisition on its span', async () => {
+      const { tracer, named } = createTracer();
+      const adapter = new MemoryAdapter();
+      await adapter.setNX('orders:1', 'other', 5000);
+      const lock = new SimpleLock({
+        adapter,
+        key: 'orders:1',
+        retryAttempts: 1,
+        retryDelay: 0,
+        tracer,
+      });
+
+      await expect(lock.acquire()).rejects.toThrow('after 2 attempts');
+
+      const [acquire] = named(SPAN_NAMES.ACQUIRE);
+      expect(acquire!.attributes[SPAN_ATTRIBUTES.ACQUIRED]).toBe(false);
+      expect(acquire!.attributes[SPAN_ATTRIBUTES.ATTEMPTS]).toBe(2);
+      expect(acquire!.status?.code).toBe(2);
+      expect(acquire!.ended).toBe(true);
+    });
+
+    it('should run using() routines in the context of the using span', async () => {
+      const { tracer, named, active } = createTracer();
+      const lock = new SimpleLock({ adapter: new MemoryAdapter(), key: 'orders:1', tracer });
+
+      const activeInRoutine = await lock.using(async () => active());
+
+      const [using] = named(SPAN_NAMES.USING);
+      expect(activeInRoutine).toBe(using);
+      expect(named(SPAN_NAMES.ACQUIRE)[0]!.parent).toBe(using);
+      expect(named(SPAN_NAMES.RELEASE)[0]!.parent).toBe(using);
+      expect(named(SPAN_NAMES.RELEASE)[0]!.attributes[SPAN_ATTRIBUTES.RELEASED]).toBe(true);
+      expect(using!.ended).toBe(true);
+    });
+
+    it('should trace extend', async () => {
+      const { tracer, named } = createTracer();
+      const lock = new SimpleLock({ adapter: new MemoryAdapter(), key: 'orders:1', tracer });
+      const handle = await lock.acquire();
+
+      await lock.extend(handle, 10_000);
+
+      expect(named(SPAN_NAMES.EXTEND)[0]!.attributes).toMatchObject({
+        [SPAN_ATTRIBUTES.TTL]: 10_000,
+        [SPAN_ATTRIBUTES.EXTENDED]: true,
+      });
+    });
+
+    it('should trace each auto-extension round inside using()', async () => {
+      const { tracer, named } = createTracer();
+      const lock = new SimpleLock({
+        adapter: new MemoryAdapter(),
+        key: 'orders:1',
+        ttl: 1500,
+        tracer,
+      });
+
+      await lock.using(async () => {
+        await new Promise(resolve => setTimeout(resolve, 1300));
+      });
+
+      const [using] = named(SPAN_NAMES.USING);
+      const rounds = named(SPAN_NAMES.AUTO_EXTEND);
+      expect(rounds).toHaveLength(1);
+      expect(rounds[0]!.parent).toBe(using);
+      expect(rounds[0]!.startTime).toEqual(expect.any(Number));
+      expect(rounds[0]!.attributes).toMatchObject({
+        [SPAN_ATTRIBUTES.KEYS]: ['orders:1'],
+        [SPAN_ATTRIBUTES.EXTENDED]: true,
+      });
+    });
+  });
+
+  describe('RedLock', () => {
+    it('should trace every node of an attempt with the quorum result', async () => {
+      const { tracer, named } = createTracer();
+      const failing = new MemoryAdapter();
+      vi.spyOn(failing, 'setNX').mockRejectedValue(new Error('Connection lost'));
+      const lock = new RedLock({
+        adapters: [new MemoryAdapter(), failing, new MemoryAdapter()],
+        key: 'orders:1',
+        tracer,
+      });
+
+      await lock.acquire();
+
+      const [acquire] = named(SPAN_NAMES.ACQUIRE);
+      const [attempt] = named(SPAN_NAMES.ATTEMPT);
+      const nodes = named(SPAN_NAMES.NODE_ACQUIRE);
+      expect(acquire!.attributes).toMatchObject({
+        [SPAN_ATTRIBUTES.STRATEGY]: 'redlock',
+        [SPAN_ATTRIBUTES.QUORUM]: 2,
+        [SPAN_ATTRIBUTES.ATTEMPTS]: 1,
+      });
+      expect(attempt!.parent).toBe(acquire);
+      expect(attempt!.attributes[SPAN_ATTRIBUTES.NODES_SUCCEEDED]).toBe(2);
+      expect(nodes.map(node => node.attributes[SPAN_ATTRIBUTES.NODE])).toEqual([
+        'node-0',
+        'node-1',
+        'node-2',
+      ]);
+      expect(nodes.every(node => node.parent === attempt)).toBe(true);
+      expect(nodes.map(node => node.attributes[SPAN_ATTRIBUTES.ACQUIRED])).toEqual([
+        true,
+        false,
+        true,
+      ]);
+      expect(nodes[1]!.status?.message).toBe('Connection lost');
+    });
+  });
+});
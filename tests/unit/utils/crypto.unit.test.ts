@@ -1,10 +1,13 @@
 import { describe, it, expect } from 'vitest';
+import { hostname } from 'os';
 import {
   generateLockValue,
   generateLockId,
   safeCompare,
   createLockValueWithMetadata,
   parseLockValue,
+  createLockValueWithOwner,
+  parseLockOwner,
   isValidLockValue,
 } from '../../../src/utils/crypto.js';
 
@@ -141,6 +144,56 @@ describe('Crypto Utilities', () => {
     });
   });
 
+  describe('createLockValueWithOwner', () => {
+    it('should append the owner to a random token', () => {
+      const value = createLockValueWithOwner({ service: 'billing' });
+
+      expect(value).toMatch(/^[0-9a-f]{32}\|\{/);
+      expect(isValidLockValue(value)).toBe(true);
+      expect(createLockValueWithOwner({ service: 'billing' })).not.toBe(value);
+    });
+
+    it('should default hostname and pid to the current process', () => {
+      const value = createLockValueWithOwner({ hostname: 'web-1' });
+
+      expect(parseLockOwner(value)).toEqual({ hostname: 'web-1', pid: process.pid });
+      expect(parseLockOwner(createLockValueWithOwner())?.hostname).toBe(hostname());
+    });
+
+    it('should reject owners that do not fit into a lock value', () => {
+      expect(() => createLockValueWithOwner({ tags: { note: 'x'.repeat(256) } })).toThrow(
+        'encoded lock value must be at most 256 characters'
+      );
+    });
+  });
+
+  describe('parseLockOwner', () => {
+    it('should round-trip every owner field', () => {
+      const owner = {
+        hostname: 'web-1',
+        pid: 42,
+        service: 'billing',
+        jobId: 'invoice-42',
+        tags: { region: 'eu' },
+      };
+
+      expect(parseLockOwner(createLockValueWithOwner(owner))).toEqual(owner);
+    });
+
+    it('should return null for values without owner metadata', () => {
+      expect(parseLockOwner(generateLockValue())).toBeNull();
+      expect(parseLockOwner(createLockValueWithMetadata('server-1'))).toBeNull();
+      expect(parseLockOwner('abc|not json')).toBeNull();
+      expect(parseLockOwner('abc|[1,2]')).toBeNull();
+    });
+
+    it('should drop fields of the wrong type', () => {
+      expect(parseLockOwner('abc|{"pid":"42","service":"billing","tags":{"n":1}}')).toEqual({
+        service: 'billing',
+      });
+    });
+  });
+
   describe('isValidLockValue', () => {
     it('should accept valid lock values', () => {
       expect(isValidLockValue(generateLockValue())).toBe(true);
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { extensionScheduler } from '../../../src/utils/extension-scheduler.js';
+import { executeWithSingleLockExtension } from '../../../src/utils/auto-extension.js';
+import { SimpleLock } from '../../../src/locks/SimpleLock.js';
+import { MemoryAdapter } from '../../../src/adapters/MemoryAdapter.js';
+
+const EXTENDED = { resultCode: 1, actualTTL: 1000, message: 'Extended successfully' };
+
+describe('Extension Scheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const createAdapter = () => {
+    const adapter = new MemoryAdapter();
+    const atomicExtend = vi.spyOn(adapter, 'atomicExtend').mockResolvedValue(EXTENDED);
+    return { adapter, atomicExtend };
+  };
+
+  it('should share one scheduler per adapter', () => {
+    const adapter = new MemoryAdapter();
+
+    expect(extensionScheduler(adapter)).toBe(extensionScheduler(adapter));
+    expect(extensionScheduler(adapter)).not.toBe(extensionScheduler(new MemoryAdapter()));
+  });
+
+  it('should send extensions whose windows are open together when the first is due', async () => {
+    vi.useFakeTimers();
+    const { adapter, atomicExtend } = createAdapter();
+    const scheduler = extensionScheduler(adapter);
+
+    const first = scheduler.schedule(['a'], ['v1'], 100, 1000, 800, 100);
+    const second = scheduler.schedule(['b'], ['v2'], 100, 1000, 850, 100);
+    const third = scheduler.schedule(['c'], ['v3'], 100, 1000, 1500, 100);
+
+    await vi.advanceTimersByTimeAsync(799);
+    expect(atomicExtend).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(atomicExtend).toHaveBeenCalledTimes(2);
+    expect(atomicExtend).toHaveBeenCalledWith('a', 'v1', 100, 1000);
+    expect(atomicExtend).toHaveBeenCalledWith('b', 'v2', 100, 1000);
+    await expect(first.result).resolves.toEqual([EXTENDED]);
+    await expect(second.result).resolves.toEqual([EXTENDED]);
+    expect(scheduler.size).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(700);
+    expect(atomicExtend).toHaveBeenCalledWith('c', 'v3', 100, 1000);
+    await expect(third.result).resolves.toEqual([EXTENDED]);
+  });
+
+  it('should extend the keys of one extension with a single batch script', async () => {
+    vi.useFakeTimers();
+    const adapter = new MemoryAdapter();
+    const batchAtomicExtend = vi.spyOn(adapter, 'batchAtomicExtend');
+    await adapter.batchSetNX(['a', 'b'], ['v1', 'v2'], 1000);
+
+    const extension = extensionScheduler(adapter).schedule(
+      ['a', 'b'],
+      ['v1', 'v2'],
+      100,
+      1000,
+      0,
+      0
+    );
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(batchAtomicExtend).toHaveBeenCalledWith(['a', 'b'], ['v1', 'v2'], 100, 1000);
+    expect((await extension.result)?.map(result => result.resultCode)).toEqual([1, 1]);
+  });
+
+  it('should drop cancelled extensions and reject failed ones', async () => {
+    vi.useFakeTimers();
+    const { adapter, atomicExtend } = createAdapter();
+    const scheduler = extensionScheduler(adapter);
+
+    const cancelled = scheduler.schedule(['a'], ['v1'], 100, 1000, 500, 0);
+    cancelled.cancel();
+    await expect(cancelled.result).resolves.toBeNull();
+
+    atomicExtend.mockRejectedValueOnce(new Error('Connection lost'));
+    const failed = scheduler.schedule(['b'], ['v2'], 100, 1000, 500, 0);
+    const rejection = expect(failed.result).rejects.toThrow('Connection lost');
+    await vi.advanceTimersByTimeAsync(500);
+
+    await rejection;
+    expect(atomicExtend).toHaveBeenCalledTimes(1);
+    expect(scheduler.size).toBe(0);
+  });
+
+  it('should batch the extensions of concurrent using() calls', async () => {
+    const { adapter, atomicExtend } = createAdapter();
+    const extendedAt: number[] = [];
+    atomicExtend.mockImplementation(async () => {
+      extendedAt.push(Date.now());
+      return EXTENDED;
+    });
+
+    const hold = async (key: string, startDelay: number) => {
+      await new Promise(resolve => setTimeout(resolve, startDelay));
+      const lock = new SimpleLock({ adapter, key, ttl: 1500 });
+      const handle = await lock.acquire();
+      return executeWithSingleLockExtension(lock, handle, 1500, async () => {
+        await new Promise(resolve => setTimeout(resolve, 1400 - startDelay));
+      });
+    };
+
+    await Promise.all([hold('ingest:1', 0), hold('ingest:2', 20), hold('ingest:3', 40)]);
+
+    expect(extendedAt).toHaveLength(3);
+    expect(Math.max(...extendedAt) - Math.min(...extendedAt)).toBeLessThan(15);
+    expect(extensionScheduler(adapter).size).toBe(0);
+  });
+});
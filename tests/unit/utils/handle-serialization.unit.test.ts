@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { serializeHandle, deserializeHandle } from '../../../src/utils/handle-serialization.js';
+import type { LockHandle } from '../../../src/types/locks.js';
+
+const baseHandle: LockHandle = {
+  id: '1703123456789-a1b2c3d4e5f6',
+  key: 'jobs:42',
+  value: 'a'.repeat(32),
+  acquiredAt: 1703123456789,
+  ttl: 30000,
+  metadata: { attempts: 2, acquisitionTime: 15, strategy: 'simple' },
+};
+
+describe('Handle Serialization', () => {
+  describe('round trip', () => {
+    it('should keep the fields needed to extend and release', () => {
+      const handle = deserializeHandle(serializeHandle({ ...baseHandle, fencingToken: 7 }));
+
+      expect(handle).toMatchObject({
+        id: baseHandle.id,
+        key: baseHandle.key,
+        value: baseHandle.value,
+        acquiredAt: baseHandle.acquiredAt,
+        ttl: baseHandle.ttl,
+        fencingToken: 7,
+        metadata: { strategy: 'simple' },
+      });
+    });
+
+    it('should carry the RedLock node list in the strategy tag', () => {
+      const serialized = serializeHandle({
+        ...baseHandle,
+        metadata: {
+          attempts: 1,
+          acquisitionTime: 3,
+          strategy: 'redlock',
+          nodes: ['node-0', 'node-2'],
+        },
+      });
+
+      expect(JSON.parse(serialized).strategy).toEqual({
+        type: 'redlock',
+        nodes: ['node-0', 'node-2'],
+      });
+      expect(deserializeHandle(serialized).metadata).toMatchObject({
+        strategy: 'redlock',
+        nodes: ['node-0', 'node-2'],
+      });
+    });
+
+    it('should keep read-write modes, semaphore limits and hold counts', () => {
+      const readHandle = deserializeHandle(
+        serializeHandle({
+          ...baseHandle,
+          metadata: { attempts: 1, acquisitionTime: 1, strategy: 'read-write', mode: 'read' },
+        })
+      );
+      const semaphoreHandle = deserializeHandle(
+        serializeHandle({
+          ...baseHandle,
+          metadata: { attempts: 1, acquisitionTime: 1, strategy: 'semaphore', limit: 3 },
+        })
+      );
+      const reentrantHandle = deserializeHandle(
+        serializeHandle({
+          ...baseHandle,
+          metadata: { attempts: 1, acquisitionTime: 1, strategy: 'simple', holdCount: 2 },
+        })
+      );
+
+      expect(readHandle.metadata?.mode).toBe('read');
+      expect(semaphoreHandle.metadata?.limit).toBe(3);
+      expect(reentrantHandle.metadata?.holdCount).toBe(2);
+    });
+
+    it('should keep the hierarchical strategy', () => {
+      const handle = deserializeHandle(
+        serializeHandle({
+          ...baseHandle,
+          metadata: { attempts: 1, acquisitionTime: 1, strategy: 'hierarchical' },
+        })
+      );
+
+      expect(handle.metadata?.strategy).toBe('hierarchical');
+    });
+
+    it('should keep the staleness threshold of takeover-enabled handles', () => {
+      const handle = deserializeHandle(
+        serializeHandle({
+          ...baseHandle,
+          metadata: { attempts: 1, acquisitionTime: 1, strategy: 'simple', staleAfter: 5000 },
+        })
+      );
+
+      expect(handle.metadata).toMatchObject({ strategy: 'simple', staleAfter: 5000 });
+    });
+  });
+
+  describe('validation', () => {
+    const withFields = (fields: Record<string, unknown>) =>
+      JSON.stringify({ ...JSON.parse(serializeHandle(baseHandle)), ...fields });
+
+    it('should reject malformed input', () => {
+      expect(() => deserializeHandle('{not json')).toThrow(
+        'Invalid serialized lock handle: not valid JSON'
+      );
+      expect(() => deserializeHandle('null')).toThrow('expected an object');
+      expect(() => deserializeHandle(withFields({ version: 2 }))).toThrow('unsupported version 2');
+    });
+
+    it('should reject missing or invalid fields', () => {
+      expect(() => deserializeHandle(withFields({ key: '' }))).toThrow(
+        'key must be a non-empty string'
+      );
+      expect(() => deserializeHandle(withFields({ ttl: -1 }))).toThrow(
+        'ttl must be a non-negative integer'
+      );
+      expect(() => deserializeHandle(withFields({ value: 'x'.repeat(300) }))).toThrow(
+        'value must be at most 256 characters'
+      );
+    });
+
+    it('should reject invalid strategy tags', () => {
+      expect(() => deserializeHandle(withFields({ strategy: { type: 'mutex' } }))).toThrow(
+        'unknown strategy "mutex"'
+      );
+      expect(() =>
+        deserializeHandle(withFields({ strategy: { type: 'redlock', nodes: ['redis-1'] } }))
+      ).toThrow('RedLock nodes must be a non-empty list of node IDs');
+      expect(() =>
+        deserializeHandle(withFields({ strategy: { type: 'simple', staleAfter: 0 } }))
+      ).toThrow('staleAfter must be a positive integer');
+    });
+
+    it('should refuse to serialize RedLock handles without nodes', () => {
+      expect(() =>
+        serializeHandle({
+          ...baseHandle,
+          metadata: { attempts: 1, acquisitionTime: 1, strategy: 'redlock' },
+        })
+      ).toThrow('RedLock handle has no node list');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createRetrySchedule,
+  retryWindow,
+  validateRetryStrategy,
+} from '../../../src/utils/retry.js';
+
+const BASE_DELAY = 100;
+
+describe('Retry Strategies', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const delaysFor = (...args: Parameters<typeof createRetrySchedule>) => {
+    const nextDelay = createRetrySchedule(...args);
+    return [1, 2, 3, 4].map(attempt => nextDelay(attempt));
+  };
+
+  describe('createRetrySchedule', () => {
+    it('should use the constant retry delay without a strategy', () => {
+      expect(delaysFor(undefined, BASE_DELAY)).toEqual([100, 100, 100, 100]);
+      expect(delaysFor({ type: 'constant', delay: 30 }, BASE_DELAY)).toEqual([30, 30, 30, 30]);
+    });
+
+    it('should grow linearly up to the cap', () => {
+      expect(delaysFor({ type: 'linear' }, BASE_DELAY)).toEqual([100, 200, 300, 400]);
+      expect(delaysFor({ type: 'linear', increment: 50, maxDelay: 180 }, BASE_DELAY)).toEqual([
+        100, 150, 180, 180,
+      ]);
+    });
+
+    it('should grow exponentially up to the cap', () => {
+      expect(delaysFor({ type: 'exponential' }, BASE_DELAY)).toEqual([100, 200, 400, 800]);
+      expect(delaysFor({ type: 'exponential', factor: 3, maxDelay: 500 }, BASE_DELAY)).toEqual([
+        100, 300, 500, 500,
+      ]);
+    });
+
+    it('should pick full-jitter delays between zero and the exponential delay', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(delaysFor({ type: 'full-jitter' }, BASE_DELAY)).toEqual([50, 100, 200, 400]);
+    });
+
+    it('should base decorrelated-jitter delays on the previous delay', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+
+      expect(delaysFor({ type: 'decorrelated-jitter', maxDelay: 2000 }, BASE_DELAY)).toEqual([
+        300, 900, 2000, 2000,
+      ]);
+    });
+
+    it('should pass the attempt and previous delay to custom functions', () => {
+      const strategy = vi.fn(({ attempt }: { attempt: number }) => attempt * 10);
+
+      expect(delaysFor(strategy, BASE_DELAY)).toEqual([10, 20, 30, 40]);
+      expect(strategy).toHaveBeenCalledWith({ attempt: 2, previousDelay: 10, baseDelay: 100 });
+    });
+
+    it('should never return negative or invalid delays', () => {
+      expect(delaysFor(() => -5, BASE_DELAY)).toEqual([0, 0, 0, 0]);
+      expect(delaysFor(() => Number.NaN, BASE_DELAY)).toEqual([100, 100, 100, 100]);
+    });
+  });
+
+  describe('retryWindow', () => {
+    it('should add up the delays between all attempts', () => {
+      expect(retryWindow(undefined, BASE_DELAY, 3)).toBe(300);
+      expect(retryWindow({ type: 'exponential' }, BASE_DELAY, 3)).toBe(700);
+      expect(retryWindow(undefined, BASE_DELAY, 0)).toBe(0);
+    });
+  });
+
+  describe('validateRetryStrategy', () => {
+    it('should accept built-in and custom strategies', () => {
+      expect(() => validateRetryStrategy({ type: 'exponential', factor: 2 })).not.toThrow();
+      expect(() => validateRetryStrategy(() => 10)).not.toThrow();
+    });
+
+    it('should reject invalid parameters', () => {
+      expect(() => validateRetryStrategy({ type: 'linear', increment: -1 })).toThrow(
+        'Retry strategy increment must be a non-negative integer'
+      );
+      expect(() => validateRetryStrategy({ type: 'full-jitter', factor: 0.5 })).toThrow(
+        'Retry strategy factor must be at least 1'
+      );
+      expect(() => validateRetryStrategy({ type: 'random' } as never)).toThrow(
+        'Unknown retry strategy type "random"'
+      );
+    });
+  });
+});
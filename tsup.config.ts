@@ -2,7 +2,10 @@ import { defineConfig } from 'tsup';
 
 export default defineConfig({
   // Entry points
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    cli: 'src/cli/bin.ts',
+  },
 
   // Output formats
   format: ['esm', 'cjs'],